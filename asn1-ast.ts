@@ -0,0 +1,528 @@
+import { ASN1Token } from './asn1-lexer';
+
+// ASN.1 抽象语法树定义
+// 所有节点都带有源文本范围（start 包含，end 不包含），便于格式化、高亮与诊断定位
+
+export interface ASN1SourceRange {
+	start: number;
+	end: number;
+}
+
+// 注释
+export interface ASN1Comment extends ASN1SourceRange {
+	kind: 'comment';
+	text: string;
+	block: boolean; // 是否为 /* */ 形式
+}
+
+// 解析错误（解析器不会抛出，而是收集错误并继续）
+export interface ASN1ParseError extends ASN1SourceRange {
+	message: string;
+}
+
+// 整个代码块
+export interface ASN1Document extends ASN1SourceRange {
+	kind: 'document';
+	source: string;
+	modules: ASN1Module[];
+	comments: ASN1Comment[];
+	errors: ASN1ParseError[];
+}
+
+export type ASN1TagDefault = 'EXPLICIT' | 'IMPLICIT' | 'AUTOMATIC';
+
+// 模块定义；没有 DEFINITIONS 头的代码片段会被放入一个隐式模块
+export interface ASN1Module extends ASN1SourceRange {
+	kind: 'module';
+	name: string;
+	nameRange?: ASN1SourceRange;
+	implicit: boolean;
+	headerTokens: ASN1Token[];          // 从模块名到 BEGIN 的全部令牌
+	definitiveIdentifier?: ASN1Value;   // 模块名后的 { ... }
+	encodingReference?: string;         // XER INSTRUCTIONS 之类
+	tagDefault?: ASN1TagDefault;
+	extensibilityImplied: boolean;
+	exportsTokens?: ASN1Token[];        // EXPORTS ... ; 的原始令牌
+	exports?: ASN1Exports;              // 未写 EXPORTS 时导出全部定义
+	imports?: ASN1Imports;
+	assignments: ASN1Assignment[];
+	endRange?: ASN1SourceRange;         // END 关键字
+}
+
+// IMPORTS ... ;
+export interface ASN1Imports extends ASN1SourceRange {
+	kind: 'imports';
+	clauses: ASN1ImportClause[];
+	invalidClause?: ASN1InvalidImportClause; // 第一个无法解析的子句及其后直到 ; 的内容
+}
+
+// 无法解析的 IMPORTS 内容，格式化时原样输出
+export interface ASN1InvalidImportClause extends ASN1SourceRange {
+	kind: 'invalid-import-clause';
+	error: ASN1ParseError;
+}
+
+// SymbolList FROM ModuleReference [AssignedIdentifier]
+export interface ASN1ImportClause extends ASN1SourceRange {
+	kind: 'import-clause';
+	symbols: ASN1ImportSymbol[];
+	moduleName: string;
+	moduleNameRange: ASN1SourceRange;
+	assignedIdentifier?: ASN1Value;
+}
+
+// EXPORTS a, B{}; 或 EXPORTS ALL;
+export interface ASN1Exports extends ASN1SourceRange {
+	kind: 'exports';
+	all: boolean;
+	symbols: ASN1ExportSymbol[];
+}
+
+export interface ASN1ExportSymbol extends ASN1SourceRange {
+	kind: 'export-symbol';
+	name: string;
+	parameterized: boolean;
+}
+
+export interface ASN1ImportSymbol extends ASN1SourceRange {
+	kind: 'import-symbol';
+	name: string;
+	parameterized: boolean; // 形如 Name{}
+}
+
+// 赋值语句
+export type ASN1Assignment =
+	| ASN1TypeAssignment
+	| ASN1ValueAssignment
+	| ASN1ValueSetAssignment
+	| ASN1ObjectClassAssignment
+	| ASN1ObjectAssignment
+	| ASN1ObjectSetAssignment
+	| ASN1InvalidAssignment;
+
+interface ASN1AssignmentBase extends ASN1SourceRange {
+	name: string;
+	nameRange: ASN1SourceRange;
+	parameters?: ASN1Parameter[]; // 参数化赋值 Name{Param, ...} ::= ...
+}
+
+// 形参：DummyReference 或 Governor : DummyReference
+export interface ASN1Parameter extends ASN1SourceRange {
+	kind: 'parameter';
+	governor?: ASN1Type;
+	name: string;
+	nameRange: ASN1SourceRange;
+}
+
+// Type ::= ...
+export interface ASN1TypeAssignment extends ASN1AssignmentBase {
+	kind: 'type-assignment';
+	type: ASN1Type;
+}
+
+// value Type ::= ...
+export interface ASN1ValueAssignment extends ASN1AssignmentBase {
+	kind: 'value-assignment';
+	type: ASN1Type;
+	value: ASN1Value;
+}
+
+// ValueSet Type ::= { ... }
+export interface ASN1ValueSetAssignment extends ASN1AssignmentBase {
+	kind: 'value-set-assignment';
+	type: ASN1Type;
+	valueSet: ASN1Value;
+}
+
+// CLASS ::= CLASS { ... } [WITH SYNTAX { ... }]
+export interface ASN1ObjectClassAssignment extends ASN1AssignmentBase {
+	kind: 'object-class-assignment';
+	objectClass: ASN1ObjectClass;
+}
+
+// object CLASS ::= { ... }
+export interface ASN1ObjectAssignment extends ASN1AssignmentBase {
+	kind: 'object-assignment';
+	objectClass: ASN1ReferenceType;
+	object: ASN1Value;
+}
+
+// ObjectSet CLASS ::= { a | b, ... }
+export interface ASN1ObjectSetAssignment extends ASN1AssignmentBase {
+	kind: 'object-set-assignment';
+	objectClass: ASN1ReferenceType;
+	objectSet: ASN1Value;
+}
+
+// 无法解析的赋值，格式化时原样保留
+export interface ASN1InvalidAssignment extends ASN1AssignmentBase {
+	kind: 'invalid-assignment';
+	error: ASN1ParseError;
+}
+
+// 信息对象类定义（X.681）
+export interface ASN1ObjectClass extends ASN1SourceRange {
+	kind: 'object-class';
+	fields: ASN1FieldSpec[];
+	bodyRange: ASN1SourceRange;  // 包含大括号
+	syntax?: ASN1BracedValue;    // WITH SYNTAX 后的 { ... }，格式化时原样保留
+}
+
+// 类字段 &id OBJECT IDENTIFIER UNIQUE、&Type OPTIONAL、&value &Type 等
+export interface ASN1FieldSpec extends ASN1SourceRange {
+	kind: 'field-spec';
+	name: string;                  // 包含 &
+	nameRange: ASN1SourceRange;
+	type?: ASN1Type;
+	typeFieldReference?: string;   // 可变类型值字段 &value &Type
+	unique: boolean;
+	optional: boolean;
+	defaultValue?: ASN1ActualParameter;
+	presenceRange?: ASN1SourceRange;
+}
+
+// 类型
+export type ASN1Type =
+	| ASN1BuiltinType
+	| ASN1ConstructedType
+	| ASN1CollectionType
+	| ASN1EnumeratedType
+	| ASN1ReferenceType
+	| ASN1ObjectClassFieldType
+	| ASN1InstanceOfType
+	| ASN1TaggedType;
+
+interface ASN1TypeBase extends ASN1SourceRange {
+	constraints: ASN1Constraint[];
+}
+
+// INTEGER、BOOLEAN、OCTET STRING、UTF8String 等内置类型
+export interface ASN1BuiltinType extends ASN1TypeBase {
+	kind: 'builtin-type';
+	name: string;
+	namedNumbers?: ASN1NamedNumber[]; // INTEGER { a(1) } 或 BIT STRING { b(0) }
+	definedBy?: string;               // ANY DEFINED BY 引用的成员
+	definedByRange?: ASN1SourceRange;
+}
+
+// SEQUENCE / SET / CHOICE { ... }
+export interface ASN1ConstructedType extends ASN1TypeBase {
+	kind: 'constructed-type';
+	structure: 'SEQUENCE' | 'SET' | 'CHOICE';
+	components: ASN1ComponentItem[];
+	bodyRange: ASN1SourceRange; // 包含大括号
+	extensible: boolean;        // 含有扩展标记 ...
+}
+
+// SEQUENCE OF / SET OF
+export interface ASN1CollectionType extends ASN1TypeBase {
+	kind: 'collection-type';
+	structure: 'SEQUENCE OF' | 'SET OF';
+	sizeConstraint?: ASN1Constraint; // 写在 OF 之前的约束
+	elementName?: string;            // SEQUENCE OF item Type
+	element: ASN1Type;
+}
+
+export interface ASN1EnumeratedType extends ASN1TypeBase {
+	kind: 'enumerated-type';
+	items: ASN1EnumerationItem[];
+	bodyRange: ASN1SourceRange; // 包含大括号
+	extensible: boolean;
+}
+
+// 对其它类型的引用，可带模块前缀 Module.Type 和实参列表 Type{A, {B}}
+export interface ASN1ReferenceType extends ASN1TypeBase {
+	kind: 'type-reference';
+	name: string;
+	nameRange: ASN1SourceRange;
+	moduleName?: string;
+	actualParameters?: ASN1ActualParameter[];
+}
+
+// 类字段类型 ALGORITHM.&id
+export interface ASN1ObjectClassFieldType extends ASN1TypeBase {
+	kind: 'object-class-field-type';
+	className: string;
+	classNameRange: ASN1SourceRange;
+	fieldPath: string[];
+}
+
+// INSTANCE OF TYPE-IDENTIFIER（X.681 附录 C），按 EXTERNAL 的标签编码
+export interface ASN1InstanceOfType extends ASN1TypeBase {
+	kind: 'instance-of-type';
+	className: string;
+	classNameRange: ASN1SourceRange;
+}
+
+// 实参可以是类型、值、值集合或对象集合
+export type ASN1ActualParameter = ASN1Type | ASN1Value;
+
+// [APPLICATION 1] IMPLICIT Type
+export interface ASN1TaggedType extends ASN1TypeBase {
+	kind: 'tagged-type';
+	tag: ASN1Tag;
+	inner: ASN1Type;
+}
+
+export interface ASN1Tag extends ASN1SourceRange {
+	kind: 'tag';
+	tagClass?: 'UNIVERSAL' | 'APPLICATION' | 'PRIVATE'; // 缺省为上下文相关类
+	number: string;                                      // 数字或值引用
+	mode?: 'IMPLICIT' | 'EXPLICIT';
+}
+
+// 结构体成员
+export type ASN1ComponentItem = ASN1Component | ASN1ComponentsOf | ASN1ExtensionAdditionGroup | ASN1ExtensionMarker;
+
+// 位于两个扩展标记之间（或唯一的扩展标记之后）的成员为扩展附加项，其余属于扩展根
+interface ASN1ExtensibleItem {
+	extensionAddition?: boolean;
+}
+
+export interface ASN1Component extends ASN1SourceRange, ASN1ExtensibleItem {
+	kind: 'component';
+	name: string;
+	nameRange: ASN1SourceRange;
+	type: ASN1Type;
+	optional: boolean;
+	defaultValue?: ASN1Value;
+	presenceRange?: ASN1SourceRange; // OPTIONAL 或 DEFAULT 关键字的位置
+}
+
+// COMPONENTS OF Type
+export interface ASN1ComponentsOf extends ASN1SourceRange, ASN1ExtensibleItem {
+	kind: 'components-of';
+	type: ASN1Type;
+}
+
+// 版本括号 [[ 2: a INTEGER, b BOOLEAN ]]
+export interface ASN1ExtensionAdditionGroup extends ASN1SourceRange, ASN1ExtensibleItem {
+	kind: 'extension-addition-group';
+	version?: string;
+	components: Array<ASN1Component | ASN1ComponentsOf>;
+}
+
+// ... 或 ...!Exception
+export interface ASN1ExtensionMarker extends ASN1SourceRange {
+	kind: 'extension-marker';
+	exception?: ASN1ExceptionSpec;
+}
+
+export type ASN1EnumerationItem = ASN1NamedNumber | ASN1ExtensionMarker;
+
+// name(1) 形式，用于 INTEGER、BIT STRING 和 ENUMERATED
+export interface ASN1NamedNumber extends ASN1SourceRange, ASN1ExtensibleItem {
+	kind: 'named-number';
+	name: string;
+	nameRange: ASN1SourceRange;
+	value?: ASN1Value;
+}
+
+// 约束 ( ConstraintSpec [! ExceptionSpec] )；无法识别的写法只保存原始令牌
+export interface ASN1Constraint extends ASN1SourceRange {
+	kind: 'constraint';
+	tokens: ASN1Token[];           // 包含括号在内的原始令牌
+	spec?: ASN1ConstraintSpec;
+	exception?: ASN1ExceptionSpec;
+	bare?: boolean;                // SEQUENCE SIZE (1..10) OF 中不带括号的 SIZE 约束
+}
+
+// 异常标识 !value 或 !Type : value
+export interface ASN1ExceptionSpec extends ASN1SourceRange {
+	kind: 'exception-spec';
+	type?: ASN1Type;
+	value: ASN1Value;
+}
+
+export type ASN1ConstraintSpec =
+	| ASN1ElementSetSpecs
+	| ASN1TableConstraint
+	| ASN1ContentsConstraint
+	| ASN1UserDefinedConstraint;
+
+// Root [, ... [, Additions]]
+export interface ASN1ElementSetSpecs extends ASN1SourceRange {
+	kind: 'element-set-specs';
+	root?: ASN1ElementSet;
+	extensible: boolean;
+	additions?: ASN1ElementSet;
+}
+
+// ({ObjectSet}{@component, @.component})
+export interface ASN1TableConstraint extends ASN1SourceRange {
+	kind: 'table-constraint';
+	objectSet: ASN1BracedValue;
+	componentRelations?: string[];
+}
+
+// CONTAINING Type [ENCODED BY value]
+export interface ASN1ContentsConstraint extends ASN1SourceRange {
+	kind: 'contents-constraint';
+	containing?: ASN1Type;
+	encodedBy?: ASN1Value;
+}
+
+// CONSTRAINED BY { ... }
+export interface ASN1UserDefinedConstraint extends ASN1SourceRange {
+	kind: 'user-defined-constraint';
+	tokens: ASN1Token[];
+}
+
+// 元素集合及其运算
+export type ASN1ElementSet =
+	| ASN1SetOperation
+	| ASN1ParenthesizedElementSet
+	| ASN1SingleValueConstraint
+	| ASN1ValueRangeConstraint
+	| ASN1SizeConstraint
+	| ASN1PermittedAlphabetConstraint
+	| ASN1ContainedSubtypeConstraint
+	| ASN1InnerTypeConstraint
+	| ASN1PatternConstraint
+	| ASN1PropertySettingsConstraint;
+
+// A | B、A ^ B、A EXCEPT B、ALL EXCEPT A；symbol 保留原文写法（| 或 UNION）
+export interface ASN1SetOperation extends ASN1SourceRange {
+	kind: 'set-operation';
+	operator: 'union' | 'intersection' | 'except' | 'all-except';
+	symbol: string;
+	operands: ASN1ElementSet[];
+}
+
+export interface ASN1ParenthesizedElementSet extends ASN1SourceRange {
+	kind: 'parenthesized-element-set';
+	elements: ASN1ElementSet;
+}
+
+export interface ASN1SingleValueConstraint extends ASN1SourceRange {
+	kind: 'single-value';
+	value: ASN1Value;
+}
+
+// lower [<] .. [<] upper
+export interface ASN1ValueRangeConstraint extends ASN1SourceRange {
+	kind: 'value-range';
+	lower: ASN1RangeEndpoint;
+	upper: ASN1RangeEndpoint;
+}
+
+export interface ASN1RangeEndpoint extends ASN1SourceRange {
+	kind: 'range-endpoint';
+	value: ASN1Value;   // MIN、MAX 为 special 字面量
+	open: boolean;      // 带有 < 的开区间端点
+}
+
+export interface ASN1SizeConstraint extends ASN1SourceRange {
+	kind: 'size-constraint';
+	constraint: ASN1Constraint;
+}
+
+// FROM (...)
+export interface ASN1PermittedAlphabetConstraint extends ASN1SourceRange {
+	kind: 'permitted-alphabet';
+	constraint: ASN1Constraint;
+}
+
+// [INCLUDES] Type
+export interface ASN1ContainedSubtypeConstraint extends ASN1SourceRange {
+	kind: 'contained-subtype';
+	type: ASN1Type;
+	includes: boolean;
+}
+
+// WITH COMPONENT (...) 或 WITH COMPONENTS { [..., ] a PRESENT, ... }
+export interface ASN1InnerTypeConstraint extends ASN1SourceRange {
+	kind: 'inner-type-constraint';
+	multiple: boolean;
+	partial: boolean;
+	constraint?: ASN1Constraint;
+	components: ASN1NamedConstraint[];
+}
+
+export interface ASN1NamedConstraint extends ASN1SourceRange {
+	kind: 'named-constraint';
+	name: string;
+	nameRange: ASN1SourceRange;
+	constraint?: ASN1Constraint;
+	presence?: 'PRESENT' | 'ABSENT' | 'OPTIONAL';
+}
+
+export interface ASN1PatternConstraint extends ASN1SourceRange {
+	kind: 'pattern-constraint';
+	value: ASN1Value;
+}
+
+// SETTINGS "..."
+export interface ASN1PropertySettingsConstraint extends ASN1SourceRange {
+	kind: 'property-settings';
+	value: ASN1Value;
+}
+
+// 值
+export type ASN1Value =
+	| ASN1LiteralValue
+	| ASN1ValueReference
+	| ASN1ChoiceValue
+	| ASN1SequenceValue
+	| ASN1SequenceOfValue
+	| ASN1ObjectIdentifierValue
+	| ASN1BracedValue;
+
+export interface ASN1LiteralValue extends ASN1SourceRange {
+	kind: 'literal-value';
+	literalType: 'number' | 'real' | 'cstring' | 'bstring' | 'hstring' | 'boolean' | 'null' | 'special';
+	text: string;
+}
+
+// 对值的引用，可带模块前缀 Module.value
+export interface ASN1ValueReference extends ASN1SourceRange {
+	kind: 'value-reference';
+	name: string;
+	moduleName?: string;
+}
+
+// CHOICE 值 alternative : value
+export interface ASN1ChoiceValue extends ASN1SourceRange {
+	kind: 'choice-value';
+	name: string;
+	value: ASN1Value;
+}
+
+// SEQUENCE / SET 值 { name value, ... }
+export interface ASN1SequenceValue extends ASN1SourceRange {
+	kind: 'sequence-value';
+	components: ASN1NamedValue[];
+}
+
+export interface ASN1NamedValue extends ASN1SourceRange {
+	kind: 'named-value';
+	name: string;
+	nameRange: ASN1SourceRange;
+	value: ASN1Value;
+}
+
+// SEQUENCE OF / SET OF 值 { value, ... }，也用于 BIT STRING 的 { bit, ... }
+export interface ASN1SequenceOfValue extends ASN1SourceRange {
+	kind: 'sequence-of-value';
+	items: ASN1Value[];
+}
+
+// OBJECT IDENTIFIER / RELATIVE-OID 值 { iso(1) member-body(2) 840 id-x }
+export interface ASN1ObjectIdentifierValue extends ASN1SourceRange {
+	kind: 'object-identifier-value';
+	components: ASN1ObjectIdentifierComponent[];
+}
+
+// 数字形式 840、名称形式 iso、名称加数字形式 iso(1) 或引用 Module.id
+export interface ASN1ObjectIdentifierComponent extends ASN1SourceRange {
+	kind: 'oid-component';
+	name?: string;
+	moduleName?: string;
+	number?: string; // 数字或值引用
+}
+
+// 无法按类型解析的 { ... } 值，保存原始令牌
+export interface ASN1BracedValue extends ASN1SourceRange {
+	kind: 'braced-value';
+	tokens: ASN1Token[];
+}
@@ -0,0 +1,347 @@
+import { ASN1Component, ASN1ComponentItem, ASN1Document, ASN1Module, ASN1Type } from './asn1-ast';
+import { ASN1Token, tokenizeASN1 } from './asn1-lexer';
+import { parseASN1 } from './asn1-parser';
+import { walkASN1 } from './asn1-walker';
+import { ASN1ModuleIndex } from './asn1-index';
+import { ASN1ImportResolver } from './asn1-imports';
+import { ASN1DefinitionFinder } from './asn1-navigation';
+
+export type ASN1CompletionKind = 'keyword' | 'type' | 'value' | 'module' | 'field' | 'enumeration' | 'named-bit';
+
+// 一条补全建议；score 越大越靠前
+export interface ASN1Completion {
+	label: string;
+	kind: ASN1CompletionKind;
+	detail?: string;
+	score: number;
+}
+
+// 光标处的补全上下文
+export type ASN1CompletionContextKind =
+	| 'type'        // ::=、OF、标签之后或成员名之后，需要类型
+	| 'value'       // DEFAULT 或值定义的 ::= 之后，需要值
+	| 'named-bits'  // BIT STRING 值的 { } 内
+	| 'fields'      // WITH COMPONENTS { } 中成员名的位置
+	| 'presence'    // WITH COMPONENTS { } 中成员名之后
+	| 'module'      // IMPORTS ... FROM 之后
+	| 'general';
+
+export interface ASN1CompletionResult {
+	context: ASN1CompletionContextKind;
+	start: number;   // 被替换的前缀在代码块中的起始偏移
+	prefix: string;
+	items: ASN1Completion[];
+}
+
+// 可以出现在类型位置的关键字，多个单词的内置类型整体补全
+const TYPE_KEYWORDS = [
+	'BOOLEAN', 'INTEGER', 'BIT STRING', 'OCTET STRING', 'NULL', 'OBJECT IDENTIFIER', 'REAL',
+	'ENUMERATED', 'EMBEDDED PDV', 'UTF8String', 'RELATIVE-OID', 'SEQUENCE', 'SEQUENCE OF',
+	'SET', 'SET OF', 'CHOICE', 'NumericString', 'PrintableString', 'TeletexString', 'T61String',
+	'VideotexString', 'IA5String', 'GraphicString', 'VisibleString', 'GeneralString',
+	'UniversalString', 'BMPString', 'CHARACTER STRING', 'UTCTime', 'GeneralizedTime',
+	'ObjectDescriptor', 'EXTERNAL', 'TIME', 'DATE', 'TIME-OF-DAY', 'DATE-TIME', 'DURATION',
+	'OID-IRI', 'RELATIVE-OID-IRI'
+];
+
+const PRESENCE_KEYWORDS = ['PRESENT', 'ABSENT', 'OPTIONAL'];
+
+// 值位置为空时插入占位名称再解析，使 DEFAULT / ::= 之后的语法完整
+const PROBE = 'asn1CompletionProbe';
+
+const CLOSERS: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+
+// 按光标位置的上下文给出补全建议
+export class ASN1CompletionEngine {
+	constructor(private index: ASN1ModuleIndex, private imports: ASN1ImportResolver, private definitions: ASN1DefinitionFinder) {}
+
+	// keywords 为内置关键字，customKeywords 为用户自定义的基本类型；在注释或字符串中返回 null
+	complete(source: string, offset: number, keywords: string[], customKeywords: string[]): ASN1CompletionResult | null {
+		const prefixMatch = /[A-Za-z][A-Za-z0-9-]*$/.exec(source.substring(0, offset));
+		const prefix = prefixMatch ? prefixMatch[0] : '';
+		const start = offset - prefix.length;
+
+		const allTokens = tokenizeASN1(source);
+		if (allTokens.some(token => this.isInside(token, offset))) return null;
+		const tokens = allTokens.filter(token => token.kind !== 'comment' && token.kind !== 'eof' && token.end <= start);
+
+		const probeSource = source.substring(0, offset) + (prefix ? '' : PROBE) + this.missingClosers(allTokens) + source.substring(offset);
+		const document = parseASN1(probeSource);
+		const module = document.modules.find(item => item.start <= start && start <= item.end) || document.modules[0];
+
+		const { context, type } = this.detectContext(tokens, document, start);
+		let items: ASN1Completion[];
+		switch (context) {
+			case 'fields':
+				items = type ? this.fieldCompletions(document, type) : [];
+				break;
+			case 'presence':
+				items = PRESENCE_KEYWORDS.map(label => ({ label, kind: 'keyword' as const, score: 90 }));
+				break;
+			case 'value':
+				items = [...(type ? this.valueCompletions(document, type, false) : []), ...this.valueReferences(document, module)];
+				break;
+			case 'named-bits':
+				items = type ? this.valueCompletions(document, type, true) : [];
+				break;
+			case 'module':
+				items = this.moduleCompletions();
+				break;
+			case 'type':
+				items = [
+					...this.typeCompletions(document, module),
+					...TYPE_KEYWORDS.map(label => ({ label, kind: 'keyword' as const, score: 70 })),
+					...customKeywords.map(label => ({ label, kind: 'keyword' as const, score: 72 }))
+				];
+				break;
+			default:
+				items = [
+					...this.typeCompletions(document, module).map(item => ({ ...item, score: item.score - 30 })),
+					...this.valueReferences(document, module),
+					...keywords.map(label => ({ label, kind: 'keyword' as const, score: 50 })),
+					...customKeywords.map(label => ({ label, kind: 'keyword' as const, score: 52 }))
+				];
+		}
+
+		return { context, start, prefix, items: this.rank(items, prefix) };
+	}
+
+	// 根据光标前的令牌判断上下文；需要时给出决定候选项的类型
+	private detectContext(tokens: ASN1Token[], document: ASN1Document, offset: number): { context: ASN1CompletionContextKind, type?: ASN1Type } {
+		const previous = tokens[tokens.length - 1];
+		if (!previous) return { context: 'general' };
+		const brace = this.enclosingBrace(tokens);
+		const beforeBrace = brace >= 1 ? tokens[brace - 1] : undefined;
+		const atItemStart = previous.text === '{' || previous.text === ',';
+
+		// WITH COMPONENTS { a PRESENT, b ABSENT }
+		if (beforeBrace && beforeBrace.text === 'COMPONENTS' && brace >= 2 && tokens[brace - 2].text === 'WITH') {
+			if (atItemStart) return { context: 'fields', type: this.constrainedType(document, tokens[brace].start) };
+			if (previous.kind === 'identifier') return { context: 'presence' };
+		}
+
+		// DEFAULT value、DEFAULT { bit1, bit2 }
+		if (previous.text === 'DEFAULT') {
+			return { context: 'value', type: this.defaultedType(document, previous.start) };
+		}
+		if (beforeBrace && beforeBrace.text === 'DEFAULT' && atItemStart) {
+			return { context: 'named-bits', type: this.defaultedType(document, beforeBrace.start) };
+		}
+
+		// value Type ::= value、value Type ::= { bit1 }
+		const assignment = this.assignmentAt(document, offset);
+		if (assignment && assignment.kind === 'value-assignment') {
+			if (previous.text === '::=') return { context: 'value', type: assignment.type };
+			if (beforeBrace && beforeBrace.text === '::=' && atItemStart) return { context: 'named-bits', type: assignment.type };
+		}
+
+		if (previous.text === 'FROM') return { context: 'module' };
+		if (previous.text === '::=' || previous.text === 'OF' || previous.text === ']'
+			|| previous.text === 'IMPLICIT' || previous.text === 'EXPLICIT') {
+			return { context: 'type' };
+		}
+		// SEQUENCE / SET / CHOICE 中的成员名之后
+		const beforePrevious = tokens[tokens.length - 2];
+		if (previous.kind === 'identifier' && beforePrevious && (beforePrevious.text === '{' || beforePrevious.text === ',')
+			&& !(beforeBrace && beforeBrace.kind === 'symbol')) {
+			return { context: 'type' };
+		}
+		return { context: 'general' };
+	}
+
+	// 补全建议：按上下文分数、前缀匹配程度排序，去除重复
+	private rank(items: ASN1Completion[], prefix: string): ASN1Completion[] {
+		const lower = prefix.toLowerCase();
+		const seen = new Map<string, ASN1Completion>();
+		for (const item of items) {
+			if (lower && !item.label.toLowerCase().startsWith(lower)) continue;
+			const score = item.score + (prefix && item.label.startsWith(prefix) ? 5 : 0);
+			const existing = seen.get(item.label);
+			if (!existing || existing.score < score) seen.set(item.label, { ...item, score });
+		}
+		return Array.from(seen.values())
+			.filter(item => item.label !== prefix)
+			.sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+	}
+
+	// 当前代码块中的类型定义、IMPORTS 中导入的名称以及被导入模块导出的其它类型
+	private typeCompletions(document: ASN1Document, module?: ASN1Module): ASN1Completion[] {
+		const items: ASN1Completion[] = [];
+		for (const candidate of document.modules) {
+			for (const assignment of candidate.assignments) {
+				if (assignment.kind === 'type-assignment' || assignment.kind === 'object-class-assignment') {
+					items.push({ label: assignment.name, kind: 'type', detail: candidate.implicit ? undefined : candidate.name, score: candidate === module ? 95 : 90 });
+				}
+			}
+		}
+		for (const clause of module && module.imports ? module.imports.clauses : []) {
+			for (const symbol of clause.symbols) {
+				if (/^[A-Z]/.test(symbol.name)) items.push({ label: symbol.name, kind: 'type', detail: clause.moduleName, score: 88 });
+			}
+			const target = this.imports.resolveClause(clause).module;
+			if (!target) continue;
+			for (const assignment of target.module.assignments) {
+				if (assignment.kind !== 'type-assignment' || !this.imports.isExported(target.module, assignment.name)) continue;
+				items.push({ label: assignment.name, kind: 'type', detail: target.name, score: 80 });
+			}
+		}
+		return items;
+	}
+
+	// 当前模块中的值定义
+	private valueReferences(document: ASN1Document, module?: ASN1Module): ASN1Completion[] {
+		const items: ASN1Completion[] = [];
+		for (const candidate of document.modules) {
+			for (const assignment of candidate.assignments) {
+				if (assignment.kind === 'value-assignment' && assignment.name !== PROBE) {
+					items.push({ label: assignment.name, kind: 'value', score: candidate === module ? 60 : 55 });
+				}
+			}
+		}
+		for (const clause of module && module.imports ? module.imports.clauses : []) {
+			for (const symbol of clause.symbols) {
+				if (/^[a-z]/.test(symbol.name)) items.push({ label: symbol.name, kind: 'value', detail: clause.moduleName, score: 58 });
+			}
+		}
+		return items;
+	}
+
+	// WITH COMPONENTS 中可以约束的成员
+	private fieldCompletions(document: ASN1Document, type: ASN1Type): ASN1Completion[] {
+		const resolved = this.resolveType(document, type);
+		if (!resolved || resolved.type.kind !== 'constructed-type') return [];
+		return this.components(resolved.document, resolved.type.components).map(component => ({
+			label: component.name,
+			kind: 'field' as const,
+			detail: component.optional ? 'OPTIONAL' : component.defaultValue ? 'DEFAULT' : undefined,
+			score: 100
+		}));
+	}
+
+	// 类型的取值：ENUMERATED 的枚举项、INTEGER 的命名数字、BIT STRING 的命名位、BOOLEAN 的 TRUE / FALSE
+	private valueCompletions(document: ASN1Document, type: ASN1Type, inBraces: boolean): ASN1Completion[] {
+		const resolved = this.resolveType(document, type);
+		if (!resolved) return [];
+		const target = resolved.type;
+		if (target.kind === 'enumerated-type' && !inBraces) {
+			return target.items
+				.filter(item => item.kind === 'named-number')
+				.map(item => ({ label: (item as { name: string }).name, kind: 'enumeration' as const, score: 100 }));
+		}
+		if (target.kind === 'builtin-type') {
+			if (target.name === 'BIT STRING' && inBraces) {
+				return (target.namedNumbers || []).map(item => ({ label: item.name, kind: 'named-bit' as const, score: 100 }));
+			}
+			if (target.name === 'INTEGER' && !inBraces) {
+				return (target.namedNumbers || []).map(item => ({ label: item.name, kind: 'value' as const, score: 100 }));
+			}
+			if (target.name === 'BOOLEAN' && !inBraces) {
+				return ['TRUE', 'FALSE'].map(label => ({ label, kind: 'keyword' as const, score: 100 }));
+			}
+		}
+		return [];
+	}
+
+	private moduleCompletions(): ASN1Completion[] {
+		return this.index.getModules().map(module => ({ label: module.name, kind: 'module' as const, detail: module.file, score: 90 }));
+	}
+
+	// 沿标签与类型引用找到实际的类型
+	private resolveType(document: ASN1Document, type: ASN1Type, depth: number = 0): { type: ASN1Type, document: ASN1Document } | undefined {
+		if (depth > 16) return undefined;
+		if (type.kind === 'tagged-type') return this.resolveType(document, type.inner, depth);
+		if (type.kind !== 'type-reference') return { type, document };
+		const definition = this.definitions.find(document, { name: type.name, moduleName: type.moduleName, start: type.nameRange.start, end: type.nameRange.end });
+		const resolved = definition ? this.definitions.assignmentOf(document, definition) : undefined;
+		if (!resolved || resolved.assignment.kind !== 'type-assignment') return undefined;
+		return this.resolveType(resolved.document, resolved.assignment.type, depth + 1);
+	}
+
+	// 展开扩展附加组与 COMPONENTS OF
+	private components(document: ASN1Document, items: ASN1ComponentItem[], depth: number = 0): ASN1Component[] {
+		const result: ASN1Component[] = [];
+		for (const item of items) {
+			if (item.kind === 'component') {
+				result.push(item);
+			} else if (item.kind === 'extension-addition-group') {
+				result.push(...this.components(document, item.components, depth));
+			} else if (item.kind === 'components-of' && depth < 16) {
+				const resolved = this.resolveType(document, item.type);
+				if (resolved && resolved.type.kind === 'constructed-type') {
+					result.push(...this.components(resolved.document, resolved.type.components, depth + 1));
+				}
+			}
+		}
+		return result;
+	}
+
+	// 约束位于 offset 处的最内层类型
+	private constrainedType(document: ASN1Document, offset: number): ASN1Type | undefined {
+		let found: ASN1Type | undefined;
+		walkASN1(document, (node) => {
+			const constraints = (node as { constraints?: Array<{ start: number, end: number }> }).constraints;
+			if (!constraints || !constraints.some(constraint => constraint.start <= offset && offset < constraint.end)) return;
+			if (!found || (found.start <= node.start && node.end <= found.end)) found = node as ASN1Type;
+		});
+		return found;
+	}
+
+	// DEFAULT 关键字所属成员的类型
+	private defaultedType(document: ASN1Document, offset: number): ASN1Type | undefined {
+		let found: ASN1Type | undefined;
+		walkASN1(document, (node) => {
+			const component = node as ASN1Component;
+			if (node.kind === 'component' && component.presenceRange && component.presenceRange.start === offset) found = component.type;
+		});
+		return found;
+	}
+
+	private assignmentAt(document: ASN1Document, offset: number) {
+		for (const module of document.modules) {
+			const assignment = module.assignments.find(item => item.start <= offset && offset <= item.end);
+			if (assignment) return assignment;
+		}
+		return undefined;
+	}
+
+	// 整个代码块中尚未闭合的括号（通常是正在输入的部分），在光标处补齐后再解析
+	private missingClosers(tokens: ASN1Token[]): string {
+		const open: string[] = [];
+		for (const token of tokens) {
+			if (token.kind !== 'symbol') continue;
+			if (CLOSERS[token.text]) {
+				open.push(token.text);
+			} else if (open.length > 0 && CLOSERS[open[open.length - 1]] === token.text) {
+				open.pop();
+			}
+		}
+		return open.reverse().map(bracket => ' ' + CLOSERS[bracket]).join('');
+	}
+
+	// 最后一个未闭合的 { 的位置，没有时返回 -1
+	private enclosingBrace(tokens: ASN1Token[]): number {
+		let depth = 0;
+		for (let i = tokens.length - 1; i >= 0; i--) {
+			if (tokens[i].text === '}') depth++;
+			if (tokens[i].text === '{') {
+				if (depth === 0) return i;
+				depth--;
+			}
+		}
+		return -1;
+	}
+
+	// 光标是否位于注释或字符串内部
+	private isInside(token: ASN1Token, offset: number): boolean {
+		if (token.kind === 'comment') {
+			// 行注释到行尾为止，光标在行尾时仍在注释内；未闭合的块注释一直延续到源码末尾
+			const lineComment = token.text.startsWith('--');
+			const closed = token.text.length >= 4 && token.text.endsWith(lineComment ? '--' : '*/');
+			return token.start < offset && (offset < token.end || (!closed && offset === token.end));
+		}
+		if (token.kind === 'cstring' || token.kind === 'bstring' || token.kind === 'hstring') {
+			return token.start < offset && offset < token.end;
+		}
+		return false;
+	}
+}
@@ -0,0 +1,99 @@
+import { ASN1Constraint, ASN1ElementSet, ASN1Module, ASN1Value } from './asn1-ast';
+import { ASN1DefinitionLookup } from './asn1-tags';
+
+// 值的可度量特征，用于检查约束
+export interface ASN1Measure {
+	integer?: number;
+	size?: number;   // 字符数、字节数、位数或 SEQUENCE OF 的元素个数
+}
+
+// 值引用链的最大深度
+const MAX_DEPTH = 32;
+
+// 对整数值与 SIZE 求值的约束检查；PermittedAlphabet、表约束等无法求值的约束视为满足
+export class ASN1ConstraintChecker {
+	constructor(private lookup: ASN1DefinitionLookup) {}
+
+	// 违反的约束；只检查扩展根，可扩展的约束不报告
+	violations(constraints: ASN1Constraint[], measure: ASN1Measure, module: ASN1Module): ASN1Constraint[] {
+		return constraints.filter(constraint => {
+			const spec = constraint.spec;
+			if (!spec || spec.kind !== 'element-set-specs' || !spec.root || spec.extensible) return false;
+			return this.permits(spec.root, measure, module, false) === false;
+		});
+	}
+
+	// 数字字面量，或引用整数值的值引用
+	numberOf(value: ASN1Value | undefined, module: ASN1Module, depth = 0): number | undefined {
+		if (!value || depth > MAX_DEPTH) return undefined;
+		if (value.kind === 'literal-value') {
+			return value.literalType === 'number' ? Number(value.text) : undefined;
+		}
+		if (value.kind === 'value-reference') {
+			const definition = this.lookup(value.name, module);
+			if (!definition || definition.assignment.kind !== 'value-assignment') return undefined;
+			return this.numberOf(definition.assignment.value, definition.module, depth + 1);
+		}
+		return undefined;
+	}
+
+	// 约束是否允许该值；无法求值时返回 undefined
+	private permits(set: ASN1ElementSet, measure: ASN1Measure, module: ASN1Module, inSize: boolean): boolean | undefined {
+		const subject = inSize ? measure.size : measure.integer;
+		switch (set.kind) {
+			case 'parenthesized-element-set':
+				return this.permits(set.elements, measure, module, inSize);
+			case 'set-operation': {
+				const results = set.operands.map(operand => this.permits(operand, measure, module, inSize));
+				switch (set.operator) {
+					case 'union':
+						if (results.some(result => result === true)) return true;
+						return results.every(result => result === false) ? false : undefined;
+					case 'intersection':
+						if (results.some(result => result === false)) return false;
+						return results.every(result => result === true) ? true : undefined;
+					case 'except':
+						if (results[0] === false || results[1] === true) return false;
+						return results[0] === true && results[1] === false ? true : undefined;
+					case 'all-except':
+						return results[0] === undefined ? undefined : !results[0];
+				}
+				return undefined;
+			}
+			case 'single-value': {
+				const value = this.numberOf(set.value, module);
+				return subject === undefined || value === undefined ? undefined : subject === value;
+			}
+			case 'value-range': {
+				if (subject === undefined) return undefined;
+				const lower = this.endpointOf(set.lower.value, module, -Infinity);
+				const upper = this.endpointOf(set.upper.value, module, Infinity);
+				if (lower === undefined || upper === undefined) return undefined;
+				const aboveLower = set.lower.open ? subject > lower : subject >= lower;
+				const belowUpper = set.upper.open ? subject < upper : subject <= upper;
+				return aboveLower && belowUpper;
+			}
+			case 'size-constraint': {
+				if (inSize || measure.size === undefined) return undefined;
+				const spec = set.constraint.spec;
+				if (!spec || spec.kind !== 'element-set-specs' || !spec.root || spec.extensible) return undefined;
+				return this.permits(spec.root, measure, module, true);
+			}
+			default:
+				return undefined;
+		}
+	}
+
+	private endpointOf(value: ASN1Value, module: ASN1Module, limit: number): number | undefined {
+		if (value.kind === 'literal-value' && (value.text === 'MIN' || value.text === 'MAX')) return limit;
+		return this.numberOf(value, module);
+	}
+}
+
+// 约束的原文，如 (0..MAX)
+export function constraintText(constraint: ASN1Constraint): string {
+	return constraint.tokens.map(token => token.text).join(' ')
+		.replace(/\( /g, '(')
+		.replace(/ \)/g, ')')
+		.replace(/ \.\. /g, '..');
+}
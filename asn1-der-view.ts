@@ -0,0 +1,100 @@
+import { ASN1TLVNode, tagLabel, toHex } from './asn1-der';
+
+// 渲染解码结果需要的插件能力
+export interface ASN1DERViewHost {
+	t(key: 'derOffset' | 'derLength' | 'derIndefinite' | 'derConstructed' | 'derPrimitive' | 'derEncapsulated'): string;
+}
+
+// 渲染编码结果需要的插件能力
+export interface ASN1EncodeViewHost {
+	t(key: 'derOffset' | 'encodeBytes' | 'encodeComponent'): string;
+}
+
+// 构造编码默认展开的层数，更深的节点折叠
+const EXPANDED_DEPTH = 4;
+
+// 把 TLV 节点渲染为可折叠的树
+export function renderTLVTree(container: HTMLElement, nodes: ASN1TLVNode[], host: ASN1DERViewHost) {
+	const tree = container.createEl('div', { cls: 'asn1-der-tree' });
+	renderNodes(tree, nodes, host, 0);
+}
+
+function renderNodes(parent: HTMLElement, nodes: ASN1TLVNode[], host: ASN1DERViewHost, depth: number) {
+	for (const node of nodes) {
+		let row: HTMLElement;
+		if (node.children.length > 0) {
+			const details = parent.createEl('details', { cls: 'asn1-der-node' });
+			if (depth < EXPANDED_DEPTH) details.setAttribute('open', '');
+			row = details.createEl('summary', { cls: 'asn1-der-row' });
+			renderRow(row, node, host);
+			renderNodes(details.createEl('div', { cls: 'asn1-der-children' }), node.children, host, depth + 1);
+		} else {
+			row = parent.createEl('div', { cls: 'asn1-der-row asn1-der-leaf' });
+			renderRow(row, node, host);
+		}
+	}
+}
+
+function renderRow(row: HTMLElement, node: ASN1TLVNode, host: ASN1DERViewHost) {
+	if (node.name) row.createEl('span', { text: node.name, cls: 'asn1-der-name' });
+	const label = tagLabel(node);
+	row.createEl('span', { text: label, cls: `asn1-der-tag asn1-der-${node.tagClass.toLowerCase()}` });
+	if (node.typeName && node.typeName !== label) row.createEl('span', { text: node.typeName, cls: 'asn1-der-type' });
+
+	const form = node.constructed ? host.t('derConstructed') : host.t('derPrimitive');
+	const length = node.indefinite ? `${host.t('derLength')} ${node.length} (${host.t('derIndefinite')})` : `${host.t('derLength')} ${node.length}`;
+	const parts = [`${host.t('derOffset')} ${node.offset}`, form, length];
+	if (node.encapsulated) parts.push(host.t('derEncapsulated'));
+	row.createEl('span', { text: parts.join(' · '), cls: 'asn1-der-meta' });
+
+	if (node.value !== undefined && node.value !== '') row.createEl('span', { text: node.value, cls: 'asn1-der-value' });
+	if (node.error) row.createEl('span', { text: node.error, cls: 'asn1-der-error' });
+	for (const issue of node.issues || []) {
+		row.createEl('span', { text: issue, cls: 'asn1-der-issue' });
+	}
+}
+
+// 树中与类型定义不符之处的数量
+export function countIssues(nodes: ASN1TLVNode[]): number {
+	let count = 0;
+	for (const node of nodes) {
+		count += (node.issues ? node.issues.length : 0) + countIssues(node.children);
+	}
+	return count;
+}
+
+// 逐个 TLV 列出其字节与产生它的成员：构造编码只列出标签与长度，基本编码同时列出内容
+export function renderByteAnnotations(container: HTMLElement, bytes: Uint8Array, nodes: ASN1TLVNode[], host: ASN1EncodeViewHost) {
+	const table = container.createEl('table', { cls: 'asn1-encode-table' });
+	const head = table.createEl('thead').createEl('tr');
+	head.createEl('th', { text: host.t('derOffset') });
+	head.createEl('th', { text: host.t('encodeBytes') });
+	head.createEl('th', { text: host.t('encodeComponent') });
+	renderAnnotationRows(table.createEl('tbody'), bytes, nodes, 0);
+}
+
+function renderAnnotationRows(body: HTMLElement, bytes: Uint8Array, nodes: ASN1TLVNode[], depth: number) {
+	for (const node of nodes) {
+		const row = body.createEl('tr');
+		row.createEl('td', { text: String(node.offset), cls: 'asn1-encode-offset' });
+		const hex = row.createEl('td', { cls: 'asn1-encode-bytes' });
+		hex.createEl('span', { text: spacedHex(bytes, node.offset, node.offset + node.headerLength), cls: 'asn1-encode-header' });
+		if (!node.constructed && node.length > 0) {
+			hex.createEl('span', { text: ' ' + spacedHex(bytes, node.end - node.length, node.end), cls: 'asn1-encode-content' });
+		}
+
+		const cell = row.createEl('td', { cls: 'asn1-encode-component' });
+		cell.style.setProperty('--asn1-encode-depth', String(depth));
+		if (node.name) cell.createEl('span', { text: node.name, cls: 'asn1-der-name' });
+		const label = tagLabel(node);
+		cell.createEl('span', { text: label, cls: `asn1-der-tag asn1-der-${node.tagClass.toLowerCase()}` });
+		if (node.typeName && node.typeName !== label) cell.createEl('span', { text: node.typeName, cls: 'asn1-der-type' });
+		if (node.value !== undefined && node.value !== '') cell.createEl('span', { text: node.value, cls: 'asn1-der-value' });
+		renderAnnotationRows(body, bytes, node.children, depth + 1);
+	}
+}
+
+// 以空格分隔的十六进制字节
+export function spacedHex(bytes: Uint8Array, start = 0, end = bytes.length): string {
+	return toHex(bytes, start, end).replace(/(..)(?!$)/g, '$1 ');
+}
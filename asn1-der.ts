@@ -0,0 +1,540 @@
+import { ASN1TagClass, UNIVERSAL_TAG_NUMBERS } from './asn1-tags';
+
+// 一个 TLV（标签-长度-内容）；偏移均为字节偏移
+export interface ASN1TLVNode {
+	offset: number;           // 标签首字节
+	headerLength: number;     // 标签与长度字节数
+	tagClass: ASN1TagClass;
+	tagNumber: number;
+	constructed: boolean;
+	length: number;           // 内容长度；不定长编码时为实际内容长度（不含结束标记）
+	indefinite: boolean;
+	end: number;              // 整个 TLV 之后的偏移，不定长编码时包含 00 00 结束标记
+	children: ASN1TLVNode[];  // 构造编码的成员，或 OCTET STRING / BIT STRING 中封装的编码
+	encapsulated?: boolean;   // children 来自基本编码的内容
+	value?: string;           // 解码后的基本类型值
+	error?: string;           // 内容不符合该类型的编码规则
+	// 按类型解码时的标注
+	name?: string;            // 成员名，CHOICE 的备选项以 "成员: 备选项" 表示
+	typeName?: string;
+	issues?: string[];        // 与类型定义不符之处
+}
+
+// 输入或编码错误，offset 为出错的字节偏移；与具体字节无关的错误（如缺少 PEM 结束行）没有偏移
+export class ASN1DecodeError extends Error {
+	constructor(message: string, public offset?: number) {
+		super(message);
+	}
+}
+
+export interface ASN1DecodeOptions {
+	der: boolean;  // 按 DER 检查：不定长编码、非最短的长度与标签、字符串的构造编码、时间格式等
+}
+
+const TAG_CLASSES: ASN1TagClass[] = ['UNIVERSAL', 'APPLICATION', 'CONTEXT', 'PRIVATE'];
+
+// 标签号到类型名；同一标签号有多个名称时取第一个
+const UNIVERSAL_TYPE_NAMES = new Map<number, string>();
+for (const name of Object.keys(UNIVERSAL_TAG_NUMBERS)) {
+	if (!UNIVERSAL_TYPE_NAMES.has(UNIVERSAL_TAG_NUMBERS[name])) UNIVERSAL_TYPE_NAMES.set(UNIVERSAL_TAG_NUMBERS[name], name);
+}
+
+// DER 中只能使用基本编码的 UNIVERSAL 类型：BIT STRING、OCTET STRING、各种字符串与时间
+const PRIMITIVE_UNIVERSAL_TAGS = new Set([3, 4, 7, 12, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 30]);
+
+// 代码块中的一个编码对象；PEM 输入中每个 BEGIN / END 块为一个对象
+export interface ASN1EncodedObject {
+	format: 'hex' | 'base64' | 'pem';
+	label?: string;   // PEM 类型，如 CERTIFICATE
+	text: string;     // 去掉 PEM 封装后的正文
+}
+
+const PEM_BEGIN = /^-----BEGIN ([^-]+)-----\s*$/;
+
+// 识别输入格式：PEM（可连续多个）、十六进制或裸 base64
+export function splitEncodedInput(text: string): ASN1EncodedObject[] {
+	if (/-----BEGIN [^-]+-----/.test(text)) return splitPEM(text);
+	if (/^[\s:]*$/.test(text)) throw new ASN1DecodeError('No input', 0);
+	if (/^(?:0x|[0-9a-fA-F\s:])*$/i.test(text)) return [{ format: 'hex', text }];
+	if (/^[A-Za-z0-9+/=\-_\s]*$/.test(text)) return [{ format: 'base64', text }];
+	// 两种都不是时按十六进制解析以报告第一个非法字符
+	return [{ format: 'hex', text }];
+}
+
+export function decodeEncodedObject(object: ASN1EncodedObject): Uint8Array {
+	return object.format === 'hex' ? parseHexInput(object.text) : parseBase64Input(object.text);
+}
+
+// PEM 封装之外的文本（如 openssl 输出的说明）忽略；封装内 Proc-Type 之类的头部行跳过
+function splitPEM(text: string): ASN1EncodedObject[] {
+	const objects: ASN1EncodedObject[] = [];
+	let current: { label: string, lines: string[] } | null = null;
+	for (const line of text.split(/\r?\n/)) {
+		const trimmed = line.trim();
+		if (!current) {
+			const begin = PEM_BEGIN.exec(trimmed);
+			if (begin) current = { label: begin[1], lines: [] };
+			continue;
+		}
+		if (trimmed.startsWith('-----END ')) {
+			if (trimmed !== `-----END ${current.label}-----`) {
+				throw new ASN1DecodeError(`PEM block ${current.label} ends with '${trimmed}'`);
+			}
+			objects.push({ format: 'pem', label: current.label, text: current.lines.join('\n') });
+			current = null;
+		} else if (!trimmed.includes(':')) {
+			current.lines.push(trimmed);
+		}
+	}
+	if (current) throw new ASN1DecodeError(`PEM block ${current.label} has no -----END ${current.label}----- line`);
+	return objects;
+}
+
+// base64 与 base64url，可带空白与换行
+export function parseBase64Input(text: string): Uint8Array {
+	const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+	const values: number[] = [];
+	let padding = 0;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (/\s/.test(ch)) continue;
+		const byteOffset = Math.floor(values.length * 3 / 4);
+		if (ch === '=') {
+			padding++;
+			continue;
+		}
+		if (padding > 0) throw new ASN1DecodeError('Base64 data continues after padding', byteOffset);
+		const value = ch === '-' ? 62 : ch === '_' ? 63 : alphabet.indexOf(ch);
+		if (value === -1) throw new ASN1DecodeError(`Invalid base64 character '${ch}'`, byteOffset);
+		values.push(value);
+	}
+	if (values.length % 4 === 1 || padding > 2 || (padding > 0 && (values.length + padding) % 4 !== 0)) {
+		throw new ASN1DecodeError('Truncated base64 data', Math.floor(values.length * 3 / 4));
+	}
+	const bytes = new Uint8Array(Math.floor(values.length * 3 / 4));
+	let bits = 0;
+	let buffer = 0;
+	let index = 0;
+	for (const value of values) {
+		buffer = (buffer << 6) | value;
+		bits += 6;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes[index++] = (buffer >> bits) & 0xff;
+		}
+	}
+	return bytes;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+	const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+	let text = '';
+	for (let i = 0; i < bytes.length; i += 3) {
+		const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+		const count = Math.min(3, bytes.length - i);
+		for (let j = 0; j < 4; j++) {
+			text += j <= count ? alphabet[(chunk >> (18 - j * 6)) & 0x3f] : '=';
+		}
+	}
+	return text;
+}
+
+// 十六进制输入，可带空白、冒号与 0x 前缀
+export function parseHexInput(text: string): Uint8Array {
+	const digits: string[] = [];
+	const cleaned = text.replace(/0x/gi, ' ');
+	for (let i = 0; i < cleaned.length; i++) {
+		const ch = cleaned[i];
+		if (/\s|:/.test(ch)) continue;
+		if (!/[0-9a-fA-F]/.test(ch)) {
+			throw new ASN1DecodeError(`Invalid hex character '${ch}'`, Math.floor(digits.length / 2));
+		}
+		digits.push(ch);
+	}
+	if (digits.length % 2 !== 0) {
+		throw new ASN1DecodeError('Odd number of hex digits', Math.floor(digits.length / 2));
+	}
+	const bytes = new Uint8Array(digits.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = parseInt(digits[i * 2] + digits[i * 2 + 1], 16);
+	}
+	return bytes;
+}
+
+// 解码连续的顶层 TLV
+export function decodeTLV(bytes: Uint8Array, options: ASN1DecodeOptions): ASN1TLVNode[] {
+	if (bytes.length === 0) throw new ASN1DecodeError('No input', 0);
+	return new TLVDecoder(bytes, options).decodeAll(0, bytes.length);
+}
+
+// 标签的显示名称：SEQUENCE、[0]、[APPLICATION 1]
+export function tagLabel(node: { tagClass: ASN1TagClass, tagNumber: number }): string {
+	if (node.tagClass === 'UNIVERSAL') return UNIVERSAL_TYPE_NAMES.get(node.tagNumber) || `[UNIVERSAL ${node.tagNumber}]`;
+	if (node.tagClass === 'CONTEXT') return `[${node.tagNumber}]`;
+	return `[${node.tagClass} ${node.tagNumber}]`;
+}
+
+// 按指定的 UNIVERSAL 类型重新解码基本编码的内容，用于隐式标签
+export function decodeContentAs(bytes: Uint8Array, node: ASN1TLVNode, tagNumber: number, options: ASN1DecodeOptions) {
+	const decoder = new TLVDecoder(bytes, options);
+	node.error = decoder.encodingError(node, tagNumber);
+	if (node.constructed) return;
+	node.value = undefined;
+	decoder.decodePrimitive(node, node.end - node.length, tagNumber);
+}
+
+export function toHex(bytes: Uint8Array, start = 0, end = bytes.length): string {
+	let hex = '';
+	for (let i = start; i < end; i++) hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16).toUpperCase();
+	return hex;
+}
+
+class TLVDecoder {
+	constructor(private bytes: Uint8Array, private options: ASN1DecodeOptions) {}
+
+	decodeAll(start: number, end: number): ASN1TLVNode[] {
+		const nodes: ASN1TLVNode[] = [];
+		let offset = start;
+		while (offset < end) {
+			const node = this.decodeOne(offset, end);
+			nodes.push(node);
+			offset = node.end;
+		}
+		return nodes;
+	}
+
+	decodeOne(offset: number, limit: number): ASN1TLVNode {
+		const bytes = this.bytes;
+		let i = offset;
+		const first = bytes[i++];
+		const tagClass = TAG_CLASSES[first >> 6];
+		const constructed = (first & 0x20) !== 0;
+		let tagNumber = first & 0x1f;
+
+		// 高标签号：base-128，最高位表示后续字节
+		if (tagNumber === 0x1f) {
+			tagNumber = 0;
+			let count = 0;
+			for (;;) {
+				if (i >= limit) throw new ASN1DecodeError('Truncated tag', offset);
+				const b = bytes[i++];
+				if (count === 0 && b === 0x80 && this.options.der) throw new ASN1DecodeError('Tag number has a leading zero octet', i - 1);
+				if (++count > 4) throw new ASN1DecodeError('Tag number is too large', offset);
+				tagNumber = tagNumber * 128 + (b & 0x7f);
+				if ((b & 0x80) === 0) break;
+			}
+		}
+
+		if (i >= limit) throw new ASN1DecodeError('Missing length octet', i);
+		const lengthOffset = i;
+		const lengthByte = bytes[i++];
+		let length = 0;
+		let indefinite = false;
+		if (lengthByte === 0x80) {
+			if (this.options.der) throw new ASN1DecodeError('Indefinite length is not allowed in DER', lengthOffset);
+			if (!constructed) throw new ASN1DecodeError('Indefinite length on a primitive encoding', lengthOffset);
+			indefinite = true;
+		} else if (lengthByte & 0x80) {
+			const count = lengthByte & 0x7f;
+			if (count === 0x7f) throw new ASN1DecodeError('Reserved length octet 0xFF', lengthOffset);
+			if (count > 4) throw new ASN1DecodeError(`Length uses ${count} octets, which is too large`, lengthOffset);
+			if (i + count > limit) throw new ASN1DecodeError('Truncated length', lengthOffset);
+			for (let k = 0; k < count; k++) length = length * 256 + bytes[i++];
+			if (this.options.der && (length < 0x80 || bytes[lengthOffset + 1] === 0)) {
+				throw new ASN1DecodeError('Length is not in the shortest form required by DER', lengthOffset);
+			}
+		} else {
+			length = lengthByte;
+		}
+
+		const contentOffset = i;
+		const node: ASN1TLVNode = {
+			offset, headerLength: contentOffset - offset, tagClass, tagNumber, constructed,
+			length, indefinite, end: contentOffset + length, children: []
+		};
+		node.error = this.encodingError(node);
+
+		if (indefinite) {
+			// 逐个解码成员直到 00 00 结束标记
+			let position = contentOffset;
+			for (;;) {
+				if (position + 2 > limit) throw new ASN1DecodeError('Missing end-of-contents octets', position);
+				if (bytes[position] === 0 && bytes[position + 1] === 0) break;
+				const child = this.decodeOne(position, limit);
+				node.children.push(child);
+				position = child.end;
+			}
+			node.length = position - contentOffset;
+			node.end = position + 2;
+			return node;
+		}
+
+		if (node.end > limit) {
+			throw new ASN1DecodeError(`Length ${length} exceeds the ${limit - contentOffset} remaining byte(s)`, lengthOffset);
+		}
+		if (constructed) {
+			node.children = this.decodeAll(contentOffset, node.end);
+		} else {
+			this.decodePrimitive(node, contentOffset);
+		}
+		return node;
+	}
+
+	// DER 对标签形式与编码方式的要求；tagNumber 为按其解码的 UNIVERSAL 类型，缺省时取节点自身的标签
+	encodingError(node: ASN1TLVNode, tagNumber = node.tagClass === 'UNIVERSAL' ? node.tagNumber : undefined): string | undefined {
+		if (!this.options.der) return undefined;
+		if ((this.bytes[node.offset] & 0x1f) === 0x1f && node.tagNumber < 31) {
+			return `DER requires tag number ${node.tagNumber} to use the single-octet form`;
+		}
+		if (node.constructed && tagNumber !== undefined && PRIMITIVE_UNIVERSAL_TAGS.has(tagNumber)) {
+			return `DER requires ${UNIVERSAL_TYPE_NAMES.get(tagNumber)} to use the primitive encoding`;
+		}
+		return undefined;
+	}
+
+	// tagNumber 缺省时按节点自身的 UNIVERSAL 标签解码
+	decodePrimitive(node: ASN1TLVNode, start: number, tagNumber?: number) {
+		const bytes = this.bytes;
+		const end = node.end;
+		if (tagNumber === undefined) {
+			if (node.tagClass !== 'UNIVERSAL') {
+				node.value = previewHex(bytes, start, end);
+				return;
+			}
+			tagNumber = node.tagNumber;
+		}
+		try {
+			switch (tagNumber) {
+				case 0:
+					if (node.length !== 0) node.error = 'End-of-contents must be empty';
+					break;
+				case 1:
+					if (node.length !== 1) {
+						node.error = 'BOOLEAN must have exactly one content octet';
+					} else {
+						node.value = bytes[start] === 0 ? 'FALSE' : 'TRUE';
+						if (this.options.der && bytes[start] !== 0 && bytes[start] !== 0xff) node.error = 'DER requires TRUE to be encoded as 0xFF';
+					}
+					break;
+				case 2:
+				case 10:
+					if (node.length === 0) {
+						node.error = 'INTEGER must have at least one content octet';
+					} else {
+						node.value = decodeInteger(bytes, start, end);
+						if (node.length > 1 && ((bytes[start] === 0 && bytes[start + 1] < 0x80) || (bytes[start] === 0xff && bytes[start + 1] >= 0x80))) {
+							node.error = 'INTEGER is not in the shortest form';
+						}
+					}
+					break;
+				case 3:
+					this.decodeBitString(node, start);
+					break;
+				case 4:
+					node.value = previewHex(bytes, start, end);
+					this.tryEncapsulated(node, start);
+					break;
+				case 5:
+					if (node.length !== 0) node.error = 'NULL must be empty';
+					else node.value = 'NULL';
+					break;
+				case 6:
+				case 13:
+					node.value = decodeObjectIdentifier(bytes, start, end, tagNumber === 6);
+					break;
+				case 12:
+					node.value = decodeUtf8(bytes, start, end);
+					break;
+				case 23:
+				case 24: {
+					const text = latin1(bytes, start, end);
+					node.value = formatTime(text, tagNumber === 23);
+					if (this.options.der) node.error = derTimeError(text, tagNumber === 23) || node.error;
+					break;
+				}
+				case 18:
+				case 19:
+				case 20:
+				case 21:
+				case 22:
+				case 25:
+				case 26:
+				case 27:
+				case 7:
+					node.value = latin1(bytes, start, end);
+					break;
+				case 30:
+					if (node.length % 2 !== 0) node.error = 'BMPString length must be a multiple of 2';
+					else node.value = decodeWide(bytes, start, end, 2);
+					break;
+				case 28:
+					if (node.length % 4 !== 0) node.error = 'UniversalString length must be a multiple of 4';
+					else node.value = decodeWide(bytes, start, end, 4);
+					break;
+				default:
+					node.value = previewHex(bytes, start, end);
+			}
+		} catch (error) {
+			if (!(error instanceof ASN1DecodeError)) throw error;
+			node.error = error.message;
+			node.value = previewHex(bytes, start, end);
+		}
+	}
+
+	private decodeBitString(node: ASN1TLVNode, start: number) {
+		const bytes = this.bytes;
+		if (node.length === 0) {
+			node.error = 'BIT STRING must have the unused-bits octet';
+			return;
+		}
+		const unused = bytes[start];
+		if (unused > 7 || (node.length === 1 && unused !== 0)) {
+			node.error = `Invalid number of unused bits: ${unused}`;
+			return;
+		}
+		const bits = (node.length - 1) * 8 - unused;
+		node.value = `(${bits} bit${bits === 1 ? '' : 's'}) ${previewHex(bytes, start + 1, node.end)}`.trim();
+		if (this.options.der && unused > 0 && (bytes[node.end - 1] & ((1 << unused) - 1)) !== 0) {
+			node.error = 'DER requires the unused bits to be zero';
+		}
+		if (unused === 0) this.tryEncapsulated(node, start + 1);
+	}
+
+	// OCTET STRING / BIT STRING 的内容恰好是一个完整的编码时（如证书中的公钥与扩展）展开显示
+	private tryEncapsulated(node: ASN1TLVNode, start: number) {
+		if (node.end - start < 2) return;
+		// 只接受 SEQUENCE / SET 等构造编码开头，避免把普通数据误认为编码
+		if ((this.bytes[start] & 0x20) === 0) return;
+		try {
+			const children = this.decodeAll(start, node.end);
+			node.children = children;
+			node.encapsulated = true;
+		} catch (error) {
+			if (!(error instanceof ASN1DecodeError)) throw error;
+		}
+	}
+}
+
+// 内容较长时只显示前 64 字节
+function previewHex(bytes: Uint8Array, start: number, end: number): string {
+	const limit = 64;
+	if (end - start <= limit) return toHex(bytes, start, end);
+	return `${toHex(bytes, start, start + limit)}… (${end - start} bytes)`;
+}
+
+// 二进制补码转为十进制字符串，长度不受 Number 精度限制
+function decodeInteger(bytes: Uint8Array, start: number, end: number): string {
+	const negative = (bytes[start] & 0x80) !== 0;
+	let magnitude = Array.from(bytes.subarray(start, end));
+	if (negative) {
+		// 取反加一得到绝对值
+		magnitude = magnitude.map(b => ~b & 0xff);
+		for (let i = magnitude.length - 1; i >= 0; i--) {
+			magnitude[i] = (magnitude[i] + 1) & 0xff;
+			if (magnitude[i] !== 0) break;
+		}
+	}
+	// 以 10^7 为基数的大整数
+	const limbs: number[] = [0];
+	for (const b of magnitude) {
+		let carry = b;
+		for (let i = 0; i < limbs.length; i++) {
+			const value = limbs[i] * 256 + carry;
+			limbs[i] = value % 10000000;
+			carry = Math.floor(value / 10000000);
+		}
+		while (carry > 0) {
+			limbs.push(carry % 10000000);
+			carry = Math.floor(carry / 10000000);
+		}
+	}
+	let text = String(limbs[limbs.length - 1]);
+	for (let i = limbs.length - 2; i >= 0; i--) text += String(limbs[i]).padStart(7, '0');
+	if (end - start > 8) text += ` (0x${toHex(bytes, start, end)})`;
+	return negative ? `-${text}` : text;
+}
+
+function decodeObjectIdentifier(bytes: Uint8Array, start: number, end: number, absolute: boolean): string {
+	if (end === start) throw new ASN1DecodeError('OBJECT IDENTIFIER must not be empty', start);
+	const arcs: string[] = [];
+	let value = 0;
+	let arcStart = start;
+	for (let i = start; i < end; i++) {
+		if (i === arcStart && bytes[i] === 0x80) throw new ASN1DecodeError('OID arc has a leading zero octet', i);
+		value = value * 128 + (bytes[i] & 0x7f);
+		if (value > Number.MAX_SAFE_INTEGER) throw new ASN1DecodeError('OID arc is too large', arcStart);
+		if ((bytes[i] & 0x80) === 0) {
+			if (absolute && arcs.length === 0) {
+				// 前两个弧合并编码为 40*X+Y
+				const first = value < 80 ? Math.floor(value / 40) : 2;
+				arcs.push(String(first), String(value - first * 40));
+			} else {
+				arcs.push(String(value));
+			}
+			value = 0;
+			arcStart = i + 1;
+		}
+	}
+	if (arcStart !== end) throw new ASN1DecodeError('Truncated OID arc', arcStart);
+	return arcs.join('.');
+}
+
+function latin1(bytes: Uint8Array, start: number, end: number): string {
+	let text = '';
+	for (let i = start; i < end; i++) text += String.fromCharCode(bytes[i]);
+	return text;
+}
+
+function decodeUtf8(bytes: Uint8Array, start: number, end: number): string {
+	try {
+		return new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(start, end));
+	} catch (error) {
+		throw new ASN1DecodeError('Invalid UTF-8', start);
+	}
+}
+
+// BMPString 为 UTF-16BE，UniversalString 为 UTF-32BE
+function decodeWide(bytes: Uint8Array, start: number, end: number, width: number): string {
+	const codePoints: number[] = [];
+	for (let i = start; i < end; i += width) {
+		let codePoint = 0;
+		for (let k = 0; k < width; k++) codePoint = codePoint * 256 + bytes[i + k];
+		codePoints.push(codePoint);
+	}
+	if (width === 2) return String.fromCharCode(...codePoints);
+	try {
+		return String.fromCodePoint(...codePoints);
+	} catch (error) {
+		throw new ASN1DecodeError('Invalid UniversalString character', start);
+	}
+}
+
+// DER 的时间必须包含秒并以 Z 结尾，GeneralizedTime 的小数部分以 . 分隔且末尾不能为 0（X.690 11.7、11.8）
+function derTimeError(text: string, utc: boolean): string | undefined {
+	const match = utc
+		? /^\d{10}(\d{2})?(Z|[+-]\d{4})$/.exec(text)
+		: /^\d{10}(\d{2})?(\d{2})?(?:([.,])(\d+))?(Z|[+-]\d{4})?$/.exec(text);
+	if (!match) return undefined;
+	const type = utc ? 'UTCTime' : 'GeneralizedTime';
+	if (utc ? !match[1] : !match[2]) return `DER requires ${type} to include seconds`;
+	if ((utc ? match[2] : match[5]) !== 'Z') return `DER requires ${type} to end with Z`;
+	if (utc) return undefined;
+	if (match[3] === ',') return 'DER requires a full stop before the GeneralizedTime fraction';
+	if (match[4] && match[4].endsWith('0')) return 'DER does not allow trailing zeros in the GeneralizedTime fraction';
+	return undefined;
+}
+
+// UTCTime YYMMDDhhmm[ss]Z 与 GeneralizedTime YYYYMMDDhh[mm[ss[.fff]]][Z|±hhmm]，附上可读形式
+function formatTime(text: string, utc: boolean): string {
+	const match = utc
+		? /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(Z|[+-]\d{4})$/.exec(text)
+		: /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})?(\d{2})?(?:[.,](\d+))?(Z|[+-]\d{4})?$/.exec(text);
+	if (!match) return text;
+	let year = match[1];
+	if (utc) year = (Number(year) >= 50 ? '19' : '20') + year;
+	const seconds = match[6] ? `:${match[6]}` : '';
+	const fraction = !utc && match[7] ? `.${match[7]}` : '';
+	const zone = utc ? match[7] : match[8];
+	const readable = `${year}-${match[2]}-${match[3]} ${match[4]}:${match[5] || '00'}${seconds}${fraction}${zone === 'Z' ? ' UTC' : zone ? ` ${zone}` : ''}`;
+	return `${text} (${readable})`;
+}
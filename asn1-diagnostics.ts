@@ -0,0 +1,387 @@
+import { ASN1Token, tokenizeASN1 } from './asn1-lexer';
+import {
+	ASN1Assignment,
+	ASN1ComponentItem,
+	ASN1ConstructedType,
+	ASN1Document,
+	ASN1InstanceOfType,
+	ASN1Module,
+	ASN1ObjectClassFieldType,
+	ASN1ReferenceType,
+	ASN1SourceRange
+} from './asn1-ast';
+import { walkASN1 } from './asn1-walker';
+import { ASN1ComponentTag, ASN1EffectiveTag, ASN1TagResolver } from './asn1-tags';
+import { ASN1ImportResolver } from './asn1-imports';
+
+// 诊断规则，均可在设置中单独开关
+export type ASN1DiagnosticRule =
+	| 'syntax-error'
+	| 'unbalanced-braces'
+	| 'missing-assignment'
+	| 'undefined-reference'
+	| 'duplicate-assignment'
+	| 'duplicate-field'
+	| 'misplaced-presence'
+	| 'tag-clash'
+	| 'unresolved-import';
+
+export const ASN1_DIAGNOSTIC_RULES: ASN1DiagnosticRule[] = [
+	'syntax-error',
+	'unbalanced-braces',
+	'missing-assignment',
+	'undefined-reference',
+	'duplicate-assignment',
+	'duplicate-field',
+	'misplaced-presence',
+	'tag-clash',
+	'unresolved-import'
+];
+
+export type ASN1DiagnosticRuleSettings = Record<ASN1DiagnosticRule, boolean>;
+
+export interface ASN1Diagnostic extends ASN1SourceRange {
+	rule: ASN1DiagnosticRule;
+	severity: 'error' | 'warning';
+	message: string;
+}
+
+const OPENING_BRACKETS: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+const CLOSING_BRACKETS: Record<string, string> = { '}': '{', ')': '(', ']': '[' };
+
+// 基于语法树与令牌的诊断引擎
+export class ASN1DiagnosticsEngine {
+	private document: ASN1Document;
+	private tokens: ASN1Token[] = [];
+	private diagnostics: ASN1Diagnostic[] = [];
+	// 已由具体规则解释过的范围，其中的解析错误不再重复报告
+	private covered: ASN1SourceRange[] = [];
+
+	// imports 为空或库索引尚未建立时跳过跨笔记的检查
+	constructor(private rules: Partial<ASN1DiagnosticRuleSettings>, private imports?: ASN1ImportResolver) {}
+
+	run(document: ASN1Document): ASN1Diagnostic[] {
+		this.document = document;
+		this.tokens = tokenizeASN1(document.source).filter(token => token.kind !== 'comment' && token.kind !== 'eof');
+		this.diagnostics = [];
+		this.covered = [];
+
+		if (this.isEnabled('unbalanced-braces')) this.checkBrackets();
+		if (this.isEnabled('missing-assignment')) this.checkMissingAssignments();
+		if (this.isEnabled('misplaced-presence')) this.checkPresenceKeywords();
+		if (this.isEnabled('duplicate-assignment')) this.checkDuplicateAssignments();
+		if (this.isEnabled('duplicate-field')) this.checkDuplicateFields();
+		if (this.isEnabled('undefined-reference')) this.checkUndefinedReferences();
+		if (this.isEnabled('tag-clash')) this.checkTagClashes();
+		if (this.isEnabled('unresolved-import')) this.checkImports();
+		if (this.isEnabled('syntax-error')) this.checkSyntaxErrors();
+
+		return this.diagnostics.sort((a, b) => a.start - b.start);
+	}
+
+	private isEnabled(rule: ASN1DiagnosticRule): boolean {
+		return this.rules[rule] !== false;
+	}
+
+	private report(rule: ASN1DiagnosticRule, severity: ASN1Diagnostic['severity'], message: string, range: ASN1SourceRange) {
+		this.diagnostics.push({ rule, severity, message, start: range.start, end: range.end });
+	}
+
+	private get assignments(): ASN1Assignment[] {
+		return this.document.modules.reduce<ASN1Assignment[]>((all, module) => all.concat(module.assignments), []);
+	}
+
+	// 包含 offset 的无法解析的赋值
+	private invalidAssignmentAt(offset: number): ASN1Assignment | undefined {
+		return this.assignments.find(assignment => assignment.kind === 'invalid-assignment'
+			&& assignment.start <= offset && offset < assignment.end);
+	}
+
+	private cover(offset: number) {
+		const invalid = this.invalidAssignmentAt(offset);
+		if (invalid) this.covered.push(invalid);
+	}
+
+	// ---- 规则 ----
+
+	// 括号配对：未闭合的开括号与多余的闭括号
+	private checkBrackets() {
+		const stack: ASN1Token[] = [];
+		const unbalanced: ASN1Token[] = [];
+		for (const token of this.tokens) {
+			if (token.kind !== 'symbol') continue;
+			if (OPENING_BRACKETS[token.text]) {
+				stack.push(token);
+			} else if (CLOSING_BRACKETS[token.text]) {
+				const opening = CLOSING_BRACKETS[token.text];
+				const matchIndex = stack.map(item => item.text).lastIndexOf(opening);
+				if (matchIndex === -1) {
+					this.report('unbalanced-braces', 'error', `Unmatched '${token.text}'`, token);
+					unbalanced.push(token);
+					continue;
+				}
+				// 中间未闭合的括号
+				for (const unclosed of stack.splice(matchIndex).slice(1)) {
+					this.report('unbalanced-braces', 'error', `Unclosed '${unclosed.text}'`, unclosed);
+					unbalanced.push(unclosed);
+				}
+			}
+		}
+		for (const unclosed of stack) {
+			this.report('unbalanced-braces', 'error', `Unclosed '${unclosed.text}'`, unclosed);
+			unbalanced.push(unclosed);
+		}
+		unbalanced.forEach(token => this.cover(token.start));
+	}
+
+	// 无法解析且不含 ::= 的语句
+	private checkMissingAssignments() {
+		for (const assignment of this.assignments) {
+			if (assignment.kind !== 'invalid-assignment' || !assignment.name) continue;
+			const hasAssignment = this.tokens.some(token => token.start >= assignment.start && token.end <= assignment.end
+				&& token.kind === 'symbol' && token.text === '::=');
+			if (hasAssignment) continue;
+			this.report('missing-assignment', 'error', `Missing '::=' in definition of '${assignment.name}'`, assignment.nameRange);
+			this.covered.push(assignment);
+		}
+	}
+
+	// OPTIONAL / DEFAULT 只能跟在 SEQUENCE、SET 成员或类字段之后
+	private checkPresenceKeywords() {
+		const allowed = new Set<number>();
+		const constraintRanges: ASN1SourceRange[] = [];
+		for (const assignment of this.assignments) {
+			walkASN1(assignment, (node) => {
+				if (node.kind === 'constructed-type') {
+					const type = node as ASN1ConstructedType;
+					for (const component of this.flattenComponents(type.components)) {
+						if (component.kind !== 'component' || !component.presenceRange) continue;
+						if (type.structure === 'CHOICE') {
+							const keyword = component.optional ? 'OPTIONAL' : 'DEFAULT';
+							this.report('misplaced-presence', 'error', `${keyword} is not allowed on CHOICE alternative '${component.name}'`, component.presenceRange);
+						}
+						allowed.add(component.presenceRange.start);
+					}
+				} else if (node.kind === 'field-spec') {
+					const range = (node as { presenceRange?: ASN1SourceRange }).presenceRange;
+					if (range) allowed.add(range.start);
+				} else if (node.kind === 'inner-type-constraint') {
+					constraintRanges.push(node);
+				}
+			});
+		}
+
+		this.tokens.forEach((token, index) => {
+			if (token.kind !== 'keyword' || (token.text !== 'OPTIONAL' && token.text !== 'DEFAULT')) return;
+			if (allowed.has(token.start)) return;
+			if (constraintRanges.some(range => range.start <= token.start && token.end <= range.end)) return;
+
+			// 无法解析的赋值中只报告能确定的情况：语句以它开头、紧跟在 { 或 , 之后、或与另一个存在性关键字连用
+			const invalid = this.invalidAssignmentAt(token.start);
+			if (invalid) {
+				const previous = this.tokens[index - 1];
+				const certain = invalid.start === token.start
+					|| (previous && previous.kind === 'symbol' && (previous.text === '{' || previous.text === ','))
+					|| (previous && previous.kind === 'keyword' && previous.text === 'OPTIONAL');
+				if (!certain) return;
+				this.covered.push(invalid);
+			}
+			this.report('misplaced-presence', 'error', `${token.text} can only follow a SEQUENCE or SET component`, token);
+		});
+	}
+
+	// 同一模块内的重复定义
+	private checkDuplicateAssignments() {
+		for (const module of this.document.modules) {
+			const seen = new Map<string, ASN1Assignment>();
+			for (const assignment of module.assignments) {
+				if (assignment.kind === 'invalid-assignment') continue;
+				const first = seen.get(assignment.name);
+				if (first) {
+					const line = this.lineOf(first.start) + 1;
+					this.report('duplicate-assignment', 'error', `Duplicate definition of '${assignment.name}' (first defined on line ${line})`, assignment.nameRange);
+				} else {
+					seen.set(assignment.name, assignment);
+				}
+			}
+		}
+	}
+
+	// SEQUENCE / SET / CHOICE 中的重复成员名（包括版本括号内的成员）
+	private checkDuplicateFields() {
+		for (const assignment of this.assignments) {
+			walkASN1(assignment, (node) => {
+				if (node.kind !== 'constructed-type') return;
+				const type = node as ASN1ConstructedType;
+				const seen = new Set<string>();
+				for (const component of this.flattenComponents(type.components)) {
+					if (component.kind !== 'component') continue;
+					if (seen.has(component.name)) {
+						this.report('duplicate-field', 'error', `Duplicate component '${component.name}' in ${type.structure}`, component.nameRange);
+					}
+					seen.add(component.name);
+				}
+			});
+		}
+	}
+
+	// 引用了本代码块中既未定义也未导入的类型
+	private checkUndefinedReferences() {
+		const defined = new Set<string>();
+		for (const module of this.document.modules) {
+			for (const assignment of module.assignments) {
+				if (assignment.kind !== 'invalid-assignment') defined.add(assignment.name);
+			}
+			for (const clause of module.imports ? module.imports.clauses : []) {
+				clause.symbols.forEach(symbol => defined.add(symbol.name));
+			}
+		}
+
+		for (const module of this.document.modules) {
+			for (const assignment of module.assignments) {
+				const parameters = new Set((assignment.parameters || []).map(parameter => parameter.name));
+				walkASN1(assignment, (node) => {
+					let name: string | undefined;
+					let range: ASN1SourceRange | undefined;
+					if (node.kind === 'type-reference' && (node as ASN1ReferenceType).moduleName) {
+						this.checkExternalReference(node as ASN1ReferenceType);
+						return;
+					}
+					if (node.kind === 'type-reference') {
+						name = (node as ASN1ReferenceType).name;
+						range = (node as ASN1ReferenceType).nameRange;
+					} else if (node.kind === 'object-class-field-type' || node.kind === 'instance-of-type') {
+						name = (node as ASN1ObjectClassFieldType | ASN1InstanceOfType).className;
+						range = (node as ASN1ObjectClassFieldType | ASN1InstanceOfType).classNameRange;
+					}
+					if (!name || !range || defined.has(name) || parameters.has(name) || this.isBuiltinClass(name)) return;
+					this.report('undefined-reference', 'warning', this.undefinedMessage(module, name), range);
+				});
+			}
+		}
+	}
+
+	// CHOICE 备选项、SET 成员以及 SEQUENCE 中连续可选成员与其后第一个必选成员的标签必须互不相同（X.680 25.5、27.3、29.2）
+	private checkTagClashes() {
+		const resolver = new ASN1TagResolver(this.document);
+		for (const module of this.document.modules) {
+			for (const assignment of module.assignments) {
+				const context = resolver.contextOf(assignment, module);
+				walkASN1(assignment, (node) => {
+					if (node.kind !== 'constructed-type') return;
+					const type = node as ASN1ConstructedType;
+					const tags = resolver.componentTags(type, context);
+					for (let j = 1; j < tags.length; j++) {
+						for (let i = j - 1; i >= 0; i--) {
+							// SEQUENCE 中只比较与之相邻的一串可选成员
+							if (type.structure === 'SEQUENCE' && !this.isOptional(tags[i])) break;
+							const clash = this.findSharedTag(resolver, tags[i], tags[j]);
+							if (!clash) continue;
+							this.reportTagClash(resolver, type, tags[i], tags[j], clash);
+							break;
+						}
+					}
+				});
+			}
+		}
+	}
+
+	private isOptional(entry: ASN1ComponentTag): boolean {
+		return entry.component.optional || entry.component.defaultValue !== undefined;
+	}
+
+	private findSharedTag(resolver: ASN1TagResolver, a: ASN1ComponentTag, b: ASN1ComponentTag): ASN1EffectiveTag | undefined {
+		if (!a.tags || !b.tags) return undefined;
+		return b.tags.find(tag => a.tags!.some(other => resolver.sameTag(tag, other)));
+	}
+
+	// 报告在后一个成员上；它来自 COMPONENTS OF 时改为报告在前一个成员上
+	private reportTagClash(resolver: ASN1TagResolver, type: ASN1ConstructedType, first: ASN1ComponentTag, second: ASN1ComponentTag, tag: ASN1EffectiveTag) {
+		const inBody = (entry: ASN1ComponentTag) => entry.component.start >= type.bodyRange.start && entry.component.end <= type.bodyRange.end;
+		const [target, other] = inBody(second) ? [second, first] : [first, second];
+		if (!inBody(target)) return;
+		const description = resolver.describe({ tagClass: tag.tagClass, number: tag.number });
+		const scope = type.structure === 'SEQUENCE' ? `optional component '${first.component.name}'` : `'${other.component.name}' in ${type.structure}`;
+		const message = target === second
+			? `Component '${second.component.name}' has the same tag ${description} as ${scope}`
+			: `Component '${first.component.name}' has the same tag ${description} as '${second.component.name}' in ${type.structure}`;
+		this.report('tag-clash', 'error', message, target.component.nameRange);
+	}
+
+	// 引用其它模块中的类型 Module.Type
+	private checkExternalReference(reference: ASN1ReferenceType) {
+		if (!this.imports || !this.imports.ready || !reference.moduleName) return;
+		const { module } = this.imports.findModule(reference.moduleName);
+		if (!module) {
+			this.report('undefined-reference', 'warning', `Module '${reference.moduleName}' was not found in the vault`, reference.nameRange);
+		} else if (!this.imports.resolveSymbol(reference.name, module.module)) {
+			this.report('undefined-reference', 'warning', `Type '${reference.name}' is not defined in module '${reference.moduleName}'`, reference.nameRange);
+		}
+	}
+
+	// IMPORTS 中的模块需存在于库中，导入的名称需由该模块定义并导出
+	private checkImports() {
+		if (!this.imports || !this.imports.ready) return;
+		for (const module of this.document.modules) {
+			for (const resolution of this.imports.resolveModule(module)) {
+				const clause = resolution.clause;
+				if (!resolution.module) {
+					this.report('unresolved-import', 'warning', `Module '${clause.moduleName}' was not found in the vault`, clause.moduleNameRange);
+					continue;
+				}
+				if (resolution.oidMismatch) {
+					this.report('unresolved-import', 'warning', `Module '${clause.moduleName}' in the vault has a different object identifier`, clause.moduleNameRange);
+				}
+				for (const symbol of resolution.undefinedSymbols) {
+					this.report('unresolved-import', 'error', `'${symbol.name}' is not defined in module '${clause.moduleName}'`, symbol);
+				}
+				for (const symbol of resolution.unexported) {
+					this.report('unresolved-import', 'error', `'${symbol.name}' is not exported by module '${clause.moduleName}'`, symbol);
+				}
+			}
+		}
+	}
+
+	// 解析器报告的其余错误
+	private checkSyntaxErrors() {
+		for (const error of this.document.errors) {
+			const inCovered = this.covered.some(range => range.start <= error.start && error.start < range.end);
+			const overlaps = this.diagnostics.some(diagnostic => diagnostic.start < Math.max(error.end, error.start + 1) && error.start < diagnostic.end);
+			if (inCovered || overlaps) continue;
+			this.report('syntax-error', 'error', error.message, error);
+		}
+	}
+
+	// ---- 辅助方法 ----
+
+	private flattenComponents(items: ASN1ComponentItem[]): ASN1ComponentItem[] {
+		const result: ASN1ComponentItem[] = [];
+		for (const item of items) {
+			if (item.kind === 'extension-addition-group') {
+				result.push(...item.components);
+			} else {
+				result.push(item);
+			}
+		}
+		return result;
+	}
+
+	private isBuiltinClass(name: string): boolean {
+		return name === 'TYPE-IDENTIFIER' || name === 'ABSTRACT-SYNTAX';
+	}
+
+	private undefinedMessage(module: ASN1Module, name: string): string {
+		return module.implicit
+			? `Type '${name}' is not defined or imported in this block`
+			: `Type '${name}' is not defined or imported in module '${module.name}'`;
+	}
+
+	private lineOf(offset: number): number {
+		let line = 0;
+		const source = this.document.source;
+		for (let i = 0; i < offset && i < source.length; i++) {
+			if (source[i] === '\n') line++;
+		}
+		return line;
+	}
+}
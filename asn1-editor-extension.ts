@@ -0,0 +1,100 @@
+import { Extension, RangeSetBuilder, StateEffect } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from '@codemirror/view';
+import { ASN1HighlightOptions, classifyASN1Source } from './asn1-highlight';
+import { extractASN1Blocks } from './asn1-index';
+
+// 设置变化后强制重新着色
+const refreshEffect = StateEffect.define<null>();
+
+// 已着色的代码块：内容在文档中的起点与源码
+interface HighlightedBlock {
+	from: number;
+	source: string;
+}
+
+export interface ASN1HighlightExtension {
+	extension: Extension;
+	refresh(): void;  // 重新着色所有打开的编辑器
+}
+
+// 源码模式与实时预览中为 asn1 代码块着色，使用与阅读视图相同的 CSS 类
+export function asn1HighlightExtension(getOptions: () => ASN1HighlightOptions): ASN1HighlightExtension {
+	const marks = new Map<string, Decoration>();
+	const markFor = (className: string) => {
+		let mark = marks.get(className);
+		if (!mark) {
+			mark = Decoration.mark({ class: className });
+			marks.set(className, mark);
+		}
+		return mark;
+	};
+	const views = new Set<EditorView>();
+
+	// 只处理可见范围内的代码块；previous 中位置与内容都未变的代码块沿用映射后的装饰，不再重新解析
+	const build = (view: EditorView, previous?: { decorations: DecorationSet, blocks: HighlightedBlock[] }) => {
+		const builder = new RangeSetBuilder<Decoration>();
+		const blocks: HighlightedBlock[] = [];
+		try {
+			const doc = view.state.doc;
+			const highlighted = new Map<number, string>();
+			if (previous) previous.blocks.forEach(block => highlighted.set(block.from, block.source));
+			let options: ASN1HighlightOptions | undefined;
+			for (const block of extractASN1Blocks(doc.toString())) {
+				if (block.line >= doc.lines) continue;
+				const from = doc.line(block.line + 1).from;
+				const to = from + block.source.length;
+				if (!view.visibleRanges.some(range => range.from <= to && from <= range.to)) continue;
+				blocks.push({ from, source: block.source });
+				if (previous && highlighted.get(from) === block.source) {
+					previous.decorations.between(from, to, (start, end, mark) => {
+						builder.add(start, end, mark);
+					});
+					continue;
+				}
+				if (!options) options = getOptions();
+				for (const range of classifyASN1Source(block.source, options)) {
+					if (range.end > range.start) builder.add(from + range.start, from + range.end, markFor(range.className));
+				}
+			}
+		} catch (error) {
+			console.error('Error highlighting ASN.1 in editor:', error);
+		}
+		return { decorations: builder.finish(), blocks };
+	};
+
+	const extension = ViewPlugin.fromClass(class {
+		decorations: DecorationSet;
+		private blocks: HighlightedBlock[];
+
+		constructor(private view: EditorView) {
+			views.add(view);
+			this.apply(build(view));
+		}
+
+		update(update: ViewUpdate) {
+			const refresh = update.transactions.some(transaction => transaction.effects.some(effect => effect.is(refreshEffect)));
+			if (!refresh && !update.docChanged && !update.viewportChanged) return;
+			// 已有装饰随文档改动映射到新位置，只有内容变化或新进入视野的代码块需要重新着色
+			this.apply(build(update.view, refresh ? undefined : {
+				decorations: this.decorations.map(update.changes),
+				blocks: this.blocks.map(block => ({ from: update.changes.mapPos(block.from), source: block.source }))
+			}));
+		}
+
+		destroy() {
+			views.delete(this.view);
+		}
+
+		private apply(result: { decorations: DecorationSet, blocks: HighlightedBlock[] }) {
+			this.decorations = result.decorations;
+			this.blocks = result.blocks;
+		}
+	}, {
+		decorations: value => value.decorations
+	});
+
+	return {
+		extension,
+		refresh: () => views.forEach(view => view.dispatch({ effects: refreshEffect.of(null) }))
+	};
+}
@@ -0,0 +1,56 @@
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, TFile } from 'obsidian';
+import { ASN1Completion, ASN1CompletionEngine, ASN1CompletionResult } from './asn1-completion';
+
+// 补全需要的插件能力
+export interface ASN1SuggestHost {
+	// 光标所在 asn1 代码块的内容与光标在其中的偏移；不在代码块内时返回 null
+	getBlockAtCursor(editor: Editor): { source: string, offset: number } | null;
+	getKeywords(): string[];
+	getCustomKeywords(): string[];
+}
+
+// 只在 asn1 代码块内弹出的补全列表
+export class ASN1EditorSuggest extends EditorSuggest<ASN1Completion> {
+	private result: ASN1CompletionResult | null = null;
+
+	constructor(app: App, private engine: ASN1CompletionEngine, private host: ASN1SuggestHost) {
+		super(app);
+		this.limit = 50;
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor, _file: TFile | null): EditorSuggestTriggerInfo | null {
+		try {
+			const block = this.host.getBlockAtCursor(editor);
+			if (!block) return null;
+			const result = this.engine.complete(block.source, block.offset, this.host.getKeywords(), this.host.getCustomKeywords());
+			if (!result || result.items.length === 0) return null;
+			// 没有输入前缀时只在成员名、取值等候选项明确的位置弹出
+			if (!result.prefix && (result.context === 'general' || result.context === 'type')) return null;
+			this.result = result;
+			return {
+				start: { line: cursor.line, ch: cursor.ch - result.prefix.length },
+				end: cursor,
+				query: result.prefix
+			};
+		} catch (error) {
+			console.error('Error in ASN.1 completion:', error);
+			return null;
+		}
+	}
+
+	getSuggestions(_context: EditorSuggestContext): ASN1Completion[] {
+		return this.result ? this.result.items : [];
+	}
+
+	renderSuggestion(item: ASN1Completion, el: HTMLElement) {
+		el.classList.add('asn1-suggestion');
+		el.createEl('span', { text: item.label, cls: `asn1-suggestion-label asn1-suggestion-${item.kind}` });
+		if (item.detail) el.createEl('span', { text: item.detail, cls: 'asn1-suggestion-detail' });
+	}
+
+	selectSuggestion(item: ASN1Completion, _evt: MouseEvent | KeyboardEvent) {
+		if (!this.context) return;
+		this.context.editor.replaceRange(item.label, this.context.start, this.context.end);
+		this.close();
+	}
+}
@@ -0,0 +1,651 @@
+import {
+	ASN1BuiltinType,
+	ASN1CollectionType,
+	ASN1Constraint,
+	ASN1ConstructedType,
+	ASN1Document,
+	ASN1EnumeratedType,
+	ASN1LiteralValue,
+	ASN1Module,
+	ASN1NamedValue,
+	ASN1Type,
+	ASN1Value,
+	ASN1ValueAssignment
+} from './asn1-ast';
+import { ASN1ConstraintChecker, constraintText } from './asn1-constraints';
+import { ASN1TLVNode } from './asn1-der';
+import { ASN1ImportResolver, TOP_LEVEL_ARCS } from './asn1-imports';
+import { enumerationNumbers } from './asn1-schema-decoder';
+import { ASN1ComponentTag, ASN1DefinitionLookup, ASN1EffectiveTag, ASN1TagClass, ASN1TagContext, ASN1TagResolver, UNIVERSAL_TAG_NUMBERS } from './asn1-tags';
+
+// 值的编码结果；存在问题时不产生编码
+export interface ASN1EncodeResult {
+	bytes?: Uint8Array;
+	nodes: ASN1TLVNode[];      // 编码中的各个 TLV，标注成员名、类型与值
+	omitted: string[];         // 因等于 DEFAULT 而省略的成员路径
+	problems: ASN1EncodeProblem[];
+}
+
+// 无法编码的值；path 为成员路径，如 config.timeout
+export interface ASN1EncodeProblem {
+	path: string;
+	message: string;
+}
+
+// 类型引用链的最大深度，防止 A ::= B、B ::= A 这样的循环
+const MAX_DEPTH = 64;
+
+const TAG_CLASS_ORDER: ASN1TagClass[] = ['UNIVERSAL', 'APPLICATION', 'CONTEXT', 'PRIVATE'];
+
+// 字符串类型允许的字符；width 为每个字符的字节数，0 表示 UTF-8
+const STRING_ENCODINGS: Record<string, { width: number, allowed?: RegExp }> = {
+	'UTF8String': { width: 0 },
+	'NumericString': { width: 1, allowed: /^[0-9 ]$/ },
+	'PrintableString': { width: 1, allowed: /^[A-Za-z0-9 '()+,\-./:=?]$/ },
+	'IA5String': { width: 1, allowed: /^[\x00-\x7f]$/ },
+	'VisibleString': { width: 1, allowed: /^[\x20-\x7e]$/ },
+	'ISO646String': { width: 1, allowed: /^[\x20-\x7e]$/ },
+	'TeletexString': { width: 1 },
+	'T61String': { width: 1 },
+	'VideotexString': { width: 1 },
+	'GraphicString': { width: 1 },
+	'GeneralString': { width: 1 },
+	'BMPString': { width: 2 },
+	'UniversalString': { width: 4 }
+};
+
+// OID 第二层弧的名称（X.660 附录 A）
+const SECOND_LEVEL_ARCS: Record<string, Record<string, string>> = {
+	'0': { 'recommendation': '0', 'question': '1', 'administration': '2', 'network-operator': '3', 'identified-organization': '4' },
+	'1': { 'standard': '0', 'registration-authority': '1', 'member-body': '2', 'identified-organization': '3' }
+};
+
+// 按库中的类型定义把值记法编码为 DER
+export class ASN1ValueEncoder {
+	constructor(private imports: ASN1ImportResolver) {}
+
+	// 编码值赋值 value Type ::= ...；类型按 module 的 IMPORTS 与库索引查找
+	encode(document: ASN1Document, module: ASN1Module, assignment: ASN1ValueAssignment): ASN1EncodeResult {
+		const lookup: ASN1DefinitionLookup = (name, scope) => this.imports.lookupDefinition(name, scope);
+		const walk = new EncodeWalk(new ASN1TagResolver(document, lookup), lookup, this.imports);
+		const context = walk.tags.contextOf(assignment, module);
+		const root = walk.encode(assignment.value, module, assignment.type, context, assignment.name, 0);
+		if (!root || walk.problems.length > 0) {
+			return { nodes: [], omitted: walk.omitted, problems: walk.problems };
+		}
+		nameNode(root, assignment.name);
+		const bytes = Uint8Array.from(walk.build(root));
+		assignOffsets(root, 0);
+		return { bytes, nodes: [root], omitted: walk.omitted, problems: [] };
+	}
+}
+
+function newNode(tagClass: ASN1TagClass, tagNumber: number, constructed: boolean, children: ASN1TLVNode[]): ASN1TLVNode {
+	return { offset: 0, headerLength: 0, tagClass, tagNumber, constructed, length: 0, indefinite: false, end: 0, children };
+}
+
+// CHOICE 的备选项以 "成员: 备选项" 表示
+function nameNode(node: ASN1TLVNode, name: string) {
+	node.name = node.name ? `${name}: ${node.name}` : name;
+}
+
+function assignOffsets(node: ASN1TLVNode, offset: number) {
+	node.offset = offset;
+	node.end = offset + node.headerLength + node.length;
+	let next = offset + node.headerLength;
+	for (const child of node.children) {
+		assignOffsets(child, next);
+		next = child.end;
+	}
+}
+
+class EncodeWalk {
+	problems: ASN1EncodeProblem[] = [];
+	omitted: string[] = [];
+	private constraints: ASN1ConstraintChecker;
+	private contents = new Map<ASN1TLVNode, number[]>();   // 基本编码的内容
+	private measures = new Map<ASN1TLVNode, { integer?: number, size?: number }>();
+
+	constructor(readonly tags: ASN1TagResolver, private lookup: ASN1DefinitionLookup, private imports: ASN1ImportResolver) {
+		this.constraints = new ASN1ConstraintChecker(lookup);
+	}
+
+	// scope 为值所在的模块，值引用在其中查找；context 为类型定义所在的模块
+	encode(value: ASN1Value, scope: ASN1Module, type: ASN1Type, context: ASN1TagContext, path: string, depth: number): ASN1TLVNode | undefined {
+		if (depth > MAX_DEPTH) {
+			this.problem(path, 'Type definitions are nested too deeply');
+			return undefined;
+		}
+		let node: ASN1TLVNode | undefined;
+		switch (type.kind) {
+			case 'tagged-type': {
+				const tag = (this.tags.outermostTags(type, context) || [])[0];
+				const inner = this.encode(value, scope, type.inner, context, path, depth + 1);
+				node = inner && tag ? this.applyTag(inner, tag, path) : undefined;
+				break;
+			}
+			case 'type-reference': {
+				const name = type.moduleName ? `${type.moduleName}.${type.name}` : type.name;
+				// 形参在实参替换前无法确定
+				if (context.parameters.has(type.name)) {
+					this.problem(path, `Cannot encode a value of the open type ${name}`);
+					return undefined;
+				}
+				const definition = type.moduleName ? this.imports.lookupQualified(type.moduleName, type.name) : this.lookup(type.name, context.module);
+				if (!definition || definition.assignment.kind !== 'type-assignment') {
+					this.problem(path, `Type '${name}' is not defined`);
+					return undefined;
+				}
+				if (type.actualParameters || definition.assignment.parameters) {
+					this.problem(path, `Encoding values of the parameterized type ${name} is not supported`);
+					return undefined;
+				}
+				node = this.encode(value, scope, definition.assignment.type, this.tags.contextOf(definition.assignment, definition.module), path, depth + 1);
+				if (node) node.typeName = name;
+				break;
+			}
+			case 'builtin-type':
+				node = this.encodeBuiltin(value, scope, type, context, path);
+				break;
+			case 'enumerated-type':
+				node = this.encodeEnumerated(value, scope, type, path);
+				break;
+			case 'constructed-type':
+				node = this.encodeConstructed(value, scope, type, context, path, depth);
+				break;
+			case 'collection-type':
+				node = this.encodeCollection(value, scope, type, context, path, depth);
+				break;
+			case 'object-class-field-type':
+				// 开放类型由表约束决定
+				this.problem(path, `Cannot encode a value of the open type ${type.className}.${type.fieldPath.map(field => `&${field}`).join('.')}`);
+				return undefined;
+			case 'instance-of-type':
+				this.problem(path, `Encoding INSTANCE OF ${type.className} values is not supported`);
+				return undefined;
+		}
+		if (node) this.checkConstraints(node, type.constraints, context, path);
+		return node;
+	}
+
+	// 整个 TLV 的字节，同时填写各节点的头部与内容长度
+	build(node: ASN1TLVNode): number[] {
+		let content: number[] = [];
+		if (node.constructed) {
+			for (const child of node.children) content = content.concat(this.build(child));
+		} else {
+			content = this.contents.get(node) || [];
+		}
+		const header = tagBytes(node).concat(lengthBytes(content.length));
+		node.headerLength = header.length;
+		node.length = content.length;
+		return header.concat(content);
+	}
+
+	private encodeBuiltin(value: ASN1Value, scope: ASN1Module, type: ASN1BuiltinType, context: ASN1TagContext, path: string): ASN1TLVNode | undefined {
+		const name = type.name;
+		const number = UNIVERSAL_TAG_NUMBERS[name];
+		switch (name) {
+			case 'BOOLEAN': {
+				const literal = this.literal(value, scope, 'boolean');
+				if (!literal) return this.expected(path, 'TRUE or FALSE');
+				return this.primitive(number, [literal.text === 'TRUE' ? 0xff : 0x00], name, literal.text);
+			}
+			case 'ANY':
+				// 旧版语法中的开放类型
+				this.problem(path, 'Cannot encode a value of the open type ANY');
+				return undefined;
+			case 'NULL':
+				if (!this.literal(value, scope, 'null')) return this.expected(path, 'NULL');
+				return this.primitive(number, [], name, 'NULL');
+			case 'INTEGER': {
+				// 命名数字优先于同名的值引用
+				let text: string | undefined;
+				let display: string | undefined;
+				const named = value.kind === 'value-reference' && !value.moduleName && type.namedNumbers
+					? type.namedNumbers.find(item => item.name === value.name)
+					: undefined;
+				if (named) {
+					const resolved = this.constraints.numberOf(named.value, context.module);
+					text = resolved === undefined ? undefined : String(resolved);
+					display = `${named.name} (${text})`;
+				} else {
+					const literal = this.literal(value, scope, 'number');
+					text = literal ? literal.text : undefined;
+				}
+				if (text === undefined || !/^-?\d+$/.test(text)) return this.expected(path, 'an integer');
+				const node = this.primitive(number, integerContent(text), name, display || text);
+				this.measures.set(node, { integer: Number(text) });
+				return node;
+			}
+			case 'BIT STRING':
+				return this.encodeBitString(value, scope, type, context, path);
+			case 'OCTET STRING': {
+				const literal = this.literal(value, scope, 'hstring') || this.literal(value, scope, 'bstring');
+				if (!literal) return this.expected(path, "a hexadecimal string 'ABCD'H or binary string '0101'B");
+				const bytes = literal.literalType === 'hstring' ? packBits(hexBits(literal.text)) : packBits(binaryBits(literal.text));
+				const node = this.primitive(number, bytes, name, bytes.map(byte => (byte < 16 ? '0' : '') + byte.toString(16).toUpperCase()).join(''));
+				this.measures.set(node, { size: bytes.length });
+				return node;
+			}
+			case 'OBJECT IDENTIFIER':
+			case 'RELATIVE-OID': {
+				const arcs = this.objectIdentifierArcs(value, scope, path, 0);
+				if (!arcs) return undefined;
+				const content = this.objectIdentifierContent(arcs, name === 'RELATIVE-OID', path);
+				return content ? this.primitive(number, content, name, arcs.join('.')) : undefined;
+			}
+			case 'UTCTime':
+			case 'GeneralizedTime': {
+				const literal = this.literal(value, scope, 'cstring');
+				if (!literal) return this.expected(path, 'a time string');
+				const text = unquote(literal.text);
+				// DER 要求时间以 Z 结尾（X.690 11.7、11.8）
+				if (!/^[0-9.,]+Z$/.test(text)) {
+					this.problem(path, `${name} value "${text}" must consist of digits and end with Z in DER`);
+					return undefined;
+				}
+				return this.primitive(number, Array.from(text).map(ch => ch.charCodeAt(0)), name, text);
+			}
+			default:
+				if (STRING_ENCODINGS[name]) return this.encodeString(value, scope, name, path);
+				this.problem(path, `Encoding ${name} values is not supported`);
+				return undefined;
+		}
+	}
+
+	// 命名位列表 { a, b } 或 '0101'B、'A0'H
+	private encodeBitString(value: ASN1Value, scope: ASN1Module, type: ASN1BuiltinType, context: ASN1TagContext, path: string): ASN1TLVNode | undefined {
+		const resolved = this.dereference(value, scope).value;
+		let bits: number[];
+		if (resolved.kind === 'literal-value' && resolved.literalType === 'bstring') {
+			bits = binaryBits(resolved.text);
+		} else if (resolved.kind === 'literal-value' && resolved.literalType === 'hstring') {
+			bits = hexBits(resolved.text);
+		} else if (resolved.kind === 'sequence-of-value') {
+			bits = [];
+			for (const item of resolved.items) {
+				const named = item.kind === 'value-reference' && type.namedNumbers ? type.namedNumbers.find(bit => bit.name === item.name) : undefined;
+				const position = named ? this.constraints.numberOf(named.value, context.module) : undefined;
+				if (position === undefined) {
+					this.problem(path, `${item.kind === 'value-reference' ? `'${item.name}'` : 'Value'} is not a named bit of the BIT STRING`);
+					return undefined;
+				}
+				while (bits.length <= position) bits.push(0);
+				bits[position] = 1;
+			}
+		} else {
+			return this.expected(path, "a binary string '0101'B or a list of named bits");
+		}
+		// DER：有命名位的类型去掉末尾的 0 位（X.690 11.2.2）
+		if (type.namedNumbers && type.namedNumbers.length > 0) {
+			while (bits.length > 0 && bits[bits.length - 1] === 0) bits.pop();
+		}
+		const unused = (8 - bits.length % 8) % 8;
+		const node = this.primitive(UNIVERSAL_TAG_NUMBERS['BIT STRING'], [unused].concat(packBits(bits)), 'BIT STRING', `'${bits.join('')}'B`);
+		this.measures.set(node, { size: bits.length });
+		return node;
+	}
+
+	private encodeString(value: ASN1Value, scope: ASN1Module, name: string, path: string): ASN1TLVNode | undefined {
+		const literal = this.literal(value, scope, 'cstring');
+		if (!literal) return this.expected(path, 'a quoted string');
+		const text = unquote(literal.text);
+		const { width, allowed } = STRING_ENCODINGS[name];
+		const characters = Array.from(text);
+		for (const ch of characters) {
+			const code = ch.codePointAt(0)!;
+			if ((allowed && !allowed.test(ch)) || (width === 1 && code > 0xff) || (width === 2 && code > 0xffff)) {
+				this.problem(path, `Character '${ch}' is not allowed in ${name}`);
+				return undefined;
+			}
+		}
+		let content: number[];
+		if (width === 0) {
+			content = Array.from(new TextEncoder().encode(text));
+		} else {
+			content = [];
+			for (const ch of characters) {
+				const code = ch.codePointAt(0)!;
+				for (let shift = (width - 1) * 8; shift >= 0; shift -= 8) content.push(Math.floor(code / Math.pow(2, shift)) & 0xff);
+			}
+		}
+		const node = this.primitive(UNIVERSAL_TAG_NUMBERS[name], content, name, text);
+		this.measures.set(node, { size: characters.length });
+		return node;
+	}
+
+	private encodeEnumerated(value: ASN1Value, scope: ASN1Module, type: ASN1EnumeratedType, path: string): ASN1TLVNode | undefined {
+		const numbers = enumerationNumbers(type);
+		// 枚举项名称优先于同名的值引用
+		let name = value.kind === 'value-reference' && !value.moduleName && numbers.has(value.name) ? value.name : undefined;
+		if (!name) {
+			const resolved = this.dereference(value, scope).value;
+			if (resolved.kind === 'value-reference' && numbers.has(resolved.name)) name = resolved.name;
+		}
+		if (!name) return this.expected(path, `one of ${Array.from(numbers.keys()).join(', ')}`);
+		const number = numbers.get(name)!;
+		const node = this.primitive(UNIVERSAL_TAG_NUMBERS['ENUMERATED'], integerContent(String(number)), 'ENUMERATED', `${name} (${number})`);
+		this.measures.set(node, { integer: number });
+		return node;
+	}
+
+	private encodeConstructed(value: ASN1Value, scope: ASN1Module, type: ASN1ConstructedType, context: ASN1TagContext, path: string, depth: number): ASN1TLVNode | undefined {
+		const entries = this.tags.componentTags(type, context);
+		const resolved = this.dereference(value, scope);
+		if (type.structure === 'CHOICE') {
+			const choice = resolved.value;
+			if (choice.kind !== 'choice-value') return this.expected(path, 'a CHOICE value alternative : value');
+			const entry = entries.find(item => item.component.name === choice.name);
+			if (!entry) {
+				this.problem(path, `'${choice.name}' is not an alternative of the CHOICE`);
+				return undefined;
+			}
+			const node = this.encodeComponent(choice.value, resolved.scope, entry, context, `${path}.${choice.name}`, depth);
+			if (node) nameNode(node, choice.name);
+			return node;
+		}
+
+		let components: ASN1NamedValue[];
+		if (resolved.value.kind === 'sequence-value') {
+			components = resolved.value.components;
+		} else if (resolved.value.kind === 'sequence-of-value' && resolved.value.items.length === 0) {
+			components = [];
+		} else {
+			return this.expected(path, `a ${type.structure} value { name value, ... }`);
+		}
+		const seen = new Set<string>();
+		for (const component of components) {
+			if (!entries.some(entry => entry.component.name === component.name)) {
+				this.problem(path, `'${component.name}' is not a component of the ${type.structure}`);
+			} else if (seen.has(component.name)) {
+				this.problem(path, `Component '${component.name}' is given more than once`);
+			}
+			seen.add(component.name);
+		}
+
+		const children: ASN1TLVNode[] = [];
+		for (const entry of entries) {
+			const component = entry.component;
+			const given = components.find(item => item.name === component.name);
+			if (!given) {
+				if (!component.optional && !component.defaultValue && !component.extensionAddition) {
+					this.problem(path, `Missing mandatory component '${component.name}'`);
+				}
+				continue;
+			}
+			const componentPath = `${path}.${component.name}`;
+			const child = this.encodeComponent(given.value, resolved.scope, entry, context, componentPath, depth);
+			if (!child) continue;
+			// DER：等于 DEFAULT 的成员不编码（X.690 11.5）
+			if (component.defaultValue && this.equalsDefault(child, entry, context, depth)) {
+				this.omitted.push(componentPath);
+				continue;
+			}
+			nameNode(child, component.name);
+			children.push(child);
+		}
+		// DER：SET 的成员按标签排序（X.690 10.3）
+		if (type.structure === 'SET') children.sort(compareTags);
+		return this.constructedNode(UNIVERSAL_TAG_NUMBERS[type.structure], children, type.structure);
+	}
+
+	private encodeCollection(value: ASN1Value, scope: ASN1Module, type: ASN1CollectionType, context: ASN1TagContext, path: string, depth: number): ASN1TLVNode | undefined {
+		const resolved = this.dereference(value, scope);
+		let items: ASN1Value[];
+		if (resolved.value.kind === 'sequence-of-value') {
+			items = resolved.value.items;
+		} else if (resolved.value.kind === 'sequence-value' && resolved.value.components.length === 0) {
+			items = [];
+		} else {
+			return this.expected(path, `a ${type.structure} value { value, ... }`);
+		}
+		const children: ASN1TLVNode[] = [];
+		items.forEach((item, index) => {
+			const child = this.encode(item, resolved.scope, type.element, context, `${path}[${index}]`, depth + 1);
+			if (!child) return;
+			nameNode(child, type.elementName || `[${index}]`);
+			children.push(child);
+		});
+		// DER：SET OF 的成员按编码排序（X.690 11.6）
+		if (type.structure === 'SET OF') {
+			const encodings = new Map(children.map(child => [child, this.build(child)] as [ASN1TLVNode, number[]]));
+			children.sort((a, b) => compareBytes(encodings.get(a)!, encodings.get(b)!));
+		}
+		const node = this.constructedNode(UNIVERSAL_TAG_NUMBERS[type.structure === 'SEQUENCE OF' ? 'SEQUENCE' : 'SET'], children, type.structure);
+		this.measures.set(node, { size: items.length });
+		if (type.sizeConstraint) this.checkConstraints(node, [type.sizeConstraint], context, path);
+		return node;
+	}
+
+	// 自动标签不出现在成员类型中，需要在成员的编码外施加
+	private encodeComponent(value: ASN1Value, scope: ASN1Module, entry: ASN1ComponentTag, context: ASN1TagContext, path: string, depth: number): ASN1TLVNode | undefined {
+		const node = this.encode(value, scope, entry.component.type, context, path, depth + 1);
+		if (!node || !entry.automatic || !entry.tags) return node;
+		return this.applyTag(node, entry.tags[0], path);
+	}
+
+	// 成员的编码是否与 DEFAULT 值的编码相同；DEFAULT 值无法编码时视为不同
+	private equalsDefault(node: ASN1TLVNode, entry: ASN1ComponentTag, context: ASN1TagContext, depth: number): boolean {
+		const problems = this.problems;
+		this.problems = [];
+		const fallback = this.encodeComponent(entry.component.defaultValue!, context.module, entry, context, entry.component.name, depth);
+		const valid = fallback !== undefined && this.problems.length === 0;
+		this.problems = problems;
+		return valid && compareBytes(this.build(node), this.build(fallback!)) === 0;
+	}
+
+	// 隐式标签替换节点的标签，显式标签在外面再包一层
+	private applyTag(node: ASN1TLVNode, tag: ASN1EffectiveTag, path: string): ASN1TLVNode | undefined {
+		if (!/^\d+$/.test(tag.number)) {
+			this.problem(path, `Cannot determine the number of the tag [${tag.number}]`);
+			return undefined;
+		}
+		if (tag.mode !== 'EXPLICIT') {
+			node.tagClass = tag.tagClass;
+			node.tagNumber = Number(tag.number);
+			return node;
+		}
+		const wrapper = newNode(tag.tagClass, Number(tag.number), true, [node]);
+		const measure = this.measures.get(node);
+		if (measure) this.measures.set(wrapper, measure);
+		return wrapper;
+	}
+
+	// OID 各弧的十进制数字；名称形式的弧按顶层名称、第二层名称或值引用确定
+	private objectIdentifierArcs(value: ASN1Value, scope: ASN1Module, path: string, depth: number): string[] | undefined {
+		const resolved = this.dereference(value, scope);
+		if (resolved.value.kind !== 'object-identifier-value' || depth > MAX_DEPTH) {
+			this.expected(path, 'an object identifier value { 1 2 840 }');
+			return undefined;
+		}
+		const arcs: string[] = [];
+		for (const component of resolved.value.components) {
+			if (component.number !== undefined) {
+				const number = /^\d+$/.test(component.number)
+					? component.number
+					: this.constraints.numberOf({ kind: 'value-reference', name: component.number, start: 0, end: 0 }, resolved.scope);
+				if (number === undefined) {
+					this.problem(path, `Cannot determine the number of the arc '${component.number}'`);
+					return undefined;
+				}
+				arcs.push(String(number));
+				continue;
+			}
+			const name = component.name || '';
+			const second = arcs.length === 1 ? SECOND_LEVEL_ARCS[arcs[0]] : undefined;
+			if (arcs.length === 0 && !component.moduleName && TOP_LEVEL_ARCS[name]) {
+				arcs.push(TOP_LEVEL_ARCS[name]);
+			} else if (second && second[name]) {
+				arcs.push(second[name]);
+			} else if (arcs.length === 0) {
+				// 首个弧可以引用另一个 OID 值
+				const reference: ASN1Value = { kind: 'value-reference', name, moduleName: component.moduleName, start: 0, end: 0 };
+				const prefix = this.objectIdentifierArcs(reference, resolved.scope, path, depth + 1);
+				if (!prefix) return undefined;
+				arcs.push(...prefix);
+			} else {
+				this.problem(path, `Cannot determine the number of the arc '${name}'`);
+				return undefined;
+			}
+		}
+		return arcs;
+	}
+
+	private objectIdentifierContent(arcs: string[], relative: boolean, path: string): number[] | undefined {
+		let subidentifiers: number[][];
+		if (relative) {
+			subidentifiers = arcs.map(arc => decimalToBase(arc, 128));
+		} else {
+			const first = Number(arcs[0]);
+			if (arcs.length < 2 || first > 2 || (first < 2 && Number(arcs[1]) >= 40)) {
+				this.problem(path, `${arcs.join('.')} is not a valid object identifier`);
+				return undefined;
+			}
+			// 前两个弧合并为 40 * X + Y（X.690 8.19.4）
+			subidentifiers = [decimalToBase(arcs[1], 128, first * 40)].concat(arcs.slice(2).map(arc => decimalToBase(arc, 128)));
+		}
+		const content: number[] = [];
+		for (const digits of subidentifiers) {
+			digits.forEach((digit, index) => content.push(index < digits.length - 1 ? digit | 0x80 : digit));
+		}
+		return content;
+	}
+
+	private checkConstraints(node: ASN1TLVNode, constraints: ASN1Constraint[], context: ASN1TagContext, path: string) {
+		const measure = this.measures.get(node);
+		if (!measure) return;
+		for (const constraint of this.constraints.violations(constraints, measure, context.module)) {
+			const subject = measure.integer !== undefined ? `Value ${measure.integer}` : `Size ${measure.size}`;
+			this.problem(path, `${subject} violates the constraint ${constraintText(constraint)}`);
+		}
+	}
+
+	// 沿值引用找到实际的值及其所在模块
+	private dereference(value: ASN1Value, scope: ASN1Module): { value: ASN1Value, scope: ASN1Module } {
+		for (let depth = 0; value.kind === 'value-reference' && depth < MAX_DEPTH; depth++) {
+			const definition = value.moduleName ? this.imports.lookupQualified(value.moduleName, value.name) : this.lookup(value.name, scope);
+			if (!definition || definition.assignment.kind !== 'value-assignment') break;
+			value = definition.assignment.value;
+			scope = definition.module;
+		}
+		return { value, scope };
+	}
+
+	private literal(value: ASN1Value, scope: ASN1Module, literalType: ASN1LiteralValue['literalType']): ASN1LiteralValue | undefined {
+		const resolved = this.dereference(value, scope).value;
+		return resolved.kind === 'literal-value' && resolved.literalType === literalType ? resolved : undefined;
+	}
+
+	private primitive(tagNumber: number, content: number[], typeName: string, value: string): ASN1TLVNode {
+		const node = newNode('UNIVERSAL', tagNumber, false, []);
+		node.typeName = typeName;
+		node.value = value;
+		this.contents.set(node, content);
+		return node;
+	}
+
+	private constructedNode(tagNumber: number, children: ASN1TLVNode[], typeName: string): ASN1TLVNode {
+		const node = newNode('UNIVERSAL', tagNumber, true, children);
+		node.typeName = typeName;
+		return node;
+	}
+
+	private expected(path: string, what: string): undefined {
+		this.problem(path, `Expected ${what}`);
+		return undefined;
+	}
+
+	private problem(path: string, message: string) {
+		this.problems.push({ path, message });
+	}
+}
+
+function tagBytes(node: ASN1TLVNode): number[] {
+	const leading = (TAG_CLASS_ORDER.indexOf(node.tagClass) << 6) | (node.constructed ? 0x20 : 0);
+	if (node.tagNumber < 31) return [leading | node.tagNumber];
+	const digits = decimalToBase(String(node.tagNumber), 128);
+	return [leading | 0x1f].concat(digits.map((digit, index) => index < digits.length - 1 ? digit | 0x80 : digit));
+}
+
+// DER 使用最短的定长编码
+function lengthBytes(length: number): number[] {
+	if (length < 0x80) return [length];
+	const digits = decimalToBase(String(length), 256);
+	return [0x80 | digits.length].concat(digits);
+}
+
+// 最短的二进制补码
+function integerContent(text: string): number[] {
+	const negative = text.startsWith('-');
+	const magnitude = decimalToBase(negative ? text.substring(1) : text, 256);
+	if (!negative) return magnitude[0] & 0x80 ? [0].concat(magnitude) : magnitude;
+	// 取反加一
+	const bytes = magnitude.map(byte => ~byte & 0xff);
+	for (let i = bytes.length - 1; i >= 0; i--) {
+		bytes[i] = (bytes[i] + 1) & 0xff;
+		if (bytes[i] !== 0) break;
+	}
+	if (!(bytes[0] & 0x80)) bytes.unshift(0xff);
+	while (bytes.length > 1 && bytes[0] === 0xff && bytes[1] & 0x80) bytes.shift();
+	return bytes;
+}
+
+// 十进制数字串转为指定进制的各位（高位在前），再加上 offset；支持任意长度
+function decimalToBase(text: string, base: number, offset = 0): number[] {
+	const digits = [0]; // 低位在前
+	const multiplyAdd = (multiplier: number, addend: number) => {
+		let carry = addend;
+		for (let i = 0; i < digits.length; i++) {
+			const value = digits[i] * multiplier + carry;
+			digits[i] = value % base;
+			carry = Math.floor(value / base);
+		}
+		for (; carry > 0; carry = Math.floor(carry / base)) digits.push(carry % base);
+	};
+	for (const ch of text) multiplyAdd(10, Number(ch));
+	multiplyAdd(1, offset);
+	return digits.reverse();
+}
+
+// '0101'B 的各位
+function binaryBits(text: string): number[] {
+	return Array.from(text.substring(1, text.lastIndexOf("'")).replace(/\s/g, '')).map(ch => ch === '1' ? 1 : 0);
+}
+
+// 'A0'H 的各位
+function hexBits(text: string): number[] {
+	const bits: number[] = [];
+	for (const ch of text.substring(1, text.lastIndexOf("'")).replace(/\s/g, '')) {
+		const digit = parseInt(ch, 16);
+		for (let shift = 3; shift >= 0; shift--) bits.push((digit >> shift) & 1);
+	}
+	return bits;
+}
+
+// 按字节打包，最后一个字节不足时以 0 补齐
+function packBits(bits: number[]): number[] {
+	const bytes: number[] = [];
+	for (let i = 0; i < bits.length; i += 8) {
+		let byte = 0;
+		for (let j = 0; j < 8; j++) byte = (byte << 1) | (bits[i + j] || 0);
+		bytes.push(byte);
+	}
+	return bytes;
+}
+
+// "..." 字符串的内容，"" 表示一个引号
+function unquote(text: string): string {
+	return text.substring(1, text.length - 1).replace(/""/g, '"');
+}
+
+function compareTags(a: ASN1TLVNode, b: ASN1TLVNode): number {
+	return TAG_CLASS_ORDER.indexOf(a.tagClass) - TAG_CLASS_ORDER.indexOf(b.tagClass) || a.tagNumber - b.tagNumber;
+}
+
+function compareBytes(a: number[], b: number[]): number {
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		if (a[i] !== b[i]) return a[i] - b[i];
+	}
+	return a.length - b.length;
+}
@@ -0,0 +1,919 @@
+import { ASN1Token } from './asn1-lexer';
+import {
+	ASN1ActualParameter,
+	ASN1Assignment,
+	ASN1BracedValue,
+	ASN1Comment,
+	ASN1ComponentItem,
+	ASN1Constraint,
+	ASN1ConstraintSpec,
+	ASN1Document,
+	ASN1ElementSet,
+	ASN1EnumerationItem,
+	ASN1ExceptionSpec,
+	ASN1ExtensionAdditionGroup,
+	ASN1ExtensionMarker,
+	ASN1FieldSpec,
+	ASN1Imports,
+	ASN1InnerTypeConstraint,
+	ASN1LiteralValue,
+	ASN1Module,
+	ASN1NamedConstraint,
+	ASN1NamedNumber,
+	ASN1ObjectClass,
+	ASN1ObjectIdentifierComponent,
+	ASN1ObjectIdentifierValue,
+	ASN1Parameter,
+	ASN1SequenceOfValue,
+	ASN1SequenceValue,
+	ASN1SourceRange,
+	ASN1Tag,
+	ASN1Type,
+	ASN1Value
+} from './asn1-ast';
+import { parseASN1 } from './asn1-parser';
+
+// 格式化选项，对应插件设置中的同名字段
+export interface ASN1FormatOptions {
+	indentSize: number;
+	maxLineLength: number;
+	autoWrapLongLines: boolean;
+}
+
+// 基于语法树的格式化器
+export class ASN1Formatter {
+	private document: ASN1Document;
+	private commentIndex = 0;
+	// 类名 -> WITH SYNTAX 中每组开头的关键字，用于对象分行
+	private syntaxStarters = new Map<string, Set<string>>();
+
+	constructor(private options: ASN1FormatOptions) {}
+
+	format(code: string): string {
+		this.document = parseASN1(code);
+		this.commentIndex = 0;
+		this.syntaxStarters.clear();
+		for (const module of this.document.modules) {
+			for (const assignment of module.assignments) {
+				if (assignment.kind === 'object-class-assignment' && assignment.objectClass.syntax) {
+					this.syntaxStarters.set(assignment.name, this.collectSyntaxStarters(assignment.objectClass.syntax));
+				}
+			}
+		}
+
+		const lines: string[] = [];
+		for (const module of this.document.modules) {
+			this.ensureBlankLines(lines, 2);
+			if (module.implicit) {
+				this.printImplicitModule(module, lines);
+			} else {
+				this.printModule(module, lines);
+			}
+		}
+		this.pushComments(this.takeCommentsBefore(Infinity), '', lines);
+
+		while (lines.length > 0 && lines[lines.length - 1] === '') {
+			lines.pop();
+		}
+		return lines.join('\n');
+	}
+
+	// 已解析的语法树（供调用方复用）
+	getDocument(): ASN1Document {
+		return this.document;
+	}
+
+	// ---- 模块 ----
+
+	private printModule(module: ASN1Module, lines: string[]) {
+		this.pushComments(this.takeCommentsBefore(module.start), '', lines);
+		const headerEnd = module.headerTokens.length > 0
+			? module.headerTokens[module.headerTokens.length - 1].end
+			: module.start;
+		lines.push(this.withTrailingComment(this.joinTokens(module.headerTokens), headerEnd));
+
+		if (module.exportsTokens) {
+			this.ensureBlankLines(lines, 1);
+			const exportsEnd = module.exportsTokens[module.exportsTokens.length - 1].end;
+			this.pushComments(this.takeCommentsBefore(module.exportsTokens[0].start), '', lines);
+			lines.push(this.withTrailingComment(this.joinTokens(module.exportsTokens), exportsEnd));
+		}
+		if (module.imports) {
+			this.ensureBlankLines(lines, 1);
+			this.printImports(module.imports, lines);
+		}
+
+		module.assignments.forEach((assignment, index) => {
+			this.ensureBlankLines(lines, index === 0 ? 1 : 2);
+			this.printAssignment(assignment, lines);
+		});
+
+		if (module.endRange) {
+			this.ensureBlankLines(lines, 1);
+			this.pushComments(this.takeCommentsBefore(module.endRange.start), '', lines);
+			lines.push(this.withTrailingComment('END', module.endRange.end));
+		}
+	}
+
+	private printImplicitModule(module: ASN1Module, lines: string[]) {
+		if (module.imports) {
+			this.printImports(module.imports, lines);
+		}
+		module.assignments.forEach((assignment, index) => {
+			this.ensureBlankLines(lines, index === 0 && !module.imports ? 0 : 2);
+			this.printAssignment(assignment, lines);
+		});
+	}
+
+	// IMPORTS
+	//   A, B
+	//     FROM ModuleA { ... }
+	//   C FROM ModuleB;
+	private printImports(imports: ASN1Imports, lines: string[]) {
+		const indent = this.indent(1);
+		const invalid = imports.invalidClause;
+		this.pushComments(this.takeCommentsBefore(imports.start), '', lines);
+		if (imports.clauses.length === 0 && !invalid) {
+			lines.push(this.withTrailingComment('IMPORTS;', imports.end));
+			return;
+		}
+		lines.push('IMPORTS');
+		imports.clauses.forEach((clause, index) => {
+			this.pushComments(this.takeCommentsBefore(clause.start), indent, lines);
+			const symbols = clause.symbols.map(symbol => symbol.name + (symbol.parameterized ? '{}' : ''));
+			let from = `FROM ${clause.moduleName}`;
+			if (clause.assignedIdentifier) {
+				from += ' ' + this.printValue(clause.assignedIdentifier, 2);
+			}
+			// 有无法解析的子句时 ; 留在原文中
+			if (index === imports.clauses.length - 1 && !invalid) {
+				from += ';';
+			}
+			const singleLine = `${indent}${symbols.join(', ')} ${from}`;
+			if (singleLine.length <= this.options.maxLineLength) {
+				lines.push(this.withTrailingComment(singleLine, clause.end));
+				return;
+			}
+			for (const line of this.wrapList(symbols, indent)) {
+				lines.push(line);
+			}
+			lines.push(this.withTrailingComment(this.indent(2) + from, clause.end));
+		});
+		// 无法解析的部分原样输出，其中的注释已包含在原文里
+		if (invalid && invalid.end > invalid.start) {
+			this.pushComments(this.takeCommentsBefore(invalid.start), indent, lines);
+			const text = indent + this.document.source.substring(invalid.start, invalid.end);
+			this.takeCommentsBefore(invalid.end);
+			lines.push(this.withTrailingComment(text, invalid.end));
+		}
+	}
+
+	// ---- 赋值 ----
+
+	private printAssignment(assignment: ASN1Assignment, lines: string[]) {
+		this.pushComments(this.takeCommentsBefore(assignment.start), '', lines);
+
+		let text: string;
+		switch (assignment.kind) {
+			case 'type-assignment': {
+				const prefix = `${this.printAssignmentName(assignment)} ::= `;
+				text = prefix + this.printType(assignment.type, 0, prefix.length);
+				break;
+			}
+			case 'value-assignment': {
+				const prefix = `${this.printAssignmentName(assignment)} ${this.printType(assignment.type, 0)} ::= `;
+				text = prefix + this.printValue(assignment.value, 0, prefix.length);
+				break;
+			}
+			case 'value-set-assignment':
+				text = `${this.printAssignmentName(assignment)} ${this.printType(assignment.type, 0)} ::= ${this.printValue(assignment.valueSet, 0)}`;
+				break;
+			case 'object-class-assignment':
+				text = `${this.printAssignmentName(assignment)} ::= ${this.printObjectClass(assignment.objectClass, 0)}`;
+				break;
+			case 'object-assignment': {
+				const prefix = `${this.printAssignmentName(assignment)} ${this.printType(assignment.objectClass, 0)} ::= `;
+				text = prefix + this.printObject(assignment.object, assignment.objectClass.name, prefix, 0);
+				break;
+			}
+			case 'object-set-assignment': {
+				const prefix = `${this.printAssignmentName(assignment)} ${this.printType(assignment.objectClass, 0)} ::= `;
+				text = prefix + this.printObjectSet(assignment.objectSet, prefix, 0);
+				break;
+			}
+			case 'invalid-assignment':
+				// 无法解析的内容原样输出，其中的注释已包含在原文里
+				text = this.document.source.substring(assignment.start, assignment.end);
+				this.takeCommentsBefore(assignment.end);
+				break;
+		}
+		lines.push(this.withTrailingComment(text, assignment.end));
+	}
+
+	// Name 或 Name{Governor:Param, Param}
+	private printAssignmentName(assignment: { name: string; parameters?: ASN1Parameter[] }): string {
+		if (!assignment.parameters) return assignment.name;
+		const parameters = assignment.parameters.map(parameter => parameter.governor
+			? `${this.printType(parameter.governor, 0)}:${parameter.name}`
+			: parameter.name);
+		return `${assignment.name}{${parameters.join(', ')}}`;
+	}
+
+	// ---- 类型 ----
+
+	// 返回类型文本：第一行接在调用方当前行之后（起始列为 column），后续行带有绝对缩进
+	private printType(type: ASN1Type, level: number, column = this.indent(level).length): string {
+		let text: string;
+		switch (type.kind) {
+			case 'tagged-type': {
+				const tag = `${this.printTag(type.tag)} `;
+				return tag + this.printType(type.inner, level, column + tag.length);
+			}
+			case 'builtin-type':
+				text = type.name;
+				if (type.namedNumbers) {
+					text += ` { ${type.namedNumbers.map(item => this.printNamedNumber(item)).join(', ')} }`;
+				}
+				if (type.definedBy) text += ` DEFINED BY ${type.definedBy}`;
+				break;
+			case 'type-reference':
+				text = type.moduleName ? `${type.moduleName}.${type.name}` : type.name;
+				if (type.actualParameters) {
+					text += `{${type.actualParameters.map(parameter => this.printActualParameter(parameter, level)).join(', ')}}`;
+				}
+				break;
+			case 'constructed-type':
+				text = `${type.structure} ${this.printBlock(type.components, type.bodyRange.end, level, item => this.printComponentItem(item, level + 1))}`;
+				break;
+			case 'enumerated-type':
+				text = `ENUMERATED ${this.printBlock(type.items, type.bodyRange.end, level, item => this.printEnumerationItem(item))}`;
+				break;
+			case 'collection-type': {
+				const keyword = type.structure === 'SET OF' ? 'SET' : 'SEQUENCE';
+				const size = type.sizeConstraint ? `${this.printConstraint(type.sizeConstraint, level, column + keyword.length + 1)} ` : '';
+				const prefix = `${keyword} ${size}OF ${type.elementName ? `${type.elementName} ` : ''}`;
+				text = prefix + this.printType(type.element, level, this.endColumn(column, prefix));
+				break;
+			}
+			case 'object-class-field-type':
+				text = type.className + type.fieldPath.map(field => `.${field}`).join('');
+				break;
+			case 'instance-of-type':
+				text = `INSTANCE OF ${type.className}`;
+				break;
+		}
+		for (const constraint of type.constraints) {
+			text += ' ' + this.printConstraint(constraint, level, this.endColumn(column, text) + 1);
+		}
+		return text;
+	}
+
+	private printTag(tag: ASN1Tag): string {
+		const tagText = tag.tagClass ? `[${tag.tagClass} ${tag.number}]` : `[${tag.number}]`;
+		return tag.mode ? `${tagText} ${tag.mode}` : tagText;
+	}
+
+	// { 每行一项 }，逐项插入原有注释
+	private printBlock<T extends { start: number; end: number }>(
+		items: T[],
+		blockEnd: number,
+		level: number,
+		printItem: (item: T) => string,
+		open = '{',
+		close = '}'
+	): string {
+		const closeBrace = blockEnd - close.length;
+		const innerIndent = this.indent(level + 1);
+		const leading = this.peekCommentsBefore(closeBrace);
+		if (items.length === 0 && leading === 0) {
+			return open + close;
+		}
+
+		const lines: string[] = [open];
+		items.forEach((item, index) => {
+			this.pushComments(this.takeCommentsBefore(item.start), innerIndent, lines);
+			const comma = index < items.length - 1 ? ',' : '';
+			lines.push(this.withTrailingComment(innerIndent + printItem(item) + comma, item.end));
+		});
+		this.pushComments(this.takeCommentsBefore(closeBrace), innerIndent, lines);
+		lines.push(this.indent(level) + close);
+		return lines.join('\n');
+	}
+
+	private printComponentItem(item: ASN1ComponentItem, level: number): string {
+		switch (item.kind) {
+			case 'extension-marker':
+				return this.printExtensionMarker(item);
+			case 'extension-addition-group':
+				return this.printExtensionAdditionGroup(item, level);
+			case 'components-of':
+				return `COMPONENTS OF ${this.printType(item.type, level)}`;
+			case 'component': {
+				let text = `${item.name} `;
+				text += this.printType(item.type, level, this.indent(level).length + text.length);
+				if (item.optional) {
+					text += ' OPTIONAL';
+				} else if (item.defaultValue) {
+					text += ' DEFAULT ';
+					text += this.printValue(item.defaultValue, level, this.indent(level).length + text.length);
+				}
+				return text;
+			}
+		}
+	}
+
+	private printEnumerationItem(item: ASN1EnumerationItem): string {
+		return item.kind === 'extension-marker' ? this.printExtensionMarker(item) : this.printNamedNumber(item);
+	}
+
+	// ... 或 ...!Exception
+	private printExtensionMarker(marker: ASN1ExtensionMarker): string {
+		return marker.exception ? `...${this.printExceptionSpec(marker.exception).trim()}` : '...';
+	}
+
+	// 只有一个成员且放得下时写作 [[ 2: a INTEGER ]]，否则每个成员一行
+	private printExtensionAdditionGroup(group: ASN1ExtensionAdditionGroup, level: number): string {
+		const open = group.version ? `[[ ${group.version}:` : '[[';
+		if (group.components.length === 1 && !this.hasCommentsWithin(group)) {
+			const member = this.printComponentItem(group.components[0], level);
+			const singleLine = `${open} ${member} ]]`;
+			if (!member.includes('\n') && this.indent(level).length + singleLine.length < this.options.maxLineLength) {
+				return singleLine;
+			}
+		}
+		return this.printBlock(group.components, group.end, level, item => this.printComponentItem(item, level + 1), open, ']]');
+	}
+
+	private printNamedNumber(item: ASN1NamedNumber): string {
+		return item.value ? `${item.name}(${this.printValue(item.value, 0)})` : item.name;
+	}
+
+	// 实参中的值集合与对象集合采用紧凑写法 {Set}
+	private printActualParameter(parameter: ASN1ActualParameter, level: number): string {
+		switch (parameter.kind) {
+			case 'braced-value':
+				return this.joinTokens(parameter.tokens, true);
+			case 'literal-value':
+			case 'value-reference':
+			case 'choice-value':
+			case 'sequence-value':
+			case 'sequence-of-value':
+			case 'object-identifier-value':
+				return this.printValue(parameter, level);
+			default:
+				return this.printType(parameter, level);
+		}
+	}
+
+	// ---- 约束 ----
+
+	// 放得下时写在一行，否则在集合运算符与逗号处折行，续行缩进一级
+	private printConstraint(constraint: ASN1Constraint, level: number, column: number): string {
+		// 内部带注释的约束原样输出，避免注释错位
+		if (this.hasCommentsWithin(constraint)) {
+			this.takeCommentsBefore(constraint.end);
+			return this.document.source.substring(constraint.start, constraint.end);
+		}
+		const singleLine = this.printConstraintInline(constraint);
+		if (!constraint.spec || column + singleLine.length <= this.options.maxLineLength) {
+			return singleLine;
+		}
+
+		const spec = constraint.spec;
+		const root = spec.kind === 'element-set-specs' ? spec.root : undefined;
+		if (root && root.kind === 'inner-type-constraint' && root.multiple && spec.kind === 'element-set-specs' && !spec.extensible) {
+			const block = this.printInnerTypeBlock(root, level);
+			return constraint.bare ? block : `(${block}${this.printExceptionSpec(constraint.exception)})`;
+		}
+
+		const pieces = this.constraintPieces(constraint);
+		if (pieces.length <= 1) return singleLine;
+		const continuation = this.indent(level + 1);
+		const lines: string[] = [];
+		let current = pieces[0];
+		let currentColumn = column;
+		for (const piece of pieces.slice(1)) {
+			if (currentColumn + current.length + 1 + piece.length > this.options.maxLineLength) {
+				lines.push(current);
+				current = continuation + piece;
+				currentColumn = 0;
+			} else {
+				current += ' ' + piece;
+			}
+		}
+		lines.push(current);
+		return lines.join('\n');
+	}
+
+	// WITH COMPONENTS {
+	//     ...,
+	//     a PRESENT
+	// }
+	private printInnerTypeBlock(constraint: ASN1InnerTypeConstraint, level: number): string {
+		const innerIndent = this.indent(level + 1);
+		const items = constraint.components.map(component => this.printNamedConstraint(component));
+		if (constraint.partial) items.unshift('...');
+		const lines = ['WITH COMPONENTS {'];
+		items.forEach((item, index) => {
+			lines.push(innerIndent + item + (index < items.length - 1 ? ',' : ''));
+		});
+		lines.push(this.indent(level) + '}');
+		return lines.join('\n');
+	}
+
+	// 单行形式，规范化 ..、|、^、EXCEPT 两侧的空格
+	private printConstraintInline(constraint: ASN1Constraint): string {
+		if (!constraint.spec) {
+			// 表约束 ({ObjectSet}{@field}) 采用紧凑写法
+			const compact = constraint.tokens.length > 1 && constraint.tokens[1].text === '{';
+			return this.joinTokens(constraint.tokens, compact);
+		}
+		const text = this.printConstraintSpec(constraint.spec) + this.printExceptionSpec(constraint.exception);
+		return constraint.bare ? text : `(${text})`;
+	}
+
+	private printConstraintSpec(spec: ASN1ConstraintSpec): string {
+		switch (spec.kind) {
+			case 'element-set-specs': {
+				const parts: string[] = [];
+				if (spec.root) parts.push(this.printElementSet(spec.root));
+				if (spec.extensible) parts.push('...');
+				if (spec.additions) parts.push(this.printElementSet(spec.additions));
+				return parts.join(', ');
+			}
+			case 'table-constraint': {
+				const relations = spec.componentRelations ? `{${spec.componentRelations.join(', ')}}` : '';
+				return this.joinTokens(spec.objectSet.tokens, true) + relations;
+			}
+			case 'contents-constraint': {
+				const parts: string[] = [];
+				if (spec.containing) parts.push(`CONTAINING ${this.printType(spec.containing, 0)}`);
+				if (spec.encodedBy) parts.push(`ENCODED BY ${this.printValueInline(spec.encodedBy)}`);
+				return parts.join(' ');
+			}
+			case 'user-defined-constraint':
+				return `CONSTRAINED BY ${this.joinTokens(spec.tokens)}`;
+		}
+	}
+
+	private printExceptionSpec(exception: ASN1ExceptionSpec | undefined): string {
+		if (!exception) return '';
+		const value = this.printValueInline(exception.value);
+		return exception.type ? ` !${this.printType(exception.type, 0)}:${value}` : ` !${value}`;
+	}
+
+	private printElementSet(elements: ASN1ElementSet): string {
+		switch (elements.kind) {
+			case 'set-operation':
+				if (elements.operator === 'all-except') return `ALL EXCEPT ${this.printElementSet(elements.operands[0])}`;
+				return elements.operands.map(operand => this.printElementSet(operand)).join(` ${elements.symbol} `);
+			case 'parenthesized-element-set':
+				return `(${this.printElementSet(elements.elements)})`;
+			case 'single-value':
+				return this.printValueInline(elements.value);
+			case 'value-range':
+				return `${this.printValueInline(elements.lower.value)}${elements.lower.open ? '<' : ''}..`
+					+ `${elements.upper.open ? '<' : ''}${this.printValueInline(elements.upper.value)}`;
+			case 'size-constraint':
+				return `SIZE ${this.printConstraintInline(elements.constraint)}`;
+			case 'permitted-alphabet':
+				return `FROM ${this.printConstraintInline(elements.constraint)}`;
+			case 'contained-subtype':
+				return (elements.includes ? 'INCLUDES ' : '') + this.printType(elements.type, 0);
+			case 'inner-type-constraint':
+				if (!elements.multiple) {
+					return `WITH COMPONENT ${elements.constraint ? this.printConstraintInline(elements.constraint) : ''}`;
+				}
+				return `WITH COMPONENTS { ${(elements.partial ? ['...'] : [])
+					.concat(elements.components.map(component => this.printNamedConstraint(component)))
+					.join(', ')} }`;
+			case 'pattern-constraint':
+				return `PATTERN ${this.printValueInline(elements.value)}`;
+			case 'property-settings':
+				return `SETTINGS ${this.printValueInline(elements.value)}`;
+		}
+	}
+
+	private printNamedConstraint(component: ASN1NamedConstraint): string {
+		const parts = [component.name];
+		if (component.constraint) parts.push(this.printConstraintInline(component.constraint));
+		if (component.presence) parts.push(component.presence);
+		return parts.join(' ');
+	}
+
+	// 折行用的片段：运算符与逗号留在前一片段末尾，嵌套的 SIZE / FROM 约束也会展开
+	private constraintPieces(constraint: ASN1Constraint): string[] {
+		if (!constraint.spec || constraint.spec.kind !== 'element-set-specs') {
+			return [this.printConstraintInline(constraint)];
+		}
+		const spec = constraint.spec;
+		const groups: string[][] = [];
+		if (spec.root) groups.push(this.elementSetPieces(spec.root));
+		if (spec.extensible) groups.push(['...']);
+		if (spec.additions) groups.push(this.elementSetPieces(spec.additions));
+		const pieces: string[] = [];
+		groups.forEach((group, index) => {
+			if (index < groups.length - 1) group[group.length - 1] += ',';
+			pieces.push(...group);
+		});
+		pieces[pieces.length - 1] += this.printExceptionSpec(constraint.exception);
+		if (!constraint.bare) {
+			pieces[0] = '(' + pieces[0];
+			pieces[pieces.length - 1] += ')';
+		}
+		return pieces;
+	}
+
+	private elementSetPieces(elements: ASN1ElementSet): string[] {
+		const wrap = (prefix: string, inner: string[], suffix: string) => {
+			inner[0] = prefix + inner[0];
+			inner[inner.length - 1] += suffix;
+			return inner;
+		};
+		switch (elements.kind) {
+			case 'set-operation': {
+				if (elements.operator === 'all-except') {
+					return wrap('ALL EXCEPT ', this.elementSetPieces(elements.operands[0]), '');
+				}
+				const pieces: string[] = [];
+				elements.operands.forEach((operand, index) => {
+					const operandPieces = this.elementSetPieces(operand);
+					if (index < elements.operands.length - 1) operandPieces[operandPieces.length - 1] += ` ${elements.symbol}`;
+					pieces.push(...operandPieces);
+				});
+				return pieces;
+			}
+			case 'parenthesized-element-set':
+				return wrap('(', this.elementSetPieces(elements.elements), ')');
+			case 'size-constraint':
+				return wrap('SIZE ', this.constraintPieces(elements.constraint), '');
+			case 'permitted-alphabet':
+				return wrap('FROM ', this.constraintPieces(elements.constraint), '');
+			default:
+				return [this.printElementSet(elements)];
+		}
+	}
+
+	// ---- 信息对象类 ----
+
+	// CLASS { 字段名按列对齐 } WITH SYNTAX { 原样保留 }
+	private printObjectClass(objectClass: ASN1ObjectClass, level: number): string {
+		const width = objectClass.fields.reduce((max, field) => Math.max(max, field.name.length), 0);
+		let text = `CLASS ${this.printBlock(objectClass.fields, objectClass.bodyRange.end, level, field => this.printFieldSpec(field, width, level + 1))}`;
+		if (objectClass.syntax) {
+			text += ` WITH SYNTAX ${this.document.source.substring(objectClass.syntax.start, objectClass.syntax.end)}`;
+			this.takeCommentsBefore(objectClass.syntax.end);
+		}
+		return text;
+	}
+
+	private printFieldSpec(field: ASN1FieldSpec, width: number, level: number): string {
+		const parts: string[] = [];
+		if (field.typeFieldReference) {
+			parts.push(field.typeFieldReference);
+		} else if (field.type) {
+			parts.push(this.printType(field.type, level, this.indent(level).length + width + 1));
+		}
+		if (field.unique) {
+			parts.push('UNIQUE');
+		}
+		if (field.optional) {
+			parts.push('OPTIONAL');
+		} else if (field.defaultValue) {
+			parts.push(`DEFAULT ${this.printActualParameter(field.defaultValue, level)}`);
+		}
+		return parts.length > 0 ? `${field.name.padEnd(width)} ${parts.join(' ')}` : field.name;
+	}
+
+	// WITH SYNTAX 中每个顶层分组的第一个关键字，如 IDENTIFIER &id [PARAMS [TYPE &Type] ARE &p] 中的 IDENTIFIER、PARAMS
+	private collectSyntaxStarters(syntax: ASN1BracedValue): Set<string> {
+		const starters = new Set<string>();
+		let depth = 0;
+		let groupStart = true;
+		for (const token of syntax.tokens.slice(1, -1)) {
+			if (token.kind === 'symbol' && token.text === '[') {
+				if (depth === 0) groupStart = true;
+				depth++;
+				continue;
+			}
+			if (token.kind === 'symbol' && token.text === ']') {
+				depth--;
+				if (depth === 0) groupStart = true;
+				continue;
+			}
+			if (token.kind === 'fieldReference') {
+				if (depth === 0) groupStart = true;
+				continue;
+			}
+			if (groupStart && (token.kind === 'keyword' || token.kind === 'typeReference')) {
+				starters.add(token.text);
+			}
+			groupStart = false;
+		}
+		return starters;
+	}
+
+	// 对象：默认语法 { &id v, &Type T } 按逗号分行，自定义语法按 WITH SYNTAX 分组分行
+	private printObject(value: ASN1Value, className: string, prefix: string, level: number): string {
+		if (value.kind !== 'braced-value') return this.printValue(value, level);
+		const inner = value.tokens.slice(1, -1);
+		let segments: ASN1Token[][];
+		if (inner.length > 0 && inner[0].kind === 'fieldReference') {
+			segments = this.splitTopLevel(inner, token => token.kind === 'symbol' && token.text === ',', () => false);
+		} else {
+			const starters = this.syntaxStarters.get(className);
+			segments = starters
+				? this.splitTopLevel(inner, () => false, token => token.kind !== 'symbol' && starters.has(token.text))
+				: [inner];
+		}
+		return this.printBracedSegments(value, segments, prefix, level);
+	}
+
+	// 对象集合 { a | b, ... }：每个元素一行，运算符留在行尾
+	private printObjectSet(value: ASN1Value, prefix: string, level: number): string {
+		if (value.kind !== 'braced-value') return this.printValue(value, level);
+		const operators = new Set(['|', ',', '^', 'UNION', 'INTERSECTION', 'EXCEPT']);
+		const segments = this.splitTopLevel(value.tokens.slice(1, -1), token => operators.has(token.text), () => false);
+		return this.printBracedSegments(value, segments, prefix, level);
+	}
+
+	// 在括号深度为 0 处切分令牌：breakAfter 的令牌结束当前段，breakBefore 的令牌开始新段
+	private splitTopLevel(
+		tokens: ASN1Token[],
+		breakAfter: (token: ASN1Token) => boolean,
+		breakBefore: (token: ASN1Token) => boolean
+	): ASN1Token[][] {
+		const segments: ASN1Token[][] = [];
+		let current: ASN1Token[] = [];
+		let depth = 0;
+		for (const token of tokens) {
+			if (depth === 0 && current.length > 0 && breakBefore(token)) {
+				segments.push(current);
+				current = [];
+			}
+			current.push(token);
+			if (token.kind === 'symbol') {
+				if (token.text === '{' || token.text === '(' || token.text === '[') depth++;
+				else if (token.text === '}' || token.text === ')' || token.text === ']') depth--;
+			}
+			if (depth === 0 && breakAfter(token)) {
+				segments.push(current);
+				current = [];
+			}
+		}
+		if (current.length > 0) {
+			segments.push(current);
+		}
+		return segments;
+	}
+
+	// 放得下且没有内部注释时写在一行，否则每段一行
+	private printBracedSegments(value: ASN1BracedValue, segments: ASN1Token[][], prefix: string, level: number): string {
+		const singleLine = this.joinTokens(value.tokens);
+		const hasComments = this.peekCommentsBefore(value.end) > 0;
+		if (!hasComments && (segments.length <= 1 || (this.indent(level) + prefix + singleLine).length <= this.options.maxLineLength)) {
+			return singleLine;
+		}
+		const innerIndent = this.indent(level + 1);
+		const lines: string[] = ['{'];
+		for (const segment of segments) {
+			this.pushComments(this.takeCommentsBefore(segment[0].start), innerIndent, lines);
+			lines.push(this.withTrailingComment(innerIndent + this.joinTokens(segment), segment[segment.length - 1].end));
+		}
+		this.pushComments(this.takeCommentsBefore(value.end - 1), innerIndent, lines);
+		lines.push(this.indent(level) + '}');
+		return lines.join('\n');
+	}
+
+	// ---- 值 ----
+
+	// column 为值在当前行的起始列，用于判断能否写在一行
+	private printValue(value: ASN1Value, level: number, column = 0): string {
+		switch (value.kind) {
+			case 'choice-value': {
+				const prefix = `${value.name} : `;
+				return prefix + this.printValue(value.value, level, column + prefix.length);
+			}
+			case 'sequence-value':
+			case 'sequence-of-value':
+			case 'object-identifier-value': {
+				const singleLine = this.printValueInline(value);
+				if (column + singleLine.length <= this.options.maxLineLength && this.peekCommentsBefore(value.end) === 0) {
+					return singleLine;
+				}
+				return value.kind === 'object-identifier-value'
+					? this.printObjectIdentifierBlock(value, level)
+					: this.printValueBlock(value, level);
+			}
+			default:
+				return this.printValueInline(value);
+		}
+	}
+
+	// 单行形式 { a 1, b { 1, 2 } }、{ iso(1) member-body(2) }
+	private printValueInline(value: ASN1Value): string {
+		switch (value.kind) {
+			case 'literal-value':
+				return this.printLiteral(value);
+			case 'value-reference':
+				return value.moduleName ? `${value.moduleName}.${value.name}` : value.name;
+			case 'choice-value':
+				return `${value.name} : ${this.printValueInline(value.value)}`;
+			case 'sequence-value':
+				if (value.components.length === 0) return '{}';
+				return `{ ${value.components.map(component => `${component.name} ${this.printValueInline(component.value)}`).join(', ')} }`;
+			case 'sequence-of-value':
+				if (value.items.length === 0) return '{}';
+				return `{ ${value.items.map(item => this.printValueInline(item)).join(', ')} }`;
+			case 'object-identifier-value':
+				if (value.components.length === 0) return '{}';
+				return `{ ${value.components.map(component => this.printObjectIdentifierComponent(component)).join(' ')} }`;
+			case 'braced-value':
+				return this.joinTokens(value.tokens);
+		}
+	}
+
+	// '0101'B、'FF'H：去掉内部空白，后缀与十六进制数字统一为大写
+	private printLiteral(value: ASN1LiteralValue): string {
+		if (value.literalType === 'bstring' || value.literalType === 'hstring') {
+			const close = value.text.lastIndexOf('\'');
+			const body = value.text.substring(1, close).replace(/\s+/g, '');
+			return value.literalType === 'bstring' ? `'${body}'B` : `'${body.toUpperCase()}'H`;
+		}
+		return value.text;
+	}
+
+	private printObjectIdentifierComponent(component: ASN1ObjectIdentifierComponent): string {
+		const name = component.moduleName ? `${component.moduleName}.${component.name}` : component.name;
+		if (name && component.number) return `${name}(${component.number})`;
+		return name || component.number || '';
+	}
+
+	// 每个成员一行，嵌套的值按各自的长度决定是否展开
+	private printValueBlock(value: ASN1SequenceValue | ASN1SequenceOfValue, level: number): string {
+		const innerIndent = this.indent(level + 1);
+		// 简单值的列表按最大行长度紧凑排布
+		const simple = value.kind === 'sequence-of-value'
+			&& value.items.every(item => item.kind === 'literal-value' || item.kind === 'value-reference');
+		if (simple && this.peekCommentsBefore(value.end) === 0) {
+			const items = value.items.map(item => this.printValueInline(item));
+			return ['{', ...this.wrapList(items, innerIndent), this.indent(level) + '}'].join('\n');
+		}
+		const entries = value.kind === 'sequence-value'
+			? value.components.map(component => ({ prefix: `${component.name} `, value: component.value, range: component as ASN1SourceRange }))
+			: value.items.map(item => ({ prefix: '', value: item, range: item as ASN1SourceRange }));
+		const lines: string[] = ['{'];
+		entries.forEach((entry, index) => {
+			this.pushComments(this.takeCommentsBefore(entry.range.start), innerIndent, lines);
+			const comma = index < entries.length - 1 ? ',' : '';
+			const text = this.printValue(entry.value, level + 1, innerIndent.length + entry.prefix.length);
+			lines.push(this.withTrailingComment(innerIndent + entry.prefix + text + comma, entry.range.end));
+		});
+		this.pushComments(this.takeCommentsBefore(value.end - 1), innerIndent, lines);
+		lines.push(this.indent(level) + '}');
+		return lines.join('\n');
+	}
+
+	// OID 成分按最大行长度依次排布，折行处保持成分完整
+	private printObjectIdentifierBlock(value: ASN1ObjectIdentifierValue, level: number): string {
+		const innerIndent = this.indent(level + 1);
+		const lines: string[] = ['{'];
+		let current = '';
+		for (const component of value.components) {
+			const comments = this.takeCommentsBefore(component.start);
+			const text = this.printObjectIdentifierComponent(component);
+			if (current && (comments.length > 0 || (innerIndent + current + ' ' + text).length > this.options.maxLineLength)) {
+				lines.push(innerIndent + current);
+				current = '';
+			}
+			this.pushComments(comments, innerIndent, lines);
+			current += (current ? ' ' : '') + text;
+			const line = innerIndent + current;
+			const commented = this.withTrailingComment(line, component.end);
+			if (commented !== line) {
+				lines.push(commented);
+				current = '';
+			}
+		}
+		if (current) {
+			lines.push(innerIndent + current);
+		}
+		this.pushComments(this.takeCommentsBefore(value.end - 1), innerIndent, lines);
+		lines.push(this.indent(level) + '}');
+		return lines.join('\n');
+	}
+
+	// ---- 注释 ----
+
+	// 取出起始位置在 offset 之前、尚未输出的注释
+	private takeCommentsBefore(offset: number): ASN1Comment[] {
+		const comments = this.document.comments;
+		const taken: ASN1Comment[] = [];
+		while (this.commentIndex < comments.length && comments[this.commentIndex].start < offset) {
+			taken.push(comments[this.commentIndex++]);
+		}
+		return taken;
+	}
+
+	private peekCommentsBefore(offset: number): number {
+		const comments = this.document.comments;
+		let count = 0;
+		while (this.commentIndex + count < comments.length && comments[this.commentIndex + count].start < offset) {
+			count++;
+		}
+		return count;
+	}
+
+	private hasCommentsWithin(range: ASN1SourceRange): boolean {
+		const comments = this.document.comments;
+		for (let i = this.commentIndex; i < comments.length && comments[i].start < range.end; i++) {
+			if (comments[i].start >= range.start) return true;
+		}
+		return false;
+	}
+
+	private pushComments(comments: ASN1Comment[], indent: string, lines: string[]) {
+		for (const comment of comments) {
+			lines.push(indent + comment.text);
+		}
+	}
+
+	// 与 offset 位于同一行的下一条注释附加到行尾
+	private withTrailingComment(line: string, offset: number): string {
+		const comments = this.document.comments;
+		const next = comments[this.commentIndex];
+		if (!next || next.start < offset) return line;
+		const between = this.document.source.substring(offset, next.start);
+		if (!/^[\s,;]*$/.test(between) || between.includes('\n')) return line;
+		this.commentIndex++;
+		return `${line} ${next.text}`;
+	}
+
+	// ---- 辅助方法 ----
+
+	private indent(level: number): string {
+		return ' '.repeat(level * this.options.indentSize);
+	}
+
+	// 从 column 开始写入 text 后所在的列
+	private endColumn(column: number, text: string): number {
+		const lastBreak = text.lastIndexOf('\n');
+		return lastBreak === -1 ? column + text.length : text.length - lastBreak - 1;
+	}
+
+	// 在行尾保证恰好 count 个空行（开头不插入空行）
+	private ensureBlankLines(lines: string[], count: number) {
+		while (lines.length > 0 && lines[lines.length - 1] === '') {
+			lines.pop();
+		}
+		if (lines.length === 0) return;
+		for (let i = 0; i < count; i++) {
+			lines.push('');
+		}
+	}
+
+	// 将逗号分隔的列表按最大行长度折行
+	private wrapList(items: string[], indent: string): string[] {
+		const lines: string[] = [];
+		let current = indent;
+		items.forEach((item, index) => {
+			const piece = item + (index < items.length - 1 ? ',' : '');
+			if (current.trim().length > 0 && (current + ' ' + piece).length > this.options.maxLineLength) {
+				lines.push(current);
+				current = indent + piece;
+			} else {
+				current += (current.trim().length > 0 ? ' ' : '') + piece;
+			}
+		});
+		if (current.trim().length > 0) {
+			lines.push(current);
+		}
+		return lines;
+	}
+
+	// 将原始令牌拼接为规范化的单行文本；compact 时大括号内侧不留空格
+	joinTokens(tokens: ASN1Token[], compact = false): string {
+		let text = '';
+		for (let i = 0; i < tokens.length; i++) {
+			if (i > 0 && this.needsSpace(tokens[i - 1], tokens[i], compact)) {
+				text += ' ';
+			}
+			text += tokens[i].text;
+		}
+		return text;
+	}
+
+	private needsSpace(prev: ASN1Token, next: ASN1Token, compact: boolean): boolean {
+		const p = prev.kind === 'symbol' ? prev.text : '';
+		const n = next.kind === 'symbol' ? next.text : '';
+		if (compact && (p === '{' || n === '}')) return false;
+		if (p === '(' || p === '[' || p === '.' || p === '..' || p === '<' || p === '@') return false;
+		if (n === ')' || n === ']' || n === ',' || n === ';' || n === '.' || n === '..' || n === '<') return false;
+		if (p === '-' && (next.kind === 'number' || next.kind === 'realNumber')) return false;
+		if (p === '{' && n === '}') return false;
+		if (n === '(' && prev.kind === 'identifier') return false;
+		if (n === '{' && prev.kind === 'typeReference' && next.start === prev.end) return false;
+		if (p === '}' && n === '{' && next.start === prev.end) return false;
+		return true;
+	}
+}
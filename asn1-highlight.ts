@@ -0,0 +1,277 @@
+import {
+	ASN1BuiltinType,
+	ASN1ChoiceValue,
+	ASN1Component,
+	ASN1Document,
+	ASN1ImportSymbol,
+	ASN1InstanceOfType,
+	ASN1NamedNumber,
+	ASN1NamedValue,
+	ASN1ObjectClassFieldType,
+	ASN1RangeEndpoint,
+	ASN1ReferenceType,
+	ASN1SourceRange,
+	ASN1ValueReference
+} from './asn1-ast';
+import { ASN1Token, tokenizeASN1 } from './asn1-lexer';
+import { parseASN1 } from './asn1-parser';
+import { walkASN1 } from './asn1-walker';
+
+// 一段需要着色的源码范围
+export interface ASN1HighlightRange {
+	start: number;
+	end: number;
+	className: string;
+}
+
+export interface ASN1HighlightOptions {
+	keywords: string[];         // 高亮为 asn1-keyword 的关键字
+	customKeywords: string[];   // 用户自定义的基本类型，高亮为 asn1-custom-keyword
+}
+
+const TAG_CLASSES = new Set(['UNIVERSAL', 'APPLICATION', 'PRIVATE', 'CONTEXT']);
+
+// 词法分类加上语义分类；语义范围与词法范围重叠时以词法范围为准（如自定义关键字），
+// 形参、信息对象类、字段引用与范围上下界再覆盖两者。结果互不重叠，可以一次生成DOM节点
+// 未给出语法树时用同一份令牌解析，源码只切分一次
+export function classifyASN1Source(source: string, options: ASN1HighlightOptions, ast?: ASN1Document): ASN1HighlightRange[] {
+	const tokens = tokenizeASN1(source);
+	if (!ast) ast = parseASN1(source, undefined, tokens);
+	const lexical = classifyASN1Tokens(source, options, tokens);
+	const semantic = classifyASN1Semantics(ast);
+	const merged: ASN1HighlightRange[] = [];
+	let i = 0;
+	for (const range of semantic) {
+		while (i < lexical.length && lexical[i].end <= range.start) merged.push(lexical[i++]);
+		const overlaps = i < lexical.length && lexical[i].start < range.end;
+		const last = merged[merged.length - 1];
+		if (!overlaps && (!last || last.end <= range.start)) merged.push(range);
+	}
+	while (i < lexical.length) merged.push(lexical[i++]);
+
+	const structure = classifyASN1Structure(ast, tokens);
+	const result: ASN1HighlightRange[] = [];
+	let j = 0;
+	for (const range of merged) {
+		while (j < structure.length && structure[j].end <= range.start) result.push(structure[j++]);
+		if (j < structure.length && structure[j].start < range.end) continue;
+		result.push(range);
+	}
+	while (j < structure.length) result.push(structure[j++]);
+	return result;
+}
+
+// 基于语法树的分类：类型引用、成员名、枚举标识符、值引用与模块名；结果按位置排序
+export function classifyASN1Semantics(ast: ASN1Document): ASN1HighlightRange[] {
+	const ranges: ASN1HighlightRange[] = [];
+	const add = (range: ASN1SourceRange | undefined, className: string) => {
+		if (range && range.end > range.start) ranges.push({ start: range.start, end: range.end, className });
+	};
+	// Module.name 形式的引用拆成模块名与名称两段
+	const addQualified = (start: number, end: number, name: string, moduleName: string | undefined, className: string) => {
+		if (moduleName) add({ start, end: start + moduleName.length }, 'asn1-module-name');
+		add({ start: end - name.length, end }, className);
+	};
+
+	for (const module of ast.modules) {
+		add(module.nameRange, 'asn1-module-name');
+		for (const clause of module.imports?.clauses || []) {
+			add(clause.moduleNameRange, 'asn1-module-name');
+		}
+		for (const assignment of module.assignments) {
+			if (assignment.kind === 'type-assignment' || assignment.kind === 'value-set-assignment') {
+				add(assignment.nameRange, 'asn1-type-reference');
+			} else if (assignment.kind === 'value-assignment') {
+				add(assignment.nameRange, 'asn1-value-reference');
+			}
+		}
+	}
+
+	walkASN1(ast, (node, parent) => {
+		switch (node.kind) {
+			case 'import-symbol': {
+				const symbol = node as ASN1ImportSymbol;
+				const isType = /^[A-Z]/.test(symbol.name);
+				add({ start: symbol.start, end: symbol.start + symbol.name.length }, isType ? 'asn1-type-reference' : 'asn1-value-reference');
+				break;
+			}
+			case 'type-reference': {
+				const reference = node as ASN1ReferenceType;
+				if (reference.moduleName) add({ start: reference.start, end: reference.start + reference.moduleName.length }, 'asn1-module-name');
+				add(reference.nameRange, 'asn1-type-reference');
+				break;
+			}
+			case 'value-reference': {
+				const reference = node as ASN1ValueReference;
+				addQualified(reference.start, reference.end, reference.name, reference.moduleName, 'asn1-value-reference');
+				break;
+			}
+			case 'component':
+				add((node as ASN1Component).nameRange, 'asn1-component-name');
+				break;
+			case 'builtin-type': {
+				// ANY DEFINED BY 引用的成员
+				const definedByRange = (node as ASN1BuiltinType).definedByRange;
+				if (definedByRange) add(definedByRange, 'asn1-component-name');
+				break;
+			}
+			case 'named-value':
+				add((node as ASN1NamedValue).nameRange, 'asn1-component-name');
+				break;
+			case 'choice-value': {
+				const value = node as ASN1ChoiceValue;
+				add({ start: value.start, end: value.start + value.name.length }, 'asn1-component-name');
+				break;
+			}
+			case 'named-number':
+				// ENUMERATED 的枚举项以及 INTEGER / BIT STRING 的命名数字
+				if (parent && (parent.kind === 'enumerated-type' || parent.kind === 'builtin-type')) {
+					add((node as ASN1NamedNumber).nameRange, 'asn1-enum-identifier');
+				}
+				break;
+		}
+	});
+
+	// 去掉重复与相互重叠的范围
+	ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+	const result: ASN1HighlightRange[] = [];
+	for (const range of ranges) {
+		const last = result[result.length - 1];
+		if (!last || last.end <= range.start) result.push(range);
+	}
+	return result;
+}
+
+// 基于语法树的结构分类：参数化赋值中的形参、信息对象类、对象、对象集合、类字段引用与约束范围的上下界
+export function classifyASN1Structure(ast: ASN1Document, tokens: ASN1Token[] = tokenizeASN1(ast.source)): ASN1HighlightRange[] {
+	const ranges: ASN1HighlightRange[] = [];
+	const add = (range: ASN1SourceRange, className: string) => {
+		if (range.end > range.start) ranges.push({ start: range.start, end: range.end, className });
+	};
+
+	for (const module of ast.modules) {
+		for (const assignment of module.assignments) {
+			if (assignment.kind === 'object-class-assignment') {
+				add(assignment.nameRange, 'asn1-class');
+			} else if (assignment.kind === 'object-assignment') {
+				add(assignment.nameRange, 'asn1-object');
+				add(assignment.objectClass.nameRange, 'asn1-class');
+			} else if (assignment.kind === 'object-set-assignment') {
+				add(assignment.nameRange, 'asn1-object-set');
+				add(assignment.objectClass.nameRange, 'asn1-class');
+			}
+
+			// 形参及其在赋值体内的引用
+			const parameters = new Set((assignment.parameters || []).map(parameter => parameter.name));
+			for (const parameter of assignment.parameters || []) {
+				add(parameter.nameRange, 'asn1-parameter');
+			}
+			walkASN1(assignment, (node) => {
+				if (node.kind === 'parameter') return false;
+				if (node.kind === 'object-class-field-type' || node.kind === 'instance-of-type') {
+					add((node as ASN1ObjectClassFieldType | ASN1InstanceOfType).classNameRange, 'asn1-class');
+				} else if (node.kind === 'type-reference' || node.kind === 'value-reference') {
+					const reference = node as ASN1ReferenceType | ASN1ValueReference;
+					if (reference.moduleName || !parameters.has(reference.name)) return;
+					add(node.kind === 'type-reference' ? (node as ASN1ReferenceType).nameRange : reference, 'asn1-parameter');
+				} else if (node.kind === 'range-endpoint') {
+					// MIN / MAX 单独着色
+					const value = (node as ASN1RangeEndpoint).value;
+					const isLimit = value.kind === 'literal-value' && (value.text === 'MIN' || value.text === 'MAX');
+					add(value, isLimit ? 'asn1-range-limit' : 'asn1-range-bound');
+				}
+			});
+		}
+	}
+	// 字段引用也出现在 WITH SYNTAX、对象和约束的原始令牌中，直接按令牌标记
+	for (const token of tokens) {
+		if (token.kind === 'fieldReference') add(token, 'asn1-field-reference');
+	}
+
+	// 同一范围的多个分类合并为多个类名（如作为范围上界的形参），其它嵌套范围只保留外层
+	ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+	const result: ASN1HighlightRange[] = [];
+	for (const range of ranges) {
+		const last = result[result.length - 1];
+		if (last && last.start === range.start && last.end === range.end) {
+			if (last.className.split(' ').indexOf(range.className) === -1) last.className += ` ${range.className}`;
+		} else if (!last || last.end <= range.start) {
+			result.push(range);
+		}
+	}
+	return result;
+}
+
+// 按词法令牌给源码分类；结果按位置排序且互不重叠，注释与字符串中的内容不会被再次分类
+export function classifyASN1Tokens(source: string, options: ASN1HighlightOptions, lexed: ASN1Token[] = tokenizeASN1(source)): ASN1HighlightRange[] {
+	const tokens = lexed.filter(token => token.kind !== 'eof');
+	const keywords = new Set(options.keywords);
+	const customKeywords = new Set(options.customKeywords.map(keyword => keyword.toLowerCase()));
+	const ranges: ASN1HighlightRange[] = [];
+
+	let i = 0;
+	while (i < tokens.length) {
+		const token = tokens[i];
+
+		// [APPLICATION 5] IMPLICIT 之类的标签整体着色
+		const tagEnd = token.text === '[' ? matchTag(tokens, i) : -1;
+		if (tagEnd !== -1) {
+			ranges.push({ start: token.start, end: tokens[tagEnd].end, className: 'asn1-tag' });
+			i = tagEnd + 1;
+			continue;
+		}
+
+		// 只含数字的 { 1 2 3 } 为 OID
+		const oidEnd = token.text === '{' ? matchNumericOid(tokens, i) : -1;
+		if (oidEnd !== -1) {
+			ranges.push({ start: token.start, end: tokens[oidEnd].end, className: 'asn1-oid' });
+			i = oidEnd + 1;
+			continue;
+		}
+
+		const className = classify(token, keywords, customKeywords);
+		if (className) ranges.push({ start: token.start, end: token.end, className });
+		i++;
+	}
+	return ranges;
+}
+
+function classify(token: ASN1Token, keywords: Set<string>, customKeywords: Set<string>): string | null {
+	switch (token.kind) {
+		case 'comment':
+			return 'asn1-comment';
+		case 'cstring':
+		case 'bstring':
+		case 'hstring':
+			return 'asn1-string';
+		case 'number':
+		case 'realNumber':
+			return 'asn1-number';
+		case 'symbol':
+			return token.text === '::=' || token.text === '...' ? 'asn1-operator' : null;
+		case 'keyword':
+		case 'typeReference':
+		case 'identifier':
+			if (customKeywords.has(token.text.toLowerCase())) return 'asn1-custom-keyword';
+			return token.kind === 'keyword' || keywords.has(token.text) ? 'asn1-keyword' : null;
+		default:
+			return null;
+	}
+}
+
+// [n]、[CLASS n] 以及其后的 IMPLICIT / EXPLICIT；返回结束令牌的下标，不是标签时返回 -1
+function matchTag(tokens: ASN1Token[], start: number): number {
+	let i = start + 1;
+	if (tokens[i] && TAG_CLASSES.has(tokens[i].text)) i++;
+	if (!tokens[i] || tokens[i].kind !== 'number') return -1;
+	i++;
+	if (!tokens[i] || tokens[i].text !== ']') return -1;
+	const next = tokens[i + 1];
+	return next && (next.text === 'IMPLICIT' || next.text === 'EXPLICIT') ? i + 1 : i;
+}
+
+function matchNumericOid(tokens: ASN1Token[], start: number): number {
+	let i = start + 1;
+	while (tokens[i] && tokens[i].kind === 'number') i++;
+	return i > start + 1 && tokens[i] && tokens[i].text === '}' ? i : -1;
+}
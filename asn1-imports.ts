@@ -0,0 +1,138 @@
+import { ASN1Assignment, ASN1ImportClause, ASN1ImportSymbol, ASN1Module, ASN1Value } from './asn1-ast';
+import { ASN1IndexedModule, ASN1IndexedSymbol, ASN1ModuleIndex } from './asn1-index';
+
+// 一条 IMPORTS ... FROM Module 的解析结果
+export interface ASN1ImportResolution {
+	clause: ASN1ImportClause;
+	module?: ASN1IndexedModule;        // 未找到时为空
+	oidMismatch: boolean;              // 按名称找到的模块 OID 与 FROM 后的 OID 不一致
+	unexported: ASN1ImportSymbol[];    // 模块存在但不在其 EXPORTS 列表中
+	undefinedSymbols: ASN1ImportSymbol[]; // 模块中既未定义也未再导入
+}
+
+// OID 顶层弧的名称（X.660）
+export const TOP_LEVEL_ARCS: Record<string, string> = {
+	'itu-t': '0',
+	'ccitt': '0',
+	'iso': '1',
+	'joint-iso-itu-t': '2',
+	'joint-iso-ccitt': '2'
+};
+
+// OID 值的数字形式，如 1.3.6.1.5.5.7.0.18；含无法确定数字的弧时返回 undefined
+export function objectIdentifierKey(value: ASN1Value | undefined): string | undefined {
+	if (!value || value.kind !== 'object-identifier-value' || value.components.length === 0) return undefined;
+	const arcs: string[] = [];
+	for (let index = 0; index < value.components.length; index++) {
+		const component = value.components[index];
+		if (component.number !== undefined && /^\d+$/.test(component.number)) {
+			arcs.push(component.number);
+		} else if (index === 0 && component.name && TOP_LEVEL_ARCS[component.name]) {
+			arcs.push(TOP_LEVEL_ARCS[component.name]);
+		} else {
+			return undefined;
+		}
+	}
+	return arcs.join('.');
+}
+
+// 依据库索引按模块名与 OID 解析 IMPORTS，并检查 EXPORTS
+export class ASN1ImportResolver {
+	constructor(private index: ASN1ModuleIndex) {}
+
+	// 索引建立之前无法判断模块是否存在
+	get ready(): boolean {
+		return this.index.ready;
+	}
+
+	resolveModule(module: ASN1Module): ASN1ImportResolution[] {
+		if (!module.imports) return [];
+		return module.imports.clauses.map(clause => this.resolveClause(clause));
+	}
+
+	resolveClause(clause: ASN1ImportClause): ASN1ImportResolution {
+		const { module, oidMismatch } = this.findModule(clause.moduleName, objectIdentifierKey(clause.assignedIdentifier));
+		const resolution: ASN1ImportResolution = { clause, module, oidMismatch, unexported: [], undefinedSymbols: [] };
+		if (!module) return resolution;
+
+		const defined = this.definedNames(module.module);
+		for (const symbol of clause.symbols) {
+			if (!defined.has(symbol.name)) {
+				resolution.undefinedSymbols.push(symbol);
+			} else if (!this.isExported(module.module, symbol.name)) {
+				resolution.unexported.push(symbol);
+			}
+		}
+		return resolution;
+	}
+
+	// 先按 OID 查找，找不到再按名称；两者都给出时以 OID 为准（X.680 13.9）
+	findModule(name: string, oid?: string): { module?: ASN1IndexedModule, oidMismatch: boolean } {
+		const byName = this.index.findModules(name);
+		if (oid) {
+			const byOid = this.index.getModules().filter(candidate => objectIdentifierKey(candidate.module.definitiveIdentifier) === oid);
+			const exact = byOid.find(candidate => candidate.name === name);
+			if (byOid.length > 0) return { module: exact || byOid[0], oidMismatch: false };
+			if (byName.length > 0) {
+				const withoutOid = byName.find(candidate => !objectIdentifierKey(candidate.module.definitiveIdentifier));
+				return { module: withoutOid || byName[0], oidMismatch: !withoutOid };
+			}
+			return { oidMismatch: false };
+		}
+		return { module: byName[0], oidMismatch: false };
+	}
+
+	// 在 module 中查找 name 的定义，沿 IMPORTS 继续查找再导出的名称
+	resolveSymbol(name: string, module: ASN1Module, visited: Set<ASN1Module> = new Set()): ASN1IndexedSymbol | undefined {
+		if (visited.has(module)) return undefined;
+		visited.add(module);
+		const local = this.index.findSymbols(name).find(symbol => symbol.module === module);
+		if (local) return local;
+		for (const clause of module.imports ? module.imports.clauses : []) {
+			if (!clause.symbols.some(symbol => symbol.name === name)) continue;
+			const { module: target } = this.findModule(clause.moduleName, objectIdentifierKey(clause.assignedIdentifier));
+			return target ? this.resolveSymbol(name, target.module, visited) : undefined;
+		}
+		return undefined;
+	}
+
+	// 从 module 中看到的 name 的定义：先找同一模块，再按 IMPORTS 找；无模块头的代码片段最后在整个库中按名称查找
+	lookupDefinition(name: string, module: ASN1Module): { assignment: ASN1Assignment, module: ASN1Module } | undefined {
+		const local = module.assignments.find(item => item.kind !== 'invalid-assignment' && item.name === name);
+		if (local) return { assignment: local, module };
+		for (const clause of module.imports ? module.imports.clauses : []) {
+			if (!clause.symbols.some(symbol => symbol.name === name)) continue;
+			const { module: target } = this.findModule(clause.moduleName, objectIdentifierKey(clause.assignedIdentifier));
+			const symbol = target ? this.resolveSymbol(name, target.module) : undefined;
+			if (symbol) return { assignment: symbol.assignment, module: symbol.module };
+		}
+		// 有模块头的模块只能看到本模块定义和导入的名称
+		if (!module.implicit) return undefined;
+		const symbols = this.index.findSymbols(name);
+		return symbols.length > 0 ? { assignment: symbols[0].assignment, module: symbols[0].module } : undefined;
+	}
+
+	// Module.name 形式的定义
+	lookupQualified(moduleName: string, name: string): { assignment: ASN1Assignment, module: ASN1Module } | undefined {
+		const { module } = this.findModule(moduleName);
+		const symbol = module ? this.resolveSymbol(name, module.module) : undefined;
+		return symbol ? { assignment: symbol.assignment, module: symbol.module } : undefined;
+	}
+
+	// 没有 EXPORTS 或 EXPORTS ALL 时导出全部
+	isExported(module: ASN1Module, name: string): boolean {
+		if (!module.exports || module.exports.all) return true;
+		return module.exports.symbols.some(symbol => symbol.name === name);
+	}
+
+	private definedNames(module: ASN1Module): Set<string> {
+		const names = new Set<string>();
+		for (const assignment of module.assignments) {
+			if (assignment.kind !== 'invalid-assignment') names.add(assignment.name);
+		}
+		for (const clause of module.imports ? module.imports.clauses : []) {
+			clause.symbols.forEach(symbol => names.add(symbol.name));
+		}
+		return names;
+	}
+}
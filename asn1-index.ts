@@ -0,0 +1,306 @@
+import { App, Events, TAbstractFile, TFile } from 'obsidian';
+import { ASN1Assignment, ASN1Document, ASN1Module } from './asn1-ast';
+import { parseASN1 } from './asn1-parser';
+
+// 笔记中的一个 asn1 代码块
+export interface ASN1IndexedBlock {
+	file: string;          // 笔记路径
+	line: number;          // 代码块第一行内容在笔记中的行号（从0开始）
+	source: string;
+	document: ASN1Document;
+}
+
+// 索引中的模块
+export interface ASN1IndexedModule {
+	name: string;
+	file: string;
+	line: number;          // 模块名所在行；无模块头的代码块为代码块第一行
+	block: ASN1IndexedBlock;
+	module: ASN1Module;
+}
+
+// 索引中的定义
+export type ASN1SymbolKind = 'type' | 'value' | 'value-set' | 'class' | 'object' | 'object-set';
+
+export interface ASN1IndexedSymbol {
+	name: string;
+	kind: ASN1SymbolKind;
+	moduleName: string;
+	file: string;
+	line: number;          // 定义名所在行（从0开始）
+	column: number;
+	block: ASN1IndexedBlock;
+	module: ASN1Module;
+	assignment: ASN1Assignment;
+}
+
+const SYMBOL_KINDS: Record<string, ASN1SymbolKind> = {
+	'type-assignment': 'type',
+	'value-assignment': 'value',
+	'value-set-assignment': 'value-set',
+	'object-class-assignment': 'class',
+	'object-assignment': 'object',
+	'object-set-assignment': 'object-set'
+};
+
+// 从 Markdown 文本中提取 ```asn1 代码块
+export function extractASN1Blocks(markdown: string): Array<{ line: number, source: string }> {
+	const blocks: Array<{ line: number, source: string }> = [];
+	const lines = markdown.split('\n');
+	let fence: string | null = null;
+	let isASN1 = false;
+	let startLine = 0;
+	for (let i = 0; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		if (fence === null) {
+			const match = /^(`{3,}|~{3,})\s*([\w-]*)/.exec(trimmed);
+			if (!match) continue;
+			fence = match[1];
+			isASN1 = match[2].toLowerCase() === 'asn1';
+			startLine = i + 1;
+		} else if (trimmed.startsWith(fence) && /^[`~]+$/.test(trimmed) && trimmed[0] === fence[0]) {
+			if (isASN1) blocks.push({ line: startLine, source: lines.slice(startLine, i).join('\n') });
+			fence = null;
+		}
+	}
+	return blocks;
+}
+
+// 'changed' 事件的参数；path 为 null 表示首次扫描完成
+export interface ASN1IndexChange {
+	path: string | null;
+	modules: Set<string>;  // 该笔记变化前后定义的模块名
+	symbols: Set<string>;  // 该笔记变化前后定义的名称
+}
+
+// 整个库中 asn1 代码块的模块与定义索引；内容变化时触发 'changed' 事件，参数为 ASN1IndexChange
+export class ASN1ModuleIndex extends Events {
+	private blocks = new Map<string, ASN1IndexedBlock[]>();
+	private modules = new Map<string, ASN1IndexedModule[]>();
+	private symbols = new Map<string, ASN1IndexedSymbol[]>();
+	// 每篇笔记登记的模块名与定义名，更新时只移除这些条目
+	private entries = new Map<string, { modules: string[], symbols: string[] }>();
+	// 首次扫描完成后为 true
+	ready = false;
+
+	constructor(private app: App) {
+		super();
+	}
+
+	// 扫描库中所有笔记
+	async rebuild() {
+		this.blocks.clear();
+		this.modules.clear();
+		this.symbols.clear();
+		this.entries.clear();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			await this.indexFile(file);
+		}
+		this.ready = true;
+		const change: ASN1IndexChange = { path: null, modules: new Set(), symbols: new Set() };
+		this.trigger('changed', change);
+	}
+
+	// 笔记创建或修改后增量更新
+	async updateFile(file: TAbstractFile) {
+		if (!(file instanceof TFile) || file.extension !== 'md') return;
+		const before = this.entries.get(file.path);
+		if (!await this.indexFile(file)) return;
+		this.notify(file.path, before);
+	}
+
+	// 用编辑器中尚未保存的内容更新笔记的索引
+	updateContent(path: string, content: string) {
+		const before = this.entries.get(path);
+		if (!this.indexContent(path, content)) return;
+		this.notify(path, before);
+	}
+
+	removeFile(path: string) {
+		if (!this.blocks.has(path)) return;
+		const before = this.entries.get(path);
+		this.unregister(path);
+		this.blocks.delete(path);
+		this.notify(path, before);
+	}
+
+	renameFile(file: TAbstractFile, oldPath: string) {
+		const blocks = this.blocks.get(oldPath);
+		if (!blocks) {
+			this.updateFile(file);
+			return;
+		}
+		const before = this.entries.get(oldPath);
+		this.unregister(oldPath);
+		this.blocks.delete(oldPath);
+		blocks.forEach(block => block.file = file.path);
+		this.blocks.set(file.path, blocks);
+		this.register(file.path);
+		this.notify(file.path, before);
+	}
+
+	// ---- 查询 ----
+
+	getBlocks(path?: string): ASN1IndexedBlock[] {
+		if (path !== undefined) return this.blocks.get(path) || [];
+		return Array.from(this.blocks.values()).reduce<ASN1IndexedBlock[]>((all, blocks) => all.concat(blocks), []);
+	}
+
+	getModules(): ASN1IndexedModule[] {
+		return Array.from(this.modules.values()).reduce<ASN1IndexedModule[]>((all, modules) => all.concat(modules), []);
+	}
+
+	// 同名模块可能出现在多个笔记中
+	findModules(name: string): ASN1IndexedModule[] {
+		return this.modules.get(name) || [];
+	}
+
+	findSymbols(name: string, moduleName?: string): ASN1IndexedSymbol[] {
+		const symbols = this.symbols.get(name) || [];
+		return moduleName === undefined ? symbols : symbols.filter(symbol => symbol.moduleName === moduleName);
+	}
+
+	getSymbols(): ASN1IndexedSymbol[] {
+		return Array.from(this.symbols.values()).reduce<ASN1IndexedSymbol[]>((all, symbols) => all.concat(symbols), []);
+	}
+
+	// ---- 内部 ----
+
+	// 重新解析笔记中的代码块；代码块内容没有变化时返回 false
+	private async indexFile(file: TFile): Promise<boolean> {
+		try {
+			return this.indexContent(file.path, await this.app.vault.cachedRead(file));
+		} catch (error) {
+			console.warn(`Error indexing ASN.1 blocks in ${file.path}:`, error);
+			return false;
+		}
+	}
+
+	// 只比较代码块内容；代码块仅因上方文字增删而移动时就地更新行号，不算作变化
+	private indexContent(path: string, content: string): boolean {
+		const extracted = extractASN1Blocks(content);
+		const previous = this.blocks.get(path) || [];
+		const unchanged = previous.length === extracted.length
+			&& previous.every((block, i) => block.source === extracted[i].source);
+		if (unchanged) {
+			if (previous.some((block, i) => block.line !== extracted[i].line)) {
+				previous.forEach((block, i) => block.line = extracted[i].line);
+				this.unregister(path);
+				this.register(path);
+			}
+			return false;
+		}
+
+		this.unregister(path);
+		if (extracted.length === 0) {
+			this.blocks.delete(path);
+		} else {
+			// 内容未变的代码块沿用已有的语法树
+			const parsed = new Map(previous.map(block => [block.source, block.document] as [string, ASN1Document]));
+			this.blocks.set(path, extracted.map(block => ({
+				file: path,
+				line: block.line,
+				source: block.source,
+				document: parsed.get(block.source) || parseASN1(block.source)
+			})));
+			this.register(path);
+		}
+		return true;
+	}
+
+	// 变化前后登记的名称都可能受影响
+	private notify(path: string, before?: { modules: string[], symbols: string[] }) {
+		const after = this.entries.get(path);
+		const change: ASN1IndexChange = {
+			path,
+			modules: new Set([...(before ? before.modules : []), ...(after ? after.modules : [])]),
+			symbols: new Set([...(before ? before.symbols : []), ...(after ? after.symbols : [])])
+		};
+		this.trigger('changed', change);
+	}
+
+	private register(path: string) {
+		const names = { modules: [] as string[], symbols: [] as string[] };
+		for (const block of this.blocks.get(path) || []) {
+			const lineStarts = lineStartsOf(block.source);
+			for (const module of block.document.modules) {
+				// 无模块头的代码块没有可供引用的模块名
+				if (!module.implicit) {
+					const line = block.line + positionIn(lineStarts, module.nameRange ? module.nameRange.start : module.start).line;
+					this.addTo(this.modules, module.name, { name: module.name, file: block.file, line, block, module });
+					names.modules.push(module.name);
+				}
+				for (const assignment of module.assignments) {
+					const kind = SYMBOL_KINDS[assignment.kind];
+					if (!kind) continue;
+					const position = positionIn(lineStarts, assignment.nameRange.start);
+					this.addTo(this.symbols, assignment.name, {
+						name: assignment.name,
+						kind,
+						moduleName: module.name,
+						file: block.file,
+						line: block.line + position.line,
+						column: position.column,
+						block,
+						module,
+						assignment
+					});
+					names.symbols.push(assignment.name);
+				}
+			}
+		}
+		if (names.modules.length > 0 || names.symbols.length > 0) this.entries.set(path, names);
+	}
+
+	private unregister(path: string) {
+		const names = this.entries.get(path);
+		if (!names) return;
+		this.entries.delete(path);
+		names.modules.forEach(name => this.removeFrom(this.modules, name, path));
+		names.symbols.forEach(name => this.removeFrom(this.symbols, name, path));
+	}
+
+	private addTo<T>(map: Map<string, T[]>, key: string, value: T) {
+		const list = map.get(key);
+		if (list) {
+			list.push(value);
+		} else {
+			map.set(key, [value]);
+		}
+	}
+
+	private removeFrom<T extends { file: string }>(map: Map<string, T[]>, key: string, path: string) {
+		const list = map.get(key);
+		if (!list) return;
+		const rest = list.filter(item => item.file !== path);
+		if (rest.length > 0) {
+			map.set(key, rest);
+		} else {
+			map.delete(key);
+		}
+	}
+}
+
+// 各行起始偏移
+function lineStartsOf(source: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < source.length; i++) {
+		if (source[i] === '\n') starts.push(i + 1);
+	}
+	return starts;
+}
+
+// 二分查找偏移所在的行
+function positionIn(lineStarts: number[], offset: number): { line: number, column: number } {
+	let low = 0;
+	let high = lineStarts.length - 1;
+	while (low < high) {
+		const middle = (low + high + 1) >> 1;
+		if (lineStarts[middle] <= offset) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return { line: low, column: offset - lineStarts[low] };
+}
@@ -0,0 +1,287 @@
+// ASN.1 词法分析器（X.680 第 12 章）
+
+// 令牌类型
+export type ASN1TokenKind =
+	| 'keyword'        // 保留字，如 SEQUENCE、INTEGER、UTF8String
+	| 'typeReference'  // 大写开头的引用名（类型、模块、类）
+	| 'identifier'     // 小写开头的标识符（字段、值引用）
+	| 'number'         // 非负整数
+	| 'realNumber'     // 实数字面量，如 3.14、1e10
+	| 'cstring'        // 字符串 "..."
+	| 'bstring'        // 二进制串 '0101'B
+	| 'hstring'        // 十六进制串 'FF'H
+	| 'fieldReference' // 信息对象类字段 &id、&Type
+	| 'comment'        // -- 注释 -- 或 /* 注释 */
+	| 'symbol'         // 标点与操作符
+	| 'invalid'        // 无法识别的字符
+	| 'eof';
+
+// 令牌
+export interface ASN1Token {
+	kind: ASN1TokenKind;
+	text: string;
+	start: number;   // 在源文本中的起始偏移（包含）
+	end: number;     // 在源文本中的结束偏移（不包含）
+	line: number;    // 从0开始的行号
+	column: number;  // 从0开始的列号
+}
+
+// X.680 保留字
+export const ASN1_RESERVED_WORDS = new Set<string>([
+	'ABSENT', 'ABSTRACT-SYNTAX', 'ALL', 'APPLICATION', 'AUTOMATIC', 'BEGIN', 'BIT',
+	'BMPString', 'BOOLEAN', 'BY', 'CHARACTER', 'CHOICE', 'CLASS', 'COMPONENT',
+	'COMPONENTS', 'CONSTRAINED', 'CONTAINING', 'DATE', 'DATE-TIME', 'DEFAULT',
+	'DEFINITIONS', 'DURATION', 'EMBEDDED', 'ENCODED', 'ENCODING-CONTROL', 'END',
+	'ENUMERATED', 'EXCEPT', 'EXPLICIT', 'EXPORTS', 'EXTENSIBILITY', 'EXTERNAL',
+	'FALSE', 'FROM', 'GeneralizedTime', 'GeneralString', 'GraphicString',
+	'IA5String', 'IDENTIFIER', 'IMPLICIT', 'IMPLIED', 'IMPORTS', 'INCLUDES',
+	'INSTANCE', 'INSTRUCTIONS', 'INTEGER', 'INTERSECTION', 'ISO646String', 'MAX',
+	'MIN', 'MINUS-INFINITY', 'NOT-A-NUMBER', 'NULL', 'NumericString', 'OBJECT',
+	'ObjectDescriptor', 'OCTET', 'OF', 'OID-IRI', 'OPTIONAL', 'PATTERN', 'PDV',
+	'PLUS-INFINITY', 'PRESENT', 'PrintableString', 'PRIVATE', 'REAL',
+	'RELATIVE-OID', 'RELATIVE-OID-IRI', 'SEQUENCE', 'SET', 'SETTINGS', 'SIZE',
+	'STRING', 'SYNTAX', 'T61String', 'TAGS', 'TeletexString', 'TIME',
+	'TIME-OF-DAY', 'TRUE', 'TYPE-IDENTIFIER', 'UNION', 'UNIQUE', 'UNIVERSAL',
+	'UniversalString', 'UTCTime', 'UTF8String', 'VideotexString', 'VisibleString',
+	'WITH'
+]);
+
+// 多字符符号，按长度从长到短匹配
+const MULTI_CHAR_SYMBOLS = ['::=', '...', '..'];
+const SINGLE_CHAR_SYMBOLS = '{}()[],.;|^<>@!:-&';
+
+export class ASN1Lexer {
+	private pos = 0;
+	private line = 0;
+	private lineStart = 0;
+	private tokens: ASN1Token[] = [];
+
+	constructor(private source: string) {}
+
+	// 将源文本切分为令牌（包括注释），末尾总是一个 eof 令牌
+	tokenize(): ASN1Token[] {
+		const src = this.source;
+		while (this.pos < src.length) {
+			const ch = src[this.pos];
+
+			if (ch === '\n') {
+				this.pos++;
+				this.line++;
+				this.lineStart = this.pos;
+				continue;
+			}
+			if (/\s/.test(ch)) {
+				this.pos++;
+				continue;
+			}
+
+			if (ch === '-' && src[this.pos + 1] === '-') {
+				this.readLineComment();
+			} else if (ch === '/' && src[this.pos + 1] === '*') {
+				this.readBlockComment();
+			} else if (ch === '"') {
+				this.readCString();
+			} else if (ch === '\'') {
+				this.readBinaryOrHexString();
+			} else if (/[0-9]/.test(ch)) {
+				this.readNumber();
+			} else if (/[A-Za-z]/.test(ch)) {
+				this.readWord();
+			} else if (ch === '&' && /[A-Za-z]/.test(src[this.pos + 1] || '')) {
+				this.readFieldReference();
+			} else {
+				this.readSymbol();
+			}
+		}
+		this.push('eof', this.pos, this.pos);
+		return this.tokens;
+	}
+
+	private push(kind: ASN1TokenKind, start: number, end: number) {
+		this.tokens.push({
+			kind,
+			text: this.source.substring(start, end),
+			start,
+			end,
+			line: this.line,
+			column: start - this.lineStart
+		});
+	}
+
+	// 跨行令牌结束后同步行号信息
+	private advanceLines(start: number, end: number) {
+		for (let i = start; i < end; i++) {
+			if (this.source[i] === '\n') {
+				this.line++;
+				this.lineStart = i + 1;
+			}
+		}
+	}
+
+	// "--" 注释在下一个 "--" 或行尾处结束
+	private readLineComment() {
+		const src = this.source;
+		const start = this.pos;
+		let i = start + 2;
+		while (i < src.length && src[i] !== '\n') {
+			if (src[i] === '-' && src[i + 1] === '-') {
+				i += 2;
+				break;
+			}
+			i++;
+		}
+		let end = i;
+		while (end > start && /[ \t\r]/.test(src[end - 1])) end--;
+		this.push('comment', start, end);
+		this.pos = i;
+	}
+
+	// "/* */" 注释，允许嵌套
+	private readBlockComment() {
+		const src = this.source;
+		const start = this.pos;
+		let depth = 0;
+		let i = start;
+		while (i < src.length) {
+			if (src[i] === '/' && src[i + 1] === '*') {
+				depth++;
+				i += 2;
+			} else if (src[i] === '*' && src[i + 1] === '/') {
+				depth--;
+				i += 2;
+				if (depth === 0) break;
+			} else {
+				i++;
+			}
+		}
+		this.push('comment', start, i);
+		this.advanceLines(start, i);
+		this.pos = i;
+	}
+
+	// 字符串中的双引号以 "" 转义，字符串可以跨行
+	private readCString() {
+		const src = this.source;
+		const start = this.pos;
+		let i = start + 1;
+		while (i < src.length) {
+			if (src[i] === '"') {
+				if (src[i + 1] === '"') {
+					i += 2;
+					continue;
+				}
+				i++;
+				break;
+			}
+			i++;
+		}
+		this.push(i <= src.length && src[i - 1] === '"' && i - start >= 2 ? 'cstring' : 'invalid', start, i);
+		this.advanceLines(start, i);
+		this.pos = i;
+	}
+
+	// '0101'B 或 'FF'H
+	private readBinaryOrHexString() {
+		const src = this.source;
+		const start = this.pos;
+		const close = src.indexOf('\'', start + 1);
+		if (close !== -1) {
+			const suffix = src[close + 1];
+			const body = src.substring(start + 1, close);
+			if ((suffix === 'B' || suffix === 'b') && /^[01\s]*$/.test(body)) {
+				this.push('bstring', start, close + 2);
+				this.advanceLines(start, close + 2);
+				this.pos = close + 2;
+				return;
+			}
+			if ((suffix === 'H' || suffix === 'h') && /^[0-9A-Fa-f\s]*$/.test(body)) {
+				this.push('hstring', start, close + 2);
+				this.advanceLines(start, close + 2);
+				this.pos = close + 2;
+				return;
+			}
+		}
+		this.push('invalid', start, start + 1);
+		this.pos = start + 1;
+	}
+
+	// 整数或实数；"1..5" 中的 ".." 不属于数字
+	private readNumber() {
+		const src = this.source;
+		const start = this.pos;
+		let i = start;
+		while (i < src.length && /[0-9]/.test(src[i])) i++;
+		let kind: ASN1TokenKind = 'number';
+		if (src[i] === '.' && /[0-9]/.test(src[i + 1] || '')) {
+			i++;
+			while (i < src.length && /[0-9]/.test(src[i])) i++;
+			kind = 'realNumber';
+		}
+		if ((src[i] === 'e' || src[i] === 'E') && /[-+0-9]/.test(src[i + 1] || '')) {
+			let j = i + 1;
+			if (src[j] === '-' || src[j] === '+') j++;
+			if (/[0-9]/.test(src[j] || '')) {
+				while (j < src.length && /[0-9]/.test(src[j])) j++;
+				i = j;
+				kind = 'realNumber';
+			}
+		}
+		this.push(kind, start, i);
+		this.pos = i;
+	}
+
+	// 引用名与标识符：字母开头，可含数字和单个连字符，不能以连字符结尾
+	private readWord() {
+		const src = this.source;
+		const start = this.pos;
+		let i = start + 1;
+		while (i < src.length) {
+			if (/[A-Za-z0-9]/.test(src[i])) {
+				i++;
+			} else if (src[i] === '-' && /[A-Za-z0-9]/.test(src[i + 1] || '')) {
+				i++;
+			} else {
+				break;
+			}
+		}
+		const text = src.substring(start, i);
+		let kind: ASN1TokenKind;
+		if (ASN1_RESERVED_WORDS.has(text)) {
+			kind = 'keyword';
+		} else if (/[A-Z]/.test(text[0])) {
+			kind = 'typeReference';
+		} else {
+			kind = 'identifier';
+		}
+		this.push(kind, start, i);
+		this.pos = i;
+	}
+
+	// &id、&Params：& 后紧跟一个引用名
+	private readFieldReference() {
+		const start = this.pos;
+		this.pos++;
+		this.readWord();
+		const word = this.tokens.pop();
+		this.push('fieldReference', start, word ? word.end : this.pos);
+	}
+
+	private readSymbol() {
+		const src = this.source;
+		const start = this.pos;
+		for (const symbol of MULTI_CHAR_SYMBOLS) {
+			if (src.startsWith(symbol, start)) {
+				this.push('symbol', start, start + symbol.length);
+				this.pos = start + symbol.length;
+				return;
+			}
+		}
+		this.push(SINGLE_CHAR_SYMBOLS.includes(src[start]) ? 'symbol' : 'invalid', start, start + 1);
+		this.pos = start + 1;
+	}
+}
+
+// 便捷函数：对文本进行词法分析
+export function tokenizeASN1(source: string): ASN1Token[] {
+	return new ASN1Lexer(source).tokenize();
+}
@@ -0,0 +1,215 @@
+import { ASN1Assignment, ASN1Document, ASN1Module, ASN1SourceRange } from './asn1-ast';
+import { ASN1Token, tokenizeASN1 } from './asn1-lexer';
+import { ASN1IndexedBlock, ASN1IndexedSymbol, ASN1ModuleIndex } from './asn1-index';
+import { ASN1ImportResolver } from './asn1-imports';
+import { ASN1NodeLike, walkASN1 } from './asn1-walker';
+
+// 源码中某处引用的名称；写作 Module.Type 时带模块名
+export interface ASN1ReferenceAt extends ASN1SourceRange {
+	name: string;
+	moduleName?: string;
+}
+
+// 定义的位置：当前代码块内（local，相对代码块的偏移）或索引中的其它代码块
+export interface ASN1Definition {
+	name: string;
+	local?: ASN1SourceRange;
+	symbol?: ASN1IndexedSymbol;
+}
+
+// 一处引用；偏移相对所在代码块
+export interface ASN1ReferenceLocation extends ASN1SourceRange {
+	kind: 'reference' | 'import' | 'export' | 'definition';
+	block: ASN1IndexedBlock;
+	file: string;
+	line: number;          // 笔记中的行号（从0开始）
+	column: number;
+	lineText: string;
+}
+
+// 取出 offset 处的引用名称（光标位于名称末尾时也算）
+export function referenceAtOffset(source: string, offset: number): ASN1ReferenceAt | undefined {
+	const tokens = tokenizeASN1(source);
+	const index = tokens.findIndex(token => token.start <= offset && offset <= token.end
+		&& (token.kind === 'typeReference' || token.kind === 'identifier'));
+	if (index === -1) return undefined;
+	const token = tokens[index];
+	const reference: ASN1ReferenceAt = { name: token.text, start: token.start, end: token.end };
+	// 紧贴的 Module.Type
+	const dot = tokens[index - 1];
+	const module = tokens[index - 2];
+	if (dot && module && dot.text === '.' && dot.start === module.end && dot.end === token.start && module.kind === 'typeReference') {
+		reference.moduleName = module.text;
+	}
+	return reference;
+}
+
+// 查找引用名称的定义：本模块、同一代码块、IMPORTS 指向的模块；无模块头的代码片段最后找库中任意同名定义
+export class ASN1DefinitionFinder {
+	constructor(private index: ASN1ModuleIndex, private imports: ASN1ImportResolver) {}
+
+	find(document: ASN1Document, reference: ASN1ReferenceAt): ASN1Definition | undefined {
+		const name = reference.name;
+		if (reference.moduleName) {
+			const { module } = this.imports.findModule(reference.moduleName);
+			const symbol = module ? this.imports.resolveSymbol(name, module.module) : undefined;
+			return symbol ? { name, symbol } : undefined;
+		}
+
+		const module = document.modules.find(item => item.start <= reference.start && reference.end <= item.end) || document.modules[0];
+		const local = this.findLocal(document, name, module && module.name);
+		if (local) return { name, local };
+
+		for (const clause of module && module.imports ? module.imports.clauses : []) {
+			if (!clause.symbols.some(symbol => symbol.name === name)) continue;
+			const { module: target } = this.imports.findModule(clause.moduleName);
+			const symbol = target ? this.imports.resolveSymbol(name, target.module) : undefined;
+			if (symbol) return { name, symbol };
+		}
+
+		// 有模块头的模块只能看到本模块定义和导入的名称
+		if (module && !module.implicit) return undefined;
+		const symbols = this.index.findSymbols(name);
+		return symbols.length > 0 ? { name, symbol: symbols[0] } : undefined;
+	}
+
+	// 定义对应的赋值及其所在的语法树；document 为查找定义时使用的语法树
+	assignmentOf(document: ASN1Document, definition: ASN1Definition): { assignment: ASN1Assignment, document: ASN1Document } | undefined {
+		if (definition.symbol) {
+			return { assignment: definition.symbol.assignment, document: definition.symbol.block.document };
+		}
+		const local = definition.local;
+		if (!local) return undefined;
+		for (const module of document.modules) {
+			const assignment = module.assignments.find(item => item.nameRange.start === local.start);
+			if (assignment) return { assignment, document };
+		}
+		return undefined;
+	}
+
+	// 优先使用同一模块中的定义
+	private findLocal(document: ASN1Document, name: string, moduleName?: string): ASN1SourceRange | undefined {
+		const modules = [...document.modules].sort((a, b) => (a.name === moduleName ? 0 : 1) - (b.name === moduleName ? 0 : 1));
+		for (const module of modules) {
+			const assignment = module.assignments.find(item => item.kind !== 'invalid-assignment' && item.name === name);
+			if (assignment) return assignment.nameRange;
+		}
+		return undefined;
+	}
+}
+
+// 在库中所有代码块里查找名称的引用；注释与字符串不会被词法分析为名称，因此不会误中
+export class ASN1ReferenceFinder {
+	private definitions: ASN1DefinitionFinder;
+
+	constructor(private index: ASN1ModuleIndex, private imports: ASN1ImportResolver) {
+		this.definitions = new ASN1DefinitionFinder(index, imports);
+	}
+
+	// moduleName 为定义所在的模块；为空时不区分模块
+	findReferences(name: string, moduleName?: string, includeDefinitions: boolean = false): ASN1ReferenceLocation[] {
+		const results: ASN1ReferenceLocation[] = [];
+		for (const block of this.index.getBlocks()) {
+			results.push(...this.findInBlock(block, name, moduleName || undefined, includeDefinitions));
+		}
+		return results.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+	}
+
+	// 没有模块头的定义无法按模块名区分：只在定义所在的代码块中查找，且名称须解析到该定义
+	findBlockReferences(block: ASN1IndexedBlock, name: string, definitionStart: number, includeDefinitions: boolean = false): ASN1ReferenceLocation[] {
+		return this.findInBlock(block, name, undefined, includeDefinitions).filter(location => {
+			if (location.kind === 'definition') return location.start === definitionStart;
+			if (location.kind !== 'reference') return false;
+			const reference = referenceAtOffset(block.source, location.start);
+			const definition = reference ? this.definitions.find(block.document, reference) : undefined;
+			if (!definition) return false;
+			if (definition.local) return definition.local.start === definitionStart;
+			const symbol = definition.symbol;
+			return !!symbol && symbol.file === block.file && symbol.block.line === block.line
+				&& symbol.assignment.nameRange.start === definitionStart;
+		});
+	}
+
+	private findInBlock(block: ASN1IndexedBlock, name: string, moduleName: string | undefined, includeDefinitions: boolean): ASN1ReferenceLocation[] {
+		const results: ASN1ReferenceLocation[] = [];
+		const tokens = tokenizeASN1(block.source);
+		const lines = block.source.split('\n');
+		// 成员名、命名数字、形参等定义位置上的同名标识符不是引用
+		const defining = new Set<number>();
+		walkASN1(block.document, (node) => {
+			const range = (node as ASN1NodeLike & { nameRange?: ASN1SourceRange }).nameRange;
+			if (range && node.kind !== 'type-reference') defining.add(range.start);
+		});
+
+		for (const module of block.document.modules) {
+			const refersToTarget = this.moduleRefersTo(module, name, moduleName);
+			const shadowing = module.assignments.filter(assignment => (assignment.parameters || []).some(parameter => parameter.name === name));
+			tokens.forEach((token, index) => {
+				if (token.text !== name || (token.kind !== 'typeReference' && token.kind !== 'identifier')) return;
+				if (token.start < module.start || token.end > module.end) return;
+				if (shadowing.some(assignment => assignment.start <= token.start && token.end <= assignment.end)) return;
+
+				let kind: ASN1ReferenceLocation['kind'] = 'reference';
+				const qualifier = this.qualifierOf(tokens, index);
+				const clause = module.imports ? module.imports.clauses.find(item => item.start <= token.start && token.end <= item.end) : undefined;
+				if (qualifier) {
+					if (moduleName && qualifier !== moduleName) return;
+				} else if (clause) {
+					if (moduleName && !this.clauseImportsFrom(clause.moduleName, moduleName)) return;
+					kind = 'import';
+				} else if (module.exports && module.exports.start <= token.start && token.end <= module.exports.end) {
+					if (moduleName && module.name !== moduleName) return;
+					kind = 'export';
+				} else if (defining.has(token.start)) {
+					const isAssignment = module.assignments.some(assignment => assignment.nameRange.start === token.start);
+					if (!isAssignment || !includeDefinitions || (moduleName && module.name !== moduleName)) return;
+					kind = 'definition';
+				} else if (!refersToTarget) {
+					return;
+				}
+
+				const line = this.lineOf(block.source, token.start);
+				results.push({
+					kind,
+					block,
+					file: block.file,
+					line: block.line + line,
+					column: token.start - (block.source.lastIndexOf('\n', token.start - 1) + 1),
+					lineText: lines[line].trim(),
+					start: token.start,
+					end: token.end
+				});
+			});
+		}
+		return results;
+	}
+
+	// 模块中未加前缀的名称是否指向 moduleName 中的定义
+	private moduleRefersTo(module: ASN1Module, name: string, moduleName?: string): boolean {
+		if (!moduleName || module.name === moduleName) return true;
+		if (module.assignments.some(assignment => assignment.kind !== 'invalid-assignment' && assignment.name === name)) return false;
+		const clause = module.imports ? module.imports.clauses.find(item => item.symbols.some(symbol => symbol.name === name)) : undefined;
+		// 未定义也未导入的名称无法判断来源，按引用处理
+		return clause ? this.clauseImportsFrom(clause.moduleName, moduleName) : true;
+	}
+
+	private clauseImportsFrom(clauseModule: string, moduleName: string): boolean {
+		if (clauseModule === moduleName) return true;
+		const { module } = this.imports.findModule(clauseModule);
+		return !!module && module.name === moduleName;
+	}
+
+	// 紧贴的 Module.name 中的模块名
+	private qualifierOf(tokens: ASN1Token[], index: number): string | undefined {
+		const dot = tokens[index - 1];
+		const module = tokens[index - 2];
+		if (dot && module && dot.text === '.' && dot.start === module.end && dot.end === tokens[index].start && module.kind === 'typeReference') {
+			return module.text;
+		}
+		return undefined;
+	}
+
+	private lineOf(source: string, offset: number): number {
+		return (source.substring(0, offset).match(/\n/g) || []).length;
+	}
+}
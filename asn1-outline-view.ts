@@ -0,0 +1,260 @@
+import { ItemView, WorkspaceLeaf, setIcon } from 'obsidian';
+import { ASN1Assignment, ASN1ComponentItem, ASN1NamedNumber, ASN1SourceRange, ASN1Type } from './asn1-ast';
+import { extractASN1Blocks } from './asn1-index';
+import { parseASN1 } from './asn1-parser';
+
+export const ASN1_OUTLINE_VIEW_TYPE = 'asn1-outline';
+
+// 类型的结构类别，决定大纲中的图标
+export type ASN1StructureType = 'SEQUENCE' | 'SET' | 'CHOICE' | 'ENUMERATED' | 'PRIMITIVE';
+
+// 大纲中的一个节点；line / ch 为笔记中的位置
+export interface ASN1OutlineNode {
+	kind: 'module' | 'type' | 'value' | 'class' | 'component' | 'item';
+	name: string;
+	detail: string;
+	structureType?: ASN1StructureType;
+	line: number;
+	ch: number;
+	children: ASN1OutlineNode[];
+}
+
+// 大纲面板需要的插件能力
+export interface ASN1OutlineHost {
+	openLocation(path: string, line: number, ch: number, newLeaf?: boolean): Promise<void>;
+	refreshOutline(): void;
+	t(key: 'outlineTitle' | 'outlineEmpty'): string;
+}
+
+const STRUCTURE_ICONS: Record<ASN1StructureType, string> = {
+	'SEQUENCE': 'list-ordered',
+	'SET': 'list',
+	'CHOICE': 'git-fork',
+	'ENUMERATED': 'list-checks',
+	'PRIMITIVE': 'box'
+};
+
+const KIND_ICONS: Record<string, string> = {
+	'module': 'package',
+	'value': 'hash',
+	'class': 'shapes',
+	'item': 'dot'
+};
+
+// 标签不改变结构；SEQUENCE OF / SET OF 按 SEQUENCE / SET 归类
+export function structureTypeOf(type: ASN1Type): ASN1StructureType {
+	switch (type.kind) {
+		case 'tagged-type':
+			return structureTypeOf(type.inner);
+		case 'constructed-type':
+			return type.structure;
+		case 'collection-type':
+			return type.structure === 'SEQUENCE OF' ? 'SEQUENCE' : 'SET';
+		case 'enumerated-type':
+			return 'ENUMERATED';
+		default:
+			return 'PRIMITIVE';
+	}
+}
+
+// 从笔记内容生成大纲：模块、赋值以及 SEQUENCE / SET / CHOICE 的成员和 ENUMERATED 的取值
+export function buildASN1Outline(markdown: string): ASN1OutlineNode[] {
+	const nodes: ASN1OutlineNode[] = [];
+	for (const block of extractASN1Blocks(markdown)) {
+		const document = parseASN1(block.source);
+		const position = (range: ASN1SourceRange) => {
+			const before = block.source.substring(0, range.start);
+			const line = (before.match(/\n/g) || []).length;
+			return { line: block.line + line, ch: range.start - (before.lastIndexOf('\n') + 1) };
+		};
+		const typeChildren = (type: ASN1Type): ASN1OutlineNode[] => {
+			switch (type.kind) {
+				case 'tagged-type':
+					return typeChildren(type.inner);
+				case 'collection-type':
+					return typeChildren(type.element);
+				case 'constructed-type':
+					return componentNodes(type.components);
+				case 'enumerated-type':
+					return type.items
+						.filter((item): item is ASN1NamedNumber => item.kind === 'named-number')
+						.map(item => ({
+							kind: 'item' as const,
+							name: item.name,
+							detail: item.value ? `(${block.source.substring(item.value.start, item.value.end)})` : '',
+							...position(item.nameRange),
+							children: []
+						}));
+				default:
+					return [];
+			}
+		};
+		const componentNodes = (items: ASN1ComponentItem[]): ASN1OutlineNode[] => {
+			const result: ASN1OutlineNode[] = [];
+			for (const item of items) {
+				if (item.kind === 'extension-addition-group') {
+					result.push(...componentNodes(item.components));
+				} else if (item.kind === 'component') {
+					result.push({
+						kind: 'component',
+						name: item.name,
+						detail: describeType(item.type) + (item.optional ? ' OPTIONAL' : item.defaultValue ? ' DEFAULT' : ''),
+						structureType: structureTypeOf(item.type),
+						...position(item.nameRange),
+						children: typeChildren(item.type)
+					});
+				} else if (item.kind === 'components-of') {
+					result.push({
+						kind: 'component',
+						name: 'COMPONENTS OF',
+						detail: describeType(item.type),
+						structureType: structureTypeOf(item.type),
+						...position(item),
+						children: []
+					});
+				}
+			}
+			return result;
+		};
+
+		for (const module of document.modules) {
+			const assignments = module.assignments
+				.filter(assignment => assignment.kind !== 'invalid-assignment')
+				.map(assignment => assignmentNode(assignment, position(assignment.nameRange), typeChildren));
+			// 无模块头的代码块直接列出赋值
+			if (module.implicit) {
+				nodes.push(...assignments);
+				continue;
+			}
+			nodes.push({
+				kind: 'module',
+				name: module.name,
+				detail: module.tagDefault ? `${module.tagDefault} TAGS` : '',
+				...position(module.nameRange || module),
+				children: assignments
+			});
+		}
+	}
+	return nodes;
+}
+
+function assignmentNode(assignment: ASN1Assignment, location: { line: number, ch: number }, typeChildren: (type: ASN1Type) => ASN1OutlineNode[]): ASN1OutlineNode {
+	const name = assignment.parameters && assignment.parameters.length > 0 ? `${assignment.name}{}` : assignment.name;
+	switch (assignment.kind) {
+		case 'type-assignment':
+			return { kind: 'type', name, detail: describeType(assignment.type), structureType: structureTypeOf(assignment.type), ...location, children: typeChildren(assignment.type) };
+		case 'value-assignment':
+		case 'value-set-assignment':
+			return { kind: 'value', name, detail: describeType(assignment.type), ...location, children: [] };
+		case 'object-class-assignment':
+			return { kind: 'class', name, detail: 'CLASS', ...location, children: [] };
+		case 'object-assignment':
+		case 'object-set-assignment':
+			return { kind: 'class', name, detail: assignment.objectClass.name, ...location, children: [] };
+		default:
+			return { kind: 'type', name, detail: '', ...location, children: [] };
+	}
+}
+
+// 节点后显示的简短类型说明
+function describeType(type: ASN1Type): string {
+	switch (type.kind) {
+		case 'tagged-type': {
+			const tag = type.tag;
+			return `[${tag.tagClass ? tag.tagClass + ' ' : ''}${tag.number}] ${describeType(type.inner)}`;
+		}
+		case 'builtin-type':
+			return type.name;
+		case 'constructed-type':
+			return type.structure;
+		case 'collection-type':
+			return `${type.structure} ${describeType(type.element)}`;
+		case 'enumerated-type':
+			return 'ENUMERATED';
+		case 'type-reference':
+			return type.moduleName ? `${type.moduleName}.${type.name}` : type.name;
+		case 'object-class-field-type':
+			return `${type.className}.${type.fieldPath.join('.')}`;
+		case 'instance-of-type':
+			return `INSTANCE OF ${type.className}`;
+	}
+}
+
+// 侧边栏中当前笔记的 ASN.1 大纲，点击节点移动光标
+export class ASN1OutlineView extends ItemView {
+	private path = '';
+	private nodes: ASN1OutlineNode[] = [];
+	// 刷新后保持用户折叠的节点
+	private collapsed = new Set<string>();
+
+	constructor(leaf: WorkspaceLeaf, private host: ASN1OutlineHost) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return ASN1_OUTLINE_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return this.host.t('outlineTitle');
+	}
+
+	getIcon(): string {
+		return 'list-tree';
+	}
+
+	async onOpen() {
+		this.render();
+		this.host.refreshOutline();
+	}
+
+	setNote(path: string, markdown: string) {
+		if (path !== this.path) this.collapsed.clear();
+		this.path = path;
+		this.nodes = buildASN1Outline(markdown);
+		this.render();
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.classList.add('asn1-outline');
+		if (this.nodes.length === 0) {
+			container.createEl('div', { text: this.host.t('outlineEmpty'), cls: 'asn1-outline-empty' });
+			return;
+		}
+		this.renderNodes(container, this.nodes, '');
+	}
+
+	private renderNodes(parent: HTMLElement, nodes: ASN1OutlineNode[], parentKey: string) {
+		for (const node of nodes) {
+			const key = `${parentKey}/${node.name}`;
+			let row: HTMLElement;
+			if (node.children.length > 0) {
+				const details = parent.createEl('details', { cls: 'asn1-outline-node' });
+				if (!this.collapsed.has(key)) details.setAttribute('open', '');
+				details.addEventListener('toggle', () => {
+					if (details.hasAttribute('open')) {
+						this.collapsed.delete(key);
+					} else {
+						this.collapsed.add(key);
+					}
+				});
+				row = details.createEl('summary', { cls: 'asn1-outline-row' });
+				this.renderNodes(details.createEl('div', { cls: 'asn1-outline-children' }), node.children, key);
+			} else {
+				row = parent.createEl('div', { cls: 'asn1-outline-row asn1-outline-leaf' });
+			}
+
+			const icon = row.createEl('span', { cls: 'asn1-outline-icon' });
+			setIcon(icon, node.structureType ? STRUCTURE_ICONS[node.structureType] : KIND_ICONS[node.kind] || 'dot');
+			const label = row.createEl('span', { text: node.name, cls: `asn1-outline-name asn1-outline-${node.kind}` });
+			if (node.detail) row.createEl('span', { text: node.detail, cls: 'asn1-outline-detail' });
+			// 点击名称跳转，点击折叠箭头仍然展开或收起
+			label.addEventListener('click', (evt: MouseEvent) => {
+				evt.preventDefault();
+				this.host.openLocation(this.path, node.line, node.ch, evt.ctrlKey || evt.metaKey);
+			});
+		}
+	}
+}
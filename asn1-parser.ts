@@ -0,0 +1,1573 @@
+import { ASN1Lexer, ASN1Token } from './asn1-lexer';
+import {
+	ASN1ActualParameter,
+	ASN1Assignment,
+	ASN1BracedValue,
+	ASN1BuiltinType,
+	ASN1Comment,
+	ASN1Component,
+	ASN1ComponentItem,
+	ASN1Constraint,
+	ASN1ConstraintSpec,
+	ASN1Document,
+	ASN1ElementSet,
+	ASN1ElementSetSpecs,
+	ASN1EnumerationItem,
+	ASN1ExceptionSpec,
+	ASN1Exports,
+	ASN1ExtensionAdditionGroup,
+	ASN1ExtensionMarker,
+	ASN1FieldSpec,
+	ASN1ImportClause,
+	ASN1Imports,
+	ASN1Module,
+	ASN1NamedConstraint,
+	ASN1NamedNumber,
+	ASN1NamedValue,
+	ASN1ObjectClass,
+	ASN1ObjectIdentifierComponent,
+	ASN1Parameter,
+	ASN1ParseError,
+	ASN1SourceRange,
+	ASN1Tag,
+	ASN1Type,
+	ASN1Value
+} from './asn1-ast';
+import { walkASN1 } from './asn1-walker';
+
+// 解析失败时抛出，由赋值级别的错误恢复捕获
+class ASN1SyntaxError extends Error {
+	constructor(message: string, public token: ASN1Token) {
+		super(message);
+	}
+}
+
+// 内置类型中由单个保留字组成的部分
+const SIMPLE_BUILTIN_TYPES = new Set<string>([
+	'BOOLEAN', 'NULL', 'REAL', 'RELATIVE-OID', 'EXTERNAL', 'UTF8String',
+	'NumericString', 'PrintableString', 'TeletexString', 'T61String',
+	'VideotexString', 'IA5String', 'GraphicString', 'VisibleString',
+	'ISO646String', 'GeneralString', 'UniversalString', 'BMPString',
+	'UTCTime', 'GeneralizedTime', 'ObjectDescriptor', 'DATE', 'TIME',
+	'DATE-TIME', 'TIME-OF-DAY', 'DURATION', 'OID-IRI', 'RELATIVE-OID-IRI',
+	'TYPE-IDENTIFIER', 'ABSTRACT-SYNTAX'
+]);
+
+// 可以作为值出现的保留字
+const VALUE_KEYWORDS = new Set<string>(['TRUE', 'FALSE', 'NULL', 'PLUS-INFINITY', 'MINUS-INFINITY', 'NOT-A-NUMBER', 'MIN', 'MAX']);
+
+// 由两个保留字组成的内置类型
+const COMPOUND_BUILTIN_TYPES: Record<string, string> = {
+	'OCTET': 'STRING',
+	'BIT': 'STRING',
+	'OBJECT': 'IDENTIFIER',
+	'EMBEDDED': 'PDV',
+	'CHARACTER': 'STRING'
+};
+
+// 预定义的信息对象类（X.681 附录 A、B）
+const BUILTIN_OBJECT_CLASSES = new Set<string>(['TYPE-IDENTIFIER', 'ABSTRACT-SYNTAX']);
+
+// 递归下降解析器：令牌 -> 抽象语法树
+export class ASN1Parser {
+	private tokens: ASN1Token[] = [];
+	private pos = 0;
+	private comments: ASN1Comment[] = [];
+	private errors: ASN1ParseError[] = [];
+	private tokenIndex = new Map<number, number>(); // 令牌起始偏移 -> 下标
+	private typeTable = new Map<string, ASN1Type>();
+
+	// externalType 提供本文档之外的类型定义，用于结构化引用导入类型的值；lexed 为已有的词法分析结果
+	constructor(private source: string, private externalType?: (name: string) => ASN1Type | undefined, private lexed?: ASN1Token[]) {}
+
+	parse(): ASN1Document {
+		for (const token of this.lexed || new ASN1Lexer(this.source).tokenize()) {
+			if (token.kind === 'comment') {
+				this.comments.push({
+					kind: 'comment',
+					text: token.text,
+					block: token.text.startsWith('/*'),
+					start: token.start,
+					end: token.end
+				});
+			} else if (token.kind === 'invalid') {
+				this.errors.push({ message: `Unexpected character '${token.text}'`, start: token.start, end: token.end });
+			} else {
+				this.tokens.push(token);
+			}
+		}
+
+		const modules: ASN1Module[] = [];
+		while (!this.atEnd()) {
+			if (this.isModuleHeaderAt(this.pos)) {
+				modules.push(this.parseModule());
+			} else {
+				modules.push(this.parseImplicitModule());
+			}
+		}
+		this.classifyInformationObjects(modules);
+		this.structureValues(modules);
+
+		return {
+			kind: 'document',
+			source: this.source,
+			modules,
+			comments: this.comments,
+			errors: this.errors,
+			start: 0,
+			end: this.source.length
+		};
+	}
+
+	// ---- 令牌游标 ----
+
+	private peek(offset = 0): ASN1Token {
+		const index = Math.min(this.pos + offset, this.tokens.length - 1);
+		return this.tokens[index];
+	}
+
+	private previous(): ASN1Token {
+		return this.tokens[Math.max(0, this.pos - 1)];
+	}
+
+	private next(): ASN1Token {
+		const token = this.peek();
+		if (!this.atEnd()) this.pos++;
+		return token;
+	}
+
+	private atEnd(): boolean {
+		return this.peek().kind === 'eof';
+	}
+
+	private is(text: string, offset = 0): boolean {
+		const token = this.peek(offset);
+		return (token.kind === 'symbol' || token.kind === 'keyword') && token.text === text;
+	}
+
+	private accept(text: string): ASN1Token | null {
+		if (this.is(text)) return this.next();
+		return null;
+	}
+
+	private expect(text: string): ASN1Token {
+		if (this.is(text)) return this.next();
+		throw this.error(`Expected '${text}'`);
+	}
+
+	private expectKind(kind: ASN1Token['kind'], description: string): ASN1Token {
+		if (this.peek().kind === kind) return this.next();
+		throw this.error(`Expected ${description}`);
+	}
+
+	private error(message: string, token: ASN1Token = this.peek()): ASN1SyntaxError {
+		const found = token.kind === 'eof' ? 'end of input' : `'${token.text}'`;
+		return new ASN1SyntaxError(`${message}, found ${found}`, token);
+	}
+
+	// 记录非致命错误，解析继续
+	private report(message: string, range: ASN1SourceRange) {
+		this.errors.push({ message, start: range.start, end: range.end });
+	}
+
+	private range(startToken: ASN1Token): ASN1SourceRange {
+		return { start: startToken.start, end: this.previous().end };
+	}
+
+	// 令牌是否位于所在行的开头
+	private isFirstOnLine(index: number): boolean {
+		return index === 0 || this.tokens[index - 1].line < this.tokens[index].line;
+	}
+
+	// 从 index 处的开括号起，返回匹配闭括号之后的位置；括号不平衡时返回 -1
+	private skipBalanced(index: number): number {
+		let depth = 0;
+		for (let i = index; i < this.tokens.length; i++) {
+			const token = this.tokens[i];
+			if (token.kind === 'eof') return -1;
+			if (token.kind !== 'symbol') continue;
+			if (token.text === '{' || token.text === '(' || token.text === '[') depth++;
+			else if (token.text === '}' || token.text === ')' || token.text === ']') {
+				depth--;
+				if (depth === 0) return i + 1;
+			}
+		}
+		return -1;
+	}
+
+	// ---- 模块 ----
+
+	private isModuleHeaderAt(index: number): boolean {
+		const name = this.tokens[index];
+		if (!name || name.kind !== 'typeReference') return false;
+		let i = index + 1;
+		if (this.tokens[i].kind === 'symbol' && this.tokens[i].text === '{') {
+			i = this.skipBalanced(i);
+			if (i === -1) return false;
+		}
+		const next = this.tokens[i];
+		return next.kind === 'keyword' && next.text === 'DEFINITIONS';
+	}
+
+	private parseModule(): ASN1Module {
+		const startToken = this.peek();
+		const module: ASN1Module = {
+			kind: 'module',
+			name: startToken.text,
+			nameRange: { start: startToken.start, end: startToken.end },
+			implicit: false,
+			headerTokens: [],
+			extensibilityImplied: false,
+			assignments: [],
+			start: startToken.start,
+			end: startToken.end
+		};
+
+		const headerStart = this.pos;
+		try {
+			this.next();
+			if (this.is('{')) {
+				module.definitiveIdentifier = this.parseValue();
+			}
+			this.expect('DEFINITIONS');
+			if ((this.peek().kind === 'typeReference' || this.peek().kind === 'identifier') && this.is('INSTRUCTIONS', 1)) {
+				module.encodingReference = this.next().text;
+				this.next();
+			}
+			if (this.is('EXPLICIT') || this.is('IMPLICIT') || this.is('AUTOMATIC')) {
+				module.tagDefault = this.next().text as ASN1Module['tagDefault'];
+				this.expect('TAGS');
+			}
+			if (this.accept('EXTENSIBILITY')) {
+				this.expect('IMPLIED');
+				module.extensibilityImplied = true;
+			}
+			this.expect('::=');
+			this.expect('BEGIN');
+		} catch (e) {
+			if (!(e instanceof ASN1SyntaxError)) throw e;
+			this.report(e.message, e.token);
+			// 跳过损坏的模块头，直到 BEGIN 或下一条赋值
+			while (!this.atEnd() && !this.is('BEGIN') && !this.isAssignmentStartAt(this.pos)) {
+				this.next();
+			}
+			this.accept('BEGIN');
+		}
+		module.headerTokens = this.tokens.slice(headerStart, this.pos);
+
+		if (this.is('EXPORTS')) {
+			const exportsStart = this.pos;
+			while (!this.atEnd() && !this.is(';') && !this.is('END') && !this.isAssignmentStartAt(this.pos)) {
+				this.next();
+			}
+			if (!this.accept(';')) {
+				this.report('EXPORTS list must end with \';\'', this.tokens[exportsStart]);
+			}
+			module.exportsTokens = this.tokens.slice(exportsStart, this.pos);
+			module.exports = this.structureExports(module.exportsTokens);
+		}
+
+		if (this.is('IMPORTS')) {
+			module.imports = this.parseImports();
+		}
+
+		this.parseAssignments(module);
+
+		if (this.is('END')) {
+			const endToken = this.next();
+			module.endRange = { start: endToken.start, end: endToken.end };
+		} else {
+			this.report(`Module '${module.name}' is missing END`, this.previous());
+		}
+		module.end = this.previous().end;
+		return module;
+	}
+
+	// 没有模块头的片段
+	private parseImplicitModule(): ASN1Module {
+		const startToken = this.peek();
+		const module: ASN1Module = {
+			kind: 'module',
+			name: '',
+			implicit: true,
+			headerTokens: [],
+			extensibilityImplied: false,
+			assignments: [],
+			start: startToken.start,
+			end: startToken.end
+		};
+		if (this.is('IMPORTS')) {
+			module.imports = this.parseImports();
+		}
+		this.parseAssignments(module);
+		// 隐式模块中出现的孤立 END 视为错误，作为无法解析的赋值保留，格式化时原样输出
+		if (this.is('END')) {
+			const stray = this.next();
+			const error: ASN1ParseError = { message: 'END without a matching module definition', start: stray.start, end: stray.end };
+			this.errors.push(error);
+			module.assignments.push({
+				kind: 'invalid-assignment',
+				name: '',
+				nameRange: { start: stray.start, end: stray.end },
+				error,
+				start: stray.start,
+				end: stray.end
+			});
+		}
+		module.end = this.previous().end;
+		return module;
+	}
+
+	// 从 EXPORTS 的原始令牌中取出导出的名称
+	private structureExports(tokens: ASN1Token[]): ASN1Exports {
+		const exports: ASN1Exports = {
+			kind: 'exports',
+			all: tokens.length > 1 && tokens[1].text === 'ALL',
+			symbols: [],
+			start: tokens[0].start,
+			end: tokens[tokens.length - 1].end
+		};
+		for (let i = 1; i < tokens.length; i++) {
+			const token = tokens[i];
+			if (token.kind !== 'typeReference' && token.kind !== 'identifier') continue;
+			const parameterized = i + 2 < tokens.length && tokens[i + 1].text === '{' && tokens[i + 2].text === '}';
+			exports.symbols.push({ kind: 'export-symbol', name: token.text, parameterized, start: token.start, end: token.end });
+		}
+		return exports;
+	}
+
+	private parseImports(): ASN1Imports {
+		const startToken = this.expect('IMPORTS');
+		const imports: ASN1Imports = {
+			kind: 'imports',
+			clauses: [],
+			start: startToken.start,
+			end: startToken.end
+		};
+		let clauseStart = this.pos;
+		try {
+			while (!this.atEnd() && !this.is(';')) {
+				clauseStart = this.pos;
+				imports.clauses.push(this.parseImportClause());
+			}
+			clauseStart = this.pos;
+			this.expect(';');
+		} catch (e) {
+			if (!(e instanceof ASN1SyntaxError)) throw e;
+			this.report(e.message, e.token);
+			// 从出错的子句开始保留原文，直到 ; 或下一条赋值
+			this.pos = clauseStart;
+			while (!this.atEnd() && !this.is(';') && !this.is('END') && !this.isAssignmentStartAt(this.pos)) {
+				this.next();
+			}
+			this.accept(';');
+			const start = this.tokens[clauseStart].start;
+			imports.invalidClause = {
+				kind: 'invalid-import-clause',
+				error: { message: e.message, start: e.token.start, end: e.token.end },
+				start,
+				end: this.pos > clauseStart ? this.previous().end : start
+			};
+		}
+		imports.end = this.previous().end;
+		return imports;
+	}
+
+	private parseImportClause(): ASN1ImportClause {
+		const startToken = this.peek();
+		const symbols: ASN1ImportClause['symbols'] = [];
+		do {
+			const token = this.peek();
+			if ((token.kind !== 'typeReference' && token.kind !== 'identifier') || this.isAssignmentStartAt(this.pos)) {
+				throw this.error('Expected imported symbol');
+			}
+			this.next();
+			let parameterized = false;
+			if (this.is('{') && this.is('}', 1)) {
+				this.next();
+				this.next();
+				parameterized = true;
+			}
+			symbols.push({ kind: 'import-symbol', name: token.text, parameterized, ...this.range(token) });
+		} while (this.accept(','));
+
+		this.expect('FROM');
+		// 正在输入的 FROM 后面可能紧跟下一条赋值，不能把它当作模块名
+		if (this.isAssignmentStartAt(this.pos)) throw this.error('Expected module reference');
+		const moduleToken = this.expectKind('typeReference', 'module reference');
+		const clause: ASN1ImportClause = {
+			kind: 'import-clause',
+			symbols,
+			moduleName: moduleToken.text,
+			moduleNameRange: { start: moduleToken.start, end: moduleToken.end },
+			start: startToken.start,
+			end: moduleToken.end
+		};
+
+		// AssignedIdentifier：OID 值，或后面不跟 "," / FROM 的值引用
+		if (this.is('{')) {
+			clause.assignedIdentifier = this.parseValue();
+		} else if (this.peek().kind === 'identifier' && !this.is(',', 1) && !this.is('FROM', 1) && !this.is('{', 1) && !this.isAssignmentStartAt(this.pos)) {
+			clause.assignedIdentifier = this.parseValue();
+		}
+		clause.end = this.previous().end;
+		return clause;
+	}
+
+	// ---- 赋值 ----
+
+	// 判断 index 处是否像一条赋值的开头（用于错误恢复与模块边界判断）
+	private isAssignmentStartAt(index: number): boolean {
+		const token = this.tokens[index];
+		if (!token || (token.kind !== 'typeReference' && token.kind !== 'identifier')) return false;
+		if (!this.isFirstOnLine(index)) return false;
+		for (let i = index + 1; i < this.tokens.length; i++) {
+			const next = this.tokens[i];
+			if (next.kind === 'eof' || next.line !== token.line) return false;
+			if (next.kind === 'symbol' && next.text === '::=') return true;
+		}
+		return false;
+	}
+
+	private parseAssignments(module: ASN1Module) {
+		while (!this.atEnd() && !this.is('END')) {
+			if (module.implicit && this.isModuleHeaderAt(this.pos)) break;
+			const startIndex = this.pos;
+			try {
+				module.assignments.push(this.parseAssignment());
+			} catch (e) {
+				if (!(e instanceof ASN1SyntaxError)) throw e;
+				module.assignments.push(this.recoverAssignment(startIndex, e));
+			}
+		}
+	}
+
+	// 跳过无法解析的内容，直到下一条赋值、END 或新模块
+	private recoverAssignment(startIndex: number, e: ASN1SyntaxError): ASN1Assignment {
+		const error: ASN1ParseError = { message: e.message, start: e.token.start, end: e.token.end };
+		this.errors.push(error);
+		this.pos = startIndex + 1;
+		let depth = 0;
+		while (!this.atEnd()) {
+			const token = this.peek();
+			if (depth <= 0 && this.isFirstOnLine(this.pos)) {
+				if (this.is('END') || this.isModuleHeaderAt(this.pos) || this.isAssignmentStartAt(this.pos)) break;
+			}
+			if (token.kind === 'symbol') {
+				if (token.text === '{' || token.text === '(' || token.text === '[') depth++;
+				else if (token.text === '}' || token.text === ')' || token.text === ']') depth--;
+			}
+			this.next();
+		}
+		const first = this.tokens[startIndex];
+		return {
+			kind: 'invalid-assignment',
+			name: first.kind === 'typeReference' || first.kind === 'identifier' ? first.text : '',
+			nameRange: { start: first.start, end: first.end },
+			error,
+			start: first.start,
+			end: this.previous().end
+		};
+	}
+
+	private parseAssignment(): ASN1Assignment {
+		const nameToken = this.peek();
+		const nameRange = { start: nameToken.start, end: nameToken.end };
+
+		if (nameToken.kind === 'typeReference') {
+			this.next();
+			const parameters = this.is('{') ? this.parseParameterList() : undefined;
+			if (this.accept('::=')) {
+				if (this.is('CLASS')) {
+					const objectClass = this.parseObjectClass();
+					return { kind: 'object-class-assignment', name: nameToken.text, nameRange, parameters, objectClass, ...this.range(nameToken) };
+				}
+				const type = this.parseType();
+				return { kind: 'type-assignment', name: nameToken.text, nameRange, parameters, type, ...this.range(nameToken) };
+			}
+			// ValueSet Type ::= { ... }
+			const type = this.parseType();
+			this.expect('::=');
+			if (!this.is('{')) throw this.error('Expected value set');
+			const valueSet = this.parseValue();
+			return { kind: 'value-set-assignment', name: nameToken.text, nameRange, parameters, type, valueSet, ...this.range(nameToken) };
+		}
+
+		if (nameToken.kind === 'identifier') {
+			this.next();
+			const parameters = this.is('{') ? this.parseParameterList() : undefined;
+			const type = this.parseType();
+			this.expect('::=');
+			const value = this.parseValue();
+			return { kind: 'value-assignment', name: nameToken.text, nameRange, parameters, type, value, ...this.range(nameToken) };
+		}
+
+		throw this.error('Expected type or value assignment');
+	}
+
+	// 值赋值与值集合赋值的类型如果是信息对象类，则改为对象与对象集合赋值；
+	// 本文档中用 CLASS 定义（或引用其它类）的名称是类，未在本地定义为类型的全大写名称也视为类
+	private classifyInformationObjects(modules: ASN1Module[]) {
+		const classNames = new Set<string>(BUILTIN_OBJECT_CLASSES);
+		const typeNames = new Set<string>();
+		const assignments = modules.reduce<ASN1Assignment[]>((all, module) => all.concat(module.assignments), []);
+		for (const assignment of assignments) {
+			if (assignment.kind === 'object-class-assignment') classNames.add(assignment.name);
+		}
+		// 类的别名 MY-CLASS ::= TYPE-IDENTIFIER，可能多级引用
+		let changed = true;
+		while (changed) {
+			changed = false;
+			for (const assignment of assignments) {
+				if (assignment.kind !== 'type-assignment' || classNames.has(assignment.name)) continue;
+				const type = assignment.type;
+				const target = type.kind === 'type-reference' ? type.name : type.kind === 'builtin-type' ? type.name : '';
+				if (classNames.has(target) && type.constraints.length === 0) {
+					classNames.add(assignment.name);
+					changed = true;
+				}
+			}
+		}
+		for (const assignment of assignments) {
+			if (assignment.kind === 'type-assignment' && !classNames.has(assignment.name)) typeNames.add(assignment.name);
+		}
+		const isClassName = (name: string) => classNames.has(name)
+			|| (!typeNames.has(name) && name.length > 1 && /^[A-Z][A-Z0-9-]*$/.test(name));
+
+		for (const module of modules) {
+			module.assignments = module.assignments.map((assignment): ASN1Assignment => {
+				if (assignment.kind !== 'value-assignment' && assignment.kind !== 'value-set-assignment') return assignment;
+				const type = assignment.type;
+				if (type.kind !== 'type-reference' || type.moduleName || type.actualParameters || type.constraints.length > 0) {
+					return assignment;
+				}
+				if (!isClassName(type.name)) return assignment;
+				const { name, nameRange, parameters, start, end } = assignment;
+				if (assignment.kind === 'value-assignment') {
+					return { kind: 'object-assignment', name, nameRange, parameters, objectClass: type, object: assignment.value, start, end };
+				}
+				return { kind: 'object-set-assignment', name, nameRange, parameters, objectClass: type, objectSet: assignment.valueSet, start, end };
+			});
+		}
+	}
+
+	// CLASS { FieldSpec, ... } [WITH SYNTAX { ... }]
+	private parseObjectClass(): ASN1ObjectClass {
+		const startToken = this.expect('CLASS');
+		const bodyStart = this.expect('{');
+		const fields: ASN1FieldSpec[] = [];
+		if (!this.accept('}')) {
+			for (;;) {
+				fields.push(this.parseFieldSpec());
+				if (this.accept('}')) break;
+				const comma = this.expect(',');
+				if (this.is('}')) {
+					this.report('Trailing comma in class definition', comma);
+					this.next();
+					break;
+				}
+			}
+		}
+		const bodyRange = this.range(bodyStart);
+		let syntax: ASN1BracedValue | undefined;
+		if (this.accept('WITH')) {
+			this.expect('SYNTAX');
+			if (!this.is('{')) throw this.error('Expected \'{\' after WITH SYNTAX');
+			syntax = this.parseBracedValue();
+		}
+		return { kind: 'object-class', fields, bodyRange, syntax, ...this.range(startToken) };
+	}
+
+	// &field [Type | &TypeField] [UNIQUE] [OPTIONAL | DEFAULT ...]
+	private parseFieldSpec(): ASN1FieldSpec {
+		const nameToken = this.expectKind('fieldReference', 'field reference');
+		let type: ASN1Type | undefined;
+		let typeFieldReference: string | undefined;
+		if (this.peek().kind === 'fieldReference') {
+			typeFieldReference = this.next().text;
+		} else if (!this.is(',') && !this.is('}') && !this.is('UNIQUE') && !this.is('OPTIONAL') && !this.is('DEFAULT')) {
+			type = this.parseType();
+		}
+		const unique = !!this.accept('UNIQUE');
+		let optional = false;
+		let defaultValue: ASN1FieldSpec['defaultValue'];
+		let presenceRange: ASN1SourceRange | undefined;
+		if (this.is('OPTIONAL')) {
+			const token = this.next();
+			optional = true;
+			presenceRange = { start: token.start, end: token.end };
+		} else if (this.is('DEFAULT')) {
+			const token = this.next();
+			presenceRange = { start: token.start, end: token.end };
+			defaultValue = this.parseActualParameter();
+		}
+		return {
+			kind: 'field-spec',
+			name: nameToken.text,
+			nameRange: { start: nameToken.start, end: nameToken.end },
+			type,
+			typeFieldReference,
+			unique,
+			optional,
+			defaultValue,
+			presenceRange,
+			...this.range(nameToken)
+		};
+	}
+
+	// 形参列表 { Governor : Reference, Reference }
+	private parseParameterList(): ASN1Parameter[] {
+		this.expect('{');
+		const parameters: ASN1Parameter[] = [];
+		do {
+			const startToken = this.peek();
+			let governor: ASN1Type | undefined;
+			const simple = (startToken.kind === 'typeReference' || startToken.kind === 'identifier')
+				&& (this.is(',', 1) || this.is('}', 1));
+			if (!simple) {
+				governor = this.parseType();
+				this.expect(':');
+			}
+			const nameToken = this.peek();
+			if (nameToken.kind !== 'typeReference' && nameToken.kind !== 'identifier') {
+				throw this.error('Expected parameter name');
+			}
+			this.next();
+			parameters.push({
+				kind: 'parameter',
+				governor,
+				name: nameToken.text,
+				nameRange: { start: nameToken.start, end: nameToken.end },
+				...this.range(startToken)
+			});
+		} while (this.accept(','));
+		this.expect('}');
+		return parameters;
+	}
+
+	// 实参列表 { Type, value, {ObjectSet} }
+	private parseActualParameterList(): ASN1ActualParameter[] {
+		this.expect('{');
+		const parameters: ASN1ActualParameter[] = [];
+		do {
+			parameters.push(this.parseActualParameter());
+		} while (this.accept(','));
+		this.expect('}');
+		return parameters;
+	}
+
+	private parseActualParameter(): ASN1ActualParameter {
+		const token = this.peek();
+		if (token.kind === 'keyword' && !VALUE_KEYWORDS.has(token.text)) {
+			return this.parseType();
+		}
+		if (token.kind === 'typeReference' && !(this.is('.', 1) && this.peek(2).kind === 'identifier')) {
+			return this.parseType();
+		}
+		if (this.is('[')) {
+			return this.parseType();
+		}
+		return this.parseValue();
+	}
+
+	// ---- 类型 ----
+
+	private parseType(): ASN1Type {
+		const startToken = this.peek();
+
+		if (this.is('[')) {
+			const tag = this.parseTag();
+			const inner = this.parseType();
+			return { kind: 'tagged-type', tag, inner, constraints: [], ...this.range(startToken) };
+		}
+
+		let type: ASN1Type;
+		if (startToken.kind === 'keyword') {
+			type = this.parseBuiltinType();
+		} else if (startToken.text === 'ANY' && startToken.kind === 'typeReference') {
+			type = this.parseAnyType();
+		} else if (startToken.kind === 'typeReference') {
+			this.next();
+			let moduleName: string | undefined;
+			let nameToken = startToken;
+			if (this.is('.') && this.peek(1).kind === 'typeReference') {
+				this.next();
+				moduleName = startToken.text;
+				nameToken = this.next();
+			}
+			const actualParameters = this.is('{') ? this.parseActualParameterList() : undefined;
+			type = {
+				kind: 'type-reference',
+				name: nameToken.text,
+				nameRange: { start: nameToken.start, end: nameToken.end },
+				moduleName,
+				actualParameters,
+				constraints: [],
+				...this.range(startToken)
+			};
+		} else {
+			throw this.error('Expected type');
+		}
+
+		// 类字段类型 CLASS.&field[.&field]
+		if (this.is('.') && this.peek(1).kind === 'fieldReference') {
+			const classType = type;
+			const isClass = (classType.kind === 'type-reference' && !classType.moduleName && !classType.actualParameters)
+				|| (classType.kind === 'builtin-type' && BUILTIN_OBJECT_CLASSES.has(classType.name));
+			if (!isClass) throw this.error('Expected object class before field reference');
+			const fieldPath: string[] = [];
+			while (this.is('.') && this.peek(1).kind === 'fieldReference') {
+				this.next();
+				fieldPath.push(this.next().text);
+			}
+			type = {
+				kind: 'object-class-field-type',
+				className: classType.kind === 'type-reference' ? classType.name : startToken.text,
+				classNameRange: classType.kind === 'type-reference' ? classType.nameRange : { start: startToken.start, end: startToken.end },
+				fieldPath,
+				constraints: [],
+				...this.range(startToken)
+			};
+		}
+
+		while (this.is('(')) {
+			type.constraints.push(this.parseConstraint());
+		}
+		type.end = this.previous().end;
+		return type;
+	}
+
+	private parseBuiltinType(): ASN1Type {
+		const startToken = this.next();
+		const keyword = startToken.text;
+
+		if (SIMPLE_BUILTIN_TYPES.has(keyword)) {
+			return { kind: 'builtin-type', name: keyword, constraints: [], ...this.range(startToken) };
+		}
+
+		if (COMPOUND_BUILTIN_TYPES[keyword]) {
+			this.expect(COMPOUND_BUILTIN_TYPES[keyword]);
+			const name = `${keyword} ${COMPOUND_BUILTIN_TYPES[keyword]}`;
+			const namedNumbers = name === 'BIT STRING' && this.is('{') ? this.parseNamedNumberList() : undefined;
+			return { kind: 'builtin-type', name, namedNumbers, constraints: [], ...this.range(startToken) };
+		}
+
+		switch (keyword) {
+			case 'INTEGER': {
+				const namedNumbers = this.is('{') ? this.parseNamedNumberList() : undefined;
+				return { kind: 'builtin-type', name: 'INTEGER', namedNumbers, constraints: [], ...this.range(startToken) };
+			}
+			case 'ENUMERATED': {
+				const bodyStart = this.peek();
+				const items = this.parseEnumerationItems();
+				const extensible = this.markExtensionAdditions(items);
+				return { kind: 'enumerated-type', items, bodyRange: this.range(bodyStart), extensible, constraints: [], ...this.range(startToken) };
+			}
+			case 'SEQUENCE':
+			case 'SET':
+				if (this.is('{')) {
+					const bodyStart = this.peek();
+					const components = this.parseComponentList();
+					const bodyRange = this.range(bodyStart);
+					const extensible = this.markExtensionAdditions(components);
+					return { kind: 'constructed-type', structure: keyword, components, bodyRange, extensible, constraints: [], ...this.range(startToken) };
+				}
+				return this.parseCollectionType(startToken);
+			case 'INSTANCE': {
+				this.expect('OF');
+				const classToken = this.peek();
+				if (classToken.kind !== 'typeReference' && !BUILTIN_OBJECT_CLASSES.has(classToken.text)) {
+					throw this.error('Expected object class after INSTANCE OF');
+				}
+				this.next();
+				return { kind: 'instance-of-type', className: classToken.text, classNameRange: { start: classToken.start, end: classToken.end }, constraints: [], ...this.range(startToken) };
+			}
+			case 'CHOICE': {
+				const bodyStart = this.peek();
+				const components = this.parseComponentList();
+				const bodyRange = this.range(bodyStart);
+				const extensible = this.markExtensionAdditions(components);
+				return { kind: 'constructed-type', structure: 'CHOICE', components, bodyRange, extensible, constraints: [], ...this.range(startToken) };
+			}
+			default:
+				throw this.error('Expected type', startToken);
+		}
+	}
+
+	// ANY [DEFINED BY identifier]：X.208 中的开放类型，ANY 与 DEFINED 不是 X.680 的保留字
+	private parseAnyType(): ASN1Type {
+		const startToken = this.next();
+		const type: ASN1BuiltinType = { kind: 'builtin-type', name: 'ANY', constraints: [], ...this.range(startToken) };
+		if (this.peek().kind === 'typeReference' && this.peek().text === 'DEFINED') {
+			this.next();
+			this.expect('BY');
+			const identifier = this.expectKind('identifier', 'identifier after DEFINED BY');
+			type.definedBy = identifier.text;
+			type.definedByRange = { start: identifier.start, end: identifier.end };
+		}
+		return type;
+	}
+
+	// SEQUENCE [SIZE (...) | (...)] OF [identifier] Type
+	private parseCollectionType(startToken: ASN1Token): ASN1Type {
+		let sizeConstraint: ASN1Constraint | undefined;
+		if (this.is('(')) {
+			sizeConstraint = this.parseConstraint();
+		} else if (this.is('SIZE')) {
+			const sizeToken = this.peek();
+			const sizeStart = this.pos;
+			this.next();
+			if (!this.is('(')) throw this.error('Expected \'(\' after SIZE');
+			const constraint = this.parseConstraint();
+			const size: ASN1ElementSet = { kind: 'size-constraint', constraint, ...this.range(sizeToken) };
+			sizeConstraint = {
+				kind: 'constraint',
+				tokens: this.tokens.slice(sizeStart, this.pos),
+				spec: { kind: 'element-set-specs', root: size, extensible: false, ...this.range(sizeToken) },
+				bare: true,
+				...this.range(sizeToken)
+			};
+		}
+		this.expect('OF');
+		let elementName: string | undefined;
+		if (this.peek().kind === 'identifier') {
+			elementName = this.next().text;
+		}
+		const element = this.parseType();
+		return {
+			kind: 'collection-type',
+			structure: startToken.text === 'SET' ? 'SET OF' : 'SEQUENCE OF',
+			sizeConstraint,
+			elementName,
+			element,
+			constraints: [],
+			...this.range(startToken)
+		};
+	}
+
+	// [UNIVERSAL 16] IMPLICIT
+	private parseTag(): ASN1Tag {
+		const startToken = this.expect('[');
+		let tagClass: ASN1Tag['tagClass'];
+		if (this.is('UNIVERSAL') || this.is('APPLICATION') || this.is('PRIVATE')) {
+			tagClass = this.next().text as ASN1Tag['tagClass'];
+		}
+		const numberToken = this.peek();
+		if (numberToken.kind !== 'number' && numberToken.kind !== 'identifier') {
+			throw this.error('Expected tag number');
+		}
+		this.next();
+		this.expect(']');
+		let mode: ASN1Tag['mode'];
+		if (this.is('IMPLICIT') || this.is('EXPLICIT')) {
+			mode = this.next().text as ASN1Tag['mode'];
+		}
+		return { kind: 'tag', tagClass, number: numberToken.text, mode, ...this.range(startToken) };
+	}
+
+	// { item, item, ... }
+	private parseComponentList(): ASN1ComponentItem[] {
+		this.expect('{');
+		const items: ASN1ComponentItem[] = [];
+		if (this.accept('}')) return items;
+		for (;;) {
+			items.push(this.parseComponentItem());
+			if (this.accept('}')) break;
+			const comma = this.expect(',');
+			if (this.is('}')) {
+				this.report('Trailing comma in component list', comma);
+				this.next();
+				break;
+			}
+		}
+		return items;
+	}
+
+	// 标记扩展附加项：第一个 ... 之后、第二个 ... 之前的成员；返回是否可扩展
+	private markExtensionAdditions(items: Array<ASN1ComponentItem | ASN1EnumerationItem>): boolean {
+		let markers = 0;
+		for (const item of items) {
+			if (item.kind === 'extension-marker') {
+				markers++;
+				if (markers > 2) this.report('At most two extension markers are allowed', item);
+				continue;
+			}
+			item.extensionAddition = markers === 1;
+			if (item.kind === 'extension-addition-group') {
+				item.components.forEach(component => component.extensionAddition = markers === 1);
+				if (markers !== 1) this.report('Version brackets are only allowed among extension additions', item);
+			}
+		}
+		return markers > 0;
+	}
+
+	// ... 或 ...!Exception
+	private parseExtensionMarker(): ASN1ExtensionMarker {
+		const startToken = this.expect('...');
+		const exception = this.is('!') ? this.parseExceptionSpec() : undefined;
+		return { kind: 'extension-marker', exception, ...this.range(startToken) };
+	}
+
+	// "[[" 与 "]]" 由两个紧邻的方括号组成
+	private isDoubleBracket(text: '[' | ']'): boolean {
+		return this.is(text) && this.is(text, 1) && this.peek().end === this.peek(1).start;
+	}
+
+	// [[ [version:] component, ... ]]
+	private parseExtensionAdditionGroup(): ASN1ExtensionAdditionGroup {
+		const startToken = this.next();
+		this.next();
+		let version: string | undefined;
+		if (this.peek().kind === 'number' && this.is(':', 1)) {
+			version = this.next().text;
+			this.next();
+		}
+		const components: ASN1ExtensionAdditionGroup['components'] = [];
+		do {
+			const item = this.parseComponentItem();
+			if (item.kind === 'extension-marker' || item.kind === 'extension-addition-group') {
+				throw this.error('Expected component in version brackets', this.previous());
+			}
+			components.push(item);
+		} while (this.accept(','));
+		if (!this.isDoubleBracket(']')) throw this.error('Expected \']]\'');
+		this.next();
+		this.next();
+		return { kind: 'extension-addition-group', version, components, ...this.range(startToken) };
+	}
+
+	private parseComponentItem(): ASN1ComponentItem {
+		const startToken = this.peek();
+
+		if (this.is('...')) {
+			return this.parseExtensionMarker();
+		}
+
+		if (this.isDoubleBracket('[')) {
+			return this.parseExtensionAdditionGroup();
+		}
+
+		if (this.accept('COMPONENTS')) {
+			this.expect('OF');
+			const type = this.parseType();
+			return { kind: 'components-of', type, ...this.range(startToken) };
+		}
+
+		if (startToken.kind !== 'identifier') {
+			throw this.error('Expected component name');
+		}
+		this.next();
+		const type = this.parseType();
+		let optional = false;
+		let defaultValue: ASN1Value | undefined;
+		let presenceRange: ASN1SourceRange | undefined;
+		if (this.is('OPTIONAL')) {
+			const token = this.next();
+			optional = true;
+			presenceRange = { start: token.start, end: token.end };
+		} else if (this.is('DEFAULT')) {
+			const token = this.next();
+			presenceRange = { start: token.start, end: token.end };
+			defaultValue = this.parseValue();
+		}
+		return {
+			kind: 'component',
+			name: startToken.text,
+			nameRange: { start: startToken.start, end: startToken.end },
+			type,
+			optional,
+			defaultValue,
+			presenceRange,
+			...this.range(startToken)
+		};
+	}
+
+	// ENUMERATED { a, b(5), ... }
+	private parseEnumerationItems(): ASN1EnumerationItem[] {
+		this.expect('{');
+		const items: ASN1EnumerationItem[] = [];
+		if (this.accept('}')) return items;
+		for (;;) {
+			if (this.is('...')) {
+				items.push(this.parseExtensionMarker());
+			} else {
+				items.push(this.parseNamedNumber(false));
+			}
+			if (this.accept('}')) break;
+			this.expect(',');
+		}
+		return items;
+	}
+
+	// INTEGER / BIT STRING 的 { name(value), ... }
+	private parseNamedNumberList(): ASN1NamedNumber[] {
+		this.expect('{');
+		const items: ASN1NamedNumber[] = [];
+		do {
+			items.push(this.parseNamedNumber(true));
+		} while (this.accept(','));
+		this.expect('}');
+		return items;
+	}
+
+	private parseNamedNumber(valueRequired: boolean): ASN1NamedNumber {
+		const nameToken = this.expectKind('identifier', 'identifier');
+		let value: ASN1Value | undefined;
+		if (this.accept('(')) {
+			value = this.parseValue();
+			this.expect(')');
+		} else if (valueRequired) {
+			throw this.error('Expected \'(\'');
+		}
+		return {
+			kind: 'named-number',
+			name: nameToken.text,
+			nameRange: { start: nameToken.start, end: nameToken.end },
+			value,
+			...this.range(nameToken)
+		};
+	}
+
+	// ( ConstraintSpec [! ExceptionSpec] )；无法识别的写法只保存原始令牌
+	private parseConstraint(): ASN1Constraint {
+		const startToken = this.peek();
+		const startIndex = this.pos;
+		const endIndex = this.skipBalanced(this.pos);
+		if (endIndex === -1 || this.tokens[endIndex - 1].text !== ')') {
+			throw this.error('Unbalanced parentheses in constraint', startToken);
+		}
+		let spec: ASN1ConstraintSpec | undefined;
+		let exception: ASN1ExceptionSpec | undefined;
+		try {
+			this.expect('(');
+			spec = this.parseConstraintSpec();
+			if (this.is('!')) {
+				exception = this.parseExceptionSpec();
+			}
+			this.expect(')');
+			if (this.pos !== endIndex) {
+				spec = undefined;
+				exception = undefined;
+			}
+		} catch (e) {
+			if (!(e instanceof ASN1SyntaxError)) throw e;
+			spec = undefined;
+			exception = undefined;
+		}
+		this.pos = endIndex;
+		return { kind: 'constraint', tokens: this.tokens.slice(startIndex, endIndex), spec, exception, ...this.range(startToken) };
+	}
+
+	private parseConstraintSpec(): ASN1ConstraintSpec {
+		const startToken = this.peek();
+
+		// 表约束 ({ObjectSet}) 或 ({ObjectSet}{@field})
+		if (this.is('{')) {
+			const savedPos = this.pos;
+			const objectSet = this.parseBracedValue();
+			if (this.is(')') || this.is('!') || this.is('{')) {
+				let componentRelations: string[] | undefined;
+				if (this.accept('{')) {
+					componentRelations = [];
+					do {
+						let notation = this.expect('@').text;
+						while (!this.atEnd() && !this.is(',') && !this.is('}')) {
+							notation += this.next().text;
+						}
+						componentRelations.push(notation);
+					} while (this.accept(','));
+					this.expect('}');
+				}
+				return { kind: 'table-constraint', objectSet, componentRelations, ...this.range(startToken) };
+			}
+			this.pos = savedPos;
+		}
+
+		if (this.is('CONTAINING') || (this.is('ENCODED') && this.is('BY', 1))) {
+			let containing: ASN1Type | undefined;
+			let encodedBy: ASN1Value | undefined;
+			if (this.accept('CONTAINING')) {
+				containing = this.parseType();
+			}
+			if (this.accept('ENCODED')) {
+				this.expect('BY');
+				encodedBy = this.parseValue();
+			}
+			return { kind: 'contents-constraint', containing, encodedBy, ...this.range(startToken) };
+		}
+
+		if (this.accept('CONSTRAINED')) {
+			this.expect('BY');
+			const body = this.parseBracedValue();
+			return { kind: 'user-defined-constraint', tokens: body.tokens, ...this.range(startToken) };
+		}
+
+		return this.parseElementSetSpecs();
+	}
+
+	// Root [, ... [, Additions]]
+	private parseElementSetSpecs(): ASN1ElementSetSpecs {
+		const startToken = this.peek();
+		let root: ASN1ElementSet | undefined;
+		let extensible = false;
+		let additions: ASN1ElementSet | undefined;
+		if (!this.is('...')) {
+			root = this.parseElementSet();
+			if (this.is(',') && this.is('...', 1)) {
+				this.next();
+			}
+		}
+		if (this.accept('...')) {
+			extensible = true;
+			if (this.accept(',')) {
+				additions = this.parseElementSet();
+			}
+		}
+		return { kind: 'element-set-specs', root, extensible, additions, ...this.range(startToken) };
+	}
+
+	private parseElementSet(): ASN1ElementSet {
+		const startToken = this.peek();
+		if (this.accept('ALL')) {
+			this.expect('EXCEPT');
+			const operand = this.parseElements();
+			return { kind: 'set-operation', operator: 'all-except', symbol: 'ALL EXCEPT', operands: [operand], ...this.range(startToken) };
+		}
+		return this.parseSetOperation('union', ['|', 'UNION'], () => this.parseSetOperation('intersection', ['^', 'INTERSECTION'], () => this.parseIntersectionElements()));
+	}
+
+	// 同一优先级的运算合并为一个多元运算节点
+	private parseSetOperation(operator: 'union' | 'intersection', symbols: string[], parseOperand: () => ASN1ElementSet): ASN1ElementSet {
+		const startToken = this.peek();
+		const operands = [parseOperand()];
+		let symbol = '';
+		while (symbols.some(text => this.is(text))) {
+			const token = this.next();
+			if (!symbol) symbol = token.text;
+			operands.push(parseOperand());
+		}
+		if (operands.length === 1) return operands[0];
+		return { kind: 'set-operation', operator, symbol, operands, ...this.range(startToken) };
+	}
+
+	private parseIntersectionElements(): ASN1ElementSet {
+		const startToken = this.peek();
+		const elements = this.parseElements();
+		if (!this.accept('EXCEPT')) return elements;
+		const excluded = this.parseElements();
+		return { kind: 'set-operation', operator: 'except', symbol: 'EXCEPT', operands: [elements, excluded], ...this.range(startToken) };
+	}
+
+	private parseElements(): ASN1ElementSet {
+		const startToken = this.peek();
+
+		if (this.accept('(')) {
+			const elements = this.parseElementSet();
+			this.expect(')');
+			return { kind: 'parenthesized-element-set', elements, ...this.range(startToken) };
+		}
+		if (this.accept('SIZE')) {
+			const constraint = this.parseConstraint();
+			return { kind: 'size-constraint', constraint, ...this.range(startToken) };
+		}
+		if (this.accept('FROM')) {
+			const constraint = this.parseConstraint();
+			return { kind: 'permitted-alphabet', constraint, ...this.range(startToken) };
+		}
+		if (this.accept('WITH')) {
+			if (this.accept('COMPONENT')) {
+				const constraint = this.parseConstraint();
+				return { kind: 'inner-type-constraint', multiple: false, partial: false, constraint, components: [], ...this.range(startToken) };
+			}
+			this.expect('COMPONENTS');
+			this.expect('{');
+			let partial = false;
+			if (this.accept('...')) {
+				partial = true;
+				this.expect(',');
+			}
+			const components: ASN1NamedConstraint[] = [];
+			do {
+				components.push(this.parseNamedConstraint());
+			} while (this.accept(','));
+			this.expect('}');
+			return { kind: 'inner-type-constraint', multiple: true, partial, components, ...this.range(startToken) };
+		}
+		if (this.accept('PATTERN')) {
+			const value = this.parseValue();
+			return { kind: 'pattern-constraint', value, ...this.range(startToken) };
+		}
+		if (this.accept('SETTINGS')) {
+			const value = this.parseValue();
+			return { kind: 'property-settings', value, ...this.range(startToken) };
+		}
+		if (this.accept('INCLUDES')) {
+			const type = this.parseType();
+			return { kind: 'contained-subtype', type, includes: true, ...this.range(startToken) };
+		}
+
+		// 类型引用与内置类型视为包含子类型，其余为值或值范围
+		const isType = this.is('[')
+			|| (startToken.kind === 'typeReference' && !(this.is('.', 1) && this.peek(2).kind === 'identifier'))
+			|| (startToken.kind === 'keyword' && !VALUE_KEYWORDS.has(startToken.text));
+		if (isType) {
+			const type = this.parseType();
+			return { kind: 'contained-subtype', type, includes: false, ...this.range(startToken) };
+		}
+
+		const value = this.parseValue();
+		if (this.is('..') || (this.is('<') && this.is('..', 1))) {
+			const lower = { kind: 'range-endpoint' as const, value, open: false, start: value.start, end: value.end };
+			if (this.accept('<')) {
+				lower.open = true;
+				lower.end = this.previous().end;
+			}
+			this.expect('..');
+			const upperStart = this.peek();
+			const upperOpen = !!this.accept('<');
+			const upperValue = this.parseValue();
+			const upper = { kind: 'range-endpoint' as const, value: upperValue, open: upperOpen, ...this.range(upperStart) };
+			return { kind: 'value-range', lower, upper, ...this.range(startToken) };
+		}
+		return { kind: 'single-value', value, ...this.range(startToken) };
+	}
+
+	// a (SIZE (1..8)) PRESENT
+	private parseNamedConstraint(): ASN1NamedConstraint {
+		const nameToken = this.expectKind('identifier', 'component name');
+		const constraint = this.is('(') ? this.parseConstraint() : undefined;
+		let presence: ASN1NamedConstraint['presence'];
+		if (this.is('PRESENT') || this.is('ABSENT') || this.is('OPTIONAL')) {
+			presence = this.next().text as ASN1NamedConstraint['presence'];
+		}
+		return {
+			kind: 'named-constraint',
+			name: nameToken.text,
+			nameRange: { start: nameToken.start, end: nameToken.end },
+			constraint,
+			presence,
+			...this.range(nameToken)
+		};
+	}
+
+	// ! value 或 ! Type : value
+	private parseExceptionSpec(): ASN1ExceptionSpec {
+		const startToken = this.expect('!');
+		const token = this.peek();
+		// 习惯写法 !Error 中的大写名称作为值引用处理
+		if (token.kind === 'typeReference' && !this.is(':', 1) && !this.is('.', 1) && !this.is('{', 1)) {
+			this.next();
+			const value: ASN1Value = { kind: 'value-reference', name: token.text, start: token.start, end: token.end };
+			return { kind: 'exception-spec', value, ...this.range(startToken) };
+		}
+		const isType = this.is('[')
+			|| (token.kind === 'typeReference' && !(this.is('.', 1) && this.peek(2).kind === 'identifier'))
+			|| (token.kind === 'keyword' && !VALUE_KEYWORDS.has(token.text));
+		if (isType) {
+			const type = this.parseType();
+			this.expect(':');
+			const value = this.parseValue();
+			return { kind: 'exception-spec', type, value, ...this.range(startToken) };
+		}
+		const value = this.parseValue();
+		return { kind: 'exception-spec', value, ...this.range(startToken) };
+	}
+
+	// ---- 值 ----
+
+	private parseValue(): ASN1Value {
+		const startToken = this.peek();
+
+		if (this.is('{')) {
+			return this.parseBracedValue();
+		}
+
+		if (this.is('-') && (this.peek(1).kind === 'number' || this.peek(1).kind === 'realNumber')) {
+			this.next();
+			const numberToken = this.next();
+			return {
+				kind: 'literal-value',
+				literalType: numberToken.kind === 'number' ? 'number' : 'real',
+				text: `-${numberToken.text}`,
+				...this.range(startToken)
+			};
+		}
+
+		switch (startToken.kind) {
+			case 'number':
+			case 'realNumber':
+			case 'cstring':
+			case 'bstring':
+			case 'hstring': {
+				this.next();
+				const literalType = startToken.kind === 'realNumber' ? 'real' : startToken.kind;
+				return { kind: 'literal-value', literalType, text: startToken.text, ...this.range(startToken) };
+			}
+			case 'keyword':
+				if (startToken.text === 'TRUE' || startToken.text === 'FALSE') {
+					this.next();
+					return { kind: 'literal-value', literalType: 'boolean', text: startToken.text, ...this.range(startToken) };
+				}
+				if (startToken.text === 'NULL') {
+					this.next();
+					return { kind: 'literal-value', literalType: 'null', text: startToken.text, ...this.range(startToken) };
+				}
+				if (['PLUS-INFINITY', 'MINUS-INFINITY', 'NOT-A-NUMBER', 'MIN', 'MAX'].includes(startToken.text)) {
+					this.next();
+					return { kind: 'literal-value', literalType: 'special', text: startToken.text, ...this.range(startToken) };
+				}
+				break;
+			case 'identifier':
+				this.next();
+				if (this.accept(':')) {
+					const value = this.parseValue();
+					return { kind: 'choice-value', name: startToken.text, value, ...this.range(startToken) };
+				}
+				return { kind: 'value-reference', name: startToken.text, ...this.range(startToken) };
+			case 'typeReference':
+				if (this.is('.', 1) && this.peek(2).kind === 'identifier') {
+					this.next();
+					this.next();
+					const nameToken = this.next();
+					return { kind: 'value-reference', name: nameToken.text, moduleName: startToken.text, ...this.range(startToken) };
+				}
+				break;
+		}
+
+		throw this.error('Expected value');
+	}
+
+	private parseBracedValue(): ASN1BracedValue {
+		const startToken = this.peek();
+		const startIndex = this.pos;
+		const endIndex = this.skipBalanced(this.pos);
+		if (endIndex === -1 || this.tokens[endIndex - 1].text !== '}') {
+			throw this.error('Unbalanced braces in value', startToken);
+		}
+		this.pos = endIndex;
+		return { kind: 'braced-value', tokens: this.tokens.slice(startIndex, endIndex), ...this.range(startToken) };
+	}
+
+	// ---- 值记法 ----
+
+	// 解析时 { ... } 值只保存令牌；全部类型已知后再按类型把它们解析为结构化的值
+	private structureValues(modules: ASN1Module[]) {
+		const savedPos = this.pos;
+		this.tokens.forEach((token, index) => this.tokenIndex.set(token.start, index));
+		for (const module of modules) {
+			for (const assignment of module.assignments) {
+				if (assignment.kind === 'type-assignment' && !assignment.parameters) {
+					this.typeTable.set(assignment.name, assignment.type);
+				}
+			}
+		}
+		const objectIdentifier: ASN1Type = { kind: 'builtin-type', name: 'OBJECT IDENTIFIER', constraints: [], start: 0, end: 0 };
+
+		for (const module of modules) {
+			if (module.definitiveIdentifier) {
+				module.definitiveIdentifier = this.structureValue(module.definitiveIdentifier, objectIdentifier);
+			}
+			for (const clause of module.imports ? module.imports.clauses : []) {
+				if (clause.assignedIdentifier) {
+					clause.assignedIdentifier = this.structureValue(clause.assignedIdentifier, objectIdentifier);
+				}
+			}
+			for (const assignment of module.assignments) {
+				if (assignment.kind === 'value-assignment') {
+					assignment.value = this.structureValue(assignment.value, assignment.type);
+				}
+				walkASN1(assignment, (node) => {
+					const component = node as ASN1Component;
+					if (component.kind === 'component' && component.defaultValue) {
+						component.defaultValue = this.structureValue(component.defaultValue, component.type);
+					}
+				});
+			}
+		}
+		this.pos = savedPos;
+	}
+
+	// 解析失败时保留原始令牌，不报告错误
+	private structureValue(value: ASN1Value, type: ASN1Type | undefined): ASN1Value {
+		const resolved = this.resolveType(type);
+		if (value.kind === 'choice-value') {
+			const alternative = resolved && resolved.kind === 'constructed-type' ? this.findComponentType(resolved, value.name) : undefined;
+			value.value = this.structureValue(value.value, alternative);
+			return value;
+		}
+		if (value.kind !== 'braced-value') return value;
+
+		const index = this.tokenIndex.get(value.start);
+		if (index === undefined) return value;
+		const savedPos = this.pos;
+		try {
+			this.pos = index;
+			return this.parseStructuredValue(resolved);
+		} catch (e) {
+			if (!(e instanceof ASN1SyntaxError)) throw e;
+			return value;
+		} finally {
+			this.pos = savedPos;
+		}
+	}
+
+	// 去掉标签并展开本文档中定义的类型引用
+	private resolveType(type: ASN1Type | undefined): ASN1Type | undefined {
+		for (let depth = 0; type && depth < 32; depth++) {
+			if (type.kind === 'tagged-type') {
+				type = type.inner;
+			} else if (type.kind === 'type-reference' && !type.moduleName && !type.actualParameters) {
+				type = this.typeTable.get(type.name) || (this.externalType && this.externalType(type.name));
+			} else {
+				return type;
+			}
+		}
+		return undefined;
+	}
+
+	// 在 SEQUENCE / SET / CHOICE 中按名称查找成员类型，包括 COMPONENTS OF 引入的成员
+	private findComponentType(type: ASN1Type, name: string, depth = 0): ASN1Type | undefined {
+		if (type.kind !== 'constructed-type' || depth > 8) return undefined;
+		for (const item of type.components) {
+			if (item.kind === 'extension-addition-group') {
+				const member = item.components.find(component => component.kind === 'component' && component.name === name);
+				if (member) return member.type;
+			}
+			if (item.kind === 'component' && item.name === name) return item.type;
+			if (item.kind === 'components-of') {
+				const included = this.resolveType(item.type);
+				const found = included ? this.findComponentType(included, name, depth + 1) : undefined;
+				if (found) return found;
+			}
+		}
+		return undefined;
+	}
+
+	private parseStructuredValue(type: ASN1Type | undefined): ASN1Value {
+		let form: 'sequence' | 'sequence-of' | 'oid';
+		if (type && type.kind === 'builtin-type' && (type.name === 'OBJECT IDENTIFIER' || type.name === 'RELATIVE-OID')) {
+			form = 'oid';
+		} else if (type && type.kind === 'constructed-type' && type.structure !== 'CHOICE') {
+			form = 'sequence';
+		} else if (type && (type.kind === 'collection-type' || (type.kind === 'builtin-type' && type.name === 'BIT STRING'))) {
+			form = 'sequence-of';
+		} else {
+			form = this.guessValueForm();
+		}
+
+		const startToken = this.expect('{');
+		if (form === 'oid') {
+			const components: ASN1ObjectIdentifierComponent[] = [];
+			while (!this.is('}')) {
+				components.push(this.parseObjectIdentifierComponent());
+			}
+			this.expect('}');
+			return { kind: 'object-identifier-value', components, ...this.range(startToken) };
+		}
+		if (form === 'sequence') {
+			const components: ASN1NamedValue[] = [];
+			if (!this.is('}')) {
+				do {
+					const nameToken = this.expectKind('identifier', 'component name');
+					const componentType = type ? this.findComponentType(type, nameToken.text) : undefined;
+					const value = this.structureValue(this.parseValue(), componentType);
+					components.push({
+						kind: 'named-value',
+						name: nameToken.text,
+						nameRange: { start: nameToken.start, end: nameToken.end },
+						value,
+						...this.range(nameToken)
+					});
+				} while (this.accept(','));
+			}
+			this.expect('}');
+			return { kind: 'sequence-value', components, ...this.range(startToken) };
+		}
+		const elementType = type && type.kind === 'collection-type' ? type.element : undefined;
+		const items: ASN1Value[] = [];
+		if (!this.is('}')) {
+			do {
+				items.push(this.structureValue(this.parseValue(), elementType));
+			} while (this.accept(','));
+		}
+		this.expect('}');
+		return { kind: 'sequence-of-value', items, ...this.range(startToken) };
+	}
+
+	// 类型未知（如导入的类型）时根据令牌推测值的形式
+	private guessValueForm(): 'sequence' | 'sequence-of' | 'oid' {
+		const end = this.skipBalanced(this.pos);
+		if (end === -1) throw this.error('Unbalanced braces in value');
+		const inner = this.tokens.slice(this.pos + 1, end - 1);
+		const isSymbol = (token: ASN1Token | undefined, text: string) => !!token && token.kind === 'symbol' && token.text === text;
+
+		let depth = 0;
+		let hasComma = false;
+		for (const token of inner) {
+			if (token.kind !== 'symbol') continue;
+			if (token.text === '{' || token.text === '(' || token.text === '[') depth++;
+			else if (token.text === '}' || token.text === ')' || token.text === ']') depth--;
+			else if (token.text === ',' && depth === 0) hasComma = true;
+		}
+		const namedFirst = inner.length > 1 && inner[0].kind === 'identifier' && !isSymbol(inner[1], ',') && !isSymbol(inner[1], '(');
+		if (hasComma) return namedFirst ? 'sequence' : 'sequence-of';
+
+		// 逐个识别 OID 成分：840、iso、iso(1)、Module.id
+		let units = 0;
+		let numbered = false;
+		for (let i = 0; i < inner.length; units++) {
+			const token = inner[i];
+			if (token.kind === 'number') {
+				numbered = true;
+				i++;
+			} else if (token.kind === 'identifier' && isSymbol(inner[i + 1], '(')) {
+				if (!isSymbol(inner[i + 3], ')') || (inner[i + 2].kind !== 'number' && inner[i + 2].kind !== 'identifier')) {
+					return namedFirst ? 'sequence' : 'sequence-of';
+				}
+				numbered = true;
+				i += 4;
+			} else if (token.kind === 'identifier') {
+				i++;
+			} else if (token.kind === 'typeReference' && isSymbol(inner[i + 1], '.') && inner[i + 2] && inner[i + 2].kind === 'identifier') {
+				i += 3;
+			} else {
+				return namedFirst ? 'sequence' : 'sequence-of';
+			}
+		}
+		if (units >= 3 || numbered) return 'oid';
+		return units === 2 ? 'sequence' : 'sequence-of';
+	}
+
+	private parseObjectIdentifierComponent(): ASN1ObjectIdentifierComponent {
+		const startToken = this.peek();
+		if (startToken.kind === 'number') {
+			this.next();
+			return { kind: 'oid-component', number: startToken.text, ...this.range(startToken) };
+		}
+		if (startToken.kind === 'identifier') {
+			this.next();
+			let number: string | undefined;
+			if (this.accept('(')) {
+				const numberToken = this.peek();
+				if (numberToken.kind !== 'number' && numberToken.kind !== 'identifier') {
+					throw this.error('Expected number in object identifier component');
+				}
+				number = this.next().text;
+				this.expect(')');
+			}
+			return { kind: 'oid-component', name: startToken.text, number, ...this.range(startToken) };
+		}
+		if (startToken.kind === 'typeReference' && this.is('.', 1) && this.peek(2).kind === 'identifier') {
+			this.next();
+			this.next();
+			const nameToken = this.next();
+			return { kind: 'oid-component', name: nameToken.text, moduleName: startToken.text, ...this.range(startToken) };
+		}
+		throw this.error('Expected object identifier component');
+	}
+}
+
+// 便捷函数：解析 ASN.1 源码
+export function parseASN1(source: string, externalType?: (name: string) => ASN1Type | undefined, tokens?: ASN1Token[]): ASN1Document {
+	return new ASN1Parser(source, externalType, tokens).parse();
+}
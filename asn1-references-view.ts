@@ -0,0 +1,81 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { ASN1ReferenceLocation } from './asn1-navigation';
+
+export const ASN1_REFERENCES_VIEW_TYPE = 'asn1-references';
+
+// 引用结果面板需要的插件能力
+export interface ASN1ReferencesHost {
+	openLocation(path: string, line: number, ch: number, newLeaf?: boolean): Promise<void>;
+	t(key: 'findReferences' | 'referencesTitle' | 'referencesEmpty' | 'referencesLine'): string;
+}
+
+// 侧边栏中的引用结果列表，按笔记分组，点击跳转
+export class ASN1ReferencesView extends ItemView {
+	private name = '';
+	private results: ASN1ReferenceLocation[] = [];
+
+	constructor(leaf: WorkspaceLeaf, private host: ASN1ReferencesHost) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return ASN1_REFERENCES_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return this.host.t('findReferences');
+	}
+
+	getIcon(): string {
+		return 'search';
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	setResults(name: string, results: ASN1ReferenceLocation[]) {
+		this.name = name;
+		this.results = results;
+		this.render();
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.classList.add('asn1-references');
+		if (!this.name) return;
+
+		const title = this.host.t('referencesTitle').replace('{name}', this.name).replace('{count}', String(this.results.length));
+		container.createEl('h4', { text: title });
+		if (this.results.length === 0) {
+			container.createEl('div', { text: this.host.t('referencesEmpty'), cls: 'asn1-references-empty' });
+			return;
+		}
+
+		const groups = new Map<string, ASN1ReferenceLocation[]>();
+		for (const result of this.results) {
+			const group = groups.get(result.file);
+			if (group) {
+				group.push(result);
+			} else {
+				groups.set(result.file, [result]);
+			}
+		}
+
+		groups.forEach((results, file) => {
+			const group = container.createEl('details', { cls: 'asn1-references-file' });
+			group.setAttribute('open', '');
+			group.createEl('summary', { text: `${file} (${results.length})` });
+			const list = group.createEl('ul');
+			for (const result of results) {
+				const item = list.createEl('li', { cls: `asn1-references-item asn1-references-${result.kind}` });
+				item.createEl('span', { text: this.host.t('referencesLine').replace('{line}', String(result.line + 1)), cls: 'asn1-references-line' });
+				item.createEl('span', { text: result.lineText, cls: 'asn1-references-text' });
+				item.addEventListener('click', (evt: MouseEvent) => {
+					this.host.openLocation(result.file, result.line, result.column, evt.ctrlKey || evt.metaKey);
+				});
+			}
+		});
+	}
+}
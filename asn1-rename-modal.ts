@@ -0,0 +1,125 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { ASN1ReferenceLocation } from './asn1-navigation';
+
+// 重命名对话框需要的插件能力
+export interface ASN1RenameHost {
+	// 新名称不可用时返回原因
+	validateRename(oldName: string, newName: string): string | null;
+	applyRename(oldName: string, newName: string, locations: ASN1ReferenceLocation[]): Promise<void>;
+	t(key: 'renameTitle' | 'renameNewName' | 'renamePreview' | 'renameApply' | 'renameCancel' | 'referencesLine'): string;
+}
+
+// 输入新名称并预览每一处修改，确认后再应用
+export class ASN1RenameModal extends Modal {
+	private newName: string;
+	private applyButton: ButtonComponent | null = null;
+	private previewEl: HTMLElement | null = null;
+
+	constructor(app: App, private host: ASN1RenameHost, private oldName: string, private locations: ASN1ReferenceLocation[]) {
+		super(app);
+		this.newName = oldName;
+	}
+
+	onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.classList.add('asn1-rename');
+		this.titleEl.textContent = this.host.t('renameTitle').replace('{name}', this.oldName);
+
+		new Setting(container)
+			.setName(this.host.t('renameNewName'))
+			.addText(text => {
+				text.setValue(this.oldName).onChange(value => {
+					this.newName = value.trim();
+					this.renderPreview();
+				});
+				text.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+					if (evt.key === 'Enter') {
+						evt.preventDefault();
+						this.apply();
+					}
+				});
+				setTimeout(() => text.inputEl.select(), 0);
+				return text;
+			});
+
+		this.previewEl = container.createEl('div', { cls: 'asn1-rename-preview' });
+
+		new Setting(container)
+			.addButton(button => {
+				this.applyButton = button;
+				return button.setButtonText(this.host.t('renameApply')).setCta().onClick(() => this.apply());
+			})
+			.addButton(button => button.setButtonText(this.host.t('renameCancel')).onClick(() => this.close()));
+
+		this.renderPreview();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private async apply() {
+		if (this.error() !== null) return;
+		this.close();
+		await this.host.applyRename(this.oldName, this.newName, this.locations);
+	}
+
+	// 与原名相同时不报错，只是没有可应用的修改
+	private error(): string | null {
+		if (this.newName === this.oldName) return '';
+		return this.host.validateRename(this.oldName, this.newName);
+	}
+
+	private renderPreview() {
+		const preview = this.previewEl;
+		if (!preview) return;
+		preview.empty();
+		const error = this.error();
+		if (this.applyButton) this.applyButton.setDisabled(error !== null);
+		if (error) {
+			preview.createEl('div', { text: error, cls: 'asn1-rename-error' });
+			return;
+		}
+
+		const summary = this.host.t('renamePreview').replace('{count}', String(this.locations.length));
+		preview.createEl('div', { text: summary, cls: 'asn1-rename-summary' });
+
+		// 同一行的多处修改合并显示
+		const groups = new Map<string, Map<number, ASN1ReferenceLocation[]>>();
+		for (const location of this.locations) {
+			let lines = groups.get(location.file);
+			if (!lines) {
+				lines = new Map();
+				groups.set(location.file, lines);
+			}
+			const onLine = lines.get(location.line);
+			if (onLine) {
+				onLine.push(location);
+			} else {
+				lines.set(location.line, [location]);
+			}
+		}
+
+		const newName = this.newName || this.oldName;
+		groups.forEach((lines, file) => {
+			const group = preview.createEl('details', { cls: 'asn1-rename-file' });
+			group.setAttribute('open', '');
+			group.createEl('summary', { text: file });
+			const list = group.createEl('ul');
+			lines.forEach((locations, line) => {
+				const block = locations[0].block;
+				const text = block.source.split('\n')[line - block.line];
+				let after = text;
+				// 从行尾往前替换，前面的列号保持不变
+				for (const location of [...locations].sort((a, b) => b.column - a.column)) {
+					after = after.substring(0, location.column) + newName + after.substring(location.column + this.oldName.length);
+				}
+				const item = list.createEl('li', { cls: 'asn1-rename-item' });
+				item.createEl('span', { text: this.host.t('referencesLine').replace('{line}', String(line + 1)), cls: 'asn1-rename-line' });
+				item.createEl('div', { text: text.trim(), cls: 'asn1-rename-before' });
+				item.createEl('div', { text: after.trim(), cls: 'asn1-rename-after' });
+			});
+		});
+	}
+}
@@ -0,0 +1,389 @@
+import {
+	ASN1Constraint,
+	ASN1ConstructedType,
+	ASN1Document,
+	ASN1EnumeratedType,
+	ASN1InstanceOfType,
+	ASN1Module,
+	ASN1NamedNumber,
+	ASN1Type,
+	ASN1TypeAssignment
+} from './asn1-ast';
+import { ASN1ConstraintChecker, ASN1Measure, constraintText } from './asn1-constraints';
+import { ASN1DecodeOptions, ASN1TLVNode, decodeContentAs, tagLabel } from './asn1-der';
+import { ASN1ImportResolver } from './asn1-imports';
+import { ASN1ModuleIndex } from './asn1-index';
+import { ASN1ComponentTag, ASN1DefinitionLookup, ASN1EffectiveTag, ASN1TagContext, ASN1TagResolver, UNIVERSAL_TAG_NUMBERS } from './asn1-tags';
+
+// 按类型解码时使用的类型定义
+export interface ASN1SchemaType {
+	assignment: ASN1TypeAssignment;
+	module: ASN1Module;
+	document: ASN1Document;
+}
+
+// 类型引用链的最大深度，防止 A ::= B、B ::= A 这样的循环
+const MAX_DEPTH = 64;
+
+// 内容按字符计数的字符串类型
+const CHARACTER_STRING_TYPES = new Set([
+	'UTF8String', 'NumericString', 'PrintableString', 'TeletexString', 'T61String', 'VideotexString',
+	'IA5String', 'GraphicString', 'VisibleString', 'ISO646String', 'GeneralString', 'UniversalString', 'BMPString'
+]);
+
+// 按库中的类型定义解码 TLV：标注成员名与类型，并记录缺少的必选成员、意外的标签与违反的约束
+export class ASN1SchemaDecoder {
+	constructor(private index: ASN1ModuleIndex, private imports: ASN1ImportResolver) {}
+
+	// Type 或 Module.Type
+	findType(spec: string): ASN1SchemaType | undefined {
+		const dot = spec.lastIndexOf('.');
+		const symbol = dot > 0
+			? this.findInModule(spec.substring(0, dot), spec.substring(dot + 1))
+			: this.index.findSymbols(spec).find(item => item.kind === 'type');
+		if (!symbol || symbol.assignment.kind !== 'type-assignment') return undefined;
+		return { assignment: symbol.assignment, module: symbol.module, document: symbol.block.document };
+	}
+
+	private findInModule(moduleName: string, name: string) {
+		const { module } = this.imports.findModule(moduleName);
+		return module ? this.imports.resolveSymbol(name, module.module) : undefined;
+	}
+
+	// 只有第一个顶层 TLV 对应类型，其后的数据视为多余
+	decode(bytes: Uint8Array, nodes: ASN1TLVNode[], type: ASN1SchemaType, options: ASN1DecodeOptions) {
+		if (nodes.length === 0) return;
+		const lookup: ASN1DefinitionLookup = (name, module) => this.imports.lookupDefinition(name, module);
+		const walk = new SchemaWalk(bytes, options, new ASN1TagResolver(type.document, lookup), lookup);
+		nodes[0].typeName = type.assignment.name;
+		walk.match(nodes[0], type.assignment.type, walk.tags.contextOf(type.assignment, type.module), false, 0);
+		for (const extra of nodes.slice(1)) addIssue(extra, 'Unexpected data after the value');
+	}
+}
+
+// 枚举项的数值：未写数字的枚举项依次取未被占用的最小非负整数
+export function enumerationNumbers(type: ASN1EnumeratedType): Map<string, number> {
+	const items = type.items.filter((item): item is ASN1NamedNumber => item.kind === 'named-number');
+	const used = new Set<number>();
+	const numbers = new Map<string, number>();
+	for (const item of items) {
+		const explicit = item.value && item.value.kind === 'literal-value' ? Number(item.value.text) : undefined;
+		if (explicit !== undefined && !isNaN(explicit)) {
+			numbers.set(item.name, explicit);
+			used.add(explicit);
+		}
+	}
+	let next = 0;
+	for (const item of items) {
+		if (numbers.has(item.name)) continue;
+		while (used.has(next)) next++;
+		numbers.set(item.name, next);
+		used.add(next);
+	}
+	return numbers;
+}
+
+function addIssue(node: ASN1TLVNode, issue: string) {
+	(node.issues = node.issues || []).push(issue);
+}
+
+function tagOf(node: ASN1TLVNode): ASN1EffectiveTag {
+	return { tagClass: node.tagClass, number: String(node.tagNumber) };
+}
+
+class SchemaWalk {
+	private constraints: ASN1ConstraintChecker;
+
+	constructor(
+		private bytes: Uint8Array,
+		private options: ASN1DecodeOptions,
+		readonly tags: ASN1TagResolver,
+		private lookup: ASN1DefinitionLookup
+	) {
+		this.constraints = new ASN1ConstraintChecker(lookup);
+	}
+
+	// implicit 为真时节点的标签已被外层的隐式标签替换，不再检查
+	match(node: ASN1TLVNode, type: ASN1Type, context: ASN1TagContext, implicit: boolean, depth: number): ASN1Measure | undefined {
+		if (depth > MAX_DEPTH) return undefined;
+		let measure: ASN1Measure | undefined;
+		switch (type.kind) {
+			case 'tagged-type': {
+				const tag = (this.tags.outermostTags(type, context) || [])[0];
+				if (!tag) return undefined;
+				if (!implicit && !this.checkTag(node, [tag])) return undefined;
+				if (tag.mode !== 'EXPLICIT') {
+					measure = this.match(node, type.inner, context, true, depth + 1);
+				} else if (!node.constructed || node.children.length !== 1) {
+					addIssue(node, `Explicit tag ${tagLabel(node)} must contain exactly one element`);
+					return undefined;
+				} else {
+					measure = this.match(node.children[0], type.inner, context, false, depth + 1);
+				}
+				break;
+			}
+			case 'type-reference': {
+				if (!node.typeName) node.typeName = type.moduleName ? `${type.moduleName}.${type.name}` : type.name;
+				// 形参在实参替换前无法确定
+				if (context.parameters.has(type.name)) return undefined;
+				const definition = this.lookup(type.name, context.module);
+				if (!definition || definition.assignment.kind !== 'type-assignment') {
+					addIssue(node, `Type '${type.name}' is not defined`);
+					return undefined;
+				}
+				measure = this.match(node, definition.assignment.type, this.tags.contextOf(definition.assignment, definition.module), implicit, depth + 1);
+				break;
+			}
+			case 'builtin-type':
+				measure = this.matchBuiltin(node, type.name, type.namedNumbers, type, context, implicit, depth);
+				break;
+			case 'enumerated-type':
+				measure = this.matchEnumerated(node, type, implicit);
+				break;
+			case 'constructed-type':
+				this.matchConstructed(node, type, context, implicit, depth);
+				break;
+			case 'collection-type': {
+				if (!node.typeName) node.typeName = type.structure;
+				const number = UNIVERSAL_TAG_NUMBERS[type.structure === 'SEQUENCE OF' ? 'SEQUENCE' : 'SET'];
+				if (!this.checkStructure(node, number, implicit)) return undefined;
+				node.children.forEach((child, index) => {
+					child.name = type.elementName || `[${index}]`;
+					this.match(child, type.element, context, false, depth + 1);
+				});
+				measure = { size: node.children.length };
+				if (type.sizeConstraint) this.checkConstraints(node, [type.sizeConstraint], context, measure);
+				break;
+			}
+			case 'object-class-field-type':
+				// 开放类型由表约束决定，这里不做检查
+				if (!node.typeName) node.typeName = `${type.className}.${type.fieldPath.map(field => `&${field}`).join('.')}`;
+				return undefined;
+			case 'instance-of-type':
+				this.matchInstanceOf(node, type, implicit);
+				break;
+		}
+		if (measure) this.checkConstraints(node, type.constraints, context, measure);
+		return measure;
+	}
+
+	private matchBuiltin(node: ASN1TLVNode, name: string, namedNumbers: ASN1NamedNumber[] | undefined, type: ASN1Type, context: ASN1TagContext, implicit: boolean, depth: number): ASN1Measure | undefined {
+		if (!node.typeName) node.typeName = name;
+		const number = UNIVERSAL_TAG_NUMBERS[name];
+		// ANY 等没有固定标签的类型
+		if (number === undefined) return undefined;
+		if (!implicit && !this.checkTag(node, [{ tagClass: 'UNIVERSAL', number: String(number) }])) return undefined;
+		if (node.constructed) return undefined;
+		if (implicit) decodeContentAs(this.bytes, node, number, this.options);
+
+		const start = node.end - node.length;
+		switch (name) {
+			case 'INTEGER': {
+				const value = this.integerOf(node);
+				const named = namedNumbers && value !== undefined ? namedNumbers.find(item => this.constraints.numberOf(item.value, context.module) === value) : undefined;
+				if (named) node.value = `${named.name} (${node.value})`;
+				return { integer: value };
+			}
+			case 'OCTET STRING':
+				this.matchContaining(node, type, context, depth);
+				return { size: node.length };
+			case 'BIT STRING': {
+				if (node.length === 0) return undefined;
+				this.matchContaining(node, type, context, depth);
+				return { size: (node.length - 1) * 8 - this.bytes[start] };
+			}
+			default:
+				if (CHARACTER_STRING_TYPES.has(name) && node.value !== undefined && !node.error) {
+					return { size: Array.from(node.value).length };
+				}
+				return undefined;
+		}
+	}
+
+	// 枚举值显示为枚举项名称；不在枚举中且类型不可扩展时报告
+	private matchEnumerated(node: ASN1TLVNode, type: ASN1EnumeratedType, implicit: boolean): ASN1Measure | undefined {
+		if (!node.typeName) node.typeName = 'ENUMERATED';
+		const number = UNIVERSAL_TAG_NUMBERS['ENUMERATED'];
+		if (!implicit && !this.checkTag(node, [{ tagClass: 'UNIVERSAL', number: String(number) }])) return undefined;
+		if (node.constructed) return undefined;
+		if (implicit) decodeContentAs(this.bytes, node, number, this.options);
+		const value = this.integerOf(node);
+		if (value === undefined) return undefined;
+
+		const match = Array.from(enumerationNumbers(type)).find(([, itemNumber]) => itemNumber === value);
+		if (match) {
+			node.value = `${match[0]} (${value})`;
+		} else if (!type.extensible) {
+			addIssue(node, `${value} is not an item of the enumeration`);
+		}
+		return { integer: value };
+	}
+
+	private matchConstructed(node: ASN1TLVNode, type: ASN1ConstructedType, context: ASN1TagContext, implicit: boolean, depth: number) {
+		const entries = this.tags.componentTags(type, context);
+		if (type.structure === 'CHOICE') {
+			const tag = tagOf(node);
+			const entry = entries.find(item => item.tags !== null && item.tags.some(candidate => this.tags.sameTag(candidate, tag)));
+			if (!entry) {
+				if (!type.extensible) addIssue(node, `No alternative of the CHOICE has tag ${tagLabel(node)}`);
+				return;
+			}
+			node.name = node.name ? `${node.name}: ${entry.component.name}` : entry.component.name;
+			this.matchComponent(node, entry, context, depth);
+			return;
+		}
+
+		if (!node.typeName) node.typeName = type.structure;
+		if (!this.checkStructure(node, UNIVERSAL_TAG_NUMBERS[type.structure], implicit)) return;
+		if (type.structure === 'SEQUENCE') {
+			this.matchSequence(node, type, entries, context, depth);
+		} else {
+			this.matchSet(node, type, entries, context, depth);
+		}
+	}
+
+	// SEQUENCE 成员按顺序出现，可省略 OPTIONAL、DEFAULT 与扩展附加项；
+	// 后续成员都不接受的元素单独标记，继续匹配下一个元素
+	private matchSequence(node: ASN1TLVNode, type: ASN1ConstructedType, entries: ASN1ComponentTag[], context: ASN1TagContext, depth: number) {
+		let index = 0;
+		const remaining: ASN1TLVNode[] = [];
+		for (const child of node.children) {
+			let found = index;
+			while (found < entries.length && !this.accepts(entries[found], child)) found++;
+			if (found === entries.length) {
+				remaining.push(child);
+				continue;
+			}
+			for (; index < found; index++) this.reportMissing(node, entries[index]);
+			child.name = entries[found].component.name;
+			this.matchComponent(child, entries[found], context, depth);
+			index = found + 1;
+		}
+		for (; index < entries.length; index++) this.reportMissing(node, entries[index]);
+		this.reportRemaining(remaining, type);
+	}
+
+	private accepts(entry: ASN1ComponentTag, child: ASN1TLVNode): boolean {
+		return entry.tags === null || entry.tags.some(tag => this.tags.sameTag(tag, tagOf(child)));
+	}
+
+	private reportMissing(node: ASN1TLVNode, entry: ASN1ComponentTag) {
+		if (!entry.component.optional && !entry.component.defaultValue && !entry.component.extensionAddition) {
+			addIssue(node, `Missing mandatory component '${entry.component.name}'`);
+		}
+	}
+
+	// SET 成员可按任意顺序出现
+	private matchSet(node: ASN1TLVNode, type: ASN1ConstructedType, entries: ASN1ComponentTag[], context: ASN1TagContext, depth: number) {
+		const matched = new Set<ASN1ComponentTag>();
+		const remaining: ASN1TLVNode[] = [];
+		for (const child of node.children) {
+			const entry = entries.find(item => !matched.has(item) && item.tags !== null && item.tags.some(tag => this.tags.sameTag(tag, tagOf(child))));
+			if (!entry) {
+				remaining.push(child);
+				continue;
+			}
+			matched.add(entry);
+			child.name = entry.component.name;
+			this.matchComponent(child, entry, context, depth);
+		}
+		for (const entry of entries) {
+			if (!matched.has(entry)) this.reportMissing(node, entry);
+		}
+		this.reportRemaining(remaining, type);
+	}
+
+	// 可扩展类型中无法识别的元素视为未知的扩展
+	private reportRemaining(children: ASN1TLVNode[], type: ASN1ConstructedType) {
+		for (const child of children) {
+			if (type.extensible) {
+				child.name = '...';
+			} else {
+				addIssue(child, `Unexpected element ${tagLabel(child)} in ${type.structure}`);
+			}
+		}
+	}
+
+	// INSTANCE OF 的关联类型 SEQUENCE { type-id OBJECT IDENTIFIER, value [0] EXPLICIT 开放类型 }
+	private matchInstanceOf(node: ASN1TLVNode, type: ASN1InstanceOfType, implicit: boolean) {
+		if (!node.typeName) node.typeName = `INSTANCE OF ${type.className}`;
+		if (!this.checkStructure(node, UNIVERSAL_TAG_NUMBERS['EXTERNAL'], implicit)) return;
+		const [typeId, value, ...rest] = node.children;
+		if (!typeId) {
+			addIssue(node, `Missing mandatory component 'type-id'`);
+			return;
+		}
+		typeId.name = 'type-id';
+		this.checkTag(typeId, [{ tagClass: 'UNIVERSAL', number: String(UNIVERSAL_TAG_NUMBERS['OBJECT IDENTIFIER']) }]);
+		if (!value) {
+			addIssue(node, `Missing mandatory component 'value'`);
+			return;
+		}
+		value.name = 'value';
+		if (this.checkTag(value, [{ tagClass: 'CONTEXT', number: '0' }]) && (!value.constructed || value.children.length !== 1)) {
+			addIssue(value, `Explicit tag ${tagLabel(value)} must contain exactly one element`);
+		}
+		rest.forEach(child => addIssue(child, `Unexpected element ${tagLabel(child)} in INSTANCE OF`));
+	}
+
+	// 自动标签不出现在成员类型中，需要按分配的标签解开
+	private matchComponent(node: ASN1TLVNode, entry: ASN1ComponentTag, context: ASN1TagContext, depth: number) {
+		const type = entry.component.type;
+		if (!entry.automatic || !entry.tags) {
+			this.match(node, type, context, false, depth + 1);
+			return;
+		}
+		if (entry.tags[0].mode !== 'EXPLICIT') {
+			this.match(node, type, context, true, depth + 1);
+		} else if (!node.constructed || node.children.length !== 1) {
+			addIssue(node, `Explicit tag ${tagLabel(node)} must contain exactly one element`);
+		} else {
+			this.match(node.children[0], type, context, false, depth + 1);
+		}
+	}
+
+	// OCTET STRING / BIT STRING 的 CONTAINING 约束：按被包含的类型解码封装的编码
+	private matchContaining(node: ASN1TLVNode, type: ASN1Type, context: ASN1TagContext, depth: number) {
+		for (const constraint of type.constraints) {
+			const spec = constraint.spec;
+			if (!spec || spec.kind !== 'contents-constraint' || !spec.containing) continue;
+			if (!node.encapsulated || node.children.length === 0) {
+				addIssue(node, 'Contents do not contain a valid encoding');
+				return;
+			}
+			this.match(node.children[0], spec.containing, context, false, depth + 1);
+			return;
+		}
+	}
+
+	private checkTag(node: ASN1TLVNode, expected: ASN1EffectiveTag[]): boolean {
+		const actual = tagOf(node);
+		if (expected.some(tag => this.tags.sameTag(tag, actual))) return true;
+		addIssue(node, `Expected ${expected.map(tag => tagLabel({ tagClass: tag.tagClass, tagNumber: Number(tag.number) })).join(' or ')} but found ${tagLabel(node)}`);
+		return false;
+	}
+
+	private checkStructure(node: ASN1TLVNode, number: number, implicit: boolean): boolean {
+		if (!implicit && !this.checkTag(node, [{ tagClass: 'UNIVERSAL', number: String(number) }])) return false;
+		if (!node.constructed) {
+			addIssue(node, `${node.typeName || tagLabel(node)} must use the constructed encoding`);
+			return false;
+		}
+		return true;
+	}
+
+	private checkConstraints(node: ASN1TLVNode, constraints: ASN1Constraint[], context: ASN1TagContext, measure: ASN1Measure) {
+		for (const constraint of this.constraints.violations(constraints, measure, context.module)) {
+			addIssue(node, `Value violates the constraint ${constraintText(constraint)}`);
+		}
+	}
+
+	// INTEGER / ENUMERATED 内容的数值；超出安全整数范围时返回 undefined
+	private integerOf(node: ASN1TLVNode): number | undefined {
+		if (node.length === 0 || node.length > 6) return undefined;
+		const start = node.end - node.length;
+		let value = this.bytes[start] & 0x80 ? -1 : 0;
+		for (let i = start; i < node.end; i++) value = value * 256 + this.bytes[i];
+		return value;
+	}
+}
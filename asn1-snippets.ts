@@ -0,0 +1,188 @@
+import { App, Editor, FuzzySuggestModal } from 'obsidian';
+
+// 代码片段；正文中 ${1:占位文本}、$1 为跳转位置，$0 为最后的光标位置，\t 为一级缩进
+export interface ASN1Snippet {
+	name: string;
+	body: string;
+	custom?: boolean;
+}
+
+// 展开后的跳转位置，偏移相对片段文本
+export interface ASN1SnippetTabStop {
+	index: number;
+	start: number;
+	end: number;
+}
+
+export interface ASN1ExpandedSnippet {
+	text: string;
+	stops: ASN1SnippetTabStop[];   // 按跳转顺序排列，$0 在最后
+}
+
+export const ASN1_BUILTIN_SNIPPETS: ASN1Snippet[] = [
+	{
+		name: 'module',
+		body: '${1:ModuleName} DEFINITIONS AUTOMATIC TAGS ::= BEGIN\n\n$0\n\nEND'
+	},
+	{
+		name: 'sequence',
+		body: '${1:TypeName} ::= SEQUENCE {\n\t${2:field} ${3:INTEGER},\n\t...$0\n}'
+	},
+	{
+		name: 'choice',
+		body: '${1:TypeName} ::= CHOICE {\n\t${2:first} [0] ${3:INTEGER},\n\t${4:second} [1] ${5:UTF8String}$0\n}'
+	},
+	{
+		name: 'enumerated',
+		body: '${1:TypeName} ::= ENUMERATED {\n\t${2:first}(0),\n\t${3:second}(1),\n\t...$0\n}'
+	},
+	{
+		name: 'algorithm-identifier',
+		body: 'ALGORITHM ::= CLASS {\n\t&id OBJECT IDENTIFIER UNIQUE,\n\t&Params OPTIONAL\n} WITH SYNTAX {\n\tIDENTIFIER &id\n\t[PARAMS &Params]\n}\n\n'
+			+ '${1:AlgorithmIdentifier} { ALGORITHM:IOSet } ::= SEQUENCE {\n\talgorithm ALGORITHM.&id({IOSet}),\n\tparameters ALGORITHM.&Params({IOSet}{@algorithm}) OPTIONAL\n}$0'
+	},
+	{
+		name: 'object-identifier',
+		body: '${1:id-example} OBJECT IDENTIFIER ::= { ${2:iso(1) member-body(2)} }$0'
+	}
+];
+
+// 设置中的自定义片段：以 "### 名称" 开头的行开始一个片段，其后各行为正文
+export function parseCustomSnippets(text: string): ASN1Snippet[] {
+	const snippets: ASN1Snippet[] = [];
+	let current: { name: string, lines: string[] } | null = null;
+	const finish = () => {
+		if (!current) return;
+		const body = current.lines.join('\n').replace(/^\n+|\s+$/g, '');
+		if (current.name && body) snippets.push({ name: current.name, body, custom: true });
+	};
+	for (const line of text.split('\n')) {
+		const header = /^###\s+(.+?)\s*$/.exec(line);
+		if (header) {
+			finish();
+			current = { name: header[1], lines: [] };
+		} else if (current) {
+			current.lines.push(line);
+		}
+	}
+	finish();
+	return snippets;
+}
+
+// 片段正文的第一行，用于在列表中预览
+export function snippetPreview(snippet: ASN1Snippet): string {
+	return expandSnippet(snippet.body, '', '  ').text.split('\n')[0];
+}
+
+// 展开占位符；第二行起加上 indent，\t 替换为 indentUnit
+export function expandSnippet(body: string, indent: string, indentUnit: string): ASN1ExpandedSnippet {
+	let text = '';
+	const stops: ASN1SnippetTabStop[] = [];
+	// 空行不加缩进
+	let lineStart = false;
+	const append = (value: string) => {
+		if (lineStart) text += indent;
+		lineStart = false;
+		text += value;
+	};
+	const addStop = (index: number, placeholder: string) => {
+		if (lineStart) append('');
+		const start = text.length;
+		text += placeholder;
+		// 同一编号只有第一次出现的位置参与跳转
+		if (!stops.some(stop => stop.index === index)) stops.push({ index, start, end: text.length });
+	};
+
+	let i = 0;
+	while (i < body.length) {
+		const ch = body[i];
+		if (ch === '\\' && i + 1 < body.length && (body[i + 1] === '$' || body[i + 1] === '\\')) {
+			append(body[i + 1]);
+			i += 2;
+			continue;
+		}
+		if (ch === '$') {
+			const braced = /^\$\{(\d+)(?::([^}]*))?\}/.exec(body.substring(i));
+			const plain = /^\$(\d+)/.exec(body.substring(i));
+			const match = braced || plain;
+			if (match) {
+				addStop(Number(match[1]), braced && braced[2] ? braced[2] : '');
+				i += match[0].length;
+				continue;
+			}
+		}
+		if (ch === '\n') {
+			text += '\n';
+			lineStart = true;
+		} else if (ch === '\t') {
+			append(indentUnit);
+		} else {
+			append(ch);
+		}
+		i++;
+	}
+
+	// $0 最后；没有 $0 时跳到片段末尾
+	stops.sort((a, b) => (a.index === 0 ? Infinity : a.index) - (b.index === 0 ? Infinity : b.index));
+	if (!stops.some(stop => stop.index === 0)) stops.push({ index: 0, start: text.length, end: text.length });
+	return { text, stops };
+}
+
+// 插入片段后按 Tab 依次选中各个占位符；偏移为整篇笔记中的偏移
+export class ASN1SnippetSession {
+	private current = 0;
+	private length: number;
+
+	constructor(readonly editor: Editor, private stops: Array<{ start: number, end: number }>) {
+		this.length = editor.getValue().length;
+	}
+
+	// 选中当前占位符
+	select() {
+		const stop = this.stops[this.current];
+		this.editor.setSelection(this.editor.offsetToPos(stop.start), this.editor.offsetToPos(stop.end));
+	}
+
+	// 跳到下一个占位符；已经是最后一个时返回 false
+	next(): boolean {
+		if (this.current >= this.stops.length - 1) return false;
+		this.current++;
+		this.select();
+		return this.current < this.stops.length - 1;
+	}
+
+	// 编辑器内容变化后调整位置；光标离开当前占位符时返回 false
+	update(): boolean {
+		const length = this.editor.getValue().length;
+		const delta = length - this.length;
+		this.length = length;
+		const stop = this.stops[this.current];
+		stop.end += delta;
+		for (let i = this.current + 1; i < this.stops.length; i++) {
+			this.stops[i].start += delta;
+			this.stops[i].end += delta;
+		}
+		const cursor = this.editor.posToOffset(this.editor.getCursor());
+		return stop.end >= stop.start && cursor >= stop.start && cursor <= stop.end;
+	}
+}
+
+// 选择要插入的片段
+export class ASN1SnippetModal extends FuzzySuggestModal<ASN1Snippet> {
+	constructor(app: App, private snippets: ASN1Snippet[], private onChoose: (snippet: ASN1Snippet) => void, placeholder: string) {
+		super(app);
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): ASN1Snippet[] {
+		return this.snippets;
+	}
+
+	getItemText(snippet: ASN1Snippet): string {
+		return `${snippet.name} — ${snippetPreview(snippet)}`;
+	}
+
+	onChooseItem(snippet: ASN1Snippet, _evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(snippet);
+	}
+}
@@ -0,0 +1,269 @@
+import {
+	ASN1Assignment,
+	ASN1Component,
+	ASN1ComponentItem,
+	ASN1ConstructedType,
+	ASN1Document,
+	ASN1Module,
+	ASN1TagDefault,
+	ASN1Type
+} from './asn1-ast';
+
+// 标签类别；缺省的上下文相关类记为 CONTEXT
+export type ASN1TagClass = 'UNIVERSAL' | 'APPLICATION' | 'CONTEXT' | 'PRIVATE';
+
+// 编码时实际使用的标签
+export interface ASN1EffectiveTag {
+	tagClass: ASN1TagClass;
+	number: string;
+	mode?: 'IMPLICIT' | 'EXPLICIT'; // 仅由 [n] 或自动标签施加的标签带有模式
+}
+
+// 结构体成员的有效标签
+export interface ASN1ComponentTag {
+	component: ASN1Component;
+	tags: ASN1EffectiveTag[] | null; // 未加标签的 CHOICE 有多个；开放类型、形参等无法确定时为 null
+	automatic: boolean;              // 由 AUTOMATIC TAGS 分配
+}
+
+// 标签所在的上下文：定义所在的模块与形参
+export interface ASN1TagContext {
+	module: ASN1Module;
+	parameters: Set<string>;
+}
+
+// 内置类型的 UNIVERSAL 标签号（X.680 表 1）
+export const UNIVERSAL_TAG_NUMBERS: Record<string, number> = {
+	'BOOLEAN': 1,
+	'INTEGER': 2,
+	'BIT STRING': 3,
+	'OCTET STRING': 4,
+	'NULL': 5,
+	'OBJECT IDENTIFIER': 6,
+	'ObjectDescriptor': 7,
+	'EXTERNAL': 8,
+	'REAL': 9,
+	'ENUMERATED': 10,
+	'EMBEDDED PDV': 11,
+	'UTF8String': 12,
+	'RELATIVE-OID': 13,
+	'TIME': 14,
+	'SEQUENCE': 16,
+	'SET': 17,
+	'NumericString': 18,
+	'PrintableString': 19,
+	'TeletexString': 20,
+	'T61String': 20,
+	'VideotexString': 21,
+	'IA5String': 22,
+	'UTCTime': 23,
+	'GeneralizedTime': 24,
+	'GraphicString': 25,
+	'VisibleString': 26,
+	'ISO646String': 26,
+	'GeneralString': 27,
+	'UniversalString': 28,
+	'CHARACTER STRING': 29,
+	'BMPString': 30,
+	'DATE': 31,
+	'TIME-OF-DAY': 32,
+	'DATE-TIME': 33,
+	'DURATION': 34,
+	'OID-IRI': 35,
+	'RELATIVE-OID-IRI': 36
+};
+
+// 在给定模块中查找名称的定义，用于跨模块解析类型引用
+export type ASN1DefinitionLookup = (name: string, module: ASN1Module) => { assignment: ASN1Assignment, module: ASN1Module } | undefined;
+
+// 按 X.680 第 31 章计算有效标签
+export class ASN1TagResolver {
+	private definitions = new Map<string, { assignment: ASN1Assignment, module: ASN1Module }>();
+
+	// 未提供 lookup 时只解析 document 中的定义
+	constructor(document: ASN1Document, private lookup?: ASN1DefinitionLookup) {
+		for (const module of document.modules) {
+			for (const assignment of module.assignments) {
+				if (assignment.kind === 'invalid-assignment' || this.definitions.has(assignment.name)) continue;
+				this.definitions.set(assignment.name, { assignment, module });
+			}
+		}
+	}
+
+	// 某个赋值内部使用的上下文
+	contextOf(assignment: ASN1Assignment, module: ASN1Module): ASN1TagContext {
+		return { module, parameters: new Set((assignment.parameters || []).map(parameter => parameter.name)) };
+	}
+
+	// 模块的缺省标签方式，未写时为 EXPLICIT
+	tagDefault(module: ASN1Module): ASN1TagDefault {
+		return module.tagDefault || 'EXPLICIT';
+	}
+
+	// SEQUENCE / SET / CHOICE 各成员的有效标签，COMPONENTS OF 按被引用的 SEQUENCE / SET 展开
+	componentTags(type: ASN1ConstructedType, context: ASN1TagContext, visiting: Set<string> = new Set()): ASN1ComponentTag[] {
+		const ordered: ASN1Component[] = [];
+		// 是否启用自动标签只看扩展根中直接写出的成员
+		let rootTagged = false;
+		for (const item of this.flatten(type.components)) {
+			if (item.kind === 'component') {
+				ordered.push(item);
+				if (!item.extensionAddition && item.type.kind === 'tagged-type') rootTagged = true;
+			} else if (item.kind === 'components-of') {
+				ordered.push(...this.expandComponentsOf(item.type, context, visiting));
+			}
+		}
+
+		const automatic = this.tagDefault(context.module) === 'AUTOMATIC' && !rootTagged;
+		// 自动标签先依次分配给扩展根中的成员，再分配给扩展附加项
+		const numbers = new Map<ASN1Component, number>();
+		[...ordered.filter(component => !component.extensionAddition), ...ordered.filter(component => component.extensionAddition)]
+			.forEach((component, index) => numbers.set(component, index));
+
+		return ordered.map(component => {
+			if (automatic) {
+				const mode = this.requiresExplicit(component.type, context, visiting) ? 'EXPLICIT' : 'IMPLICIT';
+				const number = String(numbers.get(component));
+				return { component, tags: [{ tagClass: 'CONTEXT', number, mode }], automatic: true };
+			}
+			return { component, tags: this.outermostTags(component.type, context, visiting), automatic: false };
+		});
+	}
+
+	// 类型最外层的标签；未加标签的 CHOICE 返回全部备选项的标签，无法确定时返回 null
+	outermostTags(type: ASN1Type, context: ASN1TagContext, visiting: Set<string> = new Set()): ASN1EffectiveTag[] | null {
+		switch (type.kind) {
+			case 'tagged-type': {
+				const tag = type.tag;
+				const mode = tag.mode || (this.tagDefault(context.module) === 'EXPLICIT' || this.requiresExplicit(type.inner, context, visiting) ? 'EXPLICIT' : 'IMPLICIT');
+				return [{ tagClass: tag.tagClass || 'CONTEXT', number: this.resolveTagNumber(tag.number), mode }];
+			}
+			case 'builtin-type':
+				return this.universal(type.name);
+			case 'instance-of-type':
+				return this.universal('EXTERNAL');
+			case 'enumerated-type':
+				return this.universal('ENUMERATED');
+			case 'collection-type':
+				return this.universal(type.structure === 'SEQUENCE OF' ? 'SEQUENCE' : 'SET');
+			case 'constructed-type': {
+				if (type.structure !== 'CHOICE') return this.universal(type.structure);
+				const tags: ASN1EffectiveTag[] = [];
+				for (const alternative of this.componentTags(type, context, visiting)) {
+					if (!alternative.tags) return null;
+					tags.push(...alternative.tags);
+				}
+				return tags;
+			}
+			case 'type-reference': {
+				const resolved = this.resolveReference(type.name, context, visiting);
+				if (!resolved) return null;
+				return this.outermostTags(resolved.type, resolved.context, resolved.visiting);
+			}
+			case 'object-class-field-type': {
+				const fieldType = this.resolveFieldType(type.className, type.fieldPath, context.module);
+				if (!fieldType) return null;
+				return this.outermostTags(fieldType.type, fieldType.context, visiting);
+			}
+		}
+	}
+
+	// 标签的文本表示，如 [CONTEXT 2] IMPLICIT、[UNIVERSAL 16]
+	describe(tag: ASN1EffectiveTag): string {
+		return tag.mode ? `[${tag.tagClass} ${tag.number}] ${tag.mode}` : `[${tag.tagClass} ${tag.number}]`;
+	}
+
+	// 两个标签是否相同
+	sameTag(a: ASN1EffectiveTag, b: ASN1EffectiveTag): boolean {
+		return a.tagClass === b.tagClass && a.number === b.number;
+	}
+
+	// 未加标签的 CHOICE、开放类型与形参只能显式加标签（X.680 31.2.9）
+	private requiresExplicit(type: ASN1Type, context: ASN1TagContext, visiting: Set<string> = new Set()): boolean {
+		switch (type.kind) {
+			case 'tagged-type':
+				return false;
+			case 'constructed-type':
+				return type.structure === 'CHOICE';
+			// ANY 的实际类型在编码时才确定，与 CHOICE 一样不能隐式加标签
+			case 'builtin-type':
+				return type.name === 'ANY';
+			case 'type-reference': {
+				if (context.parameters.has(type.name)) return true;
+				const resolved = this.resolveReference(type.name, context, visiting);
+				return resolved ? this.requiresExplicit(resolved.type, resolved.context, resolved.visiting) : false;
+			}
+			case 'object-class-field-type': {
+				const fieldType = this.resolveFieldType(type.className, type.fieldPath, context.module);
+				return fieldType ? this.requiresExplicit(fieldType.type, fieldType.context, visiting) : true;
+			}
+			default:
+				return false;
+		}
+	}
+
+	// 沿类型引用找到定义；形参、未定义的名称与循环引用返回 undefined
+	private resolveReference(name: string, context: ASN1TagContext, visiting: Set<string>): { type: ASN1Type, context: ASN1TagContext, visiting: Set<string> } | undefined {
+		if (context.parameters.has(name) || visiting.has(name)) return undefined;
+		const definition = this.findDefinition(name, context.module);
+		if (!definition || definition.assignment.kind !== 'type-assignment') return undefined;
+		return {
+			type: definition.assignment.type,
+			context: this.contextOf(definition.assignment, definition.module),
+			visiting: new Set(visiting).add(name)
+		};
+	}
+
+	private findDefinition(name: string, module: ASN1Module): { assignment: ASN1Assignment, module: ASN1Module } | undefined {
+		return (this.lookup && this.lookup(name, module)) || this.definitions.get(name);
+	}
+
+	// CLASS.&field 中固定类型字段的类型；类型字段（开放类型）返回 undefined
+	private resolveFieldType(className: string, fieldPath: string[], module: ASN1Module): { type: ASN1Type, context: ASN1TagContext } | undefined {
+		const definition = this.findDefinition(className, module);
+		if (!definition || definition.assignment.kind !== 'object-class-assignment' || fieldPath.length !== 1) return undefined;
+		const field = definition.assignment.objectClass.fields.find(item => item.name === fieldPath[0]);
+		if (!field || !field.type) return undefined;
+		return { type: field.type, context: this.contextOf(definition.assignment, definition.module) };
+	}
+
+	// COMPONENTS OF Type 引入被引用类型扩展根中的成员
+	private expandComponentsOf(type: ASN1Type, context: ASN1TagContext, visiting: Set<string>): ASN1Component[] {
+		if (type.kind === 'constructed-type') {
+			return this.flatten(type.components)
+				.filter((item): item is ASN1Component => item.kind === 'component' && !item.extensionAddition);
+		}
+		if (type.kind === 'type-reference') {
+			const resolved = this.resolveReference(type.name, context, visiting);
+			if (resolved) return this.expandComponentsOf(resolved.type, resolved.context, resolved.visiting);
+		}
+		return [];
+	}
+
+	private flatten(items: ASN1ComponentItem[]): ASN1ComponentItem[] {
+		const result: ASN1ComponentItem[] = [];
+		for (const item of items) {
+			if (item.kind === 'extension-addition-group') {
+				result.push(...item.components);
+			} else {
+				result.push(item);
+			}
+		}
+		return result;
+	}
+
+	private universal(name: string): ASN1EffectiveTag[] | null {
+		const number = UNIVERSAL_TAG_NUMBERS[name];
+		return number === undefined ? null : [{ tagClass: 'UNIVERSAL', number: String(number) }];
+	}
+
+	// 标签号可以是值引用，能解析为整数时使用整数
+	private resolveTagNumber(number: string): string {
+		const definition = this.definitions.get(number);
+		if (definition && definition.assignment.kind === 'value-assignment') {
+			const value = definition.assignment.value;
+			if (value.kind === 'literal-value' && /^-?\d+$/.test(value.text)) return value.text;
+		}
+		return number;
+	}
+}
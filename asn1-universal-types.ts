@@ -0,0 +1,173 @@
+import { UNIVERSAL_TAG_NUMBERS } from './asn1-tags';
+
+// 内置类型的简要说明，用于悬停提示
+export interface ASN1UniversalTypeInfo {
+	name: string;
+	tagNumber: number;
+	constructed: boolean;      // DER 中是否为构造编码
+	description: string;
+}
+
+type Language = 'zh-CN' | 'en-US';
+
+const NOTES: Record<string, Record<Language, string>> = {
+	'BOOLEAN': {
+		'zh-CN': '一个字节的内容；DER 中 TRUE 为 0xFF，FALSE 为 0x00',
+		'en-US': 'One content octet; DER encodes TRUE as 0xFF and FALSE as 0x00'
+	},
+	'INTEGER': {
+		'zh-CN': '二进制补码，大端序，使用最少的字节数',
+		'en-US': 'Two\'s complement, big-endian, in the minimum number of octets'
+	},
+	'BIT STRING': {
+		'zh-CN': '首字节为末尾未使用的位数，其后为位串；DER 要求未使用的位为 0',
+		'en-US': 'First octet gives the number of unused trailing bits; DER requires them to be zero'
+	},
+	'OCTET STRING': {
+		'zh-CN': '任意字节序列；DER 中只能使用基本编码',
+		'en-US': 'Arbitrary octets; DER only allows the primitive form'
+	},
+	'NULL': {
+		'zh-CN': '内容为空，长度为 0',
+		'en-US': 'No content octets, length 0'
+	},
+	'OBJECT IDENTIFIER': {
+		'zh-CN': '前两个弧合并为 40*X+Y，各弧按 base-128 编码，最高位表示后续字节',
+		'en-US': 'First two arcs are combined as 40*X+Y; each arc is base-128 with a continuation bit'
+	},
+	'ObjectDescriptor': {
+		'zh-CN': '对象的可读描述，按 GraphicString 编码',
+		'en-US': 'Human-readable description of an object, encoded as a GraphicString'
+	},
+	'EXTERNAL': {
+		'zh-CN': '引用外部定义的值，按 SEQUENCE 编码',
+		'en-US': 'A value of an externally defined type, encoded as a SEQUENCE'
+	},
+	'REAL': {
+		'zh-CN': '首字节选择二进制、十进制或特殊值（PLUS-INFINITY 等）编码',
+		'en-US': 'First octet selects binary, decimal or special-value (PLUS-INFINITY etc.) encoding'
+	},
+	'ENUMERATED': {
+		'zh-CN': '按 INTEGER 编码所选取值对应的数字',
+		'en-US': 'The number of the chosen item, encoded as an INTEGER'
+	},
+	'EMBEDDED PDV': {
+		'zh-CN': '带表示上下文标识的嵌入值，按 SEQUENCE 编码',
+		'en-US': 'An embedded value with its presentation context, encoded as a SEQUENCE'
+	},
+	'UTF8String': {
+		'zh-CN': 'UTF-8 编码的 Unicode 字符串',
+		'en-US': 'Unicode string encoded as UTF-8'
+	},
+	'RELATIVE-OID': {
+		'zh-CN': '相对某个 OID 的后续弧，各弧按 base-128 编码',
+		'en-US': 'Arcs relative to a known OID, each encoded base-128'
+	},
+	'TIME': {
+		'zh-CN': 'ISO 8601 时间，按字符编码',
+		'en-US': 'ISO 8601 time, encoded as characters'
+	},
+	'SEQUENCE': {
+		'zh-CN': '构造编码，成员按定义顺序依次编码；DER 省略等于 DEFAULT 值的成员',
+		'en-US': 'Constructed; components in definition order, DER omits components equal to their DEFAULT'
+	},
+	'SET': {
+		'zh-CN': '构造编码；DER 中成员按标签排序，SET OF 按编码字节排序',
+		'en-US': 'Constructed; DER sorts SET components by tag and SET OF elements by encoding'
+	},
+	'NumericString': {
+		'zh-CN': '仅包含数字与空格',
+		'en-US': 'Digits and space only'
+	},
+	'PrintableString': {
+		'zh-CN': '字母、数字、空格以及 \' ( ) + , - . / : = ?',
+		'en-US': 'Letters, digits, space and \' ( ) + , - . / : = ?'
+	},
+	'TeletexString': {
+		'zh-CN': 'T.61 字符集，已不推荐使用',
+		'en-US': 'T.61 character set, deprecated'
+	},
+	'T61String': {
+		'zh-CN': 'TeletexString 的别名',
+		'en-US': 'Alias of TeletexString'
+	},
+	'VideotexString': {
+		'zh-CN': 'T.100 / T.101 字符集',
+		'en-US': 'T.100 / T.101 character set'
+	},
+	'IA5String': {
+		'zh-CN': '7 位 ASCII 字符',
+		'en-US': '7-bit ASCII characters'
+	},
+	'UTCTime': {
+		'zh-CN': 'YYMMDDhhmm[ss]Z；DER 要求包含秒并以 Z 结尾',
+		'en-US': 'YYMMDDhhmm[ss]Z; DER requires seconds and a trailing Z'
+	},
+	'GeneralizedTime': {
+		'zh-CN': 'YYYYMMDDhhmmss[.fff]Z；DER 要求以 Z 结尾且小数部分不以 0 结尾',
+		'en-US': 'YYYYMMDDhhmmss[.fff]Z; DER requires a trailing Z and no trailing zeros in fractions'
+	},
+	'GraphicString': {
+		'zh-CN': 'ISO 2022 图形字符集',
+		'en-US': 'ISO 2022 graphic character sets'
+	},
+	'VisibleString': {
+		'zh-CN': '可打印的 ASCII 字符（不含控制字符）',
+		'en-US': 'Printable ASCII characters without control characters'
+	},
+	'ISO646String': {
+		'zh-CN': 'VisibleString 的别名',
+		'en-US': 'Alias of VisibleString'
+	},
+	'GeneralString': {
+		'zh-CN': 'ISO 2022 图形与控制字符集',
+		'en-US': 'ISO 2022 graphic and control character sets'
+	},
+	'UniversalString': {
+		'zh-CN': 'UCS-4，每个字符 4 个字节，大端序',
+		'en-US': 'UCS-4, four octets per character, big-endian'
+	},
+	'CHARACTER STRING': {
+		'zh-CN': '带字符集标识的字符串，按 SEQUENCE 编码',
+		'en-US': 'String with an identified character abstract syntax, encoded as a SEQUENCE'
+	},
+	'BMPString': {
+		'zh-CN': 'UCS-2，每个字符 2 个字节，大端序',
+		'en-US': 'UCS-2, two octets per character, big-endian'
+	},
+	'DATE': {
+		'zh-CN': 'YYYY-MM-DD，按字符编码',
+		'en-US': 'YYYY-MM-DD, encoded as characters'
+	},
+	'TIME-OF-DAY': {
+		'zh-CN': 'hh:mm:ss，按字符编码',
+		'en-US': 'hh:mm:ss, encoded as characters'
+	},
+	'DATE-TIME': {
+		'zh-CN': 'YYYY-MM-DDThh:mm:ss，按字符编码',
+		'en-US': 'YYYY-MM-DDThh:mm:ss, encoded as characters'
+	},
+	'DURATION': {
+		'zh-CN': 'ISO 8601 时长，如 P1Y2M',
+		'en-US': 'ISO 8601 duration such as P1Y2M'
+	},
+	'OID-IRI': {
+		'zh-CN': '以 / 分隔的 Unicode 标签表示的 OID',
+		'en-US': 'OID written as /-separated Unicode labels'
+	},
+	'RELATIVE-OID-IRI': {
+		'zh-CN': '相对 OID 的 IRI 形式',
+		'en-US': 'Relative OID written as Unicode labels'
+	}
+};
+
+const CONSTRUCTED = new Set(['SEQUENCE', 'SET', 'EXTERNAL', 'EMBEDDED PDV', 'CHARACTER STRING']);
+
+// 内置类型的标签号与编码说明；不是 UNIVERSAL 类型时返回 undefined
+export function universalTypeInfo(name: string, language: string): ASN1UniversalTypeInfo | undefined {
+	const tagNumber = UNIVERSAL_TAG_NUMBERS[name];
+	if (tagNumber === undefined) return undefined;
+	const notes = NOTES[name];
+	const description = notes ? notes[language === 'zh-CN' ? 'zh-CN' : 'en-US'] : '';
+	return { name, tagNumber, constructed: CONSTRUCTED.has(name), description };
+}
@@ -0,0 +1,37 @@
+import { ASN1SourceRange } from './asn1-ast';
+
+// 任意语法树节点
+export interface ASN1NodeLike extends ASN1SourceRange {
+	kind: string;
+}
+
+// 存放原始令牌或非节点数据的字段，遍历时跳过
+const SKIPPED_KEYS = new Set(['source', 'comments', 'errors', 'error', 'tokens', 'headerTokens', 'exportsTokens']);
+
+function isNode(value: any): value is ASN1NodeLike {
+	return value !== null
+		&& typeof value === 'object'
+		&& typeof value.kind === 'string'
+		&& typeof value.start === 'number'
+		&& typeof value.line !== 'number'; // 令牌带有 line 字段
+}
+
+// 深度优先遍历语法树；回调返回 false 时不再进入该节点的子节点
+export function walkASN1(
+	node: ASN1NodeLike,
+	visit: (node: ASN1NodeLike, parent: ASN1NodeLike | null) => boolean | void,
+	parent: ASN1NodeLike | null = null
+) {
+	if (visit(node, parent) === false) return;
+	for (const key of Object.keys(node)) {
+		if (SKIPPED_KEYS.has(key)) continue;
+		const value = (node as any)[key];
+		if (Array.isArray(value)) {
+			for (const item of value) {
+				if (isNode(item)) walkASN1(item, visit, node);
+			}
+		} else if (isNode(value)) {
+			walkASN1(value, visit, node);
+		}
+	}
+}
@@ -1,4 +1,27 @@
-import { Plugin, MarkdownView, PluginSettingTab, App, Setting, Editor, EditorPosition, MarkdownPostProcessorContext } from 'obsidian';
+import { Plugin, MarkdownView, PluginSettingTab, App, Setting, Editor, EditorPosition, MarkdownPostProcessorContext, MarkdownRenderChild, Notice, TFile } from 'obsidian';
+import { ASN1Assignment, ASN1BuiltinType, ASN1ConstructedType, ASN1Document, ASN1Module, ASN1InstanceOfType, ASN1ObjectClassFieldType, ASN1ReferenceType, ASN1Type, ASN1ValueReference } from './asn1-ast';
+import { ASN1_RESERVED_WORDS } from './asn1-lexer';
+import { parseASN1 } from './asn1-parser';
+import { ASN1Formatter } from './asn1-formatter';
+import { ASN1DiagnosticRule, ASN1DiagnosticRuleSettings, ASN1DiagnosticsEngine, ASN1_DIAGNOSTIC_RULES } from './asn1-diagnostics';
+import { walkASN1 } from './asn1-walker';
+import { ASN1TagResolver } from './asn1-tags';
+import { ASN1IndexChange, ASN1IndexedBlock, ASN1ModuleIndex } from './asn1-index';
+import { ASN1ImportResolver } from './asn1-imports';
+import { ASN1Definition, ASN1DefinitionFinder, ASN1ReferenceAt, ASN1ReferenceFinder, ASN1ReferenceLocation, referenceAtOffset } from './asn1-navigation';
+import { ASN1ReferencesView, ASN1_REFERENCES_VIEW_TYPE } from './asn1-references-view';
+import { ASN1RenameModal } from './asn1-rename-modal';
+import { ASN1OutlineView, ASN1_OUTLINE_VIEW_TYPE } from './asn1-outline-view';
+import { universalTypeInfo } from './asn1-universal-types';
+import { ASN1CompletionEngine } from './asn1-completion';
+import { ASN1EditorSuggest } from './asn1-editor-suggest';
+import { ASN1DecodeError, ASN1EncodedObject, decodeEncodedObject, decodeTLV, splitEncodedInput, toBase64 } from './asn1-der';
+import { countIssues, renderByteAnnotations, renderTLVTree, spacedHex } from './asn1-der-view';
+import { ASN1SchemaDecoder, ASN1SchemaType } from './asn1-schema-decoder';
+import { ASN1ValueEncoder } from './asn1-encoder';
+import { ASN1HighlightExtension, asn1HighlightExtension } from './asn1-editor-extension';
+import { classifyASN1Source } from './asn1-highlight';
+import { ASN1Snippet, ASN1SnippetModal, ASN1SnippetSession, ASN1_BUILTIN_SNIPPETS, expandSnippet, parseCustomSnippets } from './asn1-snippets';
 // import * as CodeMirror from 'codemirror';
 // import 'codemirror/mode/clike/clike';
 
@@ -14,6 +37,9 @@ interface I18nStrings {
 	maxLineLengthDesc: string;
 	autoWrapLongLines: string;
 	autoWrapLongLinesDesc: string;
+	showEffectiveTags: string;
+	showEffectiveTagsDesc: string;
+	hideEffectiveTags: string;
 	autoFormatting: string;
 	autoFormatOnExit: string;
 	autoFormatOnExitDesc: string;
@@ -22,6 +48,8 @@ interface I18nStrings {
 	customKeywords: string;
 	customBasicTypes: string;
 	customBasicTypesDesc: string;
+	customSnippets: string;
+	customSnippetsDesc: string;
 	colorSettings: string;
 	lightThemeColors: string;
 	darkThemeColors: string;
@@ -40,11 +68,88 @@ interface I18nStrings {
 	tags: string;
 	operators: string;
 	customKeywordsColor: string; // 添加自定义关键字颜色的翻译
+	typeReferences: string;
+	componentNames: string;
+	enumIdentifiers: string;
+	valueReferences: string;
+	moduleNames: string;
+	
+	// 诊断
+	diagnostics: string;
+	diagnosticsSummary: string;
+	diagnosticsLine: string;
+	diagnosticSyntaxError: string;
+	diagnosticSyntaxErrorDesc: string;
+	diagnosticUnbalancedBraces: string;
+	diagnosticUnbalancedBracesDesc: string;
+	diagnosticMissingAssignment: string;
+	diagnosticMissingAssignmentDesc: string;
+	diagnosticUndefinedReference: string;
+	diagnosticUndefinedReferenceDesc: string;
+	diagnosticDuplicateAssignment: string;
+	diagnosticDuplicateAssignmentDesc: string;
+	diagnosticDuplicateField: string;
+	diagnosticDuplicateFieldDesc: string;
+	diagnosticMisplacedPresence: string;
+	diagnosticMisplacedPresenceDesc: string;
+	diagnosticTagClash: string;
+	diagnosticTagClashDesc: string;
+	diagnosticUnresolvedImport: string;
+	diagnosticUnresolvedImportDesc: string;
 	
 	// 命令
 	formatASN1: string;
 	autoFormatASN1: string;
 	testASN1AutoFormat: string;
+	goToDefinition: string;
+	definitionNotFound: string;
+	findReferences: string;
+	referencesTitle: string;
+	referencesEmpty: string;
+	referencesLine: string;
+	renameSymbol: string;
+	renameTitle: string;
+	renameNewName: string;
+	renamePreview: string;
+	renameApply: string;
+	renameCancel: string;
+	renameInvalidName: string;
+	renameCaseMismatch: string;
+	renameReservedWord: string;
+	renameConflict: string;
+	renameDone: string;
+	renameSkipped: string;
+	openOutline: string;
+	outlineTitle: string;
+	outlineEmpty: string;
+	hoverDefinedIn: string;
+	hoverDefinedLocally: string;
+	hoverPrimitive: string;
+	hoverConstructed: string;
+	insertSnippet: string;
+	snippetPlaceholder: string;
+	snippetNotInBlock: string;
+	
+	// DER / BER 解码
+	derOffset: string;
+	derLength: string;
+	derIndefinite: string;
+	derConstructed: string;
+	derPrimitive: string;
+	derEncapsulated: string;
+	derErrorAt: string;
+	derFailed: string;
+	derTypeNotFound: string;
+	derIssues: string;
+	
+	// 值记法编码
+	encodeHex: string;
+	encodeBase64: string;
+	encodeBytes: string;
+	encodeComponent: string;
+	encodeOmittedDefaults: string;
+	encodeFailed: string;
+	encodeNoValues: string;
 }
 
 // 中文翻译
@@ -58,6 +163,9 @@ const zhCN: I18nStrings = {
 	maxLineLengthDesc: '换行前的最大行长度（40-120 字符）',
 	autoWrapLongLines: '自动换行长行',
 	autoWrapLongLinesDesc: '格式化时自动换行长行',
+	showEffectiveTags: '显示有效标签',
+	showEffectiveTagsDesc: '默认在渲染的代码块中每个成员后显示其实际编码使用的标签，也可以通过代码块上方的按钮切换',
+	hideEffectiveTags: '隐藏有效标签',
 	autoFormatting: '自动格式化',
 	autoFormatOnExit: '离开时自动格式化',
 	autoFormatOnExitDesc: '离开代码块时自动格式化 ASN.1 代码',
@@ -66,6 +174,8 @@ const zhCN: I18nStrings = {
 	customKeywords: '自定义关键字',
 	customBasicTypes: '自定义基本类型',
 	customBasicTypesDesc: '添加用于语法高亮的自定义基本类型（逗号分隔，例如："MyType, CustomString, SpecialInt"）',
+	customSnippets: '自定义代码片段',
+	customSnippetsDesc: '每个片段以 "### 名称" 一行开始，其后为正文；${1:占位文本} 为按 Tab 跳转的位置，$0 为最后的光标位置',
 	colorSettings: '颜色设置',
 	lightThemeColors: '亮色主题颜色',
 	darkThemeColors: '暗色主题颜色',
@@ -83,10 +193,85 @@ const zhCN: I18nStrings = {
 	tags: '标签',
 	operators: '操作符',
 	customKeywordsColor: '自定义关键字', // 添加自定义关键字颜色的中文翻译
+	typeReferences: '类型引用',
+	componentNames: '成员名',
+	enumIdentifiers: '枚举标识符',
+	valueReferences: '值引用',
+	moduleNames: '模块名',
+	
+	diagnostics: '诊断',
+	diagnosticsSummary: '{count} 个问题',
+	diagnosticsLine: '第 {line} 行',
+	diagnosticSyntaxError: '语法错误',
+	diagnosticSyntaxErrorDesc: '报告解析器无法识别的语法',
+	diagnosticUnbalancedBraces: '括号不匹配',
+	diagnosticUnbalancedBracesDesc: '报告未闭合或多余的 {}、()、[]',
+	diagnosticMissingAssignment: '缺少 ::=',
+	diagnosticMissingAssignmentDesc: '报告缺少 ::= 的定义',
+	diagnosticUndefinedReference: '未定义的类型引用',
+	diagnosticUndefinedReferenceDesc: '报告代码块中既未定义也未导入的类型',
+	diagnosticDuplicateAssignment: '重复定义',
+	diagnosticDuplicateAssignmentDesc: '报告同一模块中名称相同的定义',
+	diagnosticDuplicateField: '重复字段',
+	diagnosticDuplicateFieldDesc: '报告 SEQUENCE、SET、CHOICE 中名称相同的成员',
+	diagnosticMisplacedPresence: 'OPTIONAL/DEFAULT 位置错误',
+	diagnosticMisplacedPresenceDesc: '报告出现在 SEQUENCE、SET 成员之外的 OPTIONAL 与 DEFAULT',
+	diagnosticTagClash: '标签冲突',
+	diagnosticTagClashDesc: '按模块的缺省标签方式计算有效标签，报告 CHOICE、SET 以及 SEQUENCE 连续可选成员中相同的标签',
+	diagnosticUnresolvedImport: '无法解析的导入',
+	diagnosticUnresolvedImportDesc: '按模块名与 OID 在库中查找 IMPORTS 的模块，报告找不到的模块以及未定义或未导出的名称',
 	
 	formatASN1: '格式化 ASN.1',
 	autoFormatASN1: '自动格式化 ASN.1（实时）',
-	testASN1AutoFormat: '测试 ASN.1 自动格式化（当前块）'
+	testASN1AutoFormat: '测试 ASN.1 自动格式化（当前块）',
+	goToDefinition: '跳转到 ASN.1 定义',
+	definitionNotFound: '未找到 {name} 的定义',
+	findReferences: '查找 ASN.1 引用',
+	referencesTitle: '{name} 的引用（{count}）',
+	referencesEmpty: '没有找到引用',
+	referencesLine: '第 {line} 行',
+	renameSymbol: '重命名 ASN.1 定义',
+	renameTitle: '重命名 {name}',
+	renameNewName: '新名称',
+	renamePreview: '将修改 {count} 处：',
+	renameApply: '应用',
+	renameCancel: '取消',
+	renameInvalidName: '不是合法的 ASN.1 名称',
+	renameCaseMismatch: '首字母大小写必须与原名称一致（类型引用大写开头，值引用小写开头）',
+	renameReservedWord: '{name} 是保留字',
+	renameConflict: '模块中已有名为 {name} 的定义',
+	renameDone: '已将 {count} 处 {old} 重命名为 {name}',
+	renameSkipped: '{count} 处内容已变化，未修改',
+	openOutline: '打开 ASN.1 大纲',
+	outlineTitle: 'ASN.1 大纲',
+	outlineEmpty: '当前笔记中没有 ASN.1 代码块',
+	hoverDefinedIn: '定义于 {file}，第 {line} 行',
+	hoverDefinedLocally: '定义于当前代码块',
+	hoverPrimitive: '基本编码',
+	hoverConstructed: '构造编码',
+	insertSnippet: '插入 ASN.1 代码片段',
+	snippetPlaceholder: '选择要插入的代码片段',
+	snippetNotInBlock: '请先将光标放在 asn1 代码块内',
+	
+	derOffset: '偏移',
+	derLength: '长度',
+	derIndefinite: '不定长',
+	derConstructed: '构造',
+	derPrimitive: '基本',
+	derEncapsulated: '封装的编码',
+	derErrorAt: '解码失败（字节偏移 {offset}）',
+	derFailed: '解码失败',
+	derTypeNotFound: '未找到类型 {name}，按通用结构显示',
+	derIssues: '{count} 处与类型 {name} 不符',
+	
+	// 值记法编码
+	encodeHex: '十六进制',
+	encodeBase64: 'Base64',
+	encodeBytes: '字节',
+	encodeComponent: '成员',
+	encodeOmittedDefaults: '等于 DEFAULT 而省略：{names}',
+	encodeFailed: '值无法编码',
+	encodeNoValues: '代码块中没有值赋值，请按 value Type ::= ... 的形式书写'
 };
 
 // 英文翻译
@@ -100,6 +285,9 @@ const enUS: I18nStrings = {
 	maxLineLengthDesc: 'Maximum line length before wrapping (40-120 characters)',
 	autoWrapLongLines: 'Auto Wrap Long Lines',
 	autoWrapLongLinesDesc: 'Automatically wrap long lines during formatting',
+	showEffectiveTags: 'Show Effective Tags',
+	showEffectiveTagsDesc: 'Show the tag each component actually encodes to after it in rendered code blocks by default; the button above each block toggles it',
+	hideEffectiveTags: 'Hide Effective Tags',
 	autoFormatting: 'Auto Formatting',
 	autoFormatOnExit: 'Auto Format on Exit',
 	autoFormatOnExitDesc: 'Automatically format ASN.1 code when leaving the code block',
@@ -108,6 +296,8 @@ const enUS: I18nStrings = {
 	customKeywords: 'Custom Keywords',
 	customBasicTypes: 'Custom Basic Types',
 	customBasicTypesDesc: 'Add custom basic types for syntax highlighting (comma-separated, e.g., "MyType, CustomString, SpecialInt")',
+	customSnippets: 'Custom Snippets',
+	customSnippetsDesc: 'Start each snippet with a "### name" line followed by its body; ${1:placeholder} marks Tab stops and $0 the final cursor position',
 	colorSettings: 'Color Settings',
 	lightThemeColors: 'Light Theme Colors',
 	darkThemeColors: 'Dark Theme Colors',
@@ -125,10 +315,85 @@ const enUS: I18nStrings = {
 	tags: 'Tags',
 	operators: 'Operators',
 	customKeywordsColor: 'Custom Keywords', // 添加自定义关键字颜色的英文翻译
+	typeReferences: 'Type References',
+	componentNames: 'Component Names',
+	enumIdentifiers: 'Enumeration Identifiers',
+	valueReferences: 'Value References',
+	moduleNames: 'Module Names',
+	
+	diagnostics: 'Diagnostics',
+	diagnosticsSummary: '{count} problem(s)',
+	diagnosticsLine: 'Line {line}',
+	diagnosticSyntaxError: 'Syntax Errors',
+	diagnosticSyntaxErrorDesc: 'Report syntax the parser cannot recognize',
+	diagnosticUnbalancedBraces: 'Unbalanced Brackets',
+	diagnosticUnbalancedBracesDesc: 'Report unclosed or unmatched {}, () and []',
+	diagnosticMissingAssignment: 'Missing "::="',
+	diagnosticMissingAssignmentDesc: 'Report definitions without "::="',
+	diagnosticUndefinedReference: 'Undefined Type References',
+	diagnosticUndefinedReferenceDesc: 'Report types that are neither defined nor imported in the code block',
+	diagnosticDuplicateAssignment: 'Duplicate Definitions',
+	diagnosticDuplicateAssignmentDesc: 'Report definitions with the same name in one module',
+	diagnosticDuplicateField: 'Duplicate Fields',
+	diagnosticDuplicateFieldDesc: 'Report components with the same name in a SEQUENCE, SET or CHOICE',
+	diagnosticMisplacedPresence: 'Misplaced OPTIONAL/DEFAULT',
+	diagnosticMisplacedPresenceDesc: 'Report OPTIONAL and DEFAULT outside SEQUENCE and SET components',
+	diagnosticTagClash: 'Tag Clashes',
+	diagnosticTagClashDesc: 'Compute effective tags using the module tagging default and report identical tags in a CHOICE, a SET or a run of OPTIONAL SEQUENCE components',
+	diagnosticUnresolvedImport: 'Unresolved Imports',
+	diagnosticUnresolvedImportDesc: 'Look up IMPORTS modules in the vault by name and OID, and report missing modules and symbols they do not define or export',
 	
 	formatASN1: 'Format ASN.1',
 	autoFormatASN1: 'Auto Format ASN.1 (Real-time)',
-	testASN1AutoFormat: 'Test ASN.1 Auto Format (Current Block)'
+	testASN1AutoFormat: 'Test ASN.1 Auto Format (Current Block)',
+	goToDefinition: 'Go to ASN.1 Definition',
+	definitionNotFound: 'No definition found for {name}',
+	findReferences: 'Find ASN.1 References',
+	referencesTitle: 'References to {name} ({count})',
+	referencesEmpty: 'No references found',
+	referencesLine: 'Line {line}',
+	renameSymbol: 'Rename ASN.1 Definition',
+	renameTitle: 'Rename {name}',
+	renameNewName: 'New name',
+	renamePreview: '{count} edits will be made:',
+	renameApply: 'Apply',
+	renameCancel: 'Cancel',
+	renameInvalidName: 'Not a valid ASN.1 name',
+	renameCaseMismatch: 'The first letter must keep its case (type references start upper case, value references lower case)',
+	renameReservedWord: '{name} is a reserved word',
+	renameConflict: 'The module already defines {name}',
+	renameDone: 'Renamed {count} occurrences of {old} to {name}',
+	renameSkipped: '{count} locations changed since indexing and were left untouched',
+	openOutline: 'Open ASN.1 Outline',
+	outlineTitle: 'ASN.1 Outline',
+	outlineEmpty: 'No ASN.1 code blocks in the current note',
+	hoverDefinedIn: 'Defined in {file}, line {line}',
+	hoverDefinedLocally: 'Defined in this code block',
+	hoverPrimitive: 'primitive encoding',
+	hoverConstructed: 'constructed encoding',
+	insertSnippet: 'Insert ASN.1 Snippet',
+	snippetPlaceholder: 'Choose a snippet to insert',
+	snippetNotInBlock: 'Place the cursor inside an asn1 code block first',
+	
+	derOffset: 'offset',
+	derLength: 'length',
+	derIndefinite: 'indefinite',
+	derConstructed: 'constructed',
+	derPrimitive: 'primitive',
+	derEncapsulated: 'encapsulated',
+	derErrorAt: 'Decoding failed at byte offset {offset}',
+	derFailed: 'Decoding failed',
+	derTypeNotFound: 'Type {name} was not found; showing the generic structure',
+	derIssues: '{count} mismatch(es) against {name}',
+	
+	// 值记法编码
+	encodeHex: 'Hex',
+	encodeBase64: 'Base64',
+	encodeBytes: 'Bytes',
+	encodeComponent: 'Component',
+	encodeOmittedDefaults: 'Omitted as equal to DEFAULT: {names}',
+	encodeFailed: 'The value cannot be encoded',
+	encodeNoValues: 'No value assignments in this block; write them as value Type ::= ...'
 };
 
 // 国际化管理器
@@ -184,36 +449,21 @@ class I18nManager {
 	}
 }
 
-// ASN.1令牌接口
-interface ASN1Token {
-	type: 'module-definition' | 'begin' | 'end' | 'type-name' | 'type-definition' | 'opening-brace' | 'field' | 'closing-brace' | 'comment' | 'other';
-	content: string;
-	level: number;
-}
-
-// ASN.1结构节点接口
-interface ASN1StructureNode {
-	type: 'root' | 'module' | 'begin' | 'end' | 'type-definition' | 'field' | 'comment' | 'other';
-	name: string;
-	content: string;
-	children: ASN1StructureNode[];
-	level: number;
-	structureType?: 'SEQUENCE' | 'SET' | 'CHOICE' | 'ENUMERATED' | 'PRIMITIVE';
-	isInline?: boolean;  // 是否为单行定义
-	fields?: string[];   // 字段列表
-}
-
 // 定义插件设置接口
 interface ASN1PluginSettings {
 	indentSize: number;
 	formatOnSave: boolean;
 	maxLineLength: number;
 	autoWrapLongLines: boolean;
+	showEffectiveTags: boolean; // 渲染的代码块中默认显示有效标签
 	// 新增：增强自动格式化选项
 	autoFormatOnExit: boolean; // 离开代码块时自动格式化
 	autoFormatOnEnter: boolean; // 按Enter键时自动格式化
 	// 自定义关键字设置
 	customKeywords: string; // 用户自定义的基本类型关键字，用逗号分隔
+	customSnippets: string; // 用户自定义的代码片段，格式见 parseCustomSnippets
+	// 诊断规则开关
+	diagnosticRules: ASN1DiagnosticRuleSettings;
 	// 颜色设置
 	colors: {
 		keyword: string;
@@ -227,6 +477,12 @@ interface ASN1PluginSettings {
 		operator: string;
 		// 自定义关键字颜色
 		customKeyword: string;
+		// 语义高亮颜色
+		typeReference: string;
+		componentName: string;
+		enumIdentifier: string;
+		valueReference: string;
+		moduleName: string;
 	};
 	darkColors: {
 		keyword: string;
@@ -240,6 +496,12 @@ interface ASN1PluginSettings {
 		operator: string;
 		// 自定义关键字颜色
 		customKeyword: string;
+		// 语义高亮颜色
+		typeReference: string;
+		componentName: string;
+		enumIdentifier: string;
+		valueReference: string;
+		moduleName: string;
 	};
 }
 
@@ -249,11 +511,25 @@ const DEFAULT_SETTINGS: ASN1PluginSettings = {
 	formatOnSave: true,
 	maxLineLength: 80,
 	autoWrapLongLines: true,
+	showEffectiveTags: false,
 	// 新增默认设置
 	autoFormatOnExit: true,
 	autoFormatOnEnter: true,
 	// 自定义关键字设置
 	customKeywords: '', // 默认为空，用户可添加自定义基本类型
+	customSnippets: '',
+	// 默认启用全部诊断规则
+	diagnosticRules: {
+		'syntax-error': true,
+		'unbalanced-braces': true,
+		'missing-assignment': true,
+		'undefined-reference': true,
+		'duplicate-assignment': true,
+		'duplicate-field': true,
+		'misplaced-presence': true,
+		'tag-clash': true,
+		'unresolved-import': true
+	},
 	// 默认亮色主题颜色
 	colors: {
 		keyword: '#07a',
@@ -266,7 +542,13 @@ const DEFAULT_SETTINGS: ASN1PluginSettings = {
 		tag: '#E67E22',
 		operator: '#2C3E50',
 		// 自定义关键字颜色
-		customKeyword: '#07a'
+		customKeyword: '#07a',
+		// 语义高亮颜色
+		typeReference: '#267F99',
+		componentName: '#001080',
+		enumIdentifier: '#0070C1',
+		valueReference: '#795E26',
+		moduleName: '#AF00DB'
 	},
 	// 默认暗色主题颜色
 	darkColors: {
@@ -280,14 +562,104 @@ const DEFAULT_SETTINGS: ASN1PluginSettings = {
 		tag: '#F39C12',
 		operator: '#56B6C2',
 		// 自定义关键字颜色
-		customKeyword: '#c678dd'
+		customKeyword: '#c678dd',
+		// 语义高亮颜色
+		typeReference: '#E5C07B',
+		componentName: '#61AFEF',
+		enumIdentifier: '#4FC1FF',
+		valueReference: '#DCDCAA',
+		moduleName: '#FF79C6'
 	}
 };
 
+// 关键字列表 - 高亮与补全共用，与语法模式保持一致
+const ASN1_BASE_KEYWORDS = [
+	// 基本类型
+	'BOOLEAN', 'INTEGER', 'BIT', 'OCTET', 'NULL', 'OBJECT', 'REAL',
+	'ENUMERATED', 'EMBEDDED', 'UTF8String', 'RELATIVE-OID',
+	
+	// 字符串类型
+	'NumericString', 'PrintableString', 'TeletexString', 'T61String',
+	'VideotexString', 'IA5String', 'GraphicString', 'VisibleString',
+	'GeneralString', 'UniversalString', 'BMPString',
+	
+	// 时间类型
+	'UTCTime', 'GeneralizedTime',
+	
+	// 构造类型
+	'SEQUENCE', 'SET', 'CHOICE', 'STRING',
+	
+	// 标记
+	'UNIVERSAL', 'APPLICATION', 'PRIVATE', 'CONTEXT',
+	'EXPLICIT', 'IMPLICIT', 'AUTOMATIC', 'TAGS',
+	
+	// 模块定义
+	'DEFINITIONS', 'BEGIN', 'END', 'EXPORTS', 'IMPORTS', 'FROM',
+	
+	// 约束
+	'SIZE', 'WITH', 'COMPONENT', 'COMPONENTS', 'PRESENT', 'ABSENT',
+	'OPTIONAL', 'DEFAULT', 'INCLUDES', 'PATTERN',
+	
+	// 集合操作
+	'UNION', 'INTERSECTION', 'EXCEPT', 'ALL',
+	
+	// 值
+	'TRUE', 'FALSE', 'PLUS-INFINITY', 'MINUS-INFINITY',
+	'MIN', 'MAX',
+	
+	// 高级概念
+	'CLASS', 'TYPE-IDENTIFIER', 'ABSTRACT-SYNTAX', 'INSTANCE',
+	'SYNTAX', 'UNIQUE', 'CONSTRAINED', 'CHARACTER',
+	'PDV', 'EXTERNAL', 'BY', 'OF', 'IDENTIFIER',
+	
+	// X.208 旧版语法
+	'ANY', 'DEFINED'
+];
+
+// 渲染结果所依赖的库中模块名与定义名
+interface ASN1IndexDependencies {
+	modules: Set<string>;
+	symbols: Set<string>;
+}
+
+// 已渲染的代码块；render 清空后重新渲染并返回新的依赖
+interface ASN1IndexDependent extends ASN1IndexDependencies {
+	el: HTMLElement;
+	render: () => ASN1IndexDependencies | undefined;
+}
+
 export default class ASN1Plugin extends Plugin {
 	settings: ASN1PluginSettings;
 	private formattingInProgress: boolean = false;
+	// 大纲刷新的延时器
+	private outlineTimer: NodeJS.Timeout | null = null;
+	// 渲染结果依赖索引的代码块，索引变化时只重新渲染受影响的块
+	private indexDependents = new Set<ASN1IndexDependent>();
+	// 尚未处理的索引变化及其延时器
+	private pendingChange: ASN1IndexChange | null = null;
+	private dependentTimer: NodeJS.Timeout | null = null;
+	// 阅读视图中的悬停提示及其显示/隐藏延时器
+	private hoverPopover: HTMLElement | null = null;
+	private hoverTimer: NodeJS.Timeout | null = null;
+	// 悬停提示中格式化后的定义；按赋值缓存，代码块重新解析后随旧语法树一起失效
+	private hoverSources = new WeakMap<ASN1Assignment, string>();
+	// 源码模式与实时预览的着色扩展
+	private editorHighlight: ASN1HighlightExtension | null = null;
+	// 正在按 Tab 填写的代码片段
+	private snippetSession: ASN1SnippetSession | null = null;
 	private i18n: I18nManager;
+	// 整个库中 asn1 代码块的模块与定义索引
+	index: ASN1ModuleIndex;
+	// 基于索引解析跨笔记的 IMPORTS
+	imports: ASN1ImportResolver;
+	// 跳转到定义
+	definitions: ASN1DefinitionFinder;
+	// 查找引用
+	references: ASN1ReferenceFinder;
+	// 按类型解码 DER
+	schemaDecoder: ASN1SchemaDecoder;
+	// 把值记法编码为 DER
+	encoder: ASN1ValueEncoder;
 
 	async onload() {
 		try {
@@ -299,24 +671,64 @@ export default class ASN1Plugin extends Plugin {
 			// 加载设置
 			await this.loadSettings();
 
+			// 建立模块索引；启动时创建文件的事件在布局就绪前触发，因此就绪后再监听
+			this.index = new ASN1ModuleIndex(this.app);
+			this.imports = new ASN1ImportResolver(this.index);
+			this.definitions = new ASN1DefinitionFinder(this.index, this.imports);
+			this.references = new ASN1ReferenceFinder(this.index, this.imports);
+			this.schemaDecoder = new ASN1SchemaDecoder(this.index, this.imports);
+			this.encoder = new ASN1ValueEncoder(this.imports);
+			
+			// 注册引用结果面板
+			this.registerView(ASN1_REFERENCES_VIEW_TYPE, (leaf) => new ASN1ReferencesView(leaf, {
+				openLocation: (path, line, ch, newLeaf) => this.openLocation(path, line, ch, newLeaf),
+				t: (key) => this.i18n.t(key)
+			}));
+			
+			// 代码块内的自动补全
+			this.registerEditorSuggest(new ASN1EditorSuggest(this.app, new ASN1CompletionEngine(this.index, this.imports, this.definitions), {
+				getBlockAtCursor: (editor) => this.getBlockAtCursor(editor),
+				getKeywords: () => ASN1_BASE_KEYWORDS,
+				getCustomKeywords: () => this.getCustomKeywords()
+			}));
+			
+			// 注册大纲面板，随编辑器内容和当前笔记刷新
+			this.registerView(ASN1_OUTLINE_VIEW_TYPE, (leaf) => new ASN1OutlineView(leaf, {
+				openLocation: (path, line, ch, newLeaf) => this.openLocation(path, line, ch, newLeaf),
+				refreshOutline: () => this.refreshOutline(),
+				t: (key) => this.i18n.t(key)
+			}));
+			this.registerEvent(this.app.workspace.on('editor-change', () => this.scheduleOutlineRefresh()));
+			this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.scheduleOutlineRefresh()));
+			this.app.workspace.onLayoutReady(async () => {
+				await this.index.rebuild();
+				this.registerEvent(this.app.vault.on('create', (file) => this.index.updateFile(file)));
+				this.registerEvent(this.app.vault.on('modify', (file) => this.index.updateFile(file)));
+				this.registerEvent(this.app.vault.on('delete', (file) => this.index.removeFile(file.path)));
+				this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.index.renameFile(file, oldPath)));
+			});
+			// 索引就绪或变化后，重新渲染依赖跨块定义的代码块（IMPORTS 诊断、type= 解码）
+			this.registerEvent(this.index.on('changed', (change: ASN1IndexChange) => this.scheduleDependentRefresh(change)));
+
 			// 注册ASN.1语法高亮
 			this.registerASN1Mode();
 
 			// 注册代码块语言
 			this.registerMarkdownCodeBlockProcessor('asn1', (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
-				try {
-					const pre = document.createElement('pre');
-					const code = document.createElement('code');
-					code.className = 'language-asn1';
-					code.textContent = source;
-					pre.appendChild(code);
-					el.appendChild(pre);
-					
-					// 应用语法高亮
-					this.highlightASN1(code);
-				} catch (error) {
-					console.error('Error in ASN.1 code block processor:', error);
-				}
+				this.renderIndexDependent(el, ctx, () => this.renderCodeBlock(source, el, ctx));
+			});
+
+			// DER / BER 编码（十六进制、base64 或 PEM）解码为 TLV 结构树
+			this.registerMarkdownCodeBlockProcessor('asn1-der', (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+				this.renderIndexDependent(el, ctx, () => this.renderDecodedBlock(source, el, ctx, true));
+			});
+			this.registerMarkdownCodeBlockProcessor('asn1-ber', (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+				this.renderIndexDependent(el, ctx, () => this.renderDecodedBlock(source, el, ctx, false));
+			});
+
+			// 值记法按库中的类型编码为 DER
+			this.registerMarkdownCodeBlockProcessor('asn1-encode', (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+				this.renderIndexDependent(el, ctx, () => this.renderEncodedBlock(source, el));
 			});
 
 			// 添加格式化命令
@@ -363,6 +775,89 @@ export default class ASN1Plugin extends Plugin {
 				}
 			});
 
+			// 跳转到定义命令
+			this.addCommand({
+				id: 'go-to-asn1-definition',
+				name: this.i18n.t('goToDefinition'),
+				editorCallback: (editor: Editor) => {
+					this.goToDefinition(editor, false).catch(error => console.error('Error in go to definition command:', error));
+				}
+			});
+			
+			// 查找引用命令
+			this.addCommand({
+				id: 'find-asn1-references',
+				name: this.i18n.t('findReferences'),
+				editorCallback: (editor: Editor) => {
+					this.findReferences(editor).catch(error => console.error('Error in find references command:', error));
+				}
+			});
+			
+			// 大纲面板命令
+			this.addCommand({
+				id: 'open-asn1-outline',
+				name: this.i18n.t('openOutline'),
+				callback: () => {
+					this.openOutline().catch(error => console.error('Error opening ASN.1 outline:', error));
+				}
+			});
+			
+			// 重命名命令
+			this.addCommand({
+				id: 'rename-asn1-definition',
+				name: this.i18n.t('renameSymbol'),
+				editorCallback: (editor: Editor) => {
+					try {
+						this.renameDefinition(editor);
+					} catch (error) {
+						console.error('Error in rename command:', error);
+					}
+				}
+			});
+			
+			// 插入代码片段命令
+			this.addCommand({
+				id: 'insert-asn1-snippet',
+				name: this.i18n.t('insertSnippet'),
+				editorCallback: (editor: Editor) => {
+					if (!this.isASN1CodeBlock(editor)) {
+						new Notice(this.i18n.t('snippetNotInBlock'));
+						return;
+					}
+					new ASN1SnippetModal(this.app, this.getSnippets(), (snippet) => this.insertSnippet(editor, snippet), this.i18n.t('snippetPlaceholder')).open();
+				}
+			});
+			
+			// 片段中按 Tab 跳到下一个占位符，Esc 结束；在编辑器处理按键之前拦截
+			this.registerDomEvent(document, 'keydown', (evt: KeyboardEvent) => {
+				const session = this.snippetSession;
+				if (!session) return;
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view || view.editor !== session.editor) return;
+				if (evt.key === 'Escape') {
+					this.snippetSession = null;
+				} else if (evt.key === 'Tab' && !evt.shiftKey) {
+					evt.preventDefault();
+					evt.stopPropagation();
+					if (!session.next()) this.snippetSession = null;
+				}
+			}, { capture: true });
+			this.registerEvent(this.app.workspace.on('editor-change', (editor: Editor) => {
+				if (this.snippetSession && this.snippetSession.editor === editor && !this.snippetSession.update()) {
+					this.snippetSession = null;
+				}
+			}));
+			
+			// 源码模式下 Ctrl/Cmd+点击类型引用跳转到定义
+			this.registerDomEvent(document, 'click', (evt: MouseEvent) => {
+				if (!(evt.ctrlKey || evt.metaKey)) return;
+				const target = evt.target as HTMLElement | null;
+				if (!target || !target.closest || !target.closest('.markdown-source-view')) return;
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view || !this.isASN1CodeBlock(view.editor)) return;
+				this.goToDefinition(view.editor, true).catch(error => console.error('Error in ctrl-click definition:', error));
+			});
+
 			// 添加设置选项卡
 			this.addSettingTab(new ASN1SettingTab(this.app, this));
 			
@@ -675,12 +1170,17 @@ export default class ASN1Plugin extends Plugin {
 
 	// 检查当前编辑器是否在ASN.1代码块内 - 增强版本
 	isASN1CodeBlock(editor: Editor): boolean {
+		return this.getASN1BlockRange(editor) !== null;
+	}
+	
+	// 光标所在ASN.1代码块的围栏行号（startLine 为 ```asn1 行，endLine 为结束的 ``` 行）
+	getASN1BlockRange(editor: Editor): { startLine: number, endLine: number } | null {
 		try {
 			const cursor = editor.getCursor();
 			const lineCount = editor.lineCount();
 			
 			if (!cursor || lineCount === 0) {
-				return false;
+				return null;
 			}
 			
 			// 向上查找代码块开始
@@ -696,17 +1196,17 @@ export default class ASN1Plugin extends Plugin {
 					}
 					// 如果遇到其他代码块开始，说明不在asn1块内
 					if (line && line.trim().startsWith('```') && !line.trim().startsWith('```asn1')) {
-						return false;
+						return null;
 					}
 				} catch (error) {
 					console.warn('Error reading line', startLine, ':', error);
-					return false;
+					return null;
 				}
 				startLine--;
 			}
 			
 			if (!foundStart) {
-				return false;
+				return null;
 			}
 			
 			// 向下查找代码块结束
@@ -722,16 +1222,16 @@ export default class ASN1Plugin extends Plugin {
 					}
 				} catch (error) {
 					console.warn('Error reading line', endLine, ':', error);
-					return false;
+					return null;
 				}
 				endLine++;
 			}
 			
 			// 确认光标在代码块内
-			return foundEnd && cursor.line > startLine && cursor.line < endLine;
+			return foundEnd && cursor.line > startLine && cursor.line < endLine ? { startLine, endLine } : null;
 		} catch (error) {
 			console.error('Error in isASN1CodeBlock:', error);
-			return false;
+			return null;
 		}
 	}
 	
@@ -781,6 +1281,12 @@ export default class ASN1Plugin extends Plugin {
 			.asn1-operator { color: ${lightColors.operator} !important; }
 			/* 增加CSS选择器优先级，确保自定义关键字颜色正确显示 */
 			code .asn1-custom-keyword, pre .asn1-custom-keyword, .asn1-custom-keyword { color: ${lightColors.customKeyword} !important; }
+			/* 语义高亮 */
+			.asn1-type-reference { color: ${lightColors.typeReference} !important; }
+			.asn1-component-name { color: ${lightColors.componentName} !important; }
+			.asn1-enum-identifier { color: ${lightColors.enumIdentifier} !important; }
+			.asn1-value-reference { color: ${lightColors.valueReference} !important; }
+			.asn1-module-name { color: ${lightColors.moduleName} !important; }
 			
 			/* ASN.1 自定义颜色 - 暗色主题 */
 			.theme-dark .asn1-keyword { color: ${darkColors.keyword} !important; }
@@ -794,6 +1300,11 @@ export default class ASN1Plugin extends Plugin {
 			.theme-dark .asn1-operator { color: ${darkColors.operator} !important; }
 			/* 增加CSS选择器优先级，确保暗色主题下自定义关键字颜色正确显示 */
 			.theme-dark code .asn1-custom-keyword, .theme-dark pre .asn1-custom-keyword, .theme-dark .asn1-custom-keyword { color: ${darkColors.customKeyword} !important; }
+			.theme-dark .asn1-type-reference { color: ${darkColors.typeReference} !important; }
+			.theme-dark .asn1-component-name { color: ${darkColors.componentName} !important; }
+			.theme-dark .asn1-enum-identifier { color: ${darkColors.enumIdentifier} !important; }
+			.theme-dark .asn1-value-reference { color: ${darkColors.valueReference} !important; }
+			.theme-dark .asn1-module-name { color: ${darkColors.moduleName} !important; }
 		`;
 		
 		document.head.appendChild(style);
@@ -803,6 +1314,25 @@ export default class ASN1Plugin extends Plugin {
 	onunload() {
 		console.log('Unloading ASN.1 plugin');
 		
+		// 关闭引用结果面板与大纲面板
+		this.app.workspace.detachLeavesOfType(ASN1_REFERENCES_VIEW_TYPE);
+		this.app.workspace.detachLeavesOfType(ASN1_OUTLINE_VIEW_TYPE);
+		if (this.outlineTimer) {
+			clearTimeout(this.outlineTimer);
+			this.outlineTimer = null;
+		}
+		if (this.dependentTimer) {
+			clearTimeout(this.dependentTimer);
+			this.dependentTimer = null;
+		}
+		this.pendingChange = null;
+		this.indexDependents.clear();
+		if (this.hoverTimer) {
+			clearTimeout(this.hoverTimer);
+			this.hoverTimer = null;
+		}
+		this.hideHoverPopover();
+		
 		// 清理自定义颜色样式
 		const existingStyle = document.getElementById('asn1-custom-colors');
 		if (existingStyle) {
@@ -811,17 +1341,21 @@ export default class ASN1Plugin extends Plugin {
 	}
 
 	// 注册ASN.1语法高亮模式
-	// 注册ASN.1语法高亮模式 - 暂时简化以避免CodeMirror问题
 	registerASN1Mode() {
 		try {
-			console.log('ASN.1 syntax mode registered (simplified)');
-			// TODO: 重新实现CodeMirror语法高亮
+			// 源码模式与实时预览使用 CodeMirror 6 扩展着色，颜色来自 applyCustomColors 生成的样式
+			this.editorHighlight = asn1HighlightExtension(() => ({
+				keywords: ASN1_BASE_KEYWORDS,
+				customKeywords: this.getCustomKeywords()
+			}));
+			this.registerEditorExtension(this.editorHighlight.extension);
+			console.log('ASN.1 syntax mode registered');
 		} catch (error) {
 			console.error('Error registering ASN.1 mode:', error);
 		}
 	}
 
-	// 应用ASN.1语法高亮 - 改进版本，增强错误处理
+	// 应用ASN.1语法高亮：按词法令牌与语法树一次生成DOM节点，注释与字符串内的内容不会被再次着色
 	highlightASN1(codeElement: HTMLElement) {
 		try {
 			if (!codeElement) {
@@ -836,166 +1370,32 @@ export default class ASN1Plugin extends Plugin {
 				return;
 			}
 			
-			// 关键字列表 - 与语法模式保持一致
-			const baseKeywords = [
-				// 基本类型
-				'BOOLEAN', 'INTEGER', 'BIT', 'OCTET', 'NULL', 'OBJECT', 'REAL',
-				'ENUMERATED', 'EMBEDDED', 'UTF8String', 'RELATIVE-OID',
-				
-				// 字符串类型
-				'NumericString', 'PrintableString', 'TeletexString', 'T61String',
-				'VideotexString', 'IA5String', 'GraphicString', 'VisibleString',
-				'GeneralString', 'UniversalString', 'BMPString',
-				
-				// 时间类型
-				'UTCTime', 'GeneralizedTime',
-				
-				// 构造类型
-				'SEQUENCE', 'SET', 'CHOICE', 'STRING',
-				
-				// 标记
-				'UNIVERSAL', 'APPLICATION', 'PRIVATE', 'CONTEXT',
-				'EXPLICIT', 'IMPLICIT', 'AUTOMATIC', 'TAGS',
-				
-				// 模块定义
-				'DEFINITIONS', 'BEGIN', 'END', 'EXPORTS', 'IMPORTS', 'FROM',
-				
-				// 约束
-				'SIZE', 'WITH', 'COMPONENT', 'COMPONENTS', 'PRESENT', 'ABSENT',
-				'OPTIONAL', 'DEFAULT', 'INCLUDES', 'PATTERN',
-				
-				// 集合操作
-				'UNION', 'INTERSECTION', 'EXCEPT', 'ALL',
-				
-				// 值
-				'TRUE', 'FALSE', 'PLUS-INFINITY', 'MINUS-INFINITY',
-				'MIN', 'MAX',
-				
-				// 高级概念
-				'CLASS', 'TYPE-IDENTIFIER', 'ABSTRACT-SYNTAX', 'INSTANCE',
-				'SYNTAX', 'UNIQUE', 'CONSTRAINED', 'CHARACTER',
-				'PDV', 'EXTERNAL', 'BY', 'OF', 'IDENTIFIER'
-			];
-			
-			// 合并用户自定义关键字
-			const customKeywords = this.settings.customKeywords
-				.split(',')
-				.map(k => k.trim())
-				.filter(k => k.length > 0);
-			
-			const keywords = [...baseKeywords, ...customKeywords];
-			
-			// 转义HTML字符
-			function escapeHtml(unsafe: string): string {
-				try {
-					return unsafe
-						.replace(/&/g, "&amp;")
-						.replace(/</g, "&lt;")
-						.replace(/>/g, "&gt;")
-						.replace(/"/g, "&quot;")
-						.replace(/'/g, "&#039;");
-				} catch (error) {
-					console.warn('Error escaping HTML:', error);
-					return unsafe;
-				}
-			}
-			
-			// 先转义HTML字符
-			let highlightedCode = escapeHtml(code);
-			
 			try {
-				// 高亮多行注释 (-* ... *-)
-				highlightedCode = highlightedCode.replace(/-\*[\s\S]*?\*-/g, '<span class="asn1-comment">$&</span>');
-				
-				// 高亮单行注释 (--) - 避免匹配HTML class属性
-				highlightedCode = highlightedCode.replace(/(?<!<[^>]*class="[^"]*)\b--.*$/gm, '<span class="asn1-comment">$&</span>');
-				
-				// 高亮字符串 (双引号)
-				highlightedCode = highlightedCode.replace(/"(?:[^"\\\\]|\\\\.)*"/g, '<span class="asn1-string">$&</span>');
+				const ast = parseASN1(code);
+				const ranges = classifyASN1Source(code, {
+					keywords: ASN1_BASE_KEYWORDS,
+					customKeywords: this.getCustomKeywords()
+				}, ast);
 				
-				// 高亮数字 (整数和小数)
-				highlightedCode = highlightedCode.replace(/\b\d+(?:\.\d+)?\b/g, '<span class="asn1-number">$&</span>');
-				
-				// 高亮对象标识符 (如 {1 2 3 4})
-				highlightedCode = highlightedCode.replace(/\{[\d\s]+\}/g, '<span class="asn1-oid">$&</span>');
-				
-				// 高亮标签 (如 [0], [1] EXPLICIT, [APPLICATION 5])
-				highlightedCode = highlightedCode.replace(/\[(?:UNIVERSAL|APPLICATION|PRIVATE|CONTEXT)?\s*\d+\](?:\s+(?:IMPLICIT|EXPLICIT))?/g, '<span class="asn1-tag">$&</span>');
-				
-				// 高亮类型定义符号 (::=)
-				highlightedCode = highlightedCode.replace(/::\s*=/g, '<span class="asn1-operator">$&</span>');
-				
-				// 高亮范围操作符 (...)
-				highlightedCode = highlightedCode.replace(/\.\.\./g, '<span class="asn1-operator">$&</span>');
-				
-				// 高亮自定义关键字（先于基础关键字，避免被覆盖）
-				for (const customKeyword of customKeywords) {
-					try {
-						const escapedKeyword = customKeyword.replace(/[-\[\]{}()*+?.,\\^$|#\s]/g, '\\$&');
-						// 使用兼容ES2018以下版本的正则表达式方式
-						const regex = new RegExp(
-							`\\b${escapedKeyword}\\b`,
-							'gi'
-						);
-						// 确保自定义关键字使用正确的类名和样式
-						highlightedCode = highlightedCode.replace(regex, '<span class="asn1-custom-keyword">$&</span>');
-						// 添加日志以便调试
-						console.log(`Applied custom keyword highlighting for "${customKeyword}" with color: ${this.settings.colors.customKeyword}`);
-					} catch (error) {
-						console.warn(`Error highlighting custom keyword "${customKeyword}":`, error);
+				// 未着色的部分作为文本节点，着色的令牌各自包装为span
+				const fragment = document.createDocumentFragment();
+				let offset = 0;
+				for (const range of ranges) {
+					if (range.start > offset) {
+						fragment.appendChild(document.createTextNode(code.substring(offset, range.start)));
 					}
+					const span = document.createElement('span');
+					span.className = range.className;
+					span.textContent = code.substring(range.start, range.end);
+					fragment.appendChild(span);
+					offset = range.end;
 				}
-				
-				// 高亮基础关键字
-				for (const keyword of baseKeywords) {
-					try {
-						// 使用兼容ES2018以下版本的正则表达式
-						const escapedKeyword = keyword.replace(/[-\[\]{}()*+?.,\\^$|#\s]/g, '\\$&');
-						const regex = new RegExp(
-							`\\b${escapedKeyword}\\b`,
-							'gi'
-						);
-						
-						// 使用临时字符串进行替换，避免覆盖已高亮的自定义关键字
-						let tempCode = '';
-						let lastIndex = 0;
-						let match;
-						
-						// 重置正则表达式的lastIndex
-						regex.lastIndex = 0;
-						
-						while ((match = regex.exec(highlightedCode)) !== null) {
-							const matchStart = match.index;
-							const matchEnd = matchStart + match[0].length;
-							
-							// 检查匹配是否在span标签内
-							let isInSpan = false;
-							let spanStart = highlightedCode.lastIndexOf('<span', matchStart);
-							if (spanStart !== -1) {
-								let spanEnd = highlightedCode.indexOf('</span>', spanStart);
-								if (spanEnd !== -1 && spanEnd > matchEnd) {
-									isInSpan = true;
-								}
-							}
-							
-							// 如果不在span标签内，则进行替换
-							if (!isInSpan) {
-								tempCode += highlightedCode.substring(lastIndex, matchStart);
-								tempCode += `<span class="asn1-keyword">${match[0]}</span>`;
-								lastIndex = matchEnd;
-							}
-						}
-						
-						// 添加剩余部分
-						tempCode += highlightedCode.substring(lastIndex);
-						highlightedCode = tempCode;
-					} catch (error) {
-						console.warn(`Error highlighting keyword "${keyword}":`, error);
-					}
+				if (offset < code.length) {
+					fragment.appendChild(document.createTextNode(code.substring(offset)));
 				}
+				codeElement.textContent = '';
+				codeElement.appendChild(fragment);
 				
-				// 设置高亮后的HTML
-				codeElement.innerHTML = highlightedCode;
 			} catch (error) {
 				console.error('Error during syntax highlighting:', error);
 				// 如果高亮失败，至少保持原始文本
@@ -1006,1389 +1406,1105 @@ export default class ASN1Plugin extends Plugin {
 		}
 	}
 
-	// 格式化ASN.1代码 - 增强错误处理
-	formatASN1(editor: Editor) {
-		try {
-			console.log('formatASN1 started');
-			const cursor = editor.getCursor();
-			const lineCount = editor.lineCount();
-			
-			if (!cursor || lineCount === 0) {
-				console.warn('Editor is empty or cursor not available');
-				return;
-			}
-			
-			// 查找ASN.1代码块
-			let startLine = cursor.line;
-			let endLine = cursor.line;
-			let foundStart = false;
-			
-			// 向上查找代码块开始
-			while (startLine >= 0) {
+	// 按源码偏移为代码元素中的文本加上span；跨越多个已高亮片段的范围按片段分别包装
+	private wrapSourceRanges(codeElement: HTMLElement, ranges: Array<{ start: number, end: number, className: string, title?: string, attributes?: Record<string, string> }>) {
+		if (ranges.length === 0) return;
+		const sorted = [...ranges].sort((a, b) => a.start - b.start);
+		
+		// 先收集文本节点及其偏移，再逐个包装，避免遍历时修改DOM
+		const textNodes: Array<{ node: Text, start: number }> = [];
+		const walker = document.createTreeWalker(codeElement, NodeFilter.SHOW_TEXT);
+		let offset = 0;
+		let current = walker.nextNode();
+		while (current) {
+			textNodes.push({ node: current as Text, start: offset });
+			offset += (current as Text).data.length;
+			current = walker.nextNode();
+		}
+		
+		// 从后往前包装，前面节点的偏移保持不变
+		for (let i = sorted.length - 1; i >= 0; i--) {
+			const range = sorted[i];
+			if (range.end <= range.start) continue;
+			// 二分查找第一个与范围相交的文本节点，避免大模块中逐个过滤
+			let low = 0;
+			let high = textNodes.length;
+			while (low < high) {
+				const mid = (low + high) >> 1;
+				if (textNodes[mid].start + textNodes[mid].node.data.length <= range.start) low = mid + 1;
+				else high = mid;
+			}
+			let last = low;
+			while (last < textNodes.length && textNodes[last].start < range.end) last++;
+			for (let k = last - 1; k >= low; k--) {
+				const entry = textNodes[k];
+				const length = entry.node.data.length;
+				const from = Math.max(range.start, entry.start) - entry.start;
+				const to = Math.min(range.end, entry.start + length) - entry.start;
+				if (to <= from) continue;
 				try {
-					const line = editor.getLine(startLine);
-					if (line && line.trim().startsWith('```asn1')) {
-						foundStart = true;
-						break;
+					const target = from > 0 ? entry.node.splitText(from) : entry.node;
+					const after = to < length ? target.splitText(to - from) : null;
+					const span = document.createElement('span');
+					span.className = range.className;
+					if (range.title) span.title = range.title;
+					for (const name of Object.keys(range.attributes || {})) {
+						span.setAttribute(name, range.attributes![name]);
 					}
+					target.parentNode?.replaceChild(span, target);
+					span.appendChild(target);
+					// 拆分出的文本节点替换原条目，重叠或嵌套的范围按新的节点继续包装
+					const pieces: typeof textNodes = [];
+					if (from > 0) pieces.push({ node: entry.node, start: entry.start });
+					pieces.push({ node: target, start: entry.start + from });
+					if (after) pieces.push({ node: after, start: entry.start + to });
+					textNodes.splice(k, 1, ...pieces);
 				} catch (error) {
-					console.warn('Error reading line', startLine, ':', error);
-					break;
+					console.warn('Error wrapping source range:', error);
 				}
-				startLine--;
-			}
-			
-			if (!foundStart) {
-				console.warn('ASN.1 code block start not found');
-				return;
 			}
-			
-			// 向下查找代码块结束
-			let foundEnd = false;
-			while (endLine < lineCount) {
-				try {
-					const line = editor.getLine(endLine);
-					if (line && line.trim() === '```' && endLine > startLine) {
-						foundEnd = true;
-						break;
-					}
-				} catch (error) {
-					console.warn('Error reading line', endLine, ':', error);
-					break;
+		}
+	}
+	
+	// 阅读视图中把类型引用渲染为链接，点击跳转到定义（Ctrl/Cmd+点击在新标签页打开）
+	private linkTypeReferences(el: HTMLElement, codeElement: HTMLElement, ast: ASN1Document, ctx: MarkdownPostProcessorContext) {
+		try {
+			const ranges: Array<{ start: number, end: number, className: string, attributes: Record<string, string> }> = [];
+			const addLink = (range: { start: number, end: number }) => {
+				ranges.push({ start: range.start, end: range.end, className: 'asn1-type-link', attributes: { 'data-offset': String(range.start) } });
+			};
+			for (const module of ast.modules) {
+				for (const assignment of module.assignments) {
+					const parameters = new Set((assignment.parameters || []).map(parameter => parameter.name));
+					walkASN1(assignment, (node) => {
+						if (node.kind === 'type-reference' && !parameters.has((node as ASN1ReferenceType).name)) {
+							addLink((node as ASN1ReferenceType).nameRange);
+						} else if (node.kind === 'object-class-field-type' || node.kind === 'instance-of-type') {
+							addLink((node as ASN1ObjectClassFieldType | ASN1InstanceOfType).classNameRange);
+						}
+					});
 				}
-				endLine++;
-			}
-			
-			if (!foundEnd) {
-				console.warn('ASN.1 code block end not found');
-				return;
-			}
-			
-			// 提取代码块内容
-			const codeLines = [];
-			for (let i = startLine + 1; i < endLine; i++) {
-				try {
-					codeLines.push(editor.getLine(i));
-				} catch (error) {
-					console.warn('Error reading line', i, ':', error);
-					codeLines.push(''); // 添加空行以保持行号对齐
+				for (const clause of module.imports ? module.imports.clauses : []) {
+					clause.symbols.forEach(symbol => addLink(symbol));
 				}
 			}
-			
-			if (codeLines.length === 0) {
-				console.warn('No content to format');
-				return;
-			}
-			
-			// 格式化代码
-			const originalCode = codeLines.join('\n');
-			console.log('Original code to format:', originalCode);
-			
-			const formattedCode = this.formatASN1Code(originalCode);
-			console.log('Formatted code result:', formattedCode);
-			
-			if (formattedCode === originalCode) {
-				console.log('Code is already formatted');
-				return;
-			}
-			
-			// 替换代码块内容
-			try {
-				// 确保格式化结果以换行符结尾，避免影响``结束标记
-				const finalFormattedCode = formattedCode.endsWith('\n') ? formattedCode : formattedCode + '\n';
-				
-				editor.replaceRange(
-					finalFormattedCode,
-					{ line: startLine + 1, ch: 0 },
-					{ line: endLine, ch: 0 }
-				);
-				console.log('Code formatted successfully');
-			} catch (error) {
-				console.error('Error replacing code content:', error);
-			}
+			if (ranges.length === 0) return;
+			this.wrapSourceRanges(codeElement, ranges);
+			
+			codeElement.addEventListener('click', (evt: MouseEvent) => {
+				const link = (evt.target as HTMLElement).closest('.asn1-type-link') as HTMLElement | null;
+				if (!link) return;
+				const reference = referenceAtOffset(ast.source, Number(link.getAttribute('data-offset')));
+				const definition = reference ? this.definitions.find(ast, reference) : undefined;
+				if (!reference || !definition) {
+					new Notice(this.i18n.t('definitionNotFound').replace('{name}', link.textContent || ''));
+					return;
+				}
+				evt.preventDefault();
+				const newLeaf = evt.ctrlKey || evt.metaKey;
+				if (definition.local) {
+					// 代码块内容从围栏的下一行开始
+					const section = ctx.getSectionInfo(el);
+					if (section) {
+						const line = section.lineStart + 1 + this.lineOfOffset(ast.source, definition.local.start);
+						this.openLocation(ctx.sourcePath, line, 0, newLeaf);
+						return;
+					}
+				}
+				this.openDefinition(definition, newLeaf);
+			});
 		} catch (error) {
-			console.error('Error in formatASN1:', error);
+			console.error('Error linking ASN.1 type references:', error);
 		}
 	}
-
-	// 格式化ASN.1代码的主要方法 - 简化重构版本
-	formatASN1Code(code: string): string {
-		console.log('🔧 Starting simplified ASN.1 format with code:', code);
-		
-		if (!code || !code.trim()) {
-			return '';
-		}
-		
+	
+	// 悬停类型引用时显示格式化后的定义与来源笔记，内置类型显示其 UNIVERSAL 标签与编码说明
+	private attachHoverPopovers(codeElement: HTMLElement, ast: ASN1Document) {
 		try {
-			// 直接使用正则表达式匹配和格式化
-			return this.simpleFormatASN1(code);
+			// 内置类型名称（OCTET STRING 等可能跨多个单词）
+			const ranges: Array<{ start: number, end: number, className: string, attributes: Record<string, string> }> = [];
+			walkASN1(ast, (node) => {
+				if (node.kind !== 'builtin-type') return;
+				const name = (node as ASN1BuiltinType).name;
+				if (!universalTypeInfo(name, 'en-US')) return;
+				const match = new RegExp('^' + name.split(' ').join('\\s+')).exec(ast.source.substring(node.start));
+				if (match) {
+					ranges.push({ start: node.start, end: node.start + match[0].length, className: 'asn1-builtin-type', attributes: { 'data-type': name } });
+				}
+			});
+			this.wrapSourceRanges(codeElement, ranges);
+			
+			codeElement.addEventListener('mouseover', (evt: MouseEvent) => {
+				const target = (evt.target as HTMLElement).closest('.asn1-type-link, .asn1-builtin-type') as HTMLElement | null;
+				if (!target) return;
+				this.scheduleHover(() => {
+					const content = this.buildHoverContent(target, ast);
+					if (content) this.showHoverPopover(target, content);
+				}, 300);
+			});
+			codeElement.addEventListener('mouseout', (evt: MouseEvent) => {
+				if (!(evt.target as HTMLElement).closest('.asn1-type-link, .asn1-builtin-type')) return;
+				this.scheduleHover(() => this.hideHoverPopover(), 200);
+			});
 		} catch (error) {
-			console.error('❌ Error in ASN.1 formatting:', error);
-			// 降级到简单格式化
-			return this.fallbackFormat(code);
+			console.error('Error attaching ASN.1 hover popovers:', error);
 		}
 	}
-
-	// 简化的ASN.1格式化器 - 直接处理常见模式
-	private simpleFormatASN1(code: string): string {
-		let result = code.trim();
-		
-		// 1. 分离相邻的类型定义（在 } 和 TypeName ::= 之间插入换行）
-		result = result.replace(/\}\s*(\w+\s*::=)/g, '}\n\n\n$1');
-		
-		// 2. 使用更稳健的方法处理嵌套大括号
-		result = this.formatTypeDefinitionsWithNestedBraces(result);
-		
-		// 3. 清理多余的空行，确保类型定义之间正好2行空行
-		result = this.cleanupSpacing(result);
-		
-		console.log('✨ Simple formatted result:', result);
-		return result;
+	
+	private scheduleHover(action: () => void, delay: number) {
+		if (this.hoverTimer) clearTimeout(this.hoverTimer);
+		this.hoverTimer = setTimeout(() => {
+			this.hoverTimer = null;
+			action();
+		}, delay);
 	}
-
-	// 处理包含嵌套大括号的类型定义
-	private formatTypeDefinitionsWithNestedBraces(code: string): string {
-		const typeDefStartRegex = /(\w+\s*::=\s*(?:SEQUENCE|SET|CHOICE|ENUMERATED)\s*\{)/g;
-		let result = code;
-		let match;
-		
-		// 从后往前处理，避免位置偏移问题
-		const matches: Array<{start: number, end: number, prefix: string}> = [];
-		
-		while ((match = typeDefStartRegex.exec(code)) !== null) {
-			const startPos = match.index;
-			const prefix = match[1];
-			
-			// 找到匹配的闭合大括号
-			const endPos = this.findMatchingBrace(code, startPos + prefix.length - 1);
-			if (endPos !== -1) {
-				matches.push({
-					start: startPos,
-					end: endPos,
-					prefix: prefix
-				});
-			}
+	
+	// 悬停提示的内容；找不到定义时返回 null
+	private buildHoverContent(target: HTMLElement, ast: ASN1Document): HTMLElement | null {
+		const content = document.createElement('div');
+		const builtin = target.getAttribute('data-type');
+		if (builtin) {
+			this.renderUniversalInfo(content, builtin);
+			return content;
 		}
 		
-		// 从后往前替换，避免位置偏移
-		for (let i = matches.length - 1; i >= 0; i--) {
-			const {start, end, prefix} = matches[i];
-			const original = code.substring(start, end + 1);
-			const formatted = this.formatSingleTypeDefinition(original, prefix);
-			result = result.substring(0, start) + formatted + result.substring(end + 1);
+		const reference = referenceAtOffset(ast.source, Number(target.getAttribute('data-offset')));
+		const definition = reference ? this.definitions.find(ast, reference) : undefined;
+		const resolved = definition ? this.definitions.assignmentOf(ast, definition) : undefined;
+		if (!resolved) return null;
+		
+		const { assignment, document: definitionDocument } = resolved;
+		const source = this.hoverSource(definitionDocument, assignment);
+		const pre = content.createEl('pre', { cls: 'asn1-hover-definition' });
+		const code = pre.createEl('code', { text: source.trimEnd() });
+		this.highlightASN1(code);
+		
+		const location = content.createEl('div', { cls: 'asn1-hover-source' });
+		if (definition && definition.symbol) {
+			const symbol = definition.symbol;
+			location.textContent = this.i18n.t('hoverDefinedIn').replace('{file}', symbol.file).replace('{line}', String(symbol.line + 1));
+			location.classList.add('asn1-hover-link');
+			location.addEventListener('click', () => {
+				this.hideHoverPopover();
+				this.openLocation(symbol.file, symbol.line, symbol.column);
+			});
+		} else {
+			location.textContent = this.i18n.t('hoverDefinedLocally');
 		}
 		
-		return result;
+		if (assignment.kind === 'type-assignment') {
+			const primitive = this.underlyingBuiltin(definitionDocument, assignment.type);
+			if (primitive) this.renderUniversalInfo(content, primitive);
+		}
+		return content;
 	}
-
-	// 找到匹配的闭合大括号位置
-	private findMatchingBrace(code: string, openBracePos: number): number {
-		let braceCount = 0;
-		let inString = false;
-		
-		for (let i = openBracePos; i < code.length; i++) {
-			const char = code[i];
-			const prevChar = i > 0 ? code[i - 1] : '';
-			
-			if (char === '"' && prevChar !== '\\') {
-				inString = !inString;
-			}
-			
-			if (!inString) {
-				if (char === '{') {
-					braceCount++;
-				} else if (char === '}') {
-					braceCount--;
-					if (braceCount === 0) {
-						return i;
-					}
-				}
-			}
+	
+	private hoverSource(document: ASN1Document, assignment: ASN1Assignment): string {
+		let source = this.hoverSources.get(assignment);
+		if (source !== undefined) return source;
+		source = document.source.substring(assignment.start, assignment.end);
+		try {
+			source = new ASN1Formatter({
+				indentSize: this.settings.indentSize,
+				maxLineLength: this.settings.maxLineLength,
+				autoWrapLongLines: this.settings.autoWrapLongLines
+			}).format(source);
+		} catch (error) {
+			console.error('Error formatting ASN.1 hover definition:', error);
 		}
-		
-		return -1; // 未找到匹配的闭合大括号
+		this.hoverSources.set(assignment, source);
+		return source;
 	}
-
-	// 格式化单个类型定义
-	private formatSingleTypeDefinition(original: string, prefix: string): string {
-		// 提取大括号内的内容
-		const openBracePos = original.indexOf('{');
-		const closeBracePos = original.lastIndexOf('}');
-		
-		if (openBracePos === -1 || closeBracePos === -1) {
-			return original;
-		}
-		
-		const fieldContent = original.substring(openBracePos + 1, closeBracePos).trim();
-		
-		if (!fieldContent) {
-			return `${prefix.trimEnd()}\n}`;
-		}
-		
-		// 按顶层逗号分割字段
-		const fieldSegments = this.splitTopLevelByComma(fieldContent);
-		if (fieldSegments.length <= 1) {
-			// 只有一个字段，保持原样但规范化空格
-			const normalized = this.normalizeFieldContent(fieldContent);
-			return `${prefix.trimEnd()}\n  ${normalized}\n}`;
-		}
-		
-		// 多个字段，每行一个
-		const indent = '  '; // 使用固定2空格缩进
-		const lines: string[] = [];
-		lines.push(prefix.trimEnd());
-		
-		for (let i = 0; i < fieldSegments.length; i++) {
-			const field = this.normalizeFieldContent(fieldSegments[i]);
-			const comma = i === fieldSegments.length - 1 ? '' : ',';
-			lines.push(indent + field + comma);
+	
+	// 沿标签与类型引用找到最终的内置类型
+	private underlyingBuiltin(document: ASN1Document, type: ASN1Type, depth: number = 0): string | undefined {
+		if (depth > 16) return undefined;
+		switch (type.kind) {
+			case 'tagged-type':
+				return this.underlyingBuiltin(document, type.inner, depth);
+			case 'builtin-type':
+				return type.name;
+			case 'enumerated-type':
+				return 'ENUMERATED';
+			case 'type-reference': {
+				const definition = this.definitions.find(document, { name: type.name, moduleName: type.moduleName, start: type.nameRange.start, end: type.nameRange.end });
+				const resolved = definition ? this.definitions.assignmentOf(document, definition) : undefined;
+				if (!resolved || resolved.assignment.kind !== 'type-assignment') return undefined;
+				return this.underlyingBuiltin(resolved.document, resolved.assignment.type, depth + 1);
+			}
+			default:
+				return undefined;
 		}
-		
-		lines.push('}');
-		return lines.join('\n');
-	}
-
-	// 清理空行间距
-	private cleanupSpacing(code: string): string {
-		// 移除多余的空行，但保持类型定义之间的2行空行
-		return code
-			.replace(/\n{3,}/g, '\n\n\n')  // 3个以上换行变成3个
-			.replace(/^\n+/, '')           // 移除开头的空行
-			.replace(/\n+$/, '\n');        // 结尾只保留一个换行
 	}
-
-	// 保证相邻的类型定义之间正好间隔2个空行（3个换行）
-	private ensureTwoBlankLinesBetweenTypeDefinitions(code: string): string {
-		// 情况一：以闭合大括号结束的结构后紧跟下一个类型定义
-		// 将 "}\n+<def>" 统一成 "}\n\n\n<def>"
-		code = code.replace(/\}\n+(?=\s*\w+\s*::=)/g, '}\n\n\n');
-		// 情况二：两个以关键字开头的定义直接相邻（极少见，但处理一下）
-		code = code.replace(/(\w+\s*::=.*?[\s\S]*?)\n+(?=\s*\w+\s*::=)/g, (_m, prev) => `${prev}\n\n\n`);
-		return code;
+	
+	private renderUniversalInfo(container: HTMLElement, name: string) {
+		const info = universalTypeInfo(name, this.i18n.getCurrentLanguage());
+		if (!info) return;
+		const universal = container.createEl('div', { cls: 'asn1-hover-universal' });
+		universal.createEl('strong', { text: `${info.name} [UNIVERSAL ${info.tagNumber}]` });
+		universal.createEl('span', { text: ` · ${this.i18n.t(info.constructed ? 'hoverConstructed' : 'hoverPrimitive')}` });
+		if (info.description) universal.createEl('div', { text: info.description });
 	}
-
-	// 兜底：将仍为单行的结构强制展开为多行字段
-	private postExpandInlineStructures(code: string): string {
-		// Type ::= (SEQUENCE|SET|CHOICE|ENUMERATED) { ... }
-		const rx = /(\w+\s*::=\s*(?:SEQUENCE|SET|CHOICE|ENUMERATED)\s*\{)([^}]*?)(\})/g;
-		return code.replace(rx, (_m, prefix: string, inner: string, suffix: string) => {
-			const parts = this.splitTopLevelByComma(inner);
-			if (parts.length <= 1) return `${prefix}${inner}${suffix}`;
-			const indentMatch = prefix.match(/^(\s*)/);
-			const baseIndent = indentMatch ? indentMatch[1] : '';
-			const fieldIndent = baseIndent + ' '.repeat(this.settings.indentSize);
-			const lines: string[] = [];
-			lines.push(prefix.trimEnd());
-			for (let i = 0; i < parts.length; i++) {
-				const seg = this.normalizeFieldContent(parts[i]);
-				const comma = i === parts.length - 1 ? '' : ',';
-				lines.push(fieldIndent + seg + comma);
-			}
-			lines.push(baseIndent + '}');
-			return lines.join('\n');
+	
+	private showHoverPopover(target: HTMLElement, content: HTMLElement) {
+		this.hideHoverPopover();
+		const popover = document.body.createEl('div', { cls: 'asn1-hover-popover' });
+		popover.appendChild(content);
+		// 鼠标移入提示框时保持显示
+		popover.addEventListener('mouseenter', () => {
+			if (this.hoverTimer) clearTimeout(this.hoverTimer);
+			this.hoverTimer = null;
 		});
+		popover.addEventListener('mouseleave', () => this.scheduleHover(() => this.hideHoverPopover(), 200));
+		
+		const rect = target.getBoundingClientRect();
+		const left = Math.min(rect.left, window.innerWidth - popover.offsetWidth - 8);
+		const below = rect.bottom + 4 + popover.offsetHeight <= window.innerHeight;
+		popover.style.left = `${Math.max(8, left)}px`;
+		popover.style.top = `${below ? rect.bottom + 4 : Math.max(8, rect.top - popover.offsetHeight - 4)}px`;
+		this.hoverPopover = popover;
 	}
-
-	// 校验：原始文本中是否存在括号内为非空内容的结构块
-	private containsNonEmptyStructureBlock(code: string): boolean {
-		// 查找 "Name ::= (SEQUENCE|SET|CHOICE|ENUMERATED) { ... }"，且大括号内包含至少一行非空且不只是注释/大括号
-		const re = /(\w+)\s*::=\s*(SEQUENCE|SET|CHOICE|ENUMERATED)\s*\{([\s\S]*?)\}/g;
-		let match: RegExpExecArray | null;
-		while ((match = re.exec(code)) !== null) {
-			const inner = match[3]
-				.split(/\n/)
-				.map(l => l.trim())
-				.filter(l => l.length > 0 && l !== '{' && l !== '}' && !l.startsWith('--'));
-			if (inner.length > 0) return true;
+	
+	private hideHoverPopover() {
+		if (this.hoverPopover) {
+			this.hoverPopover.remove();
+			this.hoverPopover = null;
 		}
-		return false;
 	}
-
-	// 校验：格式化文本中是否出现空结构块（花括号内无有效内容）
-	private containsEmptyStructureBlock(code: string): boolean {
-		const re = /(\w+)\s*::=\s*(SEQUENCE|SET|CHOICE|ENUMERATED)\s*\{([\s\S]*?)\}/g;
-		let match: RegExpExecArray | null;
-		while ((match = re.exec(code)) !== null) {
-			const inner = match[3]
-				.split(/\n/)
-				.map(l => l.trim())
-				.filter(l => l.length > 0 && l !== '{' && l !== '}' && !l.startsWith('--'));
-			if (inner.length === 0) return true;
+	
+	// 光标所在代码块的内容以及光标在其中的偏移
+	getBlockAtCursor(editor: Editor): { block: { startLine: number, endLine: number }, source: string, offset: number } | null {
+		const block = this.getASN1BlockRange(editor);
+		if (!block) return null;
+		const cursor = editor.getCursor();
+		if (cursor.line <= block.startLine || cursor.line >= block.endLine) return null;
+		const lines: string[] = [];
+		for (let i = block.startLine + 1; i < block.endLine; i++) {
+			lines.push(editor.getLine(i));
 		}
-		return false;
+		const source = lines.join('\n');
+		const offset = lines.slice(0, cursor.line - block.startLine - 1).reduce((sum, line) => sum + line.length + 1, 0) + cursor.ch;
+		return { block, source, offset };
 	}
 	
-	// 规范化ASN.1代码输入
-	private normalizeASN1Code(code: string): string {
-		// 先统一换行符和制表符转换
-		let normalized = code
-			.replace(/\r\n/g, '\n')  // 统一换行符
-			.replace(/\r/g, '\n')
-			.replace(/\t/g, ' ');     // 制表符转空格
-		
-		// 按行处理，避免破坏类型定义之间的分隔
-		const lines = normalized.split('\n');
-		const processedLines = lines.map(line => {
-			return line
-				.replace(/\s+/g, ' ')       // 行内多个空格合并为一个
-				.replace(/\s*{\s*/g, ' { ')  // 规范化大括号前后空格
-				.replace(/\s*}\s*/g, ' } ')
-				.replace(/\s*,\s*/g, ', ')   // 规范化逗号后空格
-				.replace(/\s*::=\s*/g, ' ::= ') // 规范化定义符号
-				.trim();
-		});
-		
-		// 重新组合，保持原有的空行结构
-		return processedLines.join('\n').trim();
-	}
-	
-	// 解析ASN.1结构
-	private parseASN1Structure(code: string): ASN1StructureNode {
-		const lines = code.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-		const rootNode: ASN1StructureNode = {
-			type: 'root',
-			name: '',
-			content: '',
-			children: [],
-			level: 0
-		};
-		
-		this.parseLines(lines, rootNode, 0);
-		return rootNode;
+	// 光标处的引用名称以及所在代码块
+	private getReferenceAtCursor(editor: Editor): { block: { startLine: number, endLine: number }, source: string, reference: ASN1ReferenceAt } | null {
+		const target = this.getBlockAtCursor(editor);
+		if (!target) return null;
+		const reference = referenceAtOffset(target.source, target.offset);
+		return reference ? { block: target.block, source: target.source, reference } : null;
 	}
 	
-	// 递归解析代码行
-	private parseLines(lines: string[], parentNode: ASN1StructureNode, startIndex: number): number {
-		let i = startIndex;
-		
-		// 添加安全计数器，防止无限循环
-		let safetyCounter = 0;
-		const maxIterations = lines.length * 10; // 设置最大迭代次数
-		
-		while (i < lines.length && safetyCounter < maxIterations) {
-			safetyCounter++;
-			const line = lines[i];
-			console.log(`🔍 Parsing line ${i}: "${line}"`);
-			
-			// 1. 模块定义
-			if (this.isModuleDefinition(line)) {
-				const moduleNode = this.createModuleNode(line);
-				parentNode.children.push(moduleNode);
-				i++;
-				continue;
-			}
-			
-			// 2. BEGIN关键字
-			if (line.trim() === 'BEGIN' || line.includes('BEGIN')) {
-				const beginNode = this.createBeginNode();
-				parentNode.children.push(beginNode);
-				i++;
-				continue;
-			}
-			
-			// 3. END关键字
-			if (line.trim() === 'END' || line.startsWith('END')) {
-				const endNode = this.createEndNode(line);
-				parentNode.children.push(endNode);
-				i++;
-				continue;
-			}
-			
-			// 4. 类型定义（包括单行和多行）
-			if (this.isTypeDefinition(line)) {
-				const typeNode = this.parseTypeDefinition(line, lines, i);
-				parentNode.children.push(typeNode.node);
-				i = typeNode.nextIndex;
-				continue;
-			}
-			
-			// 5. 字段定义
-			if (this.isFieldDefinition(line)) {
-				const fieldNode = this.createFieldNode(line);
-				parentNode.children.push(fieldNode);
-				i++;
-				continue;
-			}
-			
-			// 6. 注释
-			if (this.isComment(line)) {
-				const commentNode = this.createCommentNode(line);
-				parentNode.children.push(commentNode);
-				i++;
-				continue;
-			}
-			
-			// 7. 独立的大括号
-			if (line === '}') {
-				// 结束当前结构
-				break;
-			}
-			
-			// 8. 其他内容
-			const otherNode = this.createOtherNode(line);
-			parentNode.children.push(otherNode);
-			i++;
-		}
-		
-		// 如果达到最大迭代次数，记录警告
-		if (safetyCounter >= maxIterations) {
-			console.warn('⚠️ Safety counter reached maximum iterations in parseLines, preventing infinite loop');
-		}
-		
-		return i;
+	// 内置片段与设置中的自定义片段；同名时自定义片段优先
+	getSnippets(): ASN1Snippet[] {
+		const custom = parseCustomSnippets(this.settings.customSnippets);
+		return [...custom, ...ASN1_BUILTIN_SNIPPETS.filter(snippet => !custom.some(item => item.name === snippet.name))];
 	}
-
 	
-	// 检查是否为单行结构定义（增强版）
-	private isSingleLineStructure(line: string): boolean {
-		const patterns = [
-			/^\w+\s*::=\s*(SEQUENCE|SET|CHOICE|ENUMERATED)\s*\{[^{}]+\}\s*$/,
-			/^\w+\s*::=\s*(SEQUENCE|SET)\s+OF\s+\w+\s*$/,
-			/^\w+\s*::=\s*\w+\s*\([^)]*\)\s*$/  // 带约束的定义
-		];
-		
-		for (const pattern of patterns) {
-			if (pattern.test(line.trim())) {
-				console.log('✅ Detected single line structure:', line);
-				return true;
-			}
+	// 在光标处插入片段，后续行与当前行保持相同缩进，并选中第一个占位符
+	insertSnippet(editor: Editor, snippet: ASN1Snippet) {
+		try {
+			const cursor = editor.getCursor();
+			const indent = (editor.getLine(cursor.line).match(/^\s*/) || [''])[0];
+			const expanded = expandSnippet(snippet.body, indent, ' '.repeat(this.settings.indentSize));
+			editor.replaceRange(expanded.text, cursor, cursor);
+			
+			const base = editor.posToOffset(cursor);
+			const session = new ASN1SnippetSession(editor, expanded.stops.map(stop => ({ start: base + stop.start, end: base + stop.end })));
+			session.select();
+			this.snippetSession = expanded.stops.length > 1 ? session : null;
+		} catch (error) {
+			console.error('Error inserting ASN.1 snippet:', error);
 		}
-		
-		return false;
 	}
-
-		
-		
-	// 创建各种类型的节点
-	private createModuleNode(line: string): ASN1StructureNode {
-		const match = line.match(/(\w+)\s+DEFINITIONS\s+(.*?)\s*::=\s*BEGIN/);
-		return {
-			type: 'module',
-			name: match ? match[1] : 'Unknown',
-			content: line,
-			children: [],
-			level: 0
-		};
+	
+	// 设置中用逗号分隔的自定义关键字
+	getCustomKeywords(): string[] {
+		return this.settings.customKeywords
+			.split(',')
+			.map(k => k.trim())
+			.filter(k => k.length > 0);
 	}
 	
-	private createBeginNode(): ASN1StructureNode {
-		return {
-			type: 'begin',
-			name: 'BEGIN',
-			content: 'BEGIN',
-			children: [],
-			level: 0
-		};
+	// 编辑器中跳转到光标处名称的定义；不在 ASN.1 代码块内或不是引用名称时返回 false
+	async goToDefinition(editor: Editor, newLeaf: boolean): Promise<boolean> {
+		const target = this.getReferenceAtCursor(editor);
+		if (!target) return false;
+		const { block, source, reference } = target;
+		const definition = this.definitions.find(parseASN1(source), reference);
+		if (!definition) {
+			new Notice(this.i18n.t('definitionNotFound').replace('{name}', reference.name));
+			return false;
+		}
+		
+		if (definition.local) {
+			const before = source.substring(0, definition.local.start);
+			const line = block.startLine + 1 + this.lineOfOffset(source, definition.local.start);
+			const ch = definition.local.start - (before.lastIndexOf('\n') + 1);
+			const position = { line, ch };
+			editor.setCursor(position);
+			editor.scrollIntoView({ from: position, to: position }, true);
+			return true;
+		}
+		await this.openDefinition(definition, newLeaf);
+		return true;
 	}
 	
-	private createEndNode(line: string): ASN1StructureNode {
-		return {
-			type: 'end',
-			name: 'END',
-			content: line,
-			children: [],
-			level: 0
-		};
+	// 查找光标处名称在库中的全部引用，并在侧边栏中列出
+	async findReferences(editor: Editor) {
+		const target = this.getReferenceAtCursor(editor);
+		if (!target) return;
+		// 先用编辑器中尚未保存的内容更新索引，保证偏移与行列号准确
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (view && view.file) this.index.updateContent(view.file.path, editor.getValue());
+		
+		const { source, reference } = target;
+		const document = parseASN1(source);
+		const definition = this.definitions.find(document, reference);
+		const results = this.findDefinitionReferences(document, definition, reference.name, target.block.startLine, false);
+		
+		let leaf = this.app.workspace.getLeavesOfType(ASN1_REFERENCES_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false);
+			await leaf.setViewState({ type: ASN1_REFERENCES_VIEW_TYPE, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+		if (leaf.view instanceof ASN1ReferencesView) {
+			leaf.view.setResults(reference.name, results);
+		}
 	}
 	
-	private createFieldNode(line: string): ASN1StructureNode {
-		const cleaned = this.normalizeFieldContent(line);
-		const parts = cleaned.split(/\s+/);
-		return {
-			type: 'field',
-			name: parts[0] || '',
-			content: cleaned,
-			children: [],
-			level: 0
-		};
+	// 有模块头的定义按模块名在全库查找引用；没有模块头的定义只在其所在的代码块中查找
+	private findDefinitionReferences(document: ASN1Document, definition: ASN1Definition | undefined, name: string, fenceLine: number, includeDefinitions: boolean): ASN1ReferenceLocation[] {
+		const moduleName = definition ? this.moduleOfDefinition(document, definition) : undefined;
+		if (!definition || moduleName !== '') return this.references.findReferences(name, moduleName, includeDefinitions);
+		const scope = this.blockOfDefinition(definition, fenceLine);
+		return scope ? this.references.findBlockReferences(scope.block, name, scope.start, includeDefinitions) : [];
 	}
 	
-	private createCommentNode(line: string): ASN1StructureNode {
-		return {
-			type: 'comment',
-			name: 'comment',
-			content: line,
-			children: [],
-			level: 0
-		};
+	// 定义所在的索引代码块及定义名的偏移；fenceLine 为光标所在代码块的围栏行
+	private blockOfDefinition(definition: ASN1Definition, fenceLine: number): { block: ASN1IndexedBlock, start: number } | undefined {
+		if (definition.symbol) return { block: definition.symbol.block, start: definition.symbol.assignment.nameRange.start };
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const block = view && view.file ? this.index.getBlocks(view.file.path).find(item => item.line === fenceLine + 1) : undefined;
+		return block && definition.local ? { block, start: definition.local.start } : undefined;
 	}
 	
-	private createOtherNode(line: string): ASN1StructureNode {
-		return {
-			type: 'other',
-			name: 'other',
-			content: line,
-			children: [],
-			level: 0
-		};
+	// 定义所在的模块，用于区分不同模块中的同名定义
+	private moduleOfDefinition(document: ASN1Document, definition: ASN1Definition): string | undefined {
+		if (definition.symbol) return definition.symbol.moduleName;
+		const local = definition.local;
+		if (!local) return undefined;
+		const module = document.modules.find(item => item.start <= local.start && local.end <= item.end);
+		return module ? module.name : undefined;
 	}
 	
-	// 解析类型定义（增强版）
-	private parseTypeDefinition(line: string, lines: string[], currentIndex: number): { node: ASN1StructureNode, nextIndex: number } {
-		console.log('🔍 Parsing type definition:', line);
-		
-		// 提取类型名称
-		const typeMatch = line.match(/(\w+)\s*::=\s*(.+)/);
-		if (!typeMatch) {
-			return {
-				node: this.createOtherNode(line),
-				nextIndex: currentIndex + 1
-			};
-		}
-		
-		const [, typeName, typeDefinition] = typeMatch;
-		
-		// 检查是否为单行完整定义
-		if (this.isSingleLineStructure(line)) {
-			return {
-				node: this.parseSingleLineTypeDefinition(line, typeName, typeDefinition),
-				nextIndex: currentIndex + 1
-			};
-		}
-		
-		// 检查是否为多行结构定义
-		const structureMatch = typeDefinition.match(/(SEQUENCE|SET|CHOICE|ENUMERATED)\s*\{(.*)/);
-		if (structureMatch) {
-			return this.parseMultiLineTypeDefinition(line, typeName, structureMatch[1] as any, lines, currentIndex);
+	// 重命名光标处名称的定义及其在库中的全部引用，先预览再应用
+	renameDefinition(editor: Editor) {
+		const target = this.getReferenceAtCursor(editor);
+		if (!target) return;
+		// 先用编辑器中尚未保存的内容更新索引，保证行列号准确
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (view && view.file) this.index.updateContent(view.file.path, editor.getValue());
+		
+		const { source, reference } = target;
+		const document = parseASN1(source);
+		const definition = this.definitions.find(document, reference);
+		if (!definition) {
+			new Notice(this.i18n.t('definitionNotFound').replace('{name}', reference.name));
+			return;
 		}
-		
-		// 基本类型定义
-		return {
-			node: {
-				type: 'type-definition',
-				name: typeName,
-				content: line,
-				children: [],
-				level: 0,
-				structureType: 'PRIMITIVE'
-			},
-			nextIndex: currentIndex + 1
-		};
+		const moduleName = this.moduleOfDefinition(document, definition);
+		const locations = this.findDefinitionReferences(document, definition, reference.name, target.block.startLine, true);
+		const scope = moduleName === '' ? this.blockOfDefinition(definition, target.block.startLine) : undefined;
+		new ASN1RenameModal(this.app, {
+			validateRename: (oldName, newName) => this.validateRename(oldName, newName, moduleName, scope && scope.block),
+			applyRename: (oldName, newName, edits) => this.applyRename(oldName, newName, edits),
+			t: (key) => this.i18n.t(key)
+		}, reference.name, locations).open();
 	}
 	
-	// 解析单行类型定义
-	private parseSingleLineTypeDefinition(line: string, typeName: string, typeDefinition: string): ASN1StructureNode {
-		const structureMatch = typeDefinition.match(/(SEQUENCE|SET|CHOICE|ENUMERATED)\s*\{([^}]+)\}/);
-		if (!structureMatch) {
-			return this.createOtherNode(line);
-		}
-		
-		const [, structureType, fieldsStr] = structureMatch;
-		const fields = this.parseInlineFields(fieldsStr);
-		
-		return {
-			type: 'type-definition',
-			name: typeName,
-			content: line,
-			children: [],
-			level: 0,
-			structureType: structureType as any,
-			isInline: true,
-			fields: fields
-		};
+	// 新名称不可用时返回原因；block 为没有模块头的定义所在的代码块，只在其中检查重名
+	private validateRename(oldName: string, newName: string, moduleName?: string, block?: ASN1IndexedBlock): string | null {
+		if (!/^[A-Za-z][A-Za-z0-9]*(-[A-Za-z0-9]+)*$/.test(newName)) return this.i18n.t('renameInvalidName');
+		const isUpper = (name: string) => name[0] === name[0].toUpperCase();
+		if (isUpper(oldName) !== isUpper(newName)) return this.i18n.t('renameCaseMismatch');
+		if (ASN1_RESERVED_WORDS.has(newName)) return this.i18n.t('renameReservedWord').replace('{name}', newName);
+		const conflict = block
+			? block.document.modules.some(module => module.assignments.some(assignment => assignment.kind !== 'invalid-assignment' && assignment.name === newName))
+			: this.index.findSymbols(newName, moduleName).length > 0;
+		if (conflict) return this.i18n.t('renameConflict').replace('{name}', newName);
+		return null;
 	}
 	
-	// 解析多行类型定义
-	private parseMultiLineTypeDefinition(
-		openingLine: string, 
-		typeName: string, 
-		structureType: 'SEQUENCE' | 'SET' | 'CHOICE' | 'ENUMERATED',
-		lines: string[], 
-		currentIndex: number
-	): { node: ASN1StructureNode, nextIndex: number } {
-		const node: ASN1StructureNode = {
-			type: 'type-definition',
-			name: typeName,
-			content: openingLine,
-			children: [],
-			level: 0,
-			structureType: structureType,
-			isInline: false
-		};
-		
-		// 解析字段内容直到找到匹配的大括号
-		let braceCount = 1;
-		let i = currentIndex + 1;
-		
-		// 添加安全计数器，防止无限循环
-		let safetyCounter = 0;
-		const maxIterations = lines.length * 5; // 设置最大迭代次数
-		
-		while (i < lines.length && braceCount > 0 && safetyCounter < maxIterations) {
-			safetyCounter++;
-			const line = lines[i].trim();
-			if (!line) {
-				i++;
-				continue;
+	// 按笔记应用重命名：已在编辑器中打开的笔记直接替换编辑器内容，其它笔记修改文件
+	private async applyRename(oldName: string, newName: string, locations: ASN1ReferenceLocation[]) {
+		const byFile = new Map<string, ASN1ReferenceLocation[]>();
+		for (const location of locations) {
+			const edits = byFile.get(location.file);
+			if (edits) {
+				edits.push(location);
+			} else {
+				byFile.set(location.file, [location]);
 			}
-			
-			// 计算大括号
-			const openBraces = (line.match(/\{/g) || []).length;
-			const closeBraces = (line.match(/\}/g) || []).length;
-			braceCount += openBraces;
-			braceCount -= closeBraces;
-			
-			// 如果不是闭合大括号，且仍在结构内部，作为字段处理
-			if (braceCount > 0 || (braceCount === 0 && closeBraces > 0)) {
-				// 只有当行不是纯大括号时才作为字段处理
-				if (line !== '}' && line !== '{') {
-					let segments: string[] = [];
-					if (openBraces > 0 && closeBraces > 0 && line.includes('{') && line.includes('}')) {
-						// 同一行同时包含开闭大括号，取花括号内部内容作为字段串
-						const start = line.indexOf('{');
-						const end = line.lastIndexOf('}');
-						const inner = start >= 0 && end > start ? line.substring(start + 1, end) : line;
-						segments = this.splitTopLevelByComma(inner);
-					} else {
-						// 常规情况按顶层逗号拆分整行
-						segments = this.splitTopLevelByComma(line);
-					}
-					for (const seg of segments) {
-						if (seg.trim().length > 0) {
-							const fieldNode = this.createFieldNode(seg);
-							node.children.push(fieldNode);
+		}
+		
+		let renamed = 0;
+		let skipped = 0;
+		for (const [path, edits] of Array.from(byFile.entries())) {
+			// 从后往前替换，前面的行列号不受影响
+			const sorted = [...edits].sort((a, b) => b.line - a.line || b.column - a.column);
+			try {
+				const editor = this.findOpenEditor(path);
+				if (editor) {
+					for (const edit of sorted) {
+						if (editor.getLine(edit.line).substr(edit.column, oldName.length) !== oldName) {
+							skipped++;
+							continue;
 						}
+						editor.replaceRange(
+							newName,
+							{ line: edit.line, ch: edit.column },
+							{ line: edit.line, ch: edit.column + oldName.length }
+						);
+						renamed++;
+					}
+					continue;
+				}
+				
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) {
+					skipped += edits.length;
+					continue;
+				}
+				const lines = (await this.app.vault.read(file)).split('\n');
+				for (const edit of sorted) {
+					const line = lines[edit.line];
+					if (line === undefined || line.substr(edit.column, oldName.length) !== oldName) {
+						skipped++;
+						continue;
 					}
+					lines[edit.line] = line.substring(0, edit.column) + newName + line.substring(edit.column + oldName.length);
+					renamed++;
 				}
+				await this.app.vault.modify(file, lines.join('\n'));
+			} catch (error) {
+				console.error(`Error renaming ${oldName} in ${path}:`, error);
+				skipped += edits.length;
 			}
-			
-			// 如果大括号已平衡且遇到闭合大括号，结束解析
-			if (braceCount === 0 && closeBraces > 0) {
-				i++;
-				break;
-			}
-			
-			i++;
 		}
 		
-		// 如果达到最大迭代次数，记录警告
-		if (safetyCounter >= maxIterations) {
-			console.warn('⚠️ Safety counter reached maximum iterations in parseMultiLineTypeDefinition, preventing infinite loop');
+		new Notice(this.i18n.t('renameDone').replace('{count}', String(renamed)).replace('{old}', oldName).replace('{name}', newName));
+		if (skipped > 0) {
+			new Notice(this.i18n.t('renameSkipped').replace('{count}', String(skipped)));
 		}
-		
-		return {
-			node: node,
-			nextIndex: i
-		};
 	}
 	
-	// 解析内联字段
-	private parseInlineFields(fieldsStr: string): string[] {
-		const fields: string[] = [];
-		let current = '';
-		let braceLevel = 0;
-		let parenLevel = 0;
-		let inString = false;
-		
-		// 添加安全计数器，防止无限循环
-		let safetyCounter = 0;
-		const maxIterations = fieldsStr.length * 2; // 设置最大迭代次数
-		
-		for (let i = 0; i < fieldsStr.length && safetyCounter < maxIterations; i++, safetyCounter++) {
-			const char = fieldsStr[i];
-			
-			if (char === '"' && (i === 0 || fieldsStr[i-1] !== '\\')) {
-				inString = !inString;
-			}
-			
-			if (!inString) {
-				if (char === '{') braceLevel++;
-				else if (char === '}') braceLevel--;
-				else if (char === '(') parenLevel++;
-				else if (char === ')') parenLevel--;
-				else if (char === ',' && braceLevel === 0 && parenLevel === 0) {
-					if (current.trim()) {
-						fields.push(current.trim());
-					}
-					current = '';
-					continue;
-				}
+	// 已在编辑器中打开该笔记时返回其编辑器
+	private findOpenEditor(path: string): Editor | null {
+		for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+			if (leaf.view instanceof MarkdownView && leaf.view.file && leaf.view.file.path === path) {
+				return leaf.view.editor;
 			}
-			
-			current += char;
 		}
-		
-		// 添加最后一个字段
-		if (current.trim()) {
-			fields.push(current.trim());
+		return null;
+	}
+	
+	// 在右侧边栏打开大纲面板
+	async openOutline() {
+		let leaf = this.app.workspace.getLeavesOfType(ASN1_OUTLINE_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false);
+			await leaf.setViewState({ type: ASN1_OUTLINE_VIEW_TYPE, active: true });
 		}
-		
-		console.log('📋 Parsed inline fields:', fields);
-		return fields;
+		this.app.workspace.revealLeaf(leaf);
+		this.refreshOutline();
 	}
 	
-	// 格式化ASN.1结构
-	private formatASN1Structure(rootNode: ASN1StructureNode): string {
-		const lines: string[] = [];
-		this.formatNode(rootNode, lines, 0);
-		
-		// 清理空行并确保合适的间距
-		const cleanedLines = this.cleanupFormattedLines(lines);
-		
-		return cleanedLines.join('\n');
+	// 连续输入时合并刷新
+	private scheduleOutlineRefresh() {
+		if (this.outlineTimer) clearTimeout(this.outlineTimer);
+		this.outlineTimer = setTimeout(() => {
+			this.outlineTimer = null;
+			this.refreshOutline();
+		}, 300);
 	}
 	
-	// 格式化单个节点
-	private formatNode(node: ASN1StructureNode, lines: string[], level: number): void {
-		// 添加安全计数器，防止无限递归
-		if (level > 100) {
-			console.warn('⚠️ Maximum recursion depth reached in formatNode, preventing infinite recursion');
-			return;
-		}
-		
-		const indent = ' '.repeat(level * this.settings.indentSize);
-		
-		switch (node.type) {
-			case 'module':
-				lines.push(node.content);
-				break;
-				
-			case 'begin':
-				lines.push(indent + node.content);
-				lines.push(''); // 添加空行
-				break;
-				
-			case 'end':
-				lines.push(''); // END前添加空行
-				lines.push(indent + node.content);
-				break;
-				
-			case 'type-definition':
-				if (node.isInline && node.fields) {
-					// 处理单行定义，将其展开为多行
-					this.formatInlineTypeDefinition(node, lines, level);
-				} else {
-					// 多行定义
-					lines.push(indent + `${node.name} ::= ${node.structureType} {`);
-					// 格式化子节点（字段）
-					for (let i = 0; i < node.children.length; i++) {
-						const child = node.children[i];
-						const fieldIndent = ' '.repeat((level + 1) * this.settings.indentSize);
-						const segments = this.splitTopLevelByComma(child.content);
-						for (let s = 0; s < segments.length; s++) {
-							const seg = this.normalizeFieldContent(segments[s]);
-							const isLastOverall = (i === node.children.length - 1) && (s === segments.length - 1);
-							const comma = isLastOverall ? '' : ',';
-							lines.push(fieldIndent + seg + comma);
-						}
-					}
-					lines.push(indent + '}');
-				}
-				// 在类型定义后添加空行（用于分隔多个类型定义）
-				lines.push('');
-				break;
-				
-			case 'comment':
-				lines.push(indent + node.content);
-				break;
-				
-			default:
-				lines.push(indent + node.content);
-				break;
-		}
-		
-		// 递归格式化子节点：避免对类型定义节点的子节点重复输出
-		if (node.type !== 'type-definition') {
-			for (const child of node.children) {
-				this.formatNode(child, lines, level + 1);
-			}
-		}
+	// 渲染代码块；结果依赖索引时登记，代码块卸载时注销
+	private renderIndexDependent(el: HTMLElement, ctx: MarkdownPostProcessorContext, render: () => ASN1IndexDependencies | undefined) {
+		const dependencies = render();
+		if (!dependencies) return;
+		const dependent: ASN1IndexDependent = { el, render, ...dependencies };
+		this.indexDependents.add(dependent);
+		const child = new MarkdownRenderChild(el);
+		child.register(() => this.indexDependents.delete(dependent));
+		ctx.addChild(child);
 	}
 	
-	// 格式化内联类型定义
-	private formatInlineTypeDefinition(node: ASN1StructureNode, lines: string[], level: number): void {
-		const indent = ' '.repeat(level * this.settings.indentSize);
-		const fieldIndent = ' '.repeat((level + 1) * this.settings.indentSize);
-		
-		// 添加类型定义开头
-		lines.push(indent + `${node.name} ::= ${node.structureType} {`);
-		
-		// 添加字段
-		if (node.fields) {
-			for (let i = 0; i < node.fields.length; i++) {
-				const field = this.normalizeFieldContent(node.fields[i]);
-				const isLast = i === node.fields.length - 1;
-				const comma = isLast ? '' : ',';
-				lines.push(fieldIndent + field + comma);
-			}
+	// 连续的索引变化合并为一次重新渲染
+	private scheduleDependentRefresh(change: ASN1IndexChange) {
+		const pending = this.pendingChange;
+		if (pending) {
+			if (change.path === null) pending.path = null;
+			change.modules.forEach(name => pending.modules.add(name));
+			change.symbols.forEach(name => pending.symbols.add(name));
+		} else {
+			this.pendingChange = { path: change.path, modules: new Set(change.modules), symbols: new Set(change.symbols) };
 		}
-		
-		// 添加结束大括号
-		lines.push(indent + '}');
-		
-		// 在内联类型定义后也添加空行（用于分隔多个类型定义）
-		lines.push('');
+		if (this.dependentTimer) clearTimeout(this.dependentTimer);
+		this.dependentTimer = setTimeout(() => {
+			this.dependentTimer = null;
+			const merged = this.pendingChange;
+			this.pendingChange = null;
+			if (merged) this.refreshIndexDependents(merged);
+		}, 300);
 	}
 	
-	// 清理格式化后的行
-	private cleanupFormattedLines(lines: string[]): string[] {
-		const cleaned: string[] = [];
-		
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i];
-			const prevLine = i > 0 ? lines[i - 1] : null;
-			const nextLine = i < lines.length - 1 ? lines[i + 1] : null;
-			
-			// 跳过连续的第三个及以上空行，但保留双空行用于分隔
-			if (line === '' && prevLine === '') {
-				// 检查是否有第三个连续空行
-				if (i > 1 && lines[i - 2] === '') {
-					continue; // 跳过第三个及以上的空行
-				}
-			}
-			
-			// 跳过文件开头的空行
-			if (i === 0 && line === '') {
-				continue;
-			}
-			
-			// 跳过文件结尾的多个空行（最后允许一个空行）
-			if (i === lines.length - 1 && line === '' && prevLine === '') {
-				continue;
+	// 只重新渲染引用了变化的模块或名称的代码块；首次扫描完成（path 为 null）时全部重新渲染
+	private refreshIndexDependents(change: ASN1IndexChange) {
+		for (const dependent of Array.from(this.indexDependents)) {
+			const affected = change.path === null
+				|| Array.from(dependent.modules).some(name => change.modules.has(name))
+				|| Array.from(dependent.symbols).some(name => change.symbols.has(name));
+			if (!affected) continue;
+			try {
+				dependent.el.empty();
+				const dependencies = dependent.render();
+				dependent.modules = dependencies ? dependencies.modules : new Set();
+				dependent.symbols = dependencies ? dependencies.symbols : new Set();
+			} catch (error) {
+				console.error('Error refreshing ASN.1 block:', error);
 			}
-			
-			cleaned.push(line);
 		}
-		
-		return cleaned;
 	}
 	
-	// 降级格式化方法（出错时使用）
-	private fallbackFormat(code: string): string {
-		console.log('🆘 Using fallback formatting...');
-		
-		// 简单的行处理
-		const lines = code.split('\n');
-		const result: string[] = [];
-		let indentLevel = 0;
-		const indentStr = ' '.repeat(this.settings.indentSize);
-		
-		for (const line of lines) {
-			const trimmed = line.trim();
-			if (!trimmed) continue;
-			
-			// 减少缩进（大括号闭合）
-			if (trimmed === '}' || trimmed.startsWith('}')) {
-				indentLevel = Math.max(0, indentLevel - 1);
+	// 代码块中导入或限定引用的模块，以及未在本块中定义的名称
+	private externalReferences(ast: ASN1Document): ASN1IndexDependencies {
+		const dependencies: ASN1IndexDependencies = { modules: new Set(), symbols: new Set() };
+		const local = new Set<string>();
+		for (const module of ast.modules) {
+			module.assignments.forEach(assignment => local.add(assignment.name));
+			for (const clause of module.imports ? module.imports.clauses : []) {
+				dependencies.modules.add(clause.moduleName);
+				clause.symbols.forEach(symbol => dependencies.symbols.add(symbol.name));
 			}
-			
-			// 添加行
-			result.push(indentStr.repeat(indentLevel) + trimmed);
-			
-			// 增加缩进（大括号开启）
-			if (trimmed.includes('{') && !trimmed.includes('}')) {
-				indentLevel++;
+		}
+		walkASN1(ast, (node) => {
+			if (node.kind !== 'type-reference' && node.kind !== 'value-reference') return;
+			const reference = node as ASN1ReferenceType | ASN1ValueReference;
+			if (reference.moduleName) {
+				dependencies.modules.add(reference.moduleName);
+			} else if (!local.has(reference.name)) {
+				dependencies.symbols.add(reference.name);
 			}
+		});
+		return dependencies;
+	}
+	
+	// 库中模块本身及其导入的模块
+	private addModuleDependencies(dependencies: ASN1IndexDependencies, module: ASN1Module) {
+		if (!module.implicit) dependencies.modules.add(module.name);
+		for (const clause of module.imports ? module.imports.clauses : []) {
+			dependencies.modules.add(clause.moduleName);
 		}
-		
-		return result.join('\n');
 	}
 	
-	// 这里之前有一个重复的splitFields函数实现，已被删除
+	private hasDependencies(dependencies: ASN1IndexDependencies): boolean {
+		return dependencies.modules.size > 0 || dependencies.symbols.size > 0;
+	}
 	
-	// 强制分割字段 - 专门用于单行结构，修复缩进问题
-	private forceSplitFields(fieldsStr: string): string[] {
-		console.log('Force splitting fields:', fieldsStr);
-		
-		const fields = [];
-		let current = '';
-		let braceCount = 0;
-		let parenCount = 0;
-		let bracketCount = 0;
-		let inString = false;
-		
-		// 清理输入字符串
-		fieldsStr = fieldsStr.trim();
-		
-		const indentStr = ' '.repeat(this.settings.indentSize); // 使用用户设置的缩进
-		
-		for (let i = 0; i < fieldsStr.length; i++) {
-			const char = fieldsStr[i];
-			const prevChar = i > 0 ? fieldsStr[i - 1] : '';
+	// 渲染 asn1 代码块；返回其 IMPORTS 诊断所依赖的外部模块与名称
+	private renderCodeBlock(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext): ASN1IndexDependencies | undefined {
+		try {
+			const pre = document.createElement('pre');
+			const code = document.createElement('code');
+			code.className = 'language-asn1';
+			code.textContent = source;
+			pre.appendChild(code);
+			el.appendChild(pre);
 			
-			// 处理字符串
-			if (char === '"' && prevChar !== '\\') {
-				inString = !inString;
-			}
+			// 应用语法高亮
+			this.highlightASN1(code);
 			
-			if (!inString) {
-				// 跟踪嵌套层级
-				if (char === '{') braceCount++;
-				else if (char === '}') braceCount--;
-				else if (char === '(') parenCount++;
-				else if (char === ')') parenCount--;
-				else if (char === '[') bracketCount++;
-				else if (char === ']') bracketCount--;
-				
-				// 在最外层遇到逗号时分割
-				else if (char === ',' && braceCount === 0 && parenCount === 0 && bracketCount === 0) {
-					const fieldContent = current.trim();
-					if (fieldContent) {
-						fields.push(indentStr + fieldContent + ','); // 使用设置的缩进
-					}
-					current = '';
-					continue;
-				}
-			}
+			// 类型引用可点击跳转到定义
+			const ast = parseASN1(source);
+			this.linkTypeReferences(el, code, ast, ctx);
 			
-			current += char;
-		}
-		
-		// 添加最后一个字段（不带逗号）
-		const lastField = current.trim();
-		if (lastField) {
-			fields.push(indentStr + lastField); // 使用设置的缩进，不加逗号
-		}
-		
-		console.log('Force split fields result:', fields);
-		return fields;
-	}
-	
-	// 强制分割枚举值 - 专门用于单行枚举，修复缩进问题
-	private forceSplitEnumValues(enumValues: string): string[] {
-		console.log('Force splitting enum values:', enumValues);
-		
-		const values = [];
-		let current = '';
-		let inString = false;
-		
-		// 清理输入字符串
-		enumValues = enumValues.trim();
-		
-		const indentStr = ' '.repeat(this.settings.indentSize); // 使用用户设置的缩进
-		
-		for (let i = 0; i < enumValues.length; i++) {
-			const char = enumValues[i];
-			const prevChar = i > 0 ? enumValues[i - 1] : '';
+			// 悬停类型引用或内置类型时显示定义
+			this.attachHoverPopovers(code, ast);
 			
-			// 处理字符串
-			if (char === '"' && prevChar !== '\\') {
-				inString = !inString;
-			}
+			// 标记诊断问题并在代码块下方列出
+			this.renderDiagnostics(el, code, ast);
 			
-			if (!inString) {
-				// 在最外层遇到逗号时分割
-				if (char === ',' && !inString) {
-					const valueContent = current.trim();
-					if (valueContent) {
-						values.push(indentStr + valueContent + ','); // 使用设置的缩进
-					}
-					current = '';
-					continue;
-				}
-			}
+			// 在每个成员后标注有效标签
+			this.renderTagAnnotations(el, pre, code, ast);
 			
-			current += char;
-		}
-		
-		// 添加最后一个字段（不带逗号）
-		const lastValue = current.trim();
-		if (lastValue) {
-			values.push(indentStr + lastValue); // 使用设置的缩进，不加逗号
+			const dependencies = this.externalReferences(ast);
+			return this.hasDependencies(dependencies) ? dependencies : undefined;
+		} catch (error) {
+			console.error('Error in ASN.1 code block processor:', error);
+			return undefined;
 		}
-		
-		console.log('Force split enum values result:', values);
-		return values;
 	}
 	
-	// 包装长注释
-	private wrapComment(comment: string, level: number, indentSize: number): string[] {
-		const maxLength = this.settings.maxLineLength - (level * indentSize);
-		const prefix = '--';
-		const content = comment.substring(2).trim();
-		
-		if (content.length <= maxLength - prefix.length) {
-			return [this.indent(comment, level, indentSize)];
-		}
-		
-		const words = content.split(' ');
-		const lines = [];
-		let currentLine = prefix + ' ';
-		
-		for (const word of words) {
-			if ((currentLine + word).length <= maxLength) {
-				currentLine += word + ' ';
-			} else {
-				lines.push(this.indent(currentLine.trim(), level, indentSize));
-				currentLine = prefix + ' ' + word + ' ';
+	// 用当前笔记的内容重建大纲；焦点在侧边栏时保留上一篇笔记的大纲
+	refreshOutline() {
+		try {
+			const leaves = this.app.workspace.getLeavesOfType(ASN1_OUTLINE_VIEW_TYPE);
+			if (leaves.length === 0) return;
+			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+			if (!view || !view.file) return;
+			const path = view.file.path;
+			const content = view.editor.getValue();
+			for (const leaf of leaves) {
+				if (leaf.view instanceof ASN1OutlineView) leaf.view.setNote(path, content);
 			}
+		} catch (error) {
+			console.error('Error refreshing ASN.1 outline:', error);
 		}
-		
-		if (currentLine.trim() !== prefix) {
-			lines.push(this.indent(currentLine.trim(), level, indentSize));
-		}
-		
-		return lines;
 	}
 	
-	private preProcessLongLines(code: string): string {
-		let processed = code;
-		
-		console.log('Original input for preprocessing:', processed);
-		
-		// 1. 处理连续的类型定义（如：Type1 ::= ... Type2 ::= ...）
-		processed = processed.replace(/(\}\s*)(\w+\s*::=)/g, '$1\n$2');
-		
-		// 2. 处理模块定义后跟类型定义的情况
-		processed = processed.replace(/(BEGIN\s+)(\w+\s*::=)/g, '$1\n$2');
-		
-		// 3. 处理类型定义后跟END的情况
-		processed = processed.replace(/(\}\s*)(END\b)/g, '$1\n$2');
-		
-		// 4. 特殊处理：将单行中包含完整结构的定义强制分解
-		// 匹配形如：TypeName ::= SEQUENCE { field1 Type1, field2 Type2, ... }
-		const singleLineStructureRegex = /(\w+\s*::=\s*(?:SEQUENCE|SET|CHOICE)\s*\{)([^}]+)(\})/g;
-		processed = processed.replace(singleLineStructureRegex, (match, prefix, fields, suffix) => {
-			console.log('Found single-line structure:', { prefix, fields, suffix });
-			
-			// 强制将字段分解为单独行
-			const processedFields = this.forceSplitFields(fields);
-			
-			if (processedFields.length > 1) {
-				// 如果有多个字段，将它们分解到不同行
-				return prefix + '\n' + processedFields.join('\n') + '\n' + suffix;
-			} else {
-				// 只有一个字段或没有字段，保持原样
-				return match;
+	// 打开索引中其它代码块里的定义
+	private async openDefinition(definition: ASN1Definition, newLeaf: boolean) {
+		if (!definition.symbol) return;
+		await this.openLocation(definition.symbol.file, definition.symbol.line, definition.symbol.column, newLeaf);
+	}
+	
+	// 打开笔记并把光标移到指定位置
+	async openLocation(path: string, line: number, ch: number, newLeaf: boolean = false) {
+		try {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) {
+				console.warn('ASN.1 definition file not found:', path);
+				return;
 			}
-		});
-		
-		// 5. 处理枚举类型的单行定义
-		const enumRegex = /(\w+\s*::=\s*ENUMERATED\s*\{)([^}]+)(\})/g;
-		processed = processed.replace(enumRegex, (match, prefix, enumValues, suffix) => {
-			console.log('Found single-line enum:', { prefix, enumValues, suffix });
-			
-			const values = this.forceSplitEnumValues(enumValues);
-			if (values.length > 1) {
-				return prefix + '\n' + values.join('\n') + '\n' + suffix;
-			} else {
-				return match;
+			// eState.line 同时让阅读视图滚动到该行
+			await this.app.workspace.getLeaf(newLeaf).openFile(file, { eState: { line } });
+			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+			if (view && view.file === file) {
+				const position = { line, ch };
+				view.editor.setCursor(position);
+				view.editor.scrollIntoView({ from: position, to: position }, true);
 			}
-		});
-		
-		console.log('Preprocessed result:', processed);
-		return processed;
+		} catch (error) {
+			console.error('Error opening ASN.1 location:', error);
+		}
 	}
-	
-	// 这里之前有一个重复的forceSplitEnumValues函数实现，已被删除
 
-	// 格式化令牌
-	private formatTokens(tokens: ASN1Token[]): string {
-		const lines: string[] = [];
-		let currentLevel = 0;
-		const indentSize = this.settings.indentSize;
-		
-		for (let i = 0; i < tokens.length; i++) {
-			const token = tokens[i];
-			const nextToken = tokens[i + 1];
-			
-			switch (token.type) {
-				case 'module-definition':
-					lines.push(token.content);
-					break;
-					
-				case 'begin':
-					lines.push(this.indent(token.content, currentLevel, indentSize));
-					currentLevel++;
-					// 在BEGIN后添加空行
-					lines.push('');
-					break;
-					
-				case 'end':
-					currentLevel = Math.max(0, currentLevel - 1);
-					// 在END前添加空行
-					if (lines[lines.length - 1] !== '') {
-						lines.push('');
-					}
-					lines.push(this.indent(token.content, currentLevel, indentSize));
-					break;
-					
-				case 'type-name':
-					lines.push(this.indent(token.content, currentLevel, indentSize));
-					break;
-					
-				case 'type-definition':
-					lines.push(this.indent(token.content, currentLevel, indentSize));
-					currentLevel++;
-					break;
-					
-				case 'opening-brace':
-					lines.push(this.indent(token.content, currentLevel, indentSize));
-					currentLevel++;
-					break;
-					
-				case 'field':
-					lines.push(this.indent(token.content, currentLevel, indentSize));
-					break;
-					
-				case 'closing-brace':
-					currentLevel = Math.max(0, currentLevel - 1);
-					lines.push(this.indent(token.content, currentLevel, indentSize));
-					// 在结构定义后添加空行（除非是最后一个或下一个是END）
-					if (nextToken && nextToken.type !== 'end' && nextToken.type !== 'closing-brace') {
-						lines.push('');
-					}
-					break;
-					
-				case 'comment':
-					if (this.settings.autoWrapLongLines) {
-						const wrappedComment = this.wrapComment(token.content, currentLevel, indentSize);
-						lines.push(...wrappedComment);
-					} else {
-						lines.push(this.indent(token.content, currentLevel, indentSize));
+	// 运行诊断：在代码中标记问题范围，并在代码块下方的可折叠面板中列出
+	private renderDiagnostics(el: HTMLElement, codeElement: HTMLElement, ast: ASN1Document) {
+		try {
+			const source = ast.source;
+			const engine = new ASN1DiagnosticsEngine(this.settings.diagnosticRules, this.imports);
+			const diagnostics = engine.run(ast);
+			if (diagnostics.length === 0) return;
+			
+			this.wrapSourceRanges(codeElement, diagnostics.map(diagnostic => ({
+				start: diagnostic.start,
+				end: diagnostic.end,
+				className: `asn1-diagnostic asn1-diagnostic-${diagnostic.severity}`,
+				title: diagnostic.message
+			})));
+			
+			const panel = document.createElement('details');
+			panel.className = 'asn1-diagnostics';
+			const summary = document.createElement('summary');
+			summary.textContent = `${this.i18n.t('diagnostics')}: ${this.i18n.t('diagnosticsSummary').replace('{count}', String(diagnostics.length))}`;
+			panel.appendChild(summary);
+			
+			const list = document.createElement('ul');
+			for (const diagnostic of diagnostics) {
+				const item = document.createElement('li');
+				item.className = `asn1-diagnostic-item asn1-diagnostic-${diagnostic.severity}`;
+				const line = this.lineOfOffset(source, diagnostic.start) + 1;
+				item.textContent = `${this.i18n.t('diagnosticsLine').replace('{line}', String(line))}: ${diagnostic.message}`;
+				list.appendChild(item);
+			}
+			panel.appendChild(list);
+			el.appendChild(panel);
+		} catch (error) {
+			console.error('Error rendering ASN.1 diagnostics:', error);
+		}
+	}
+	
+	// 解码 asn1-der / asn1-ber 代码块；输入可以是十六进制、base64 或 PEM，多个 PEM 对象分别解码
+	// 围栏上的 type=Type 或 type=Module.Type 指定按库中的类型解码
+	private renderDecodedBlock(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext, der: boolean): ASN1IndexDependencies | undefined {
+		const container = el.createEl('div', { cls: 'asn1-der' });
+		const typeName = this.fenceParameter(el, ctx, 'type');
+		const schemaType = typeName ? this.schemaDecoder.findType(typeName) : undefined;
+		if (typeName && !schemaType) {
+			container.createEl('div', { text: this.i18n.t('derTypeNotFound').replace('{name}', typeName), cls: 'asn1-der-notice' });
+		}
+		// 按类型解码时依赖该类型及其所在模块
+		const dependencies = typeName ? this.typeDependencies(typeName, schemaType) : undefined;
+		let objects: ASN1EncodedObject[];
+		try {
+			objects = splitEncodedInput(source);
+		} catch (error) {
+			this.renderDecodeError(container, error);
+			return dependencies;
+		}
+		if (objects.length === 0) {
+			this.renderDecodeError(container, new ASN1DecodeError('No input', 0));
+			return dependencies;
+		}
+		for (const object of objects) {
+			const section = objects.length > 1 || object.label ? container.createEl('div', { cls: 'asn1-der-object' }) : container;
+			if (object.label) section.createEl('div', { text: object.label, cls: 'asn1-der-object-label' });
+			try {
+				const bytes = decodeEncodedObject(object);
+				const nodes = decodeTLV(bytes, { der });
+				if (schemaType) {
+					this.schemaDecoder.decode(bytes, nodes, schemaType, { der });
+					const issues = countIssues(nodes);
+					if (issues > 0) {
+						const text = this.i18n.t('derIssues').replace('{count}', String(issues)).replace('{name}', typeName!);
+						section.createEl('div', { text, cls: 'asn1-der-issue-summary' });
 					}
-					break;
-					
-				default:
-					lines.push(this.indent(token.content, currentLevel, indentSize));
-					break;
+				}
+				renderTLVTree(section, nodes, { t: (key) => this.i18n.t(key) });
+			} catch (error) {
+				this.renderDecodeError(section, error);
 			}
 		}
-		
-		return lines.filter((line, index) => {
-			// 移除连续的空行，但保留单个空行用于分隔
-			if (line === '') {
-				return index === 0 || index === lines.length - 1 || lines[index - 1] !== '';
-			}
-			return true;
-		}).join('\n');
-	}
-
-	// 辅助方法
-	private indent(content: string, level: number, size: number): string {
-		return ' '.repeat(level * size) + content;
+		return dependencies;
 	}
-
-	// 规范化单个字段内容：去除行尾逗号、压缩多余空格
-	private normalizeFieldContent(raw: string): string {
-		let s = (raw ?? '').trim();
-		// 移除行尾逗号（由格式化器统一添加）
-		s = s.replace(/,\s*$/,'');
-		// 压缩空白
-		s = s.replace(/\s+/g, ' ');
-		return s;
+	
+	private typeDependencies(spec: string, schemaType?: ASN1SchemaType): ASN1IndexDependencies {
+		const dependencies: ASN1IndexDependencies = { modules: new Set(), symbols: new Set() };
+		const dot = spec.lastIndexOf('.');
+		dependencies.symbols.add(spec.substring(dot + 1));
+		if (dot > 0) dependencies.modules.add(spec.substring(0, dot));
+		if (schemaType) this.addModuleDependencies(dependencies, schemaType.module);
+		return dependencies;
 	}
-
-	// 顶层逗号拆分（忽略括号/大括号/方括号与字符串内的逗号）
-	private splitTopLevelByComma(input: string): string[] {
-		const parts: string[] = [];
-		let current = '';
-		let brace = 0, paren = 0, bracket = 0;
-		let inString = false;
-		for (let i = 0; i < input.length; i++) {
-			const ch = input[i];
-			const prev = i > 0 ? input[i-1] : '';
-			if (ch === '"' && prev !== '\\') {
-				inString = !inString;
-			}
-			if (!inString) {
-				if (ch === '{') brace++;
-				else if (ch === '}') brace--;
-				else if (ch === '(') paren++;
-				else if (ch === ')') paren--;
-				else if (ch === '[') bracket++;
-				else if (ch === ']') bracket--;
-				else if (ch === ',' && brace === 0 && paren === 0 && bracket === 0) {
-					parts.push(this.normalizeFieldContent(current));
-					current = '';
-					continue;
+	
+	// 编码 asn1-encode 代码块中的值赋值，如 config Config ::= { timeout 30 }；类型在库中查找
+	private renderEncodedBlock(source: string, el: HTMLElement): ASN1IndexDependencies | undefined {
+		try {
+			const container = el.createEl('div', { cls: 'asn1-der asn1-encode' });
+			// 引用库中类型的 { ... } 值按该类型解析
+			const found: ASN1Module[] = [];
+			const ast = parseASN1(source, (name) => {
+				const symbol = this.index.findSymbols(name).find(item => item.kind === 'type');
+				if (symbol) found.push(symbol.module);
+				return symbol && symbol.assignment.kind === 'type-assignment' ? symbol.assignment.type : undefined;
+			});
+			let count = 0;
+			for (const module of ast.modules) {
+				for (const assignment of module.assignments) {
+					if (assignment.kind !== 'value-assignment') continue;
+					count++;
+					const section = container.createEl('div', { cls: 'asn1-der-object' });
+					section.createEl('div', { text: assignment.name, cls: 'asn1-der-object-label' });
+					const result = this.encoder.encode(ast, module, assignment);
+					if (!result.bytes) {
+						section.createEl('div', { text: this.i18n.t('encodeFailed'), cls: 'asn1-der-issue-summary' });
+						const list = section.createEl('ul', { cls: 'asn1-encode-problems' });
+						for (const problem of result.problems) {
+							const item = list.createEl('li');
+							item.createEl('code', { text: problem.path });
+							item.createEl('span', { text: ` ${problem.message}` });
+						}
+						continue;
+					}
+					const output = section.createEl('div', { cls: 'asn1-encode-output' });
+					output.createEl('span', { text: this.i18n.t('encodeHex'), cls: 'asn1-encode-label' });
+					output.createEl('code', { text: spacedHex(result.bytes) });
+					output.createEl('span', { text: this.i18n.t('encodeBase64'), cls: 'asn1-encode-label' });
+					output.createEl('code', { text: toBase64(result.bytes) });
+					if (result.omitted.length > 0) {
+						const text = this.i18n.t('encodeOmittedDefaults').replace('{names}', result.omitted.join(', '));
+						section.createEl('div', { text, cls: 'asn1-der-notice' });
+					}
+					renderByteAnnotations(section, result.bytes, result.nodes, { t: (key) => this.i18n.t(key) });
 				}
 			}
-			current += ch;
-		}
-		if (current.trim().length > 0) {
-			parts.push(this.normalizeFieldContent(current));
+			if (count === 0) {
+				const reason = ast.errors.length > 0 ? `: ${ast.errors[0].message}` : '';
+				container.createEl('div', { text: this.i18n.t('encodeNoValues') + reason, cls: 'asn1-der-notice' });
+			}
+			// 引用的类型及其所在模块变化时重新编码
+			const dependencies = this.externalReferences(ast);
+			found.forEach(module => this.addModuleDependencies(dependencies, module));
+			return this.hasDependencies(dependencies) ? dependencies : undefined;
+		} catch (error) {
+			console.error('Error encoding ASN.1 block:', error);
+			return undefined;
 		}
-		return parts;
 	}
 	
-	// 判断是否为模块定义
-	private isModuleDefinition(line: string): boolean {
-		return /^\w+\s+DEFINITIONS\s+.*::=\s+BEGIN$/.test(line);
+	// 代码块围栏行上 key=value 形式的参数
+	private fenceParameter(el: HTMLElement, ctx: MarkdownPostProcessorContext, key: string): string | undefined {
+		const section = ctx.getSectionInfo(el);
+		if (!section) return undefined;
+		const fence = section.text.split('\n')[section.lineStart] || '';
+		const match = new RegExp(`\\s${key}=(\\S+)`).exec(fence);
+		return match ? match[1] : undefined;
 	}
 	
-	// 判断是否为类型定义
-	private isTypeDefinition(line: string): boolean {
-		return /^\w+\s*::=/.test(line);
+	// 输入有误时显示出错的字节偏移
+	private renderDecodeError(container: HTMLElement, error: any) {
+		if (!(error instanceof ASN1DecodeError)) {
+			console.error('Error decoding ASN.1 block:', error);
+			return;
+		}
+		const message = container.createEl('div', { cls: 'asn1-der-error-message' });
+		const title = error.offset === undefined ? this.i18n.t('derFailed') : this.i18n.t('derErrorAt').replace('{offset}', String(error.offset));
+		message.createEl('strong', { text: title });
+		message.createEl('span', { text: `: ${error.message}` });
 	}
 	
-	// 判断是否为字段定义
-	private isFieldDefinition(line: string): boolean {
-		return /^\w+\s+\w+/.test(line) && !line.includes('::=') && !line.includes('DEFINITIONS');
+	// 在每个 SEQUENCE / SET / CHOICE 成员后插入有效标签注释，代码块上方的按钮切换显示
+	private renderTagAnnotations(el: HTMLElement, pre: HTMLElement, codeElement: HTMLElement, ast: ASN1Document) {
+		try {
+			const resolver = new ASN1TagResolver(ast);
+			const annotations: Array<{ offset: number, text: string }> = [];
+			for (const module of ast.modules) {
+				for (const assignment of module.assignments) {
+					const context = resolver.contextOf(assignment, module);
+					walkASN1(assignment, (node) => {
+						if (node.kind !== 'constructed-type') return;
+						const type = node as ASN1ConstructedType;
+						for (const entry of resolver.componentTags(type, context)) {
+							// COMPONENTS OF 引入的成员写在别处
+							if (!entry.tags || entry.component.start < type.bodyRange.start || entry.component.end > type.bodyRange.end) continue;
+							annotations.push({
+								offset: this.annotationOffset(ast.source, entry.component.end),
+								text: entry.tags.map(tag => resolver.describe(tag)).join(' | ')
+							});
+						}
+					});
+				}
+			}
+			if (annotations.length === 0) return;
+			
+			// 注释文本通过 CSS 的 attr() 显示，不改变代码元素的文本内容
+			for (const annotation of annotations.sort((a, b) => b.offset - a.offset)) {
+				const span = document.createElement('span');
+				span.className = 'asn1-tag-annotation';
+				span.setAttribute('data-tag', annotation.text);
+				this.insertAtSourceOffset(codeElement, annotation.offset, span);
+			}
+			
+			el.classList.toggle('asn1-show-tags', this.settings.showEffectiveTags);
+			const toolbar = document.createElement('div');
+			toolbar.className = 'asn1-block-toolbar';
+			const button = document.createElement('button');
+			button.className = 'asn1-tag-toggle';
+			const updateLabel = () => {
+				button.textContent = this.i18n.t(el.classList.contains('asn1-show-tags') ? 'hideEffectiveTags' : 'showEffectiveTags');
+			};
+			button.addEventListener('click', () => {
+				el.classList.toggle('asn1-show-tags');
+				updateLabel();
+			});
+			updateLabel();
+			toolbar.appendChild(button);
+			el.insertBefore(toolbar, pre);
+		} catch (error) {
+			console.error('Error rendering ASN.1 tag annotations:', error);
+		}
 	}
 	
-	// 判断是否为注释
-	private isComment(line: string): boolean {
-		return line.startsWith('--') || (line.startsWith('-*') && line.endsWith('*-'));
+	// 注释放在成员之后，紧随其后的逗号留在注释之前
+	private annotationOffset(source: string, end: number): number {
+		let offset = end;
+		while (offset < source.length && (source[offset] === ' ' || source[offset] === '\t')) offset++;
+		return source[offset] === ',' ? offset + 1 : end;
 	}
 	
-
-	
-	// 解析字段列表
-	private parseFieldList(fieldsStr: string): ASN1Token[] {
-		const tokens: ASN1Token[] = [];
-		const fields = this.splitFields(fieldsStr);
-		
-		for (const field of fields) {
-			if (field.trim()) {
-				tokens.push({ type: 'field', content: field, level: 1 });
+	// 在源码偏移处插入元素
+	private insertAtSourceOffset(codeElement: HTMLElement, offset: number, element: HTMLElement) {
+		const walker = document.createTreeWalker(codeElement, NodeFilter.SHOW_TEXT);
+		let start = 0;
+		let current = walker.nextNode() as Text | null;
+		while (current) {
+			const length = current.data.length;
+			if (offset <= start + length) {
+				const rest = current.splitText(offset - start);
+				rest.parentNode?.insertBefore(element, rest);
+				return;
 			}
+			start += length;
+			current = walker.nextNode() as Text | null;
 		}
-		
-		return tokens;
+		codeElement.appendChild(element);
 	}
-	
-	// 智能分割字段 - 改进版本，更好地处理复杂字段
-	private splitFields(fieldsStr: string): string[] {
-		console.log('Splitting fields from:', fieldsStr);
-		
-		// 移除首尾空格和可能的闭合大括号
-		fieldsStr = fieldsStr.replace(/^\s*\{\s*/, '').replace(/\s*\}\s*$/, '').trim();
-		
-		const fields = [];
-		let current = '';
-		let braceCount = 0;
-		let parenCount = 0;
-		let bracketCount = 0;
-		let inString = false;
-		
-		for (let i = 0; i < fieldsStr.length; i++) {
-			const char = fieldsStr[i];
-			const prevChar = i > 0 ? fieldsStr[i - 1] : '';
+
+	// 源码偏移所在的行号（从0开始）
+	private lineOfOffset(source: string, offset: number): number {
+		let line = 0;
+		for (let i = 0; i < offset && i < source.length; i++) {
+			if (source[i] === '\n') line++;
+		}
+		return line;
+	}
+
+	// 格式化ASN.1代码 - 增强错误处理
+	formatASN1(editor: Editor) {
+		try {
+			console.log('formatASN1 started');
+			const cursor = editor.getCursor();
+			const lineCount = editor.lineCount();
 			
-			// 处理字符串
-			if (char === '"' && prevChar !== '\\') {
-				inString = !inString;
+			if (!cursor || lineCount === 0) {
+				console.warn('Editor is empty or cursor not available');
+				return;
 			}
 			
-			if (!inString) {
-				// 跟踪嵌套层级
-				if (char === '{') braceCount++;
-				else if (char === '}') braceCount--;
-				else if (char === '(') parenCount++;
-				else if (char === ')') parenCount--;
-				else if (char === '[') bracketCount++;
-				else if (char === ']') bracketCount--;
-				
-				// 在所有嵌套都关闭的情况下，逗号是字段分隔符
-				else if (char === ',' && braceCount === 0 && parenCount === 0 && bracketCount === 0) {
-					const fieldContent = current.trim();
-					if (fieldContent) {
-						fields.push(fieldContent + ',');
+			// 查找ASN.1代码块
+			let startLine = cursor.line;
+			let endLine = cursor.line;
+			let foundStart = false;
+			
+			// 向上查找代码块开始
+			while (startLine >= 0) {
+				try {
+					const line = editor.getLine(startLine);
+					if (line && line.trim().startsWith('```asn1')) {
+						foundStart = true;
+						break;
 					}
-					current = '';
-					continue;
+				} catch (error) {
+					console.warn('Error reading line', startLine, ':', error);
+					break;
 				}
+				startLine--;
 			}
 			
-			current += char;
-		}
-		
-		// 添加最后一个字段（不带逗号）
-		const lastField = current.trim();
-		if (lastField) {
-			fields.push(lastField);
+			if (!foundStart) {
+				console.warn('ASN.1 code block start not found');
+				return;
+			}
+			
+			// 向下查找代码块结束
+			let foundEnd = false;
+			while (endLine < lineCount) {
+				try {
+					const line = editor.getLine(endLine);
+					if (line && line.trim() === '```' && endLine > startLine) {
+						foundEnd = true;
+						break;
+					}
+				} catch (error) {
+					console.warn('Error reading line', endLine, ':', error);
+					break;
+				}
+				endLine++;
+			}
+			
+			if (!foundEnd) {
+				console.warn('ASN.1 code block end not found');
+				return;
+			}
+			
+			// 提取代码块内容
+			const codeLines = [];
+			for (let i = startLine + 1; i < endLine; i++) {
+				try {
+					codeLines.push(editor.getLine(i));
+				} catch (error) {
+					console.warn('Error reading line', i, ':', error);
+					codeLines.push(''); // 添加空行以保持行号对齐
+				}
+			}
+			
+			if (codeLines.length === 0) {
+				console.warn('No content to format');
+				return;
+			}
+			
+			// 格式化代码
+			const originalCode = codeLines.join('\n');
+			console.log('Original code to format:', originalCode);
+			
+			const formattedCode = this.formatASN1Code(originalCode);
+			console.log('Formatted code result:', formattedCode);
+			
+			if (formattedCode === originalCode) {
+				console.log('Code is already formatted');
+				return;
+			}
+			
+			// 替换代码块内容
+			try {
+				// 确保格式化结果以换行符结尾，避免影响``结束标记
+				const finalFormattedCode = formattedCode.endsWith('\n') ? formattedCode : formattedCode + '\n';
+				
+				editor.replaceRange(
+					finalFormattedCode,
+					{ line: startLine + 1, ch: 0 },
+					{ line: endLine, ch: 0 }
+				);
+				console.log('Code formatted successfully');
+			} catch (error) {
+				console.error('Error replacing code content:', error);
+			}
+		} catch (error) {
+			console.error('Error in formatASN1:', error);
 		}
-		
-		console.log('Split fields result:', fields);
-		return fields;
 	}
-	
-	// 删除重复的forceSplitFields函数实现
-	
-	// 解析枚举值
-	private parseEnumValues(enumStr: string): ASN1Token[] {
-		const tokens: ASN1Token[] = [];
-		const values = this.splitEnumValues(enumStr);
+
+	// 格式化ASN.1代码的主要方法 - 基于语法树
+	formatASN1Code(code: string): string {
+		console.log('🔧 Starting ASN.1 format with code:', code);
 		
-		for (const value of values) {
-			if (value.trim()) {
-				tokens.push({ type: 'field', content: value, level: 1 });
-			}
+		if (!code || !code.trim()) {
+			return '';
 		}
 		
-		return tokens;
+		try {
+			const formatter = new ASN1Formatter({
+				indentSize: this.settings.indentSize,
+				maxLineLength: this.settings.maxLineLength,
+				autoWrapLongLines: this.settings.autoWrapLongLines
+			});
+			const result = formatter.format(code);
+			console.log('✨ Formatted result:', result);
+			return result;
+		} catch (error) {
+			console.error('❌ Error in ASN.1 formatting:', error);
+			// 降级到简单格式化
+			return this.fallbackFormat(code);
+		}
 	}
-	
-	// 分割枚举值
-	private splitEnumValues(enumStr: string): string[] {
-		const values = [];
-		let current = '';
-		let parenCount = 0;
+
+	// 解析ASN.1结构，返回带源码位置的语法树
+	parseASN1Structure(code: string): ASN1Document {
+		return parseASN1(code);
+	}
+
+	// 降级格式化方法（出错时使用）
+	private fallbackFormat(code: string): string {
+		console.log('🆘 Using fallback formatting...');
 		
-		// 添加安全计数器，防止无限循环
-		let safetyCounter = 0;
-		const maxIterations = enumStr.length * 2; // 设置最大迭代次数
+		// 简单的行处理
+		const lines = code.split('\n');
+		const result: string[] = [];
+		let indentLevel = 0;
+		const indentStr = ' '.repeat(this.settings.indentSize);
 		
-		for (let i = 0; i < enumStr.length && safetyCounter < maxIterations; i++, safetyCounter++) {
-			const char = enumStr[i];
-			
-			if (char === '(') parenCount++;
-			else if (char === ')') parenCount--;
-			else if (char === ',' && parenCount === 0) {
-				values.push(current.trim() + ',');
-				current = '';
-				continue;
+		for (const line of lines) {
+			const trimmed = line.trim();
+			if (!trimmed) continue;
+			
+			// 减少缩进（大括号闭合）
+			if (trimmed === '}' || trimmed.startsWith('}')) {
+				indentLevel = Math.max(0, indentLevel - 1);
 			}
 			
-			current += char;
-		}
-		
-		if (current.trim()) {
-			values.push(current.trim());
+			// 添加行
+			result.push(indentStr.repeat(indentLevel) + trimmed);
+			
+			// 增加缩进（大括号开启）
+			if (trimmed.includes('{') && !trimmed.includes('}')) {
+				indentLevel++;
+			}
 		}
 		
-		console.log('Force split enum values result:', values);
-		return values;
-	}
-	
-	// 增强的后处理格式化
-	private enhancedPostProcessing(code: string): string {
-		let processed = code;
-		
-		// 确保操作符周围有适当的空格
-		processed = processed.replace(/::=/g, ' ::= ');
-		processed = processed.replace(/\s+::=\s+/g, ' ::= ');
-		
-		// 处理逗号后的空格
-		processed = processed.replace(/,(\S)/g, ', $1');
-		
-		// 处理大括号的格式
-		processed = processed.replace(/\{\s+/g, '{');
-		processed = processed.replace(/\s+\}/g, '}');
-		
-		// 处理 OPTIONAL 和 DEFAULT 的格式
-		processed = processed.replace(/\s+OPTIONAL/g, ' OPTIONAL');
-		processed = processed.replace(/\s+DEFAULT/g, ' DEFAULT');
-		
-		// 处理枚举值的格式
-		processed = processed.replace(/(\w+)\s*\((\d+)\)/g, '$1($2)');
-		
-		// 处理标签的格式
-		processed = processed.replace(/\[\s*(\d+)\s*\]/g, '[$1]');
-		processed = processed.replace(/\[\s*(APPLICATION|UNIVERSAL|PRIVATE|CONTEXT)\s+(\d+)\s*\]/g, '[$1 $2]');
-		
-		// 处理 SEQUENCE OF、SET OF 的格式
-		processed = processed.replace(/SEQUENCE\s+OF/g, 'SEQUENCE OF');
-		processed = processed.replace(/SET\s+OF/g, 'SET OF');
-		
-		// 确保关键字前后有适当的空格
-		processed = processed.replace(/(\w)IMPLICIT/g, '$1 IMPLICIT');
-		processed = processed.replace(/(\w)EXPLICIT/g, '$1 EXPLICIT');
-		processed = processed.replace(/IMPLICIT(\w)/g, 'IMPLICIT $1');
-		processed = processed.replace(/EXPLICIT(\w)/g, 'EXPLICIT $1');
-		
-		// 确保大括号后面换行格式正确
-		processed = processed.replace(/\{\s*\n\s*\n/g, '{\n');
-		processed = processed.replace(/\}\s*\n\s*\n\s*(\w)/g, '}\n\n$1');
-		
-		// 在模块定义后确保有空行
-		processed = processed.replace(/(DEFINITIONS\s+.*::=\s+BEGIN)\n/g, '$1\n\n');
-		
-		// 在 END 前确保有空行
-		processed = processed.replace(/\n(\s*)END\s*$/gm, '\n\n$1END');
-		
-		return processed;
+		return result.join('\n');
 	}
 
 	// 设置全局自动格式化功能 - 全新实现
@@ -2450,13 +2566,23 @@ export default class ASN1Plugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// 新增的诊断规则使用默认值
+		this.settings.diagnosticRules = Object.assign({}, DEFAULT_SETTINGS.diagnosticRules, data?.diagnosticRules);
+		// 新增的颜色项使用默认值
+		this.settings.colors = Object.assign({}, DEFAULT_SETTINGS.colors, data?.colors);
+		this.settings.darkColors = Object.assign({}, DEFAULT_SETTINGS.darkColors, data?.darkColors);
 		// 应用自定义颜色
 		this.applyCustomColors();
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		// 缩进等格式化设置可能已变化
+		this.hoverSources = new WeakMap();
+		// 自定义关键字与颜色变化后重新着色已打开的编辑器
+		if (this.editorHighlight) this.editorHighlight.refresh();
 	}
 }
 
@@ -2484,6 +2610,8 @@ class ASN1SettingTab extends PluginSettingTab {
 				'maxLineLengthDesc': '换行前的最大行长度（40-120个字符）',
 				'autoWrapLongLines': '自动换行长行',
 				'autoWrapLongLinesDesc': '格式化时自动换行长行',
+				'showEffectiveTags': '显示有效标签',
+				'showEffectiveTagsDesc': '默认在渲染的代码块中每个成员后显示其实际编码使用的标签，也可以通过代码块上方的按钮切换',
 				'autoFormatting': '自动格式化',
 				'autoFormatOnExit': '退出时自动格式化',
 				'autoFormatOnExitDesc': '离开代码块时自动格式化 ASN.1 代码',
@@ -2492,12 +2620,33 @@ class ASN1SettingTab extends PluginSettingTab {
 				'customKeywords': '自定义关键字',
 				'customBasicTypes': '自定义基本类型',
 				'customBasicTypesDesc': '添加用于语法高亮的自定义基本类型（逗号分隔，例如 "MyType, CustomString, SpecialInt"）',
+				'customSnippets': '自定义代码片段',
+				'customSnippetsDesc': '每个片段以 "### 名称" 一行开始，其后为正文；${1:占位文本} 为按 Tab 跳转的位置，$0 为最后的光标位置',
 				'colorSettings': '颜色设置',
 				'lightThemeColors': '亮色主题颜色',
 				'darkThemeColors': '暗色主题颜色',
 				'resetColors': '重置颜色',
 				'resetColorsDesc': '将所有颜色重置为默认值',
-				'resetToDefaults': '重置为默认值'
+				'resetToDefaults': '重置为默认值',
+				'diagnostics': '诊断',
+				'diagnosticSyntaxError': '语法错误',
+				'diagnosticSyntaxErrorDesc': '报告解析器无法识别的语法',
+				'diagnosticUnbalancedBraces': '括号不匹配',
+				'diagnosticUnbalancedBracesDesc': '报告未闭合或多余的 {}、()、[]',
+				'diagnosticMissingAssignment': '缺少 ::=',
+				'diagnosticMissingAssignmentDesc': '报告缺少 ::= 的定义',
+				'diagnosticUndefinedReference': '未定义的类型引用',
+				'diagnosticUndefinedReferenceDesc': '报告代码块中既未定义也未导入的类型',
+				'diagnosticDuplicateAssignment': '重复定义',
+				'diagnosticDuplicateAssignmentDesc': '报告同一模块中名称相同的定义',
+				'diagnosticDuplicateField': '重复字段',
+				'diagnosticDuplicateFieldDesc': '报告 SEQUENCE、SET、CHOICE 中名称相同的成员',
+				'diagnosticMisplacedPresence': 'OPTIONAL/DEFAULT 位置错误',
+				'diagnosticMisplacedPresenceDesc': '报告出现在 SEQUENCE、SET 成员之外的 OPTIONAL 与 DEFAULT',
+				'diagnosticTagClash': '标签冲突',
+				'diagnosticTagClashDesc': '按模块的缺省标签方式计算有效标签，报告 CHOICE、SET 以及 SEQUENCE 连续可选成员中相同的标签',
+				'diagnosticUnresolvedImport': '无法解析的导入',
+				'diagnosticUnresolvedImportDesc': '按模块名与 OID 在库中查找 IMPORTS 的模块，报告找不到的模块以及未定义或未导出的名称'
 			};
 			return translations[key] || key;
 		};
@@ -2551,6 +2700,16 @@ class ASN1SettingTab extends PluginSettingTab {
 					this.plugin.settings.autoWrapLongLines = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName(getTranslation('showEffectiveTags'))
+			.setDesc(getTranslation('showEffectiveTagsDesc'))
+			.addToggle((toggle: any) => toggle
+				.setValue(this.plugin.settings.showEffectiveTags)
+				.onChange(async (value: boolean) => {
+					this.plugin.settings.showEffectiveTags = value;
+					await this.plugin.saveSettings();
+				}));
 		
 		// 增强自动格式化设置分组
 		(containerEl as any).createEl('h3', {text: getTranslation('autoFormatting')});
@@ -2598,6 +2757,47 @@ class ASN1SettingTab extends PluginSettingTab {
 					this.plugin.settings.customKeywords = value;
 					await this.plugin.saveSettings();
 				}));
+		
+		new Setting(containerEl)
+			.setName(getTranslation('customSnippets'))
+			.setDesc(getTranslation('customSnippetsDesc'))
+			.addTextArea(text => {
+				text.inputEl.rows = 8;
+				text.inputEl.classList.add('asn1-snippets-setting');
+				return text
+					.setPlaceholder('### version\nversion [0] Version DEFAULT ${1:v1},$0')
+					.setValue(this.plugin.settings.customSnippets)
+					.onChange(async (value: string) => {
+						this.plugin.settings.customSnippets = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// 诊断规则分组
+		(containerEl as any).createEl('h3', {text: getTranslation('diagnostics')});
+		
+		const ruleKeys: Record<ASN1DiagnosticRule, string> = {
+			'syntax-error': 'diagnosticSyntaxError',
+			'unbalanced-braces': 'diagnosticUnbalancedBraces',
+			'missing-assignment': 'diagnosticMissingAssignment',
+			'undefined-reference': 'diagnosticUndefinedReference',
+			'duplicate-assignment': 'diagnosticDuplicateAssignment',
+			'duplicate-field': 'diagnosticDuplicateField',
+			'misplaced-presence': 'diagnosticMisplacedPresence',
+			'tag-clash': 'diagnosticTagClash',
+			'unresolved-import': 'diagnosticUnresolvedImport'
+		};
+		for (const rule of ASN1_DIAGNOSTIC_RULES) {
+			new Setting(containerEl)
+				.setName(getTranslation(ruleKeys[rule]))
+				.setDesc(getTranslation(`${ruleKeys[rule]}Desc`))
+				.addToggle((toggle: any) => toggle
+					.setValue(this.plugin.settings.diagnosticRules[rule])
+					.onChange(async (value: boolean) => {
+						this.plugin.settings.diagnosticRules[rule] = value;
+						await this.plugin.saveSettings();
+					}));
+		}
 
 		// 颜色设置分组
 		(containerEl as any).createEl('h3', {text: getTranslation('colorSettings')});
@@ -2641,7 +2841,12 @@ class ASN1SettingTab extends PluginSettingTab {
 				'objectIdentifiers': '对象标识符',
 				'tags': '标签',
 				'operators': '操作符',
-				'customKeywordsColor': '自定义关键字'
+				'customKeywordsColor': '自定义关键字',
+				'typeReferences': '类型引用',
+				'componentNames': '成员名',
+				'enumIdentifiers': '枚举标识符',
+				'valueReferences': '值引用',
+				'moduleNames': '模块名'
 			};
 			return translations[key] || key;
 		};
@@ -2656,7 +2861,12 @@ class ASN1SettingTab extends PluginSettingTab {
 			{ key: 'oid', name: getTranslation('objectIdentifiers'), desc: `${getTranslation('objectIdentifiers')} (${themeDesc})` },
 			{ key: 'tag', name: getTranslation('tags'), desc: `${getTranslation('tags')} (${themeDesc})` },
 			{ key: 'operator', name: getTranslation('operators'), desc: `${getTranslation('operators')} (${themeDesc})` },
-			{ key: 'customKeyword', name: getTranslation('customKeywordsColor'), desc: `${getTranslation('customKeywordsColor')} (${themeDesc})` }
+			{ key: 'customKeyword', name: getTranslation('customKeywordsColor'), desc: `${getTranslation('customKeywordsColor')} (${themeDesc})` },
+			{ key: 'typeReference', name: getTranslation('typeReferences'), desc: `${getTranslation('typeReferences')} (${themeDesc})` },
+			{ key: 'componentName', name: getTranslation('componentNames'), desc: `${getTranslation('componentNames')} (${themeDesc})` },
+			{ key: 'enumIdentifier', name: getTranslation('enumIdentifiers'), desc: `${getTranslation('enumIdentifiers')} (${themeDesc})` },
+			{ key: 'valueReference', name: getTranslation('valueReferences'), desc: `${getTranslation('valueReferences')} (${themeDesc})` },
+			{ key: 'moduleName', name: getTranslation('moduleNames'), desc: `${getTranslation('moduleNames')} (${themeDesc})` }
 		];
 		
 		colorTypes.forEach(colorType => {
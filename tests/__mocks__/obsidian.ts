@@ -0,0 +1,34 @@
+// 测试中用到的 Obsidian API 的最小实现
+
+export class Events {
+	private handlers = new Map<string, Array<(...data: any[]) => any>>();
+
+	on(name: string, callback: (...data: any[]) => any) {
+		const list = this.handlers.get(name) || [];
+		list.push(callback);
+		this.handlers.set(name, list);
+		return { name, callback };
+	}
+
+	trigger(name: string, ...data: any[]) {
+		(this.handlers.get(name) || []).forEach(callback => callback(...data));
+	}
+}
+
+export class TAbstractFile {
+	path = '';
+	name = '';
+}
+
+export class TFile extends TAbstractFile {
+	basename = '';
+	extension = 'md';
+}
+
+export class Modal {
+	constructor(public app: any) {}
+}
+
+export class FuzzySuggestModal<T> extends Modal {
+	setPlaceholder(placeholder: string) {}
+}
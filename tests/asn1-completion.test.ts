@@ -0,0 +1,56 @@
+import { App } from 'obsidian';
+import { ASN1CompletionEngine } from '../asn1-completion';
+import { ASN1ImportResolver } from '../asn1-imports';
+import { ASN1ModuleIndex } from '../asn1-index';
+import { ASN1DefinitionFinder } from '../asn1-navigation';
+
+const index = new ASN1ModuleIndex({} as App);
+index.updateContent('pkix.md', '```asn1\nPKIX DEFINITIONS ::= BEGIN\nName ::= SEQUENCE OF UTF8String\nEND\n```');
+const imports = new ASN1ImportResolver(index);
+const engine = new ASN1CompletionEngine(index, imports, new ASN1DefinitionFinder(index, imports));
+
+// | 标记光标位置
+function complete(text: string) {
+	const offset = text.indexOf('|');
+	return engine.complete(text.replace('|', ''), offset, ['BEGIN', 'END'], []);
+}
+
+function labels(text: string): string[] {
+	return complete(text).items.map(item => item.label);
+}
+
+describe('ASN1CompletionEngine', () => {
+	it('::= 之后补全类型', () => {
+		const result = complete('A ::= BOOLEAN\nB ::= INT|');
+		expect(result.context).toBe('type');
+		expect(result.prefix).toBe('INT');
+		expect(result.items[0].label).toBe('INTEGER');
+	});
+
+	it('前面有注释时照常补全', () => {
+		expect(labels('-- a comment\nB ::= INT|')).toContain('INTEGER');
+		expect(labels('/* block */\nB ::= INT|')).toContain('INTEGER');
+		expect(labels('A ::= BOOLEAN -- inline -- \nB ::= INT|')).toContain('INTEGER');
+	});
+
+	it('注释与字符串内不补全', () => {
+		expect(complete('-- a comm|ent\nB ::= INTEGER')).toBeNull();
+		expect(complete('B ::= INTEGER -- trailing|')).toBeNull();
+		expect(complete('/* unclosed |')).toBeNull();
+		expect(complete('v UTF8String ::= "ab|c"')).toBeNull();
+	});
+
+	it('补全本块中的类型与成员位置的类型', () => {
+		expect(labels('Alpha ::= INTEGER\nB ::= SEQUENCE { a Al| }')).toContain('Alpha');
+	});
+
+	it('IMPORTS ... FROM 之后补全库中的模块', () => {
+		const result = complete('M DEFINITIONS ::= BEGIN\nIMPORTS Name FROM |\nEND');
+		expect(result.context).toBe('module');
+		expect(result.items.map(item => item.label)).toContain('PKIX');
+	});
+
+	it('DEFAULT 之后补全枚举项', () => {
+		expect(labels('E ::= ENUMERATED { red, green }\nS ::= SEQUENCE { e E DEFAULT | }')).toEqual(expect.arrayContaining(['red', 'green']));
+	});
+});
@@ -0,0 +1,58 @@
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { asn1HighlightExtension } from '../asn1-editor-extension';
+import * as highlight from '../asn1-highlight';
+
+const DOC = '# 笔记\n\n```asn1\nA ::= INTEGER\n```\n\n文字\n\n```asn1\nB ::= BOOLEAN\n```\n';
+
+function createView() {
+	const options = { keywords: ['INTEGER', 'BOOLEAN'], customKeywords: [] as string[] };
+	const highlighter = asn1HighlightExtension(() => options);
+	const view = new EditorView({ state: EditorState.create({ doc: DOC, extensions: highlighter.extension }), parent: document.body });
+	return { view, highlighter, options };
+}
+
+// 各着色范围的文本与类名
+function marks(view: EditorView): string[] {
+	return Array.from(view.contentDOM.querySelectorAll('[class^="asn1-"]')).map(el => `${el.textContent}:${el.className}`);
+}
+
+describe('asn1HighlightExtension', () => {
+	afterEach(() => jest.restoreAllMocks());
+
+	it('为 asn1 代码块着色', () => {
+		const { view } = createView();
+		expect(marks(view)).toEqual([
+			'A:asn1-type-reference', '::=:asn1-operator', 'INTEGER:asn1-keyword',
+			'B:asn1-type-reference', '::=:asn1-operator', 'BOOLEAN:asn1-keyword'
+		]);
+		view.destroy();
+	});
+
+	it('只重新着色内容变化的代码块，其余装饰随改动移动', () => {
+		const { view } = createView();
+		const classify = jest.spyOn(highlight, 'classifyASN1Source');
+
+		view.dispatch({ changes: { from: DOC.indexOf('文字'), insert: '更多' } });
+		expect(classify).not.toHaveBeenCalled();
+		expect(marks(view)).toContain('BOOLEAN:asn1-keyword');
+
+		const at = view.state.doc.toString().indexOf('INTEGER');
+		view.dispatch({ changes: { from: at, to: at + 'INTEGER'.length, insert: 'REAL' } });
+		expect(classify).toHaveBeenCalledTimes(1);
+		expect(classify.mock.calls[0][0]).toBe('A ::= REAL');
+		expect(marks(view)).toEqual([
+			'A:asn1-type-reference', '::=:asn1-operator', 'REAL:asn1-keyword',
+			'B:asn1-type-reference', '::=:asn1-operator', 'BOOLEAN:asn1-keyword'
+		]);
+		view.destroy();
+	});
+
+	it('refresh 按新的设置重新着色', () => {
+		const { view, highlighter, options } = createView();
+		options.customKeywords = ['BOOLEAN'];
+		highlighter.refresh();
+		expect(marks(view)).toContain('BOOLEAN:asn1-custom-keyword');
+		view.destroy();
+	});
+});
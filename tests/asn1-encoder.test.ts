@@ -0,0 +1,132 @@
+import { App } from 'obsidian';
+import { ASN1ValueAssignment } from '../asn1-ast';
+import { ASN1TLVNode, decodeTLV, toHex } from '../asn1-der';
+import { ASN1EncodeResult, ASN1ValueEncoder } from '../asn1-encoder';
+import { ASN1ImportResolver } from '../asn1-imports';
+import { ASN1ModuleIndex } from '../asn1-index';
+import { parseASN1 } from '../asn1-parser';
+import { ASN1SchemaDecoder } from '../asn1-schema-decoder';
+
+const TYPES = [
+	'```asn1',
+	'Explicit DEFINITIONS EXPLICIT TAGS ::= BEGIN',
+	'Extension ::= SEQUENCE { extnID OBJECT IDENTIFIER, critical BOOLEAN DEFAULT FALSE, extnValue OCTET STRING }',
+	'Version ::= INTEGER { v1(0), v2(1), v3(2) }',
+	'Pair ::= SET { flag BOOLEAN, count INTEGER, name [0] IA5String OPTIONAL }',
+	'Numbers ::= SET OF INTEGER',
+	'Flags ::= BIT STRING { read(0), write(1), execute(5) }',
+	'END',
+	'```',
+	'```asn1',
+	'Auto DEFINITIONS AUTOMATIC TAGS ::= BEGIN',
+	'Config ::= SEQUENCE { timeout INTEGER (1..60), mode Mode DEFAULT fast, name UTF8String (SIZE (1..4)) OPTIONAL, choice CHOICE { a INTEGER, b BOOLEAN } }',
+	'Mode ::= ENUMERATED { fast, slow }',
+	'END',
+	'```'
+].join('\n');
+
+const index = new ASN1ModuleIndex({} as App);
+index.updateContent('types.md', TYPES);
+const imports = new ASN1ImportResolver(index);
+const encoder = new ASN1ValueEncoder(imports);
+const decoder = new ASN1SchemaDecoder(index, imports);
+
+// 与 asn1-encode 代码块相同：引用库中类型的值按该类型解析
+function encode(source: string): ASN1EncodeResult {
+	const document = parseASN1(source, (name) => {
+		const symbol = index.findSymbols(name).find(item => item.kind === 'type');
+		return symbol && symbol.assignment.kind === 'type-assignment' ? symbol.assignment.type : undefined;
+	});
+	const module = document.modules[0];
+	return encoder.encode(document, module, module.assignments[0] as ASN1ValueAssignment);
+}
+
+function hexOf(source: string): string {
+	const result = encode(source);
+	expect(result.problems).toEqual([]);
+	return toHex(result.bytes);
+}
+
+// 按类型解码后收集所有错误与不符之处
+function decodeIssues(bytes: Uint8Array, typeName: string): string[] {
+	const nodes = decodeTLV(bytes, { der: true });
+	decoder.decode(bytes, nodes, decoder.findType(typeName), { der: true });
+	const issues: string[] = [];
+	const collect = (node: ASN1TLVNode) => {
+		if (node.error) issues.push(node.error);
+		issues.push(...(node.issues || []));
+		node.children.forEach(collect);
+	};
+	nodes.forEach(collect);
+	return issues;
+}
+
+describe('ASN1ValueEncoder', () => {
+	it('省略等于 DEFAULT 的成员', () => {
+		const result = encode('config Config ::= { timeout 30, mode fast, choice b : TRUE }');
+		expect(toHex(result.bytes)).toBe('300880011EA3038101FF');
+		expect(result.omitted).toEqual(['config.mode']);
+		expect(hexOf('ext Extension ::= { extnID { 2 5 29 19 }, critical FALSE, extnValue \'3000\'H }')).toBe('30090603551D1304023000');
+	});
+
+	it('不等于 DEFAULT 的成员照常编码', () => {
+		expect(hexOf('config Config ::= { timeout 30, mode slow, name "ab", choice a : -129 }')).toBe('301080011E81010182026162A3048002FF7F');
+	});
+
+	it('SET 的成员按标签排序', () => {
+		expect(hexOf('p Pair ::= { name "x", count 5, flag TRUE }')).toBe('310B0101FF020105A003160178');
+	});
+
+	it('SET OF 的元素按编码排序', () => {
+		expect(hexOf('n Numbers ::= { 256, 3, 1 }')).toBe('310A02010102010302020100');
+	});
+
+	it('负整数使用最短的补码', () => {
+		expect(hexOf('n INTEGER ::= -1')).toBe('0201FF');
+		expect(hexOf('n INTEGER ::= -128')).toBe('020180');
+		expect(hexOf('n INTEGER ::= -129')).toBe('0202FF7F');
+		expect(hexOf('n INTEGER ::= 128')).toBe('02020080');
+	});
+
+	it('OID 的前两个弧合并为一个子标识符', () => {
+		expect(hexOf('oid OBJECT IDENTIFIER ::= { iso member-body(2) us(840) 113549 }')).toBe('06062A864886F70D');
+		expect(hexOf('oid OBJECT IDENTIFIER ::= { 2 999 3 }')).toBe('0603883703');
+	});
+
+	it('命名位列表去掉末尾的 0 位', () => {
+		expect(hexOf('f Flags ::= { read, execute }')).toBe('03020284');
+		expect(hexOf('f Flags ::= \'0100\'B')).toBe('03020640');
+		expect(hexOf('f Flags ::= {}')).toBe('030100');
+		// 没有命名位时保留原长度
+		expect(hexOf('bits BIT STRING ::= \'1010\'B')).toBe('030204A0');
+	});
+
+	it('命名数字按其值编码', () => {
+		expect(hexOf('v Version ::= v3')).toBe('020102');
+	});
+
+	it('报告无法编码的值', () => {
+		const result = encode('config Config ::= { timeout 99, name "abcdef", extra 1 }');
+		expect(result.bytes).toBeUndefined();
+		expect(result.problems.map(problem => problem.path)).toEqual(expect.arrayContaining(['config.timeout', 'config.name']));
+		expect(encode('s PrintableString ::= "a_b"').problems).toHaveLength(1);
+	});
+
+	describe('编码结果按类型解码时没有错误', () => {
+		const cases: Array<[string, string]> = [
+			['Config', 'config Config ::= { timeout 30, mode slow, name "ab", choice a : -129 }'],
+			['Config', 'config Config ::= { timeout 1, choice b : FALSE }'],
+			['Extension', 'ext Extension ::= { extnID { 2 5 29 15 }, critical TRUE, extnValue \'03020780\'H }'],
+			['Pair', 'p Pair ::= { name "x", count -300, flag FALSE }'],
+			['Numbers', 'n Numbers ::= { 256, 3, -1, 0 }'],
+			['Flags', 'f Flags ::= { write }']
+		];
+		for (const [typeName, source] of cases) {
+			it(source, () => {
+				const result = encode(source);
+				expect(result.problems).toEqual([]);
+				expect(decodeIssues(result.bytes, typeName)).toEqual([]);
+			});
+		}
+	});
+});
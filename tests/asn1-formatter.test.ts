@@ -0,0 +1,88 @@
+import { ASN1Formatter } from '../asn1-formatter';
+import { parseASN1 } from '../asn1-parser';
+
+const formatter = new ASN1Formatter({ indentSize: 4, maxLineLength: 100, autoWrapLongLines: false });
+
+// 格式化结果中应保留的全部赋值名
+function assignmentNames(source: string): string[] {
+	return parseASN1(source).modules.reduce<string[]>((names, module) => names.concat(module.assignments.map(item => item.name)), []);
+}
+
+const SAMPLES: Record<string, string> = {
+	'完整模块': [
+		'M { iso(1) 2 } DEFINITIONS AUTOMATIC TAGS ::= BEGIN',
+		'IMPORTS Name, AlgorithmIdentifier FROM PKIX { 1 3 6 } Other FROM O;',
+		'-- 说明',
+		'T ::= SEQUENCE { a INTEGER (0..10), b [APPLICATION 2] IMPLICIT OCTET STRING OPTIONAL, ... } -- 行尾注释',
+		'C ::= CHOICE { x BOOLEAN, y SET OF INTEGER }',
+		'E ::= ENUMERATED { red(0), green(1), ... }',
+		'v T ::= { a 1 }',
+		'END'
+	].join('\n'),
+	'信息对象类': [
+		'ALGORITHM ::= CLASS { &id OBJECT IDENTIFIER UNIQUE, &Params OPTIONAL } WITH SYNTAX { IDENTIFIER &id [PARAMS &Params] }',
+		'rsa ALGORITHM ::= { IDENTIFIER { 1 2 840 113549 1 1 1 } PARAMS NULL }',
+		'Algs ALGORITHM ::= { rsa, ... }',
+		'AlgId ::= SEQUENCE { algorithm ALGORITHM.&id({Algs}), parameters ALGORITHM.&Params({Algs}{@algorithm}) OPTIONAL }'
+	].join('\n'),
+	'旧版语法与 INSTANCE OF': [
+		'AlgorithmIdentifier ::= SEQUENCE { algorithm OBJECT IDENTIFIER, parameters ANY DEFINED BY algorithm OPTIONAL }',
+		'X ::= INSTANCE OF TYPE-IDENTIFIER'
+	].join('\n'),
+	'无法解析的 IMPORTS 子句': 'M DEFINITIONS ::= BEGIN\nIMPORTS Foo FROM\nA ::= SEQUENCE { a INTEGER }\nB ::= BOOLEAN\nEND',
+	'缺少 FROM 的 IMPORTS': 'IMPORTS Foo, Bar\nA ::= INTEGER',
+	'多余的 END': 'A ::= INTEGER\nEND\nB ::= BOOLEAN'
+};
+
+describe('ASN1Formatter', () => {
+	for (const [name, source] of Object.entries(SAMPLES)) {
+		describe(name, () => {
+			const formatted = formatter.format(source);
+
+			it('格式化是幂等的', () => {
+				expect(formatter.format(formatted)).toBe(formatted);
+			});
+
+			it('不丢失赋值', () => {
+				expect(assignmentNames(formatted)).toEqual(assignmentNames(source));
+			});
+		});
+	}
+
+	it('按缩进展开 SEQUENCE 并保留注释', () => {
+		expect(formatter.format(SAMPLES['完整模块'])).toContain([
+			'-- 说明',
+			'T ::= SEQUENCE {',
+			'    a INTEGER (0..10),',
+			'    b [APPLICATION 2] IMPLICIT OCTET STRING OPTIONAL,',
+			'    ...',
+			'} -- 行尾注释'
+		].join('\n'));
+	});
+
+	it('无法解析的 IMPORTS 子句原样输出，不补分号', () => {
+		const formatted = formatter.format(SAMPLES['无法解析的 IMPORTS 子句']);
+		expect(formatted).toContain('IMPORTS\n    Foo FROM\n');
+		expect(formatted).not.toContain('IMPORTS;');
+		expect(formatted).toContain('A ::= SEQUENCE {\n    a INTEGER\n}');
+		expect(formatted).toContain('B ::= BOOLEAN');
+	});
+
+	it('缺少 FROM 的导入符号不被删除', () => {
+		const formatted = formatter.format(SAMPLES['缺少 FROM 的 IMPORTS']);
+		expect(formatted).toContain('Foo, Bar');
+		expect(formatted).toContain('A ::= INTEGER');
+	});
+
+	it('多余的 END 原样保留', () => {
+		const formatted = formatter.format(SAMPLES['多余的 END']);
+		expect(formatted.split('\n')).toContain('END');
+		expect(formatted).toContain('B ::= BOOLEAN');
+	});
+
+	it('输出 ANY DEFINED BY 与 INSTANCE OF', () => {
+		const formatted = formatter.format(SAMPLES['旧版语法与 INSTANCE OF']);
+		expect(formatted).toContain('    parameters ANY DEFINED BY algorithm OPTIONAL');
+		expect(formatted).toContain('X ::= INSTANCE OF TYPE-IDENTIFIER');
+	});
+});
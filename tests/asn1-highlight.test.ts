@@ -0,0 +1,84 @@
+import { ASN1HighlightRange, classifyASN1Source, classifyASN1Tokens } from '../asn1-highlight';
+
+const OPTIONS = { keywords: ['INTEGER', 'SEQUENCE', 'OPTIONAL'], customKeywords: ['mykeyword'] };
+
+// 各着色范围的文本与类名
+function show(source: string, ranges: ASN1HighlightRange[]): string[] {
+	return ranges.map(range => `${source.substring(range.start, range.end)}:${range.className}`);
+}
+
+describe('classifyASN1Tokens', () => {
+	it('按令牌分类，注释与字符串中的内容不再着色', () => {
+		const source = 'A ::= INTEGER -- INTEGER "x"\nb UTF8String ::= "-- INTEGER" ...';
+		expect(show(source, classifyASN1Tokens(source, OPTIONS))).toEqual([
+			'::=:asn1-operator',
+			'INTEGER:asn1-keyword',
+			'-- INTEGER "x":asn1-comment',
+			'UTF8String:asn1-keyword',
+			'::=:asn1-operator',
+			'"-- INTEGER":asn1-string',
+			'...:asn1-operator'
+		]);
+	});
+
+	it('标签、数字 OID 与自定义关键字整体着色', () => {
+		const source = 'id ::= { 1 2 840 } t [APPLICATION 5] IMPLICIT MyKeyword 42';
+		expect(show(source, classifyASN1Tokens(source, OPTIONS))).toEqual([
+			'::=:asn1-operator',
+			'{ 1 2 840 }:asn1-oid',
+			'[APPLICATION 5] IMPLICIT:asn1-tag',
+			'MyKeyword:asn1-custom-keyword',
+			'42:asn1-number'
+		]);
+	});
+});
+
+describe('classifyASN1Source', () => {
+	it('语义分类：模块名、类型与值引用、成员名与枚举项', () => {
+		const source = [
+			'M DEFINITIONS ::= BEGIN',
+			'IMPORTS Name, id-x FROM Other;',
+			'T ::= SEQUENCE { name Name OPTIONAL, color ENUMERATED { red, green } }',
+			'v T ::= { name Other.n, color red }',
+			'END'
+		].join('\n');
+		const ranges = show(source, classifyASN1Source(source, OPTIONS));
+		expect(ranges).toEqual(expect.arrayContaining([
+			'M:asn1-module-name',
+			'Other:asn1-module-name',
+			'Name:asn1-type-reference',
+			'id-x:asn1-value-reference',
+			'T:asn1-type-reference',
+			'name:asn1-component-name',
+			'red:asn1-enum-identifier',
+			'v:asn1-value-reference',
+			'n:asn1-value-reference'
+		]));
+		// 词法范围优先，结果互不重叠
+		expect(ranges).toContain('SEQUENCE:asn1-keyword');
+		const sorted = classifyASN1Source(source, OPTIONS);
+		sorted.forEach((range, i) => {
+			if (i > 0) expect(range.start).toBeGreaterThanOrEqual(sorted[i - 1].end);
+		});
+	});
+
+	it('结构分类：形参、信息对象类、字段引用与范围上下界', () => {
+		const source = [
+			'ALGORITHM ::= CLASS { &id OBJECT IDENTIFIER UNIQUE }',
+			'Algs ALGORITHM ::= { ... }',
+			'Id { ALGORITHM:Set } ::= SEQUENCE { id ALGORITHM.&id({Set}) }',
+			'Bounded { INTEGER:ub } ::= INTEGER (0..ub)',
+			'Small ::= INTEGER (MIN..10)'
+		].join('\n');
+		const ranges = show(source, classifyASN1Source(source, OPTIONS));
+		expect(ranges).toEqual(expect.arrayContaining([
+			'ALGORITHM:asn1-class',
+			'Algs:asn1-object-set',
+			'&id:asn1-field-reference',
+			'Set:asn1-parameter',
+			'ub:asn1-range-bound asn1-parameter',
+			'MIN:asn1-range-limit',
+			'10:asn1-range-bound'
+		]));
+	});
+});
@@ -0,0 +1,64 @@
+import { ASN1DiagnosticsEngine } from '../asn1-diagnostics';
+import { ASN1ImportResolver } from '../asn1-imports';
+import { parseASN1 } from '../asn1-parser';
+import { createIndex, fence } from './vault';
+
+const PKIX = [
+	'PKIX { iso(1) 5 } DEFINITIONS ::= BEGIN',
+	'EXPORTS Name, Alias;',
+	'IMPORTS Base FROM Core;',
+	'Name ::= UTF8String',
+	'Alias ::= Base',
+	'Hidden ::= INTEGER',
+	'END'
+].join('\n');
+const CORE = 'Core DEFINITIONS ::= BEGIN\nBase ::= OCTET STRING\nStray ::= BOOLEAN\nEND';
+
+async function createResolver() {
+	return new ASN1ImportResolver(await createIndex({ 'pkix.md': fence(PKIX), 'core.md': fence(CORE) }));
+}
+
+function importMessages(resolver: ASN1ImportResolver, source: string): string[] {
+	return new ASN1DiagnosticsEngine({ 'unresolved-import': true }, resolver).run(parseASN1(source))
+		.filter(diagnostic => diagnostic.rule === 'unresolved-import')
+		.map(diagnostic => diagnostic.message);
+}
+
+describe('ASN1ImportResolver', () => {
+	it('沿 IMPORTS 找到定义，包括模块再导入的名称', async () => {
+		const resolver = await createResolver();
+		const module = parseASN1('App DEFINITIONS ::= BEGIN\nIMPORTS Name, Base FROM PKIX;\nEND').modules[0];
+		expect(resolver.lookupDefinition('Name', module)!.module.name).toBe('PKIX');
+		expect(resolver.lookupDefinition('Base', module)!.module.name).toBe('Core');
+	});
+
+	it('有模块头的模块不会找到未导入的定义', async () => {
+		const resolver = await createResolver();
+		const module = parseASN1('App DEFINITIONS ::= BEGIN\nIMPORTS Name FROM PKIX;\nEND').modules[0];
+		expect(resolver.lookupDefinition('Stray', module)).toBeUndefined();
+	});
+
+	it('无模块头的代码片段在整个库中按名称查找', async () => {
+		const resolver = await createResolver();
+		const module = parseASN1('X ::= Stray').modules[0];
+		expect(resolver.lookupDefinition('Stray', module)!.module.name).toBe('Core');
+	});
+
+	it('报告缺失的模块、未定义与未导出的名称', async () => {
+		const resolver = await createResolver();
+		const source = 'App DEFINITIONS ::= BEGIN\nIMPORTS Name, Hidden, Missing FROM PKIX Other FROM Nowhere;\nEND';
+		expect(importMessages(resolver, source)).toEqual([
+			"'Hidden' is not exported by module 'PKIX'",
+			"'Missing' is not defined in module 'PKIX'",
+			"Module 'Nowhere' was not found in the vault"
+		]);
+	});
+
+	it('FROM 后的 OID 与库中模块不一致时提示', async () => {
+		const resolver = await createResolver();
+		expect(importMessages(resolver, 'App DEFINITIONS ::= BEGIN\nIMPORTS Name FROM PKIX { iso(1) 5 };\nEND')).toEqual([]);
+		expect(importMessages(resolver, 'App DEFINITIONS ::= BEGIN\nIMPORTS Name FROM PKIX { iso(1) 6 };\nEND')).toEqual([
+			"Module 'PKIX' in the vault has a different object identifier"
+		]);
+	});
+});
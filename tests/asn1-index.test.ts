@@ -0,0 +1,79 @@
+import { ASN1IndexChange, ASN1ModuleIndex, extractASN1Blocks } from '../asn1-index';
+import { createVault, fence } from './vault';
+
+const PKIX = 'PKIX DEFINITIONS ::= BEGIN\nName ::= UTF8String\nVersion ::= INTEGER\nEND';
+const APP = 'App DEFINITIONS ::= BEGIN\nIMPORTS Name FROM PKIX;\nUser ::= SEQUENCE { name Name }\nEND';
+
+// 扫描完成的索引及其后触发的全部变化
+async function watchIndex(contents: Record<string, string>) {
+	const { app, file } = createVault(contents);
+	const index = new ASN1ModuleIndex(app);
+	const changes: ASN1IndexChange[] = [];
+	index.on('changed', (change: ASN1IndexChange) => changes.push(change));
+	await index.rebuild();
+	return { index, file, changes };
+}
+
+describe('extractASN1Blocks', () => {
+	it('提取 asn1 代码块及其起始行', () => {
+		const blocks = extractASN1Blocks('# 标题\n\n' + fence('A ::= INTEGER') + '\n```js\nx\n```\n' + fence('B ::= BOOLEAN'));
+		expect(blocks.map(item => item.source)).toEqual(['A ::= INTEGER', 'B ::= BOOLEAN']);
+		expect(blocks[0].line).toBe(3);
+	});
+});
+
+describe('ASN1ModuleIndex', () => {
+	it('首次扫描后索引模块与定义，并以 path 为 null 通知一次', async () => {
+		const { index, changes } = await watchIndex({ 'pkix.md': fence(PKIX), 'app.md': fence(APP) });
+		expect(index.ready).toBe(true);
+		expect(index.findModules('PKIX')[0].file).toBe('pkix.md');
+		expect(index.findSymbols('User')[0].file).toBe('app.md');
+		expect(changes).toHaveLength(1);
+		expect(changes[0].path).toBeNull();
+	});
+
+	it('定义的位置为笔记中的行和列', async () => {
+		const { index } = await watchIndex({ 'pkix.md': '前言\n\n' + fence(PKIX.replace('Version ::=', '  Version ::=')) });
+		const version = index.findSymbols('Version')[0];
+		expect(version.line).toBe(5);
+		expect(version.column).toBe(2);
+		expect(index.findModules('PKIX')[0].line).toBe(3);
+	});
+
+	it('修改后只替换该笔记的条目，并报告变化前后的名称', async () => {
+		const contents = { 'pkix.md': fence(PKIX), 'app.md': fence(APP) };
+		const { index, file, changes } = await watchIndex(contents);
+		contents['pkix.md'] = fence('PKIX DEFINITIONS ::= BEGIN\nName ::= UTF8String\nSerial ::= INTEGER\nEND');
+		await index.updateFile(file('pkix.md'));
+
+		expect(index.findSymbols('Version')).toHaveLength(0);
+		expect(index.findSymbols('Serial')[0].file).toBe('pkix.md');
+		expect(index.findSymbols('User')[0].file).toBe('app.md');
+		const change = changes[changes.length - 1];
+		expect(change.path).toBe('pkix.md');
+		expect(Array.from(change.modules)).toEqual(['PKIX']);
+		expect(Array.from(change.symbols).sort()).toEqual(['Name', 'Serial', 'Version']);
+	});
+
+	it('代码块只是移动了位置时更新行号但不触发变化', async () => {
+		const contents = { 'pkix.md': fence(PKIX) };
+		const { index, file, changes } = await watchIndex(contents);
+		contents['pkix.md'] = '新增一段\n\n' + fence(PKIX);
+		await index.updateFile(file('pkix.md'));
+
+		expect(changes).toHaveLength(1);
+		expect(index.findSymbols('Name')[0].line).toBe(4);
+	});
+
+	it('删除与重命名笔记', async () => {
+		const { index, file, changes } = await watchIndex({ 'pkix.md': fence(PKIX), 'app.md': fence(APP) });
+		index.renameFile(file('x509.md'), 'pkix.md');
+		expect(index.findModules('PKIX')[0].file).toBe('x509.md');
+		expect(index.getBlocks('pkix.md')).toHaveLength(0);
+
+		index.removeFile('x509.md');
+		expect(index.findModules('PKIX')).toHaveLength(0);
+		expect(index.findSymbols('Name')).toHaveLength(0);
+		expect(changes[changes.length - 1].modules.has('PKIX')).toBe(true);
+	});
+});
@@ -0,0 +1,87 @@
+import { ASN1ImportResolver } from '../asn1-imports';
+import { ASN1DefinitionFinder, ASN1ReferenceFinder, ASN1ReferenceLocation, referenceAtOffset } from '../asn1-navigation';
+import { parseASN1 } from '../asn1-parser';
+import { createIndex, fence } from './vault';
+
+const PKIX = 'PKIX DEFINITIONS ::= BEGIN\nName ::= UTF8String\nStray ::= BOOLEAN\nEND';
+
+async function createFinder() {
+	const index = await createIndex({ 'pkix.md': fence(PKIX) });
+	return new ASN1DefinitionFinder(index, new ASN1ImportResolver(index));
+}
+
+// | 标记光标位置
+function definitionAt(finder: ASN1DefinitionFinder, text: string) {
+	const source = text.replace('|', '');
+	const reference = referenceAtOffset(source, text.indexOf('|'));
+	return reference ? finder.find(parseASN1(source), reference) : undefined;
+}
+
+describe('referenceAtOffset', () => {
+	it('光标在名称中或末尾时取出名称及模块前缀', () => {
+		expect(referenceAtOffset('A ::= PKIX.Name', 13)).toMatchObject({ name: 'Name', moduleName: 'PKIX', start: 11 });
+		expect(referenceAtOffset('A ::= Name', 10)).toMatchObject({ name: 'Name' });
+		expect(referenceAtOffset('A ::= Name', 4)).toBeUndefined();
+	});
+});
+
+describe('ASN1DefinitionFinder', () => {
+	it('优先使用同一代码块中的定义', async () => {
+		const finder = await createFinder();
+		const definition = definitionAt(finder, 'Name ::= INTEGER\nA ::= Na|me');
+		expect(definition!.local).toMatchObject({ start: 0, end: 4 });
+	});
+
+	it('沿 IMPORTS 或模块前缀找到库中的定义', async () => {
+		const finder = await createFinder();
+		const imported = definitionAt(finder, 'App DEFINITIONS ::= BEGIN\nIMPORTS Name FROM PKIX;\nA ::= Na|me\nEND');
+		expect(imported!.symbol).toMatchObject({ file: 'pkix.md', moduleName: 'PKIX', line: 2 });
+		const qualified = definitionAt(finder, 'A ::= PKIX.Na|me');
+		expect(qualified!.symbol).toMatchObject({ file: 'pkix.md', name: 'Name' });
+	});
+
+	it('只有无模块头的代码片段按名称在整个库中查找', async () => {
+		const finder = await createFinder();
+		expect(definitionAt(finder, 'A ::= Str|ay')!.symbol).toMatchObject({ moduleName: 'PKIX' });
+		expect(definitionAt(finder, 'App DEFINITIONS ::= BEGIN\nA ::= Str|ay\nEND')).toBeUndefined();
+	});
+});
+
+const APP = [
+	'App DEFINITIONS ::= BEGIN',
+	'IMPORTS Name FROM PKIX;',
+	'User ::= SEQUENCE { name Name, alias PKIX.Name, note UTF8String -- Name in a comment',
+	'}',
+	'END'
+].join('\n');
+const LOCAL = 'LocalNames DEFINITIONS ::= BEGIN\nName ::= INTEGER\nUse ::= Name\nEND';
+
+// 每处引用显示为 文件:行:列 类型
+function locations(results: ASN1ReferenceLocation[]): string[] {
+	return results.map(location => `${location.file}:${location.line}:${location.column} ${location.kind}`);
+}
+
+describe('ASN1ReferenceFinder', () => {
+	it('按定义所在模块查找引用，跳过注释与其它模块的同名定义', async () => {
+		const index = await createIndex({ 'pkix.md': fence(PKIX), 'app.md': fence(APP), 'local.md': fence(LOCAL) });
+		const finder = new ASN1ReferenceFinder(index, new ASN1ImportResolver(index));
+		expect(locations(finder.findReferences('Name', 'PKIX', true))).toEqual([
+			'app.md:2:8 import',
+			'app.md:3:25 reference',
+			'app.md:3:42 reference',
+			'pkix.md:2:0 definition'
+		]);
+		expect(locations(finder.findReferences('Name', 'LocalNames'))).toEqual(['local.md:3:8 reference']);
+	});
+
+	it('无模块头的定义只在所在代码块中查找', async () => {
+		const snippet = 'Name ::= INTEGER\nUse ::= Name';
+		const index = await createIndex({ 'a.md': fence(snippet) + '\n' + fence('Other ::= Name'), 'pkix.md': fence(PKIX) });
+		const finder = new ASN1ReferenceFinder(index, new ASN1ImportResolver(index));
+		const block = index.getBlocks('a.md')[0];
+		expect(locations(finder.findBlockReferences(block, 'Name', 0, true))).toEqual([
+			'a.md:1:0 definition',
+			'a.md:2:8 reference'
+		]);
+	});
+});
@@ -0,0 +1,77 @@
+import { ASN1BuiltinType, ASN1ConstructedType, ASN1InstanceOfType, ASN1TypeAssignment } from '../asn1-ast';
+import { parseASN1 } from '../asn1-parser';
+
+function typeOf(source: string, name: string) {
+	for (const module of parseASN1(source).modules) {
+		const assignment = module.assignments.find(item => item.name === name);
+		if (assignment) return (assignment as ASN1TypeAssignment).type;
+	}
+	throw new Error(`${name} not found`);
+}
+
+describe('parseASN1', () => {
+	it('解析模块头、标签方式与各类赋值', () => {
+		const document = parseASN1([
+			'M { 1 2 3 } DEFINITIONS AUTOMATIC TAGS ::= BEGIN',
+			'T ::= SEQUENCE { a INTEGER, b BOOLEAN OPTIONAL }',
+			'v T ::= { a 1 }',
+			'END'
+		].join('\n'));
+		expect(document.errors).toEqual([]);
+		const module = document.modules[0];
+		expect(module.name).toBe('M');
+		expect(module.tagDefault).toBe('AUTOMATIC');
+		expect(module.assignments.map(item => [item.kind, item.name])).toEqual([
+			['type-assignment', 'T'],
+			['value-assignment', 'v']
+		]);
+	});
+
+	it('IMPORTS 子句无法解析时保留原文，后面的赋值照常解析', () => {
+		const document = parseASN1('M DEFINITIONS ::= BEGIN\nIMPORTS Foo FROM\nA ::= SEQUENCE { a INTEGER }\nB ::= BOOLEAN\nEND');
+		const module = document.modules[0];
+		expect(document.errors.length).toBeGreaterThan(0);
+		expect(module.imports.clauses).toEqual([]);
+		expect(module.imports.invalidClause.kind).toBe('invalid-import-clause');
+		expect(document.source.substring(module.imports.invalidClause.start, module.imports.invalidClause.end)).toBe('Foo FROM');
+		expect(module.assignments.map(item => item.name)).toEqual(['A', 'B']);
+	});
+
+	it('缺少 FROM 的 IMPORTS 不吞掉后面的赋值', () => {
+		const document = parseASN1('IMPORTS Foo, Bar\nA ::= INTEGER');
+		const module = document.modules[0];
+		expect(document.source.substring(module.imports.invalidClause.start, module.imports.invalidClause.end)).toBe('Foo, Bar');
+		expect(module.assignments.map(item => item.name)).toEqual(['A']);
+	});
+
+	it('没有模块头时多余的 END 记为无效赋值', () => {
+		const document = parseASN1('A ::= INTEGER\nEND\nB ::= BOOLEAN');
+		expect(document.modules.map(module => module.assignments.map(item => item.kind))).toEqual([
+			['type-assignment', 'invalid-assignment'],
+			['type-assignment']
+		]);
+		expect(document.errors.map(error => error.message)).toContain('END without a matching module definition');
+	});
+
+	it('ANY DEFINED BY 解析为类型', () => {
+		const source = 'AlgorithmIdentifier ::= SEQUENCE { algorithm OBJECT IDENTIFIER, parameters ANY DEFINED BY algorithm OPTIONAL }';
+		const document = parseASN1(source);
+		expect(document.errors).toEqual([]);
+		const parameters = (typeOf(source, 'AlgorithmIdentifier') as ASN1ConstructedType).components[1];
+		const type = (parameters as { type: ASN1BuiltinType }).type;
+		expect(type.kind).toBe('builtin-type');
+		expect(type.name).toBe('ANY');
+		expect(type.definedBy).toBe('algorithm');
+		expect(source.substring(type.definedByRange.start, type.definedByRange.end)).toBe('algorithm');
+		expect((typeOf('X ::= ANY', 'X') as ASN1BuiltinType).definedBy).toBeUndefined();
+	});
+
+	it('INSTANCE OF 解析为类型', () => {
+		const source = 'X ::= INSTANCE OF TYPE-IDENTIFIER';
+		expect(parseASN1(source).errors).toEqual([]);
+		const type = typeOf(source, 'X') as ASN1InstanceOfType;
+		expect(type.kind).toBe('instance-of-type');
+		expect(type.className).toBe('TYPE-IDENTIFIER');
+		expect((typeOf('Y ::= INSTANCE OF MY-CLASS ({Objects})', 'Y') as ASN1InstanceOfType).constraints).toHaveLength(1);
+	});
+});
@@ -0,0 +1,64 @@
+import { ASN1TLVNode, decodeTLV, parseHexInput } from '../asn1-der';
+import { ASN1ImportResolver } from '../asn1-imports';
+import { ASN1SchemaDecoder } from '../asn1-schema-decoder';
+import { createIndex, fence } from './vault';
+
+const RECORDS = [
+	'Records DEFINITIONS IMPLICIT TAGS ::= BEGIN',
+	'Record ::= SEQUENCE { id INTEGER, name [0] UTF8String OPTIONAL, kind Kind, flag BOOLEAN DEFAULT FALSE }',
+	'Kind ::= ENUMERATED { a, b }',
+	'END'
+].join('\n');
+
+async function createDecoder() {
+	const index = await createIndex({ 'records.md': fence(RECORDS) });
+	return new ASN1SchemaDecoder(index, new ASN1ImportResolver(index));
+}
+
+// 每个节点一行：成员名、类型名、值与问题，成员缩进两格
+function outline(nodes: ASN1TLVNode[], depth = 0): string[] {
+	return nodes.reduce<string[]>((lines, node) => lines.concat(
+		`${'  '.repeat(depth)}${node.name || '-'} ${node.typeName || '?'}${node.value !== undefined ? ` ${node.value}` : ''}${(node.issues || []).map(issue => ` !${issue}`).join('')}`,
+		outline(node.children, depth + 1)
+	), []);
+}
+
+async function decodeAs(spec: string, hex: string): Promise<string[]> {
+	const decoder = await createDecoder();
+	const type = decoder.findType(spec);
+	const bytes = parseHexInput(hex);
+	const nodes = decodeTLV(bytes, { der: true });
+	decoder.decode(bytes, nodes, type!, { der: true });
+	return outline(nodes);
+}
+
+describe('ASN1SchemaDecoder', () => {
+	it('按名称或 Module.Type 查找类型', async () => {
+		const decoder = await createDecoder();
+		expect(decoder.findType('Record')!.assignment.name).toBe('Record');
+		expect(decoder.findType('Records.Kind')!.module.name).toBe('Records');
+		expect(decoder.findType('Missing')).toBeUndefined();
+	});
+
+	it('标注成员名与类型，隐式标签按成员类型解码', async () => {
+		expect(await decodeAs('Record', '30 0A 02 01 05 80 02 68 69 0A 01 01')).toEqual([
+			'- Record',
+			'  id INTEGER 5',
+			'  name UTF8String hi',
+			'  kind Kind b (1)'
+		]);
+	});
+
+	it('报告与类型定义不符之处', async () => {
+		expect(await decodeAs('Record', '30 03 0A 01 00 05 00')).toEqual([
+			"- Record !Missing mandatory component 'id'",
+			'  kind Kind a (0)',
+			'- ? NULL !Unexpected data after the value'
+		]);
+		expect(await decodeAs('Record', '30 06 02 01 01 0C 01 61')).toEqual([
+			"- Record !Missing mandatory component 'kind'",
+			'  id INTEGER 1',
+			'  - ? a !Unexpected element UTF8String in SEQUENCE'
+		]);
+	});
+});
@@ -0,0 +1,45 @@
+import { ASN1_BUILTIN_SNIPPETS, expandSnippet, parseCustomSnippets, snippetPreview } from '../asn1-snippets';
+
+describe('expandSnippet', () => {
+	it('占位符展开为默认文本，按编号排列跳转位置，$0 在最后', () => {
+		const { text, stops } = expandSnippet('${2:b} ${1:a}$0 $3', '', '  ');
+		expect(text).toBe('b a ');
+		expect(stops).toEqual([
+			{ index: 1, start: 2, end: 3 },
+			{ index: 2, start: 0, end: 1 },
+			{ index: 3, start: 4, end: 4 },
+			{ index: 0, start: 3, end: 3 }
+		]);
+	});
+
+	it('第二行起加上缩进，\\t 替换为缩进单位，空行不加缩进', () => {
+		const { text, stops } = expandSnippet('A ::= SEQUENCE {\n\t${1:x} INTEGER\n\n}', '    ', '  ');
+		expect(text).toBe('A ::= SEQUENCE {\n      x INTEGER\n\n    }');
+		expect(text.substring(stops[0].start, stops[0].end)).toBe('x');
+		// 没有 $0 时跳到末尾
+		expect(stops[1]).toEqual({ index: 0, start: text.length, end: text.length });
+	});
+
+	it('同一编号只有第一次出现的位置参与跳转，\\$ 为字面量', () => {
+		const { text, stops } = expandSnippet('${1:T} \\$1 $1', '', '\t');
+		expect(text).toBe('T $1 ');
+		expect(stops.filter(stop => stop.index === 1)).toHaveLength(1);
+	});
+
+	it('内置片段都能展开', () => {
+		for (const snippet of ASN1_BUILTIN_SNIPPETS) {
+			expect(snippetPreview(snippet)).not.toContain('$');
+		}
+		expect(snippetPreview(ASN1_BUILTIN_SNIPPETS[0])).toBe('ModuleName DEFINITIONS AUTOMATIC TAGS ::= BEGIN');
+	});
+});
+
+describe('parseCustomSnippets', () => {
+	it('以 ### 名称 开头的行开始一个片段，忽略空片段和首个标题前的内容', () => {
+		const snippets = parseCustomSnippets('前言\n### bits\n\n${1:Flags} ::= BIT STRING\n\n### empty\n\n###   version   \nVersion ::= INTEGER\n');
+		expect(snippets).toEqual([
+			{ name: 'bits', body: '${1:Flags} ::= BIT STRING', custom: true },
+			{ name: 'version', body: 'Version ::= INTEGER', custom: true }
+		]);
+	});
+});
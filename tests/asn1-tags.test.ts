@@ -0,0 +1,95 @@
+import { ASN1ConstructedType, ASN1Document, ASN1TypeAssignment } from '../asn1-ast';
+import { parseASN1 } from '../asn1-parser';
+import { ASN1TagResolver } from '../asn1-tags';
+
+const BODY = [
+	'T ::= SEQUENCE {',
+	'  a INTEGER,',
+	'  b [1] BOOLEAN,',
+	'  c [2] IMPLICIT OCTET STRING,',
+	'  d [3] EXPLICIT NULL,',
+	'  e [4] C,',
+	'  f C,',
+	'  g I',
+	'}',
+	'C ::= CHOICE { x [0] INTEGER, y UTF8String }',
+	'I ::= [APPLICATION 5] INTEGER',
+	'U ::= SEQUENCE { a INTEGER, b C, ..., c BOOLEAN }',
+	'K ::= SEQUENCE { a [7] INTEGER, b BOOLEAN }'
+].join('\n');
+
+function moduleWith(tagDefault: string): ASN1Document {
+	const header = tagDefault ? `M DEFINITIONS ${tagDefault} TAGS ::= BEGIN` : 'M DEFINITIONS ::= BEGIN';
+	return parseASN1(`${header}\n${BODY}\nEND`);
+}
+
+// 各成员的有效标签，如 a: [CONTEXT 0] IMPLICIT
+function describeComponents(document: ASN1Document, name: string): string[] {
+	const resolver = new ASN1TagResolver(document);
+	const module = document.modules[0];
+	const assignment = module.assignments.find(item => item.name === name) as ASN1TypeAssignment;
+	const context = resolver.contextOf(assignment, module);
+	return resolver.componentTags(assignment.type as ASN1ConstructedType, context).map(entry =>
+		`${entry.component.name}: ${entry.tags ? entry.tags.map(tag => resolver.describe(tag)).join(' | ') : '?'}`);
+}
+
+describe('ASN1TagResolver', () => {
+	it('EXPLICIT TAGS：未注明方式的标签为显式', () => {
+		const expected = [
+			'a: [UNIVERSAL 2]',
+			'b: [CONTEXT 1] EXPLICIT',
+			'c: [CONTEXT 2] IMPLICIT',
+			'd: [CONTEXT 3] EXPLICIT',
+			'e: [CONTEXT 4] EXPLICIT',
+			'f: [CONTEXT 0] EXPLICIT | [UNIVERSAL 12]',
+			'g: [APPLICATION 5] EXPLICIT'
+		];
+		expect(describeComponents(moduleWith('EXPLICIT'), 'T')).toEqual(expected);
+		// 未写标签方式时缺省为 EXPLICIT
+		expect(describeComponents(moduleWith(''), 'T')).toEqual(expected);
+	});
+
+	it('IMPLICIT TAGS：CHOICE 等未加标签的类型仍然显式', () => {
+		expect(describeComponents(moduleWith('IMPLICIT'), 'T')).toEqual([
+			'a: [UNIVERSAL 2]',
+			'b: [CONTEXT 1] IMPLICIT',
+			'c: [CONTEXT 2] IMPLICIT',
+			'd: [CONTEXT 3] EXPLICIT',
+			'e: [CONTEXT 4] EXPLICIT',
+			'f: [CONTEXT 0] IMPLICIT | [UNIVERSAL 12]',
+			'g: [APPLICATION 5] IMPLICIT'
+		]);
+	});
+
+	it('AUTOMATIC TAGS：依次分配上下文标签，扩展附加项排在根成员之后', () => {
+		expect(describeComponents(moduleWith('AUTOMATIC'), 'U')).toEqual([
+			'a: [CONTEXT 0] IMPLICIT',
+			'b: [CONTEXT 1] EXPLICIT',
+			'c: [CONTEXT 2] IMPLICIT'
+		]);
+	});
+
+	it('AUTOMATIC TAGS：根成员已有标签时不再自动分配', () => {
+		expect(describeComponents(moduleWith('AUTOMATIC'), 'K')).toEqual([
+			'a: [CONTEXT 7] IMPLICIT',
+			'b: [UNIVERSAL 1]'
+		]);
+	});
+
+	it('IMPLICIT TAGS：ANY 加标签时仍然显式', () => {
+		const document = parseASN1('M DEFINITIONS IMPLICIT TAGS ::= BEGIN\nA ::= SEQUENCE { a [0] ANY, b [1] ANY DEFINED BY id, id OBJECT IDENTIFIER }\nEND');
+		expect(describeComponents(document, 'A')).toEqual([
+			'a: [CONTEXT 0] EXPLICIT',
+			'b: [CONTEXT 1] EXPLICIT',
+			'id: [UNIVERSAL 6]'
+		]);
+	});
+
+	it('INSTANCE OF 使用 EXTERNAL 的标签', () => {
+		const document = parseASN1('X ::= INSTANCE OF TYPE-IDENTIFIER');
+		const resolver = new ASN1TagResolver(document);
+		const module = document.modules[0];
+		const assignment = module.assignments[0] as ASN1TypeAssignment;
+		expect(resolver.outermostTags(assignment.type, resolver.contextOf(assignment, module))).toEqual([{ tagClass: 'UNIVERSAL', number: '8' }]);
+	});
+});
@@ -0,0 +1,5 @@
+import '@testing-library/jest-dom';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom 没有提供 TextEncoder / TextDecoder，字符串的编解码需要
+Object.assign(global, { TextEncoder, TextDecoder });
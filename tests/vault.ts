@@ -0,0 +1,26 @@
+import { App, TFile } from 'obsidian';
+import { ASN1ModuleIndex } from '../asn1-index';
+
+// 以路径到笔记内容的映射模拟库
+export function createVault(contents: Record<string, string>) {
+	const file = (path: string) => Object.assign(new TFile(), { path, name: path, basename: path.replace(/\.md$/, '') });
+	const app = {
+		vault: {
+			getMarkdownFiles: () => Object.keys(contents).map(file),
+			cachedRead: async (target: TFile) => contents[target.path]
+		}
+	} as unknown as App;
+	return { app, file };
+}
+
+// 扫描完成的索引
+export async function createIndex(contents: Record<string, string>): Promise<ASN1ModuleIndex> {
+	const index = new ASN1ModuleIndex(createVault(contents).app);
+	await index.rebuild();
+	return index;
+}
+
+// 包在 asn1 代码块中的源码
+export function fence(source: string): string {
+	return '```asn1\n' + source + '\n```\n';
+}
@@ -2,6 +2,36 @@
 declare module 'obsidian' {
   export interface App {
     workspace: Workspace;
+    vault: Vault;
+  }
+
+  export class Events {
+    on(name: string, callback: (...data: any) => any, ctx?: any): EventRef;
+    off(name: string, callback: (...data: any) => any): void;
+    offref(ref: EventRef): void;
+    trigger(name: string, ...data: any[]): void;
+  }
+
+  export abstract class TAbstractFile {
+    path: string;
+    name: string;
+  }
+
+  export class TFile extends TAbstractFile {
+    basename: string;
+    extension: string;
+  }
+
+  export interface Vault {
+    getMarkdownFiles(): TFile[];
+    getAbstractFileByPath(path: string): TAbstractFile | null;
+    read(file: TFile): Promise<string>;
+    cachedRead(file: TFile): Promise<string>;
+    modify(file: TFile, data: string): Promise<void>;
+    on(name: 'create', callback: (file: TAbstractFile) => any): EventRef;
+    on(name: 'modify', callback: (file: TAbstractFile) => any): EventRef;
+    on(name: 'delete', callback: (file: TAbstractFile) => any): EventRef;
+    on(name: 'rename', callback: (file: TAbstractFile, oldPath: string) => any): EventRef;
   }
 
   export interface Workspace {
@@ -11,14 +41,102 @@ declare module 'obsidian' {
     on(name: 'active-leaf-change', callback: () => any): EventRef;
     offref(ref: EventRef): void;
     getActiveViewOfType<T extends View>(type: new (...args: any[]) => T): T | null;
+    onLayoutReady(callback: () => any): void;
+    getLeaf(newLeaf?: boolean): WorkspaceLeaf;
+    getLeavesOfType(viewType: string): WorkspaceLeaf[];
+    getRightLeaf(split: boolean): WorkspaceLeaf;
+    revealLeaf(leaf: WorkspaceLeaf): void;
+    detachLeavesOfType(viewType: string): void;
+  }
+
+  export interface WorkspaceLeaf {
+    view: View;
+    openFile(file: TFile, openState?: { eState?: any }): Promise<void>;
+    setViewState(viewState: { type: string, active?: boolean }): Promise<void>;
+  }
+
+  export abstract class ItemView implements View {
+    app: App;
+    leaf: WorkspaceLeaf;
+    containerEl: HTMLElement;
+    contentEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf);
+    abstract getViewType(): string;
+    abstract getDisplayText(): string;
+    getIcon(): string;
+    onOpen(): Promise<void>;
+    onClose(): Promise<void>;
+  }
+
+  export class Modal {
+    app: App;
+    containerEl: HTMLElement;
+    titleEl: HTMLElement;
+    contentEl: HTMLElement;
+
+    constructor(app: App);
+    open(): void;
+    close(): void;
+    onOpen(): void;
+    onClose(): void;
+  }
+
+  export interface EditorSuggestTriggerInfo {
+    start: EditorPosition;
+    end: EditorPosition;
+    query: string;
+  }
+
+  export interface EditorSuggestContext extends EditorSuggestTriggerInfo {
+    editor: Editor;
+    file: TFile;
+  }
+
+  export abstract class EditorSuggest<T> {
+    app: App;
+    context: EditorSuggestContext | null;
+    limit: number;
+
+    constructor(app: App);
+    close(): void;
+    abstract onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null;
+    abstract getSuggestions(context: EditorSuggestContext): T[] | Promise<T[]>;
+    abstract renderSuggestion(value: T, el: HTMLElement): void;
+    abstract selectSuggestion(value: T, evt: MouseEvent | KeyboardEvent): void;
+  }
+
+  export function setIcon(parent: HTMLElement, iconId: string): void;
+
+  export abstract class FuzzySuggestModal<T> extends Modal {
+    setPlaceholder(placeholder: string): void;
+    abstract getItems(): T[];
+    abstract getItemText(item: T): string;
+    abstract onChooseItem(item: T, evt: MouseEvent | KeyboardEvent): void;
+  }
+
+  export class Notice {
+    constructor(message: string, timeout?: number);
   }
 
   export interface View {
     // 基础视图接口
   }
 
-  export interface MarkdownView extends View {
+  export class MarkdownView implements View {
     editor: Editor;
+    file: TFile | null;
+  }
+
+  export class Component {
+    register(callback: () => void): void;
+    onunload(): void;
+  }
+
+  // 随所在代码块卸载的组件
+  export class MarkdownRenderChild extends Component {
+    containerEl: HTMLElement;
+    constructor(containerEl: HTMLElement);
   }
 
   export abstract class Plugin {
@@ -32,6 +150,10 @@ declare module 'obsidian' {
     
     register(callback: () => void): void;
     registerEvent(ref: EventRef): void;
+    registerView(type: string, viewCreator: (leaf: WorkspaceLeaf) => View): void;
+    registerEditorSuggest(editorSuggest: EditorSuggest<any>): void;
+    registerEditorExtension(extension: import('@codemirror/state').Extension): void;
+    registerDomEvent<K extends keyof DocumentEventMap>(el: Document, type: K, callback: (ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
     registerMarkdownCodeBlockProcessor(
       language: string, 
       processor: (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => void
@@ -68,6 +190,10 @@ declare module 'obsidian' {
     replaceRange(replacement: string, from: EditorPosition, to: EditorPosition): void;
     getValue(): string;
     setValue(content: string): void;
+    scrollIntoView(range: { from: EditorPosition, to: EditorPosition }, center?: boolean): void;
+    setSelection(anchor: EditorPosition, head?: EditorPosition): void;
+    posToOffset(pos: EditorPosition): number;
+    offsetToPos(offset: number): EditorPosition;
   }
 
   export interface EditorPosition {
@@ -76,7 +202,9 @@ declare module 'obsidian' {
   }
 
   export interface MarkdownPostProcessorContext {
+    sourcePath: string;
     getSectionInfo(el: HTMLElement): any;
+    addChild(child: MarkdownRenderChild): void;
   }
 
   export interface EventRef {
@@ -103,9 +231,18 @@ declare module 'obsidian' {
     addButton(callback: (button: ButtonComponent) => ButtonComponent): this;
     addColorPicker(callback: (colorPicker: ColorComponent) => ColorComponent): this;
     addText(callback: (text: TextComponent) => TextComponent): this;
+    addTextArea(callback: (text: TextAreaComponent) => TextAreaComponent): this;
+  }
+
+  export interface TextAreaComponent {
+    inputEl: HTMLTextAreaElement;
+    setPlaceholder(placeholder: string): this;
+    setValue(value: string): this;
+    onChange(callback: (value: string) => any): this;
   }
 
   export interface TextComponent {
+    inputEl: HTMLInputElement;
     setPlaceholder(placeholder: string): this;
     setValue(value: string): this;
     onChange(callback: (value: string) => any): this;
@@ -126,6 +263,7 @@ declare module 'obsidian' {
   export interface ButtonComponent {
     setButtonText(text: string): this;
     setCta(): this;
+    setDisabled(disabled: boolean): this;
     onClick(callback: () => any): this;
   }
   
@@ -160,4 +298,4 @@ declare module 'codemirror' {
 
 declare module 'codemirror/mode/clike/clike' {
   // C-like模式声明
-}
\ No newline at end of file
+}